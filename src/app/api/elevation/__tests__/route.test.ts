@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { ELEVATION_CONSTANTS, getElevation } from '@/lib/api/elevation';
+import { createMemoryCacheStore, setServerCacheStore } from '@/lib/utils/server-cache';
+
+jest.mock('@/lib/api/elevation', () => ({
+  ...jest.requireActual('@/lib/api/elevation'),
+  getElevation: jest.fn(),
+}));
+
+const mockGetElevation = getElevation as jest.MockedFunction<typeof getElevation>;
+
+const post = (body: unknown) => POST(new NextRequest('http://localhost/api/elevation', {
+  method: 'POST',
+  body: JSON.stringify(body),
+}));
+
+describe('POST /api/elevation', () => {
+  const coordinates = [{ lat: 46.5, lng: 8.0 }, { lat: 46.51, lng: 8.01 }];
+
+  beforeEach(() => {
+    setServerCacheStore(createMemoryCacheStore());
+    mockGetElevation.mockImplementation(async points => points.map(() => 1500));
+  });
+
+  afterEach(() => {
+    setServerCacheStore(null);
+  });
+
+  it('should look up elevations', async () => {
+    const response = await post({ coordinates });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ elevations: [1500, 1500] });
+    expect(mockGetElevation).toHaveBeenCalledWith(coordinates, expect.anything());
+  });
+
+  it('should answer cached elevations without a lookup', async () => {
+    await post({ coordinates });
+    mockGetElevation.mockClear();
+
+    const response = await post({ coordinates: [coordinates[1], { lat: 46.52, lng: 8.02 }] });
+
+    expect(await response.json()).toEqual({ elevations: [1500, 1500] });
+    expect(mockGetElevation).toHaveBeenCalledWith([{ lat: 46.52, lng: 8.02 }], expect.anything());
+  });
+
+  it('should pass on gaps in the provider data without caching them', async () => {
+    mockGetElevation.mockResolvedValueOnce([1500, null as unknown as number]);
+    await post({ coordinates });
+    mockGetElevation.mockClear();
+
+    await post({ coordinates });
+
+    expect(mockGetElevation).toHaveBeenCalledWith([coordinates[1]], expect.anything());
+  });
+
+  it('should reject invalid coordinates', async () => {
+    for (const body of [{}, { coordinates: 'here' }, { coordinates: [{ lat: 91, lng: 8 }] }]) {
+      const response = await post(body);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid coordinates provided' });
+    }
+    expect(mockGetElevation).not.toHaveBeenCalled();
+  });
+
+  it('should reject more coordinates than the limit', async () => {
+    const tooMany = Array.from({ length: ELEVATION_CONSTANTS.PROXY_MAX_COORDINATES + 1 }, (_, i) => ({ lat: 46, lng: 8 + i * 0.001 }));
+
+    const response = await post({ coordinates: tooMany });
+
+    expect(response.status).toBe(400);
+    expect(mockGetElevation).not.toHaveBeenCalled();
+  });
+
+  it('should answer 502 when the provider fails', async () => {
+    mockGetElevation.mockRejectedValue(new Error('Open-Meteo unavailable'));
+
+    const response = await post({ coordinates });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Failed to fetch elevation data' });
+  });
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getElevation, getElevationCacheKey, getElevationProvider, ELEVATION_CONSTANTS } from '@/lib/api/elevation';
+import { isCoordinate } from '@/lib/utils/data-proxy';
+import { getServerCacheStore } from '@/lib/utils/server-cache';
+
+// How long elevations are kept; terrain does not change
+const CACHE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Elevation proxy: looks up elevations with the server's elevation provider and caches
+ * them for all users
+ * POST /api/elevation { coordinates }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { coordinates } = body;
+
+    // Validate required parameters
+    if (
+      !Array.isArray(coordinates)
+      || coordinates.length > ELEVATION_CONSTANTS.PROXY_MAX_COORDINATES
+      || !coordinates.every(isCoordinate)
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid coordinates provided' },
+        { status: 400 }
+      );
+    }
+
+    const store = getServerCacheStore();
+    const provider = getElevationProvider();
+    const keys = coordinates.map(coordinate => `elevation:${getElevationCacheKey(provider, coordinate)}`);
+    const elevations = await Promise.all(keys.map(key => store.get<number>(key)));
+
+    const missing = elevations.flatMap((elevation, index) => (elevation === undefined ? [index] : []));
+    if (missing.length > 0) {
+      const fetched = await getElevation(missing.map(index => coordinates[index]), request.signal);
+      await Promise.all(missing.map(async (keyIndex, index) => {
+        elevations[keyIndex] = fetched[index];
+        // Gaps in the provider's data are passed on uncached
+        if (typeof fetched[index] === 'number') await store.set(keys[keyIndex], fetched[index], CACHE_TTL);
+      }));
+    }
+
+    return NextResponse.json({ elevations });
+
+  } catch (error) {
+    console.error('Elevation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch elevation data' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { fetchTrailData } from '@/lib/api/trails';
+import { createMemoryCacheStore, setServerCacheStore } from '@/lib/utils/server-cache';
+
+jest.mock('@/lib/api/trails', () => ({
+  ...jest.requireActual('@/lib/api/trails'),
+  fetchTrailData: jest.fn(),
+}));
+
+const mockFetchTrailData = fetchTrailData as jest.MockedFunction<typeof fetchTrailData>;
+
+const post = (body: unknown) => POST(new NextRequest('http://localhost/api/trails', {
+  method: 'POST',
+  body: JSON.stringify(body),
+}));
+
+describe('POST /api/trails', () => {
+  const start = { lat: 46.5, lng: 8.0 };
+
+  beforeEach(() => {
+    setServerCacheStore(createMemoryCacheStore());
+    mockFetchTrailData.mockResolvedValue({
+      trails: [],
+      bbox: { minLat: 46.48, maxLat: 46.52, minLng: 7.97, maxLng: 8.08 },
+      cacheTime: 0,
+    });
+  });
+
+  afterEach(() => {
+    setServerCacheStore(null);
+  });
+
+  it('should fetch and cache the trail network', async () => {
+    const body = { start, end: { lat: 46.5, lng: 8.05 } };
+
+    const response = await post(body);
+    await post(body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ trails: [] });
+    expect(mockFetchTrailData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept the widest round trip', async () => {
+    const response = await post({ start, end: start, paddingKm: 50 });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject routes longer than the limit without fetching', async () => {
+    const response = await post({ start, end: { lat: 47.5, lng: 8.0 } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Requested area is too large' });
+    expect(mockFetchTrailData).not.toHaveBeenCalled();
+  });
+
+  it('should reject bounding boxes larger than the limit without fetching', async () => {
+    const response = await post({ start, end: { lat: 46.9, lng: 8.55 }, paddingKm: 50 });
+
+    expect(response.status).toBe(400);
+    expect(mockFetchTrailData).not.toHaveBeenCalled();
+  });
+
+  it('should reject padding above the limit', async () => {
+    const response = await post({ start, end: start, paddingKm: 51 });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid padding provided' });
+  });
+});
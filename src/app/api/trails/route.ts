@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  calculateBoundingBox,
+  DEFAULT_TRAIL_QUERY,
+  fetchTrailData,
+  getCacheKey,
+  getTrailQueryKey,
+  TRAIL_BBOX_PADDING_KM,
+  TrailNetwork,
+  TrailQueryFilter
+} from '@/lib/api/trails';
+import { getTrailCacheTtl } from '@/lib/api/trail-tiles';
+import { OverpassError } from '@/lib/api/overpass';
+import { calculateDistance } from '@/lib/utils';
+import { isCoordinate } from '@/lib/utils/data-proxy';
+import { getServerCacheStore } from '@/lib/utils/server-cache';
+
+// Widest padding accepted, enough for round trips of about 200 km
+const MAX_PADDING_KM = 50;
+// Longest straight line between start and end fetched in one request
+const MAX_ROUTE_KM = 100;
+// Largest bounding box fetched in one request, with room for the widest round trip (100 × 100 km)
+const MAX_AREA_KM2 = 12_000;
+
+/**
+ * Trail data proxy: fetches trail networks from the Overpass endpoints and caches them
+ * for all users
+ * POST /api/trails { start, end, paddingKm?, filter? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { start, end, paddingKm = TRAIL_BBOX_PADDING_KM } = body;
+    const filter: TrailQueryFilter = body.filter ?? DEFAULT_TRAIL_QUERY;
+
+    // Validate required parameters
+    if (!isCoordinate(start) || !isCoordinate(end)) {
+      return NextResponse.json(
+        { error: 'Invalid coordinates provided' },
+        { status: 400 }
+      );
+    }
+    if (typeof paddingKm !== 'number' || !(paddingKm > 0 && paddingKm <= MAX_PADDING_KM)) {
+      return NextResponse.json(
+        { error: 'Invalid padding provided' },
+        { status: 400 }
+      );
+    }
+    // Every request fans out to the Overpass endpoints and is held in memory and the cache
+    const bbox = calculateBoundingBox(start, end, paddingKm);
+    if (calculateDistance(start, end) > MAX_ROUTE_KM || getBoundingBoxAreaKm2(bbox) > MAX_AREA_KM2) {
+      return NextResponse.json(
+        { error: 'Requested area is too large' },
+        { status: 400 }
+      );
+    }
+    // Filter values end up in the Overpass query
+    if (!isTrailQueryFilter(filter)) {
+      return NextResponse.json(
+        { error: 'Invalid trail filter provided' },
+        { status: 400 }
+      );
+    }
+
+    const store = getServerCacheStore();
+    const key = `trails:${getCacheKey(bbox)}:${getTrailQueryKey(filter)}`;
+    const cached = await store.get<TrailNetwork>(key);
+    if (cached) {
+      return NextResponse.json(cached);
+    }
+
+    // The spatial index is a Map, which JSON cannot carry; clients rebuild it
+    const network: TrailNetwork = { ...await fetchTrailData(start, end, paddingKm, request.signal, filter), spatialIndex: undefined };
+    await store.set(key, network, getTrailCacheTtl());
+    return NextResponse.json(network);
+
+  } catch (error) {
+    if (error instanceof OverpassError) {
+      return NextResponse.json(
+        { error: error.message, kind: error.kind, status: error.status },
+        { status: 502 }
+      );
+    }
+    console.error('Trails API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Approximate area of a bounding box in km²
+ */
+function getBoundingBoxAreaKm2(bbox: ReturnType<typeof calculateBoundingBox>): number {
+  const latKm = (bbox.maxLat - bbox.minLat) * 111;
+  const lngKm = (bbox.maxLng - bbox.minLng) * 111 * Math.cos((bbox.minLat + bbox.maxLat) / 2 * Math.PI / 180);
+  return latKm * lngKm;
+}
+
+/**
+ * Check that a request value is a trail filter of OSM tag values
+ */
+function isTrailQueryFilter(value: unknown): value is TrailQueryFilter {
+  const isTagValues = (values: unknown) =>
+    Array.isArray(values) && values.length > 0 && values.every(tag => typeof tag === 'string' && /^[a-z_]+$/.test(tag));
+  const { highways, pisteTypes } = (value ?? {}) as Partial<TrailQueryFilter>;
+  return isTagValues(highways) && (pisteTypes === undefined || isTagValues(pisteTypes));
+}
@@ -1,96 +1,395 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { Header } from '@/components/layouts/header';
 import { EnhancedRouteInputForm } from '@/components/forms/enhanced-route-input-form';
 import { ElevationChart } from '@/components/ui/elevation-chart';
 import { RouteMap } from '@/components/ui/route-map';
 import { RouteSummaryCard } from '@/components/ui/semantic/route-summary-card';
 import { AuthModal } from '@/components/auth/auth-modal';
-import { Coordinate, Route } from '@/types/route';
-import { DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
-import { findOptimalRoute } from '@/lib/algorithms/pathfinding';
-import { calculateDistance, calculateElevationGain } from '@/lib/utils';
+import { RouteVariantSelector, RouteVariantSummary } from '@/components/ui/semantic/route-variant-selector';
+import { DegradedRouteNotice } from '@/components/ui/semantic/degraded-route-notice';
+import { AvalancheTerrainReport } from '@/components/ui/semantic/avalanche-terrain-report';
+import { Coordinate, Route, RoutePoint } from '@/types/route';
+import { ActivityId, AvoidArea, AvoidAreaMode, CostModelId, DEFAULT_PATHFINDING_OPTIONS, LoopTarget, PathfindingDiagnostics, PathfindingOptions, PathfindingProgress, SacScale } from '@/types/pathfinding';
+import { useAuth } from '@/contexts/auth-context';
+import { getGradeLimitPreferences, getUserPreferences, updateUserPreferences } from '@/lib/database/preferences';
+import { createPathfindingClient, PathfindingClient } from '@/lib/algorithms/pathfinding/worker/pathfinding-client';
+import { ALTERNATIVE_CONSTANTS } from '@/lib/algorithms/pathfinding/alternative-routes';
+import { LOOP_CONSTANTS } from '@/lib/algorithms/pathfinding/loop-generator';
+import { estimateTravelTime } from '@/lib/algorithms/pathfinding/activity-profiles';
+import { combineSacScaleReports, getSacScaleDifficulty } from '@/lib/algorithms/pathfinding/sac-scale';
+import { combineWaymarkedRouteSections } from '@/lib/algorithms/pathfinding/waymarked-routes';
+import { isOverpassError } from '@/lib/api/overpass';
+import { calculatePathDistance, calculateElevationGain } from '@/lib/utils';
 import { debounce, pathfindingRateLimiter } from '@/lib/utils/rate-limiter';
 import { UI_TEXT } from '@/constants/ui-text';
 import { STYLES } from '@/constants/styles';
 
+/**
+ * Selectable variants of the current route, such as alternatives or round-trip loops
+ */
+interface RouteVariants {
+  title: string;
+  routeName: string;
+  points: RoutePoint[][];
+  summaries: RouteVariantSummary[];
+  trailExtras: TrailExtras[];
+  /** Diagnostics of each variant, empty for variants without them */
+  diagnostics: PathfindingDiagnostics[][];
+}
+
+/**
+ * What a planned route follows: its hardest SAC-graded trail and the waymarked routes along it
+ */
+type TrailExtras = Pick<Route, 'sacScale' | 'waymarkedRoutes'>;
+
+/**
+ * Trail extras of a planned route, leaving out those it has none of
+ */
+function getTrailExtras(route: TrailExtras): TrailExtras {
+  return {
+    ...(route.sacScale && { sacScale: route.sacScale }),
+    ...(route.waymarkedRoutes && { waymarkedRoutes: route.waymarkedRoutes }),
+  };
+}
+
+/**
+ * Difficulty rating from distance and elevation gain, for routes on no SAC-graded trail
+ */
+function getDifficulty(distance: number, elevationGain: number): Route['difficulty'] {
+  const difficultyScore = distance + (elevationGain / 100);
+  if (difficultyScore < 5) return 'easy';
+  if (difficultyScore < 15) return 'moderate';
+  if (difficultyScore < 25) return 'hard';
+  return 'extreme';
+}
+
+/**
+ * Estimated hiking time in hours
+ */
+function estimateTime(distance: number, elevationGain: number): number {
+  // Use realistic hiking speeds: 4-5 km/h on flat terrain
+  const baseTime = distance / 4.5; // 4.5 km/h base speed
+  // Add time for elevation gain: Naismith's rule (10 minutes per 100m elevation)
+  const elevationTime = elevationGain / 600; // 600m per hour climbing rate
+  return Math.round(baseTime + elevationTime);
+}
+
+/**
+ * Build a displayable route from planned route points; the time of activities
+ * other than hiking comes from their speed curves, and the difficulty of routes
+ * with a SAC report from their hardest trail grade
+ */
+function buildRoute(
+  start: Coordinate,
+  end: Coordinate,
+  routePoints: RoutePoint[],
+  extras: Partial<Route> = {},
+  activity: ActivityId = 'hiking'
+): Route {
+  if (routePoints.length === 0) {
+    throw new Error(UI_TEXT.NO_ROUTE_FOUND);
+  }
+
+  const distance = calculatePathDistance(routePoints);
+  const elevationGain = calculateElevationGain(routePoints);
+
+  return {
+    id: `route-${Date.now()}`,
+    name: UI_TEXT.OPTIMIZED_ALPINE_ROUTE,
+    start,
+    end,
+    points: routePoints,
+    distance: Math.round(distance * 10) / 10,
+    elevationGain: Math.round(elevationGain),
+    difficulty: extras.sacScale ? getSacScaleDifficulty(extras.sacScale.hardestGrade) : getDifficulty(distance, elevationGain),
+    estimatedTime: activity === 'hiking'
+      ? estimateTime(distance, elevationGain)
+      : Math.round(estimateTravelTime(routePoints, activity) * 10) / 10,
+    createdAt: new Date(),
+    ...extras
+  };
+}
+
+/**
+ * Check the pathfinding rate limit, alerting the user when it is exceeded
+ */
+function checkPathfindingRateLimit(): boolean {
+  if (!pathfindingRateLimiter.isAllowed('pathfinding')) {
+    const timeUntilReset = pathfindingRateLimiter.getTimeUntilReset('pathfinding');
+    alert(`Too many pathfinding requests. Please wait ${Math.ceil(timeUntilReset / 1000)} seconds before trying again.`);
+    return false;
+  }
+  return true;
+}
+
 export default function Home() {
   const [currentRoute, setCurrentRoute] = useState<Route | null>(null);
+  const [routeVariants, setRouteVariants] = useState<RouteVariants | null>(null);
+  const [selectedVariantIndex, setSelectedVariantIndex] = useState(0);
+  const [routeDiagnostics, setRouteDiagnostics] = useState<PathfindingDiagnostics[]>([]);
+  // Options the current route was computed with, saved with it even after the form changes
+  const [currentRouteOptions, setCurrentRouteOptions] = useState<PathfindingOptions>(DEFAULT_PATHFINDING_OPTIONS);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<PathfindingProgress | null>(null);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const [avoidAreas, setAvoidAreas] = useState<AvoidArea[]>([]);
+  const [costModel, setCostModel] = useState<CostModelId>('tobler');
+  const [activity, setActivity] = useState<ActivityId>('hiking');
+  const [winterMode, setWinterMode] = useState<AvoidAreaMode | undefined>();
+  const [maxSacScale, setMaxSacScale] = useState<SacScale | undefined>();
+  const [plannedDate, setPlannedDate] = useState<string | undefined>();
+  const [allowGlaciers, setAllowGlaciers] = useState(false);
+  const [gradeLimits, setGradeLimits] = useState<Pick<PathfindingOptions, 'maxSustainedGrade' | 'maxPitchGrade'>>({});
+  const { user } = useAuth();
   const mapRef = useRef<HTMLDivElement>(null);
+  const searchControllerRef = useRef<AbortController | null>(null);
+  const savedGradeLimitsRef = useRef<Pick<PathfindingOptions, 'maxSustainedGrade' | 'maxPitchGrade'>>({});
+  const pathfindingClientRef = useRef<PathfindingClient | null>(null);
 
-  const handleRouteSubmitInternal = useCallback(async (start: Coordinate, end: Coordinate) => {
-    // Check rate limiting
-    if (!pathfindingRateLimiter.isAllowed('pathfinding')) {
-      const timeUntilReset = pathfindingRateLimiter.getTimeUntilReset('pathfinding');
-      alert(`Too many pathfinding requests. Please wait ${Math.ceil(timeUntilReset / 1000)} seconds before trying again.`);
+  // Grade limits come from the signed-in user's saved preferences
+  useEffect(() => {
+    savedGradeLimitsRef.current = {};
+    if (!user) {
+      setGradeLimits({});
       return;
     }
 
+    let cancelled = false;
+    getUserPreferences(user.id).then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        savedGradeLimitsRef.current = getGradeLimitPreferences(result.data);
+        setGradeLimits(savedGradeLimitsRef.current);
+      } else {
+        console.warn('Failed to load user preferences:', result.error?.message);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Avoid areas, grade limits, the cost model, the activity, winter mode, the SAC grade limit, the planned date and the glacier opt-in travel with the options, so they are saved with the route
+  const routeOptions = useMemo(
+    () => ({
+      ...DEFAULT_PATHFINDING_OPTIONS,
+      ...gradeLimits,
+      ...(avoidAreas.length > 0 && { avoidAreas }),
+      ...(costModel !== 'tobler' && { costModel }),
+      ...(activity !== 'hiking' && { activity }),
+      ...(winterMode && { winterMode }),
+      ...(maxSacScale && { maxSacScale }),
+      ...(plannedDate && { plannedDate }),
+      ...(allowGlaciers && { allowGlaciers }),
+    }),
+    [avoidAreas, gradeLimits, costModel, activity, winterMode, maxSacScale, plannedDate, allowGlaciers]
+  );
+  // Read at search time; the debounced submit keeps its first callback
+  const routeOptionsRef = useRef(routeOptions);
+  useEffect(() => {
+    routeOptionsRef.current = routeOptions;
+  }, [routeOptions]);
+
+  // Stop a running search and the pathfinding worker when the page is left
+  useEffect(() => () => {
+    searchControllerRef.current?.abort();
+    pathfindingClientRef.current?.dispose();
+    pathfindingClientRef.current = null;
+  }, []);
+
+  /**
+   * Pathfinding client, started on first use
+   */
+  const getPathfindingClient = useCallback((): PathfindingClient => {
+    if (!pathfindingClientRef.current) {
+      pathfindingClientRef.current = createPathfindingClient();
+    }
+    return pathfindingClientRef.current;
+  }, []);
+
+  /**
+   * Start a search, aborting the one still running
+   */
+  const beginSearch = useCallback((): AbortController => {
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+    setProgress(null);
     setLoading(true);
+    return controller;
+  }, []);
+
+  /**
+   * Finish a search unless a newer one has replaced it
+   */
+  const endSearch = useCallback((controller: AbortController) => {
+    if (searchControllerRef.current !== controller) return;
+    searchControllerRef.current = null;
+    setProgress(null);
+    setLoading(false);
+  }, []);
+
+  const handleGradeLimitsChange = useCallback((limits: Pick<PathfindingOptions, 'maxSustainedGrade' | 'maxPitchGrade'>) => {
+    setGradeLimits(limits);
+  }, []);
+
+  // Signed-in users keep their grade limits in their preferences, saved once an edit is finished
+  const handleGradeLimitsCommit = useCallback(() => {
+    const saved = savedGradeLimitsRef.current;
+    if (!user || (saved.maxSustainedGrade === gradeLimits.maxSustainedGrade && saved.maxPitchGrade === gradeLimits.maxPitchGrade)) return;
+    savedGradeLimitsRef.current = gradeLimits;
+    updateUserPreferences(user.id, { default_pathfinding_options: gradeLimits }).then(result => {
+      if (!result.success) console.warn('Failed to save user preferences:', result.error?.message);
+    });
+  }, [user, gradeLimits]);
+
+  const handleCancelSearch = useCallback(() => {
+    const controller = searchControllerRef.current;
+    if (!controller) return;
+    controller.abort();
+    endSearch(controller);
+  }, [endSearch]);
+
+  const handleRouteSubmitInternal = useCallback(async (start: Coordinate, end: Coordinate, viaPoints: Coordinate[] = []) => {
+    if (!checkPathfindingRateLimit()) return;
+
+    const options = routeOptionsRef.current;
+    const controller = beginSearch();
+    const control = { signal: controller.signal, onProgress: setProgress };
     try {
-      const routePoints = await findOptimalRoute(start, end, DEFAULT_PATHFINDING_OPTIONS);
-      
-      if (routePoints.length === 0) {
-        throw new Error(UI_TEXT.NO_ROUTE_FOUND);
+      if (viaPoints.length > 0) {
+        const { points, legs, diagnostics } = await getPathfindingClient().run({
+          type: 'waypoints',
+          waypoints: [start, ...viaPoints, end],
+          options,
+        }, control);
+        if (controller.signal.aborted) return;
+        const legDistances = legs.map(leg => leg.distance);
+        const sacScale = combineSacScaleReports(diagnostics.map(leg => leg.sacScale), legDistances);
+        const waymarkedRoutes = combineWaymarkedRouteSections(diagnostics.map(leg => leg.waymarkedRoutes), legDistances);
+        setRouteVariants(null);
+        setRouteDiagnostics(diagnostics);
+        const route = buildRoute(start, end, points, {
+          viaPoints,
+          legs,
+          ...(sacScale && { sacScale }),
+          ...(waymarkedRoutes.length > 0 && { waymarkedRoutes }),
+        }, options.activity);
+        setCurrentRouteOptions(options);
+        setCurrentRoute(route);
+        return;
       }
 
-      const distance = routePoints.reduce((total, point, index) => {
-        if (index === 0) return 0;
-        return total + calculateDistance(routePoints[index - 1], point);
-      }, 0);
-
-      const elevationGain = calculateElevationGain(routePoints);
-      
-      const getDifficulty = (distance: number, elevationGain: number) => {
-        const difficultyScore = distance + (elevationGain / 100);
-        if (difficultyScore < 5) return 'easy';
-        if (difficultyScore < 15) return 'moderate';
-        if (difficultyScore < 25) return 'hard';
-        return 'extreme';
-      };
-
-      const estimateTime = (distance: number, elevationGain: number) => {
-        // Use realistic hiking speeds: 4-5 km/h on flat terrain
-        const baseTime = distance / 4.5; // 4.5 km/h base speed
-        // Add time for elevation gain: Naismith's rule (10 minutes per 100m elevation)
-        const elevationTime = elevationGain / 600; // 600m per hour climbing rate
-        return Math.round(baseTime + elevationTime);
-      };
-
-      const route: Route = {
-        id: `route-${Date.now()}`,
-        name: UI_TEXT.OPTIMIZED_ALPINE_ROUTE,
+      const alternatives = await getPathfindingClient().run({
+        type: 'alternatives',
         start,
         end,
-        points: routePoints,
-        distance: Math.round(distance * 10) / 10,
-        elevationGain: Math.round(elevationGain),
-        difficulty: getDifficulty(distance, elevationGain),
-        estimatedTime: estimateTime(distance, elevationGain),
-        createdAt: new Date()
-      };
-      
+        options,
+        maxAlternatives: ALTERNATIVE_CONSTANTS.MAX_ALTERNATIVES,
+      }, control);
+      if (controller.signal.aborted) return;
+      setRouteVariants(alternatives.length > 1 ? {
+        title: UI_TEXT.ROUTE_ALTERNATIVES,
+        routeName: UI_TEXT.OPTIMIZED_ALPINE_ROUTE,
+        points: alternatives.map(alternative => alternative.points),
+        summaries: alternatives.map((alternative, index) => ({
+          label: index === 0 ? UI_TEXT.OPTIMAL_ROUTE_LABEL : `${UI_TEXT.ALTERNATIVE_LABEL} ${index}`,
+          distance: alternative.distance,
+          estimatedTime: alternative.estimatedTime,
+          elevationGain: alternative.elevationGain,
+          detail: `${Math.round(alternative.trailShare * 100)}% ${UI_TEXT.ON_TRAIL}`,
+        })),
+        trailExtras: alternatives.map(getTrailExtras),
+        diagnostics: alternatives.map(alternative => alternative.diagnostics ? [alternative.diagnostics] : []),
+      } : null);
+      setSelectedVariantIndex(0);
+      setRouteDiagnostics(alternatives[0]?.diagnostics ? [alternatives[0].diagnostics] : []);
+      const extras = alternatives[0] ? getTrailExtras(alternatives[0]) : {};
+      const route = buildRoute(start, end, alternatives[0]?.points ?? [], extras, options.activity);
+      setCurrentRouteOptions(options);
       setCurrentRoute(route);
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('Error planning route:', error);
-      alert(UI_TEXT.ERROR_PLANNING_ROUTE);
+      alert(isOverpassError(error) ? error.message : UI_TEXT.ERROR_PLANNING_ROUTE);
     } finally {
-      setLoading(false);
+      endSearch(controller);
     }
-  }, []);
+  }, [beginSearch, endSearch, getPathfindingClient]);
+
+  const handleLoopSubmit = useCallback(async (start: Coordinate, target: LoopTarget) => {
+    if (!checkPathfindingRateLimit()) return;
+
+    const options = routeOptionsRef.current;
+    const controller = beginSearch();
+    try {
+      const loops = await getPathfindingClient().run({
+        type: 'loops',
+        start,
+        target,
+        options,
+        maxResults: LOOP_CONSTANTS.MAX_RESULTS,
+      }, { signal: controller.signal, onProgress: setProgress });
+      if (controller.signal.aborted) return;
+
+      if (loops.length === 0) {
+        alert(UI_TEXT.NO_LOOP_FOUND);
+        return;
+      }
+
+      setRouteVariants(loops.length > 1 ? {
+        title: UI_TEXT.LOOP_CANDIDATES,
+        routeName: UI_TEXT.ROUND_TRIP_ROUTE,
+        points: loops.map(loop => loop.points),
+        summaries: loops.map((loop, index) => ({
+          label: `${UI_TEXT.LOOP_LABEL} ${index + 1}`,
+          distance: loop.distance,
+          estimatedTime: loop.estimatedDuration,
+          detail: `${Math.round(loop.targetDeviation * 100)}% ${UI_TEXT.OFF_TARGET}`,
+        })),
+        trailExtras: loops.map(getTrailExtras),
+        diagnostics: loops.map(loop => loop.diagnostics ? [loop.diagnostics] : []),
+      } : null);
+      setSelectedVariantIndex(0);
+      setRouteDiagnostics(loops[0].diagnostics ? [loops[0].diagnostics] : []);
+      const route = buildRoute(start, start, loops[0].points, { name: UI_TEXT.ROUND_TRIP_ROUTE, ...getTrailExtras(loops[0]) }, options.activity);
+      setCurrentRouteOptions(options);
+      setCurrentRoute(route);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error planning loop:', error);
+      alert(isOverpassError(error) ? error.message : UI_TEXT.ERROR_PLANNING_ROUTE);
+    } finally {
+      endSearch(controller);
+    }
+  }, [beginSearch, endSearch, getPathfindingClient]);
+
+  const handleVariantSelect = useCallback((index: number) => {
+    const points = routeVariants?.points[index];
+    if (!points || !currentRoute) return;
+
+    setSelectedVariantIndex(index);
+    setRouteDiagnostics(routeVariants.diagnostics[index]);
+    setCurrentRoute(buildRoute(currentRoute.start, currentRoute.end, points, { name: routeVariants.routeName, ...routeVariants.trailExtras[index] }, currentRouteOptions.activity));
+  }, [routeVariants, currentRoute, currentRouteOptions]);
+
+  // Unselected variants are drawn faintly on the elevation chart for comparison
+  const comparisonProfiles = useMemo(
+    () => routeVariants?.points.filter((_, index) => index !== selectedVariantIndex) ?? [],
+    [routeVariants, selectedVariantIndex]
+  );
 
   // Create a debounced version for route submission using useRef
-  const debouncedSubmitRef = useRef<((start: Coordinate, end: Coordinate) => void) | null>(null);
+  const debouncedSubmitRef = useRef<((start: Coordinate, end: Coordinate, viaPoints: Coordinate[]) => void) | null>(null);
   
   const handleRouteSubmit = useCallback(
-    (start: Coordinate, end: Coordinate) => {
+    (start: Coordinate, end: Coordinate, viaPoints: Coordinate[]) => {
       if (!debouncedSubmitRef.current) {
         debouncedSubmitRef.current = debounce(handleRouteSubmitInternal, 1000);
       }
-      debouncedSubmitRef.current(start, end);
+      debouncedSubmitRef.current(start, end, viaPoints);
     },
     [handleRouteSubmitInternal]
   );
@@ -169,21 +468,61 @@ export default function Home() {
             </p>
           </div>
 
-          <EnhancedRouteInputForm onRouteSubmit={handleRouteSubmit} loading={loading} />
+          <EnhancedRouteInputForm
+            onRouteSubmit={handleRouteSubmit}
+            onLoopSubmit={handleLoopSubmit}
+            loading={loading}
+            progress={progress}
+            onCancel={handleCancelSearch}
+            avoidAreas={avoidAreas}
+            onAvoidAreasChange={setAvoidAreas}
+            costModel={costModel}
+            onCostModelChange={setCostModel}
+            activity={activity}
+            onActivityChange={setActivity}
+            winterMode={winterMode}
+            onWinterModeChange={setWinterMode}
+            maxSacScale={maxSacScale}
+            onMaxSacScaleChange={setMaxSacScale}
+            plannedDate={plannedDate}
+            onPlannedDateChange={setPlannedDate}
+            allowGlaciers={allowGlaciers}
+            onAllowGlaciersChange={setAllowGlaciers}
+            gradeLimits={gradeLimits}
+            onGradeLimitsChange={handleGradeLimitsChange}
+            onGradeLimitsCommit={handleGradeLimitsCommit}
+          />
 
           {currentRoute && (
             <>
+              {/* Diagnostics describe the selected variant */}
+              <DegradedRouteNotice diagnostics={routeDiagnostics} />
+              <AvalancheTerrainReport diagnostics={routeDiagnostics} />
+              {routeVariants && (
+                <RouteVariantSelector
+                  title={routeVariants.title}
+                  variants={routeVariants.summaries}
+                  selectedIndex={selectedVariantIndex}
+                  onSelect={handleVariantSelect}
+                />
+              )}
               <RouteSummaryCard 
                 route={currentRoute} 
-                pathfindingOptions={DEFAULT_PATHFINDING_OPTIONS}
+                pathfindingOptions={currentRouteOptions}
                 onSaveSuccess={handleSaveSuccess}
                 onSaveError={handleSaveError}
                 onAuthRequired={handleAuthRequired}
               />
               <div ref={mapRef}>
-                <RouteMap points={currentRoute.points} onMapReady={handleMapReady} />
+                <RouteMap
+                  points={currentRoute.points}
+                  alternatives={routeVariants?.points}
+                  selectedAlternative={selectedVariantIndex}
+                  onAlternativeSelect={handleVariantSelect}
+                  onMapReady={handleMapReady}
+                />
               </div>
-              <ElevationChart points={currentRoute.points} />
+              <ElevationChart points={currentRoute.points} comparisonProfiles={comparisonProfiles} />
             </>
           )}
         </div>
@@ -5,12 +5,21 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import { EnhancedRouteInputForm } from '../enhanced-route-input-form';
 
-// Mock the coordinate selector map
+// Mock the coordinate selector map; while drawing, a click completes a triangle
 jest.mock('@/components/ui/coordinate-selector-map', () => ({
-  CoordinateSelectorMap: ({ onCoordinateSelect, selectionMode }: { onCoordinateSelect: (coord: { lat: number; lng: number }, type: 'start' | 'end') => void; selectionMode: 'start' | 'end' | null }) => (
+  CoordinateSelectorMap: ({ onCoordinateSelect, selectionMode, drawingShape, onAvoidAreaDrawn }: {
+    onCoordinateSelect: (coord: { lat: number; lng: number }, type: 'start' | 'end' | 'via') => void;
+    selectionMode: 'start' | 'end' | 'via' | null;
+    drawingShape?: 'polygon' | 'line' | null;
+    onAvoidAreaDrawn?: (coordinates: { lat: number; lng: number }[], shape: 'polygon' | 'line') => void;
+  }) => (
     <div 
       data-testid="coordinate-selector-map" 
       onClick={() => {
+        if (drawingShape && onAvoidAreaDrawn) {
+          onAvoidAreaDrawn([{ lat: 46.5, lng: 6.6 }, { lat: 46.5, lng: 6.7 }, { lat: 46.6, lng: 6.6 }], drawingShape);
+          return;
+        }
         if (selectionMode && onCoordinateSelect) {
           onCoordinateSelect(
             { lat: 46.5197, lng: 6.6323 }, 
@@ -108,7 +117,8 @@ describe('EnhancedRouteInputForm', () => {
 
     expect(mockOnRouteSubmit).toHaveBeenCalledWith(
       { lat: 46.5197, lng: 6.6323 },
-      { lat: 46.5197, lng: 6.6323 }
+      { lat: 46.5197, lng: 6.6323 },
+      []
     );
   });
 
@@ -157,4 +167,289 @@ describe('EnhancedRouteInputForm', () => {
     expect(screen.getByText(/start point selected/i)).toBeInTheDocument();
     expect(screen.getByText(/end point selected/i)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  describe('via points', () => {
+    const addViaPoint = () => {
+      fireEvent.click(screen.getByRole('button', { name: /add via point/i }));
+      fireEvent.click(screen.getByTestId('coordinate-selector-map'));
+    };
+
+    it('should add via points and submit them in order', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} />
+      );
+
+      fireEvent.click(screen.getByText(/use example route/i));
+      fireEvent.click(screen.getByText(/swiss alps, zermatt/i));
+      addViaPoint();
+
+      expect(screen.getByRole('list', { name: /via points/i })).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText(/find optimal route/i));
+
+      expect(mockOnRouteSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({ lat: 46.624307431594055 }),
+        expect.objectContaining({ lat: 46.57908871604088 }),
+        [{ lat: 46.5197, lng: 6.6323 }]
+      );
+    });
+
+    it('should remove a via point', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} />
+      );
+
+      addViaPoint();
+      fireEvent.click(screen.getByRole('button', { name: /remove via point 1/i }));
+
+      expect(screen.queryByRole('list', { name: /via points/i })).not.toBeInTheDocument();
+    });
+
+    it('should disable moving the first via point up and the last one down', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} />
+      );
+
+      addViaPoint();
+      addViaPoint();
+
+      expect(screen.getByRole('button', { name: /move via point 1 up/i })).toBeDisabled();
+      expect(screen.getByRole('button', { name: /move via point 1 down/i })).not.toBeDisabled();
+      expect(screen.getByRole('button', { name: /move via point 2 down/i })).toBeDisabled();
+    });
+  });
+
+  describe('round trip mode', () => {
+    const mockOnLoopSubmit = jest.fn();
+
+    const selectStartPoint = () => {
+      fireEvent.click(screen.getByRole('button', { name: /select start point/i }));
+      fireEvent.click(screen.getByTestId('coordinate-selector-map'));
+    };
+
+    it('should only offer round trips when a loop handler is provided', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} />
+      );
+
+      expect(screen.queryByLabelText(/round trip/i)).not.toBeInTheDocument();
+    });
+
+    it('should hide end point selection in round trip mode', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onLoopSubmit={mockOnLoopSubmit} />
+      );
+
+      fireEvent.click(screen.getByLabelText(/round trip/i));
+
+      expect(screen.queryByRole('button', { name: /select end point/i })).not.toBeInTheDocument();
+      expect(screen.getByLabelText(/target distance/i)).toBeInTheDocument();
+    });
+
+    it('should submit the start point with the target distance', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onLoopSubmit={mockOnLoopSubmit} />
+      );
+
+      selectStartPoint();
+      fireEvent.click(screen.getByLabelText(/round trip/i));
+      fireEvent.change(screen.getByLabelText(/target distance/i), { target: { value: '12' } });
+      fireEvent.click(screen.getByText(/find optimal route/i));
+
+      expect(mockOnLoopSubmit).toHaveBeenCalledWith(
+        { lat: 46.5197, lng: 6.6323 },
+        { distance: 12, duration: undefined }
+      );
+      expect(mockOnRouteSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should require a distance or time target', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onLoopSubmit={mockOnLoopSubmit} />
+      );
+
+      selectStartPoint();
+      fireEvent.click(screen.getByLabelText(/round trip/i));
+      fireEvent.click(screen.getByText(/find optimal route/i));
+
+      expect(window.alert).toHaveBeenCalledWith('Please enter a target distance or time for the round trip.');
+      expect(mockOnLoopSubmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('avoid areas', () => {
+    const mockOnAvoidAreasChange = jest.fn();
+    const reserve = {
+      id: 'reserve',
+      shape: 'polygon' as const,
+      coordinates: [{ lat: 46.5, lng: 6.6 }, { lat: 46.5, lng: 6.7 }, { lat: 46.6, lng: 6.6 }],
+      mode: 'barrier' as const,
+    };
+
+    it('should only offer avoid areas when a change handler is provided', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} />
+      );
+
+      expect(screen.queryByRole('button', { name: /draw avoid area/i })).not.toBeInTheDocument();
+    });
+
+    it('should add a drawn area as a barrier', () => {
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onAvoidAreasChange={mockOnAvoidAreasChange} />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /draw avoid area/i }));
+      fireEvent.click(screen.getByTestId('coordinate-selector-map'));
+
+      expect(mockOnAvoidAreasChange).toHaveBeenCalledWith([
+        expect.objectContaining({ shape: 'polygon', mode: 'barrier', coordinates: reserve.coordinates })
+      ]);
+    });
+
+    it('should switch an area to a penalty and remove it', () => {
+      render(
+        <EnhancedRouteInputForm
+          onRouteSubmit={mockOnRouteSubmit}
+          avoidAreas={[reserve]}
+          onAvoidAreasChange={mockOnAvoidAreasChange}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText(/avoid area 1 mode/i), { target: { value: 'penalty' } });
+      expect(mockOnAvoidAreasChange).toHaveBeenLastCalledWith([{ ...reserve, mode: 'penalty' }]);
+
+      fireEvent.click(screen.getByRole('button', { name: /remove avoid area 1/i }));
+      expect(mockOnAvoidAreasChange).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  describe('Activity, Cost Model, Winter Mode, Trail Grade, Planned Date and Glaciers', () => {
+    it('should hide the selector without a change handler', () => {
+      render(<EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} />);
+
+      expect(screen.queryByLabelText(/optimise for/i)).not.toBeInTheDocument();
+    });
+
+    it('should report the chosen cost model', () => {
+      const mockOnCostModelChange = jest.fn();
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onCostModelChange={mockOnCostModelChange} />
+      );
+
+      expect(screen.getByLabelText(/optimise for/i)).toHaveValue('tobler');
+      fireEvent.change(screen.getByLabelText(/optimise for/i), { target: { value: 'minetti' } });
+
+      expect(mockOnCostModelChange).toHaveBeenCalledWith('minetti');
+    });
+
+    it('should report the chosen activity', () => {
+      const mockOnActivityChange = jest.fn();
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onActivityChange={mockOnActivityChange} />
+      );
+
+      expect(screen.queryByLabelText(/optimise for/i)).not.toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText(/activity/i), { target: { value: 'mountain-biking' } });
+
+      expect(mockOnActivityChange).toHaveBeenCalledWith('mountain-biking');
+    });
+
+    it('should report the winter mode, unset when avalanche terrain is ignored', () => {
+      const mockOnWinterModeChange = jest.fn();
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} winterMode="penalty" onWinterModeChange={mockOnWinterModeChange} />
+      );
+
+      expect(screen.getByLabelText(/avalanche terrain/i)).toHaveValue('penalty');
+      fireEvent.change(screen.getByLabelText(/avalanche terrain/i), { target: { value: 'barrier' } });
+      expect(mockOnWinterModeChange).toHaveBeenLastCalledWith('barrier');
+
+      fireEvent.change(screen.getByLabelText(/avalanche terrain/i), { target: { value: '' } });
+      expect(mockOnWinterModeChange).toHaveBeenLastCalledWith(undefined);
+    });
+
+    it('should report the hardest trail grade, unset for any grade', () => {
+      const mockOnMaxSacScaleChange = jest.fn();
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} maxSacScale="T3" onMaxSacScaleChange={mockOnMaxSacScaleChange} />
+      );
+
+      expect(screen.getByLabelText(/hardest trail/i)).toHaveValue('T3');
+      fireEvent.change(screen.getByLabelText(/hardest trail/i), { target: { value: 'T2' } });
+      expect(mockOnMaxSacScaleChange).toHaveBeenLastCalledWith('T2');
+
+      fireEvent.change(screen.getByLabelText(/hardest trail/i), { target: { value: '' } });
+      expect(mockOnMaxSacScaleChange).toHaveBeenLastCalledWith(undefined);
+    });
+
+    it('should report the planned date, unset for any day', () => {
+      const mockOnPlannedDateChange = jest.fn();
+      const { rerender } = render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onPlannedDateChange={mockOnPlannedDateChange} />
+      );
+
+      fireEvent.change(screen.getByLabelText(/planned date/i), { target: { value: '2026-07-15' } });
+      expect(mockOnPlannedDateChange).toHaveBeenLastCalledWith('2026-07-15');
+
+      rerender(
+        <EnhancedRouteInputForm
+          onRouteSubmit={mockOnRouteSubmit}
+          plannedDate="2026-07-15"
+          onPlannedDateChange={mockOnPlannedDateChange}
+        />
+      );
+      fireEvent.change(screen.getByLabelText(/planned date/i), { target: { value: '' } });
+      expect(mockOnPlannedDateChange).toHaveBeenLastCalledWith(undefined);
+    });
+
+    it('should report whether glaciers are allowed', () => {
+      const mockOnAllowGlaciersChange = jest.fn();
+      render(
+        <EnhancedRouteInputForm onRouteSubmit={mockOnRouteSubmit} onAllowGlaciersChange={mockOnAllowGlaciersChange} />
+      );
+
+      expect(screen.getByLabelText(/allow glaciers/i)).not.toBeChecked();
+      fireEvent.click(screen.getByLabelText(/allow glaciers/i));
+
+      expect(mockOnAllowGlaciersChange).toHaveBeenCalledWith(true);
+    });
+
+    it('should report the grade limits, unset for no limit', () => {
+      const mockOnGradeLimitsChange = jest.fn();
+      render(
+        <EnhancedRouteInputForm
+          onRouteSubmit={mockOnRouteSubmit}
+          gradeLimits={{ maxSustainedGrade: 30 }}
+          onGradeLimitsChange={mockOnGradeLimitsChange}
+        />
+      );
+
+      expect(screen.getByLabelText(/max sustained grade/i)).toHaveValue(30);
+      fireEvent.change(screen.getByLabelText(/max pitch grade/i), { target: { value: '60' } });
+      expect(mockOnGradeLimitsChange).toHaveBeenLastCalledWith({ maxSustainedGrade: 30, maxPitchGrade: 60 });
+
+      fireEvent.change(screen.getByLabelText(/max sustained grade/i), { target: { value: '' } });
+      expect(mockOnGradeLimitsChange).toHaveBeenLastCalledWith({ maxSustainedGrade: undefined });
+    });
+
+    it('should commit the grade limits only when an input loses focus', () => {
+      const mockOnGradeLimitsCommit = jest.fn();
+      render(
+        <EnhancedRouteInputForm
+          onRouteSubmit={mockOnRouteSubmit}
+          onGradeLimitsChange={jest.fn()}
+          onGradeLimitsCommit={mockOnGradeLimitsCommit}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText(/max sustained grade/i), { target: { value: '2' } });
+      fireEvent.change(screen.getByLabelText(/max sustained grade/i), { target: { value: '25' } });
+      expect(mockOnGradeLimitsCommit).not.toHaveBeenCalled();
+
+      fireEvent.blur(screen.getByLabelText(/max sustained grade/i));
+      fireEvent.blur(screen.getByLabelText(/max pitch grade/i));
+      expect(mockOnGradeLimitsCommit).toHaveBeenCalledTimes(2);
+    });
+  });
+});
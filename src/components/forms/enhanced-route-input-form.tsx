@@ -5,20 +5,53 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { CoordinateSelectorMap } from '@/components/ui/coordinate-selector-map';
-import { MapPin, Navigation, ChevronDown } from 'lucide-react';
+import { CoordinateSelectorMap, CoordinateSelectionType } from '@/components/ui/coordinate-selector-map';
+import { MapPin, Navigation, ChevronDown, ArrowUp, ArrowDown, X, Plus, Ban } from 'lucide-react';
 import { Coordinate } from '@/types/route';
+import { ActivityId, AvoidArea, AvoidAreaMode, CostModelId, LoopTarget, PathfindingOptions, PathfindingProgress, SacScale } from '@/types/pathfinding';
 import { UI_TEXT } from '@/constants/ui-text';
 import { STYLES } from '@/constants/styles';
 import { COLORS } from '@/constants/colors';
 import { FindOptimalRouteButton } from '@/components/ui/semantic/find-optimal-route-button';
+import { ROUTE_LEG_CONSTANTS } from '@/lib/algorithms/pathfinding/route-legs';
 
 interface EnhancedRouteInputFormProps {
-  onRouteSubmit: (start: Coordinate, end: Coordinate) => void;
+  onRouteSubmit: (start: Coordinate, end: Coordinate, viaPoints: Coordinate[]) => void;
+  onLoopSubmit?: (start: Coordinate, target: LoopTarget) => void;
   loading?: boolean;
+  progress?: PathfindingProgress | null;
+  onCancel?: () => void;
+  /** Avoid areas applied to every route search; the panel is hidden without onAvoidAreasChange */
+  avoidAreas?: AvoidArea[];
+  onAvoidAreasChange?: (avoidAreas: AvoidArea[]) => void;
+  /** What route searches optimise for; the selector is hidden without onCostModelChange */
+  costModel?: CostModelId;
+  onCostModelChange?: (costModel: CostModelId) => void;
+  /** Who travels the route; the selector is hidden without onActivityChange */
+  activity?: ActivityId;
+  onActivityChange?: (activity: ActivityId) => void;
+  /** How routes treat avalanche terrain, off when unset; the selector is hidden without onWinterModeChange */
+  winterMode?: AvoidAreaMode;
+  onWinterModeChange?: (winterMode: AvoidAreaMode | undefined) => void;
+  /** Hardest SAC grade of the trails routes may follow, any grade when unset; the selector is hidden without onMaxSacScaleChange */
+  maxSacScale?: SacScale;
+  onMaxSacScaleChange?: (maxSacScale: SacScale | undefined) => void;
+  /** Day the route is travelled (YYYY-MM-DD) for seasonal trail access, any day when unset; the input is hidden without onPlannedDateChange */
+  plannedDate?: string;
+  onPlannedDateChange?: (plannedDate: string | undefined) => void;
+  /** Whether routes may cross glaciers; the checkbox is hidden without onAllowGlaciersChange */
+  allowGlaciers?: boolean;
+  onAllowGlaciersChange?: (allowGlaciers: boolean) => void;
+  /** Steepest grades in percent routes may climb, no limit when unset; the inputs are hidden without onGradeLimitsChange */
+  gradeLimits?: GradeLimits;
+  onGradeLimitsChange?: (gradeLimits: GradeLimits) => void;
+  /** Called when a grade limit input loses focus, once the edit is finished */
+  onGradeLimitsCommit?: () => void;
 }
 
-type SelectionType = 'start' | 'end' | null;
+type GradeLimits = Pick<PathfindingOptions, 'maxSustainedGrade' | 'maxPitchGrade'>;
+
+type SelectionType = CoordinateSelectionType | null;
 
 const EXAMPLE_ROUTES = [
   {
@@ -38,54 +71,160 @@ const EXAMPLE_ROUTES = [
   }
 ];
 
-export function EnhancedRouteInputForm({ onRouteSubmit, loading = false }: EnhancedRouteInputFormProps) {
+export function EnhancedRouteInputForm({
+  onRouteSubmit,
+  onLoopSubmit,
+  loading = false,
+  progress,
+  onCancel,
+  avoidAreas = [],
+  onAvoidAreasChange,
+  costModel = 'tobler',
+  onCostModelChange,
+  activity = 'hiking',
+  onActivityChange,
+  winterMode,
+  onWinterModeChange,
+  maxSacScale,
+  onMaxSacScaleChange,
+  plannedDate,
+  onPlannedDateChange,
+  allowGlaciers = false,
+  onAllowGlaciersChange,
+  gradeLimits = {},
+  onGradeLimitsChange,
+  onGradeLimitsCommit
+}: EnhancedRouteInputFormProps) {
   const [selectionType, setSelectionType] = useState<SelectionType>('start');
   const [startCoordinate, setStartCoordinate] = useState<Coordinate | undefined>();
   const [endCoordinate, setEndCoordinate] = useState<Coordinate | undefined>();
+  const [viaCoordinates, setViaCoordinates] = useState<Coordinate[]>([]);
+  const [isLoopMode, setIsLoopMode] = useState(false);
+  const [loopDistance, setLoopDistance] = useState('');
+  const [loopDuration, setLoopDuration] = useState('');
+  const [drawingShape, setDrawingShape] = useState<AvoidArea['shape'] | null>(null);
   
   const [showExampleDropdown, setShowExampleDropdown] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (isLoopMode && onLoopSubmit) {
+      if (!startCoordinate) {
+        alert('Please select a start point on the map.');
+        return;
+      }
+
+      const target: LoopTarget = {
+        distance: parseFloat(loopDistance) || undefined,
+        duration: parseFloat(loopDuration) || undefined,
+      };
+      if (!target.distance && !target.duration) {
+        alert(UI_TEXT.ENTER_LOOP_TARGET);
+        return;
+      }
+
+      onLoopSubmit(startCoordinate, target);
+      return;
+    }
     
     if (!startCoordinate || !endCoordinate) {
       alert('Please select both start and end points on the map.');
       return;
     }
 
-    onRouteSubmit(startCoordinate, endCoordinate);
+    onRouteSubmit(startCoordinate, endCoordinate, viaCoordinates);
   };
 
   const fillExampleRoute = (routeIndex: number = 0) => {
     const route = EXAMPLE_ROUTES[routeIndex];
     setStartCoordinate(route.start);
     setEndCoordinate(route.end);
+    setViaCoordinates([]);
     setShowExampleDropdown(false);
   };
 
-  const handleLocationSelect = (location: Coordinate, type: 'start' | 'end') => {
+  const handleLocationSelect = (location: Coordinate, type: CoordinateSelectionType) => {
     if (type === 'start') {
       setStartCoordinate(location);
+    } else if (type === 'via') {
+      setViaCoordinates(previous => [...previous, location]);
     } else {
       setEndCoordinate(location);
     }
   };
 
-  const handleMapCoordinateSelect = useCallback((coordinate: Coordinate, type: 'start' | 'end') => {
+  const handleMapCoordinateSelect = useCallback((coordinate: Coordinate, type: CoordinateSelectionType) => {
     handleLocationSelect(coordinate, type);
     setSelectionType(null); // Clear selection mode after selecting
   }, []);
 
   const handleStartSelection = () => {
+    setDrawingShape(null);
     setSelectionType('start');
   };
 
   const handleEndSelection = () => {
+    setDrawingShape(null);
     setSelectionType('end');
   };
 
+  const handleViaSelection = () => {
+    setDrawingShape(null);
+    setSelectionType('via');
+  };
+
+  const handleLoopModeChange = (enabled: boolean) => {
+    setIsLoopMode(enabled);
+    if (enabled && selectionType !== 'start') {
+      setSelectionType(null);
+    }
+  };
+
+  const moveViaPoint = (index: number, offset: -1 | 1) => {
+    setViaCoordinates(previous => {
+      const target = index + offset;
+      if (target < 0 || target >= previous.length) return previous;
+      const reordered = [...previous];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const removeViaPoint = (index: number) => {
+    setViaCoordinates(previous => previous.filter((_, i) => i !== index));
+  };
+
+  const startDrawing = (shape: AvoidArea['shape']) => {
+    setSelectionType(null);
+    setDrawingShape(shape);
+  };
+
+  const handleAvoidAreaDrawn = (coordinates: Coordinate[], shape: AvoidArea['shape']) => {
+    onAvoidAreasChange?.([
+      ...avoidAreas,
+      { id: `avoid-${Date.now()}`, shape, coordinates, mode: 'barrier' }
+    ]);
+    setDrawingShape(null);
+  };
+
+  const setAvoidAreaMode = (id: string, mode: AvoidAreaMode) => {
+    onAvoidAreasChange?.(avoidAreas.map(area => (area.id === id ? { ...area, mode } : area)));
+  };
+
+  const removeAvoidArea = (id: string) => {
+    onAvoidAreasChange?.(avoidAreas.filter(area => area.id !== id));
+  };
+
   const hasStartPoint = !!startCoordinate;
   const hasEndPoint = !!endCoordinate;
+  const canAddViaPoint = viaCoordinates.length < ROUTE_LEG_CONSTANTS.MAX_VIA_POINTS;
+
+  const selectionInstruction = selectionType === 'start'
+    ? 'Click on map to select start point'
+    : selectionType === 'via'
+    ? 'Click on map to add a via point'
+    : 'Click on map to select end point';
 
   return (
     <div className={STYLES.CARD}>
@@ -100,7 +239,7 @@ export function EnhancedRouteInputForm({ onRouteSubmit, loading = false }: Enhan
           {/* Selection Instructions */}
           <div className="text-center">
             <p className="text-blue-600 font-medium">
-              {selectionType === 'start' ? 'Click on map to select start point' : 'Click on map to select end point'}
+              {selectionInstruction}
             </p>
           </div>
 
@@ -122,36 +261,335 @@ export function EnhancedRouteInputForm({ onRouteSubmit, loading = false }: Enhan
               {hasStartPoint ? 'Start Point Selected' : 'Select Start Point'}
             </button>
             
-            <button
-              type="button"
-              onClick={handleEndSelection}
-              disabled={loading || selectionType === 'end'}
-              className={`px-4 py-2 rounded-lg border font-medium transition-colors ${
-                selectionType === 'end'
-                  ? 'bg-red-500 text-white border-red-500'
-                  : hasEndPoint
-                  ? 'bg-red-100 text-red-700 border-red-300'
-                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
-              }`}
-            >
-              <MapPin className="w-4 h-4 mr-2 inline" />
-              {hasEndPoint ? 'End Point Selected' : 'Select End Point'}
-            </button>
+            {!isLoopMode && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleEndSelection}
+                  disabled={loading || selectionType === 'end'}
+                  className={`px-4 py-2 rounded-lg border font-medium transition-colors ${
+                    selectionType === 'end'
+                      ? 'bg-red-500 text-white border-red-500'
+                      : hasEndPoint
+                      ? 'bg-red-100 text-red-700 border-red-300'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <MapPin className="w-4 h-4 mr-2 inline" />
+                  {hasEndPoint ? 'End Point Selected' : 'Select End Point'}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={handleViaSelection}
+                  disabled={loading || !canAddViaPoint}
+                  className={`px-4 py-2 rounded-lg border font-medium transition-colors ${
+                    selectionType === 'via'
+                      ? 'bg-blue-500 text-white border-blue-500'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <Plus className="w-4 h-4 mr-2 inline" />
+                  Add Via Point
+                </button>
+              </>
+            )}
           </div>
 
+          {/* Round trip mode */}
+          {onLoopSubmit && (
+            <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-700">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={isLoopMode}
+                  onChange={(e) => handleLoopModeChange(e.target.checked)}
+                  disabled={loading}
+                />
+                <span>{UI_TEXT.ROUND_TRIP}</span>
+              </label>
+              {isLoopMode && (
+                <>
+                  <label className="flex items-center space-x-2">
+                    <span>{UI_TEXT.TARGET_DISTANCE}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={loopDistance}
+                      onChange={(e) => setLoopDistance(e.target.value)}
+                      disabled={loading}
+                      className="w-20 px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span>{UI_TEXT.TARGET_DURATION}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={loopDuration}
+                      onChange={(e) => setLoopDuration(e.target.value)}
+                      disabled={loading}
+                      className="w-20 px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Activity, cost model, winter mode, trail grade, planned date, glaciers and grade limits */}
+          {(onActivityChange || onCostModelChange || onWinterModeChange || onMaxSacScaleChange || onPlannedDateChange || onAllowGlaciersChange || onGradeLimitsChange) && (
+            <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-700">
+              {onActivityChange && (
+                <label className="flex items-center space-x-2">
+                  <span>{UI_TEXT.ACTIVITY}</span>
+                  <select
+                    value={activity}
+                    onChange={(e) => onActivityChange(e.target.value as ActivityId)}
+                    disabled={loading}
+                    className="px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                  >
+                    <option value="hiking">{UI_TEXT.ACTIVITY_HIKING}</option>
+                    <option value="trail-running">{UI_TEXT.ACTIVITY_TRAIL_RUNNING}</option>
+                    <option value="mountain-biking">{UI_TEXT.ACTIVITY_MOUNTAIN_BIKING}</option>
+                    <option value="ski-touring">{UI_TEXT.ACTIVITY_SKI_TOURING}</option>
+                  </select>
+                </label>
+              )}
+              {onCostModelChange && (
+                <label className="flex items-center space-x-2">
+                  <span>{UI_TEXT.COST_MODEL}</span>
+                  <select
+                    value={costModel}
+                    onChange={(e) => onCostModelChange(e.target.value as CostModelId)}
+                    disabled={loading}
+                    className="px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                  >
+                    <option value="tobler">{UI_TEXT.COST_MODEL_TOBLER}</option>
+                    <option value="minetti">{UI_TEXT.COST_MODEL_MINETTI}</option>
+                    <option value="combined">{UI_TEXT.COST_MODEL_COMBINED}</option>
+                  </select>
+                </label>
+              )}
+              {onWinterModeChange && (
+                <label className="flex items-center space-x-2">
+                  <span>{UI_TEXT.WINTER_MODE}</span>
+                  <select
+                    value={winterMode ?? ''}
+                    onChange={(e) => onWinterModeChange((e.target.value || undefined) as AvoidAreaMode | undefined)}
+                    disabled={loading}
+                    className="px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                  >
+                    <option value="">{UI_TEXT.WINTER_MODE_OFF}</option>
+                    <option value="penalty">{UI_TEXT.AVOID_MODE_PENALTY}</option>
+                    <option value="barrier">{UI_TEXT.AVOID_MODE_BARRIER}</option>
+                  </select>
+                </label>
+              )}
+              {onMaxSacScaleChange && (
+                <label className="flex items-center space-x-2">
+                  <span>{UI_TEXT.MAX_SAC_SCALE}</span>
+                  <select
+                    value={maxSacScale ?? ''}
+                    onChange={(e) => onMaxSacScaleChange((e.target.value || undefined) as SacScale | undefined)}
+                    disabled={loading}
+                    className="px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                  >
+                    <option value="">{UI_TEXT.MAX_SAC_SCALE_ANY}</option>
+                    <option value="T1">{UI_TEXT.SAC_SCALE_T1}</option>
+                    <option value="T2">{UI_TEXT.SAC_SCALE_T2}</option>
+                    <option value="T3">{UI_TEXT.SAC_SCALE_T3}</option>
+                    <option value="T4">{UI_TEXT.SAC_SCALE_T4}</option>
+                    <option value="T5">{UI_TEXT.SAC_SCALE_T5}</option>
+                  </select>
+                </label>
+              )}
+              {onPlannedDateChange && (
+                <label className="flex items-center space-x-2">
+                  <span>{UI_TEXT.PLANNED_DATE}</span>
+                  <input
+                    type="date"
+                    value={plannedDate ?? ''}
+                    onChange={(e) => onPlannedDateChange(e.target.value || undefined)}
+                    disabled={loading}
+                    className="px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                  />
+                </label>
+              )}
+              {onAllowGlaciersChange && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={allowGlaciers}
+                    onChange={(e) => onAllowGlaciersChange(e.target.checked)}
+                    disabled={loading}
+                  />
+                  <span>{UI_TEXT.ALLOW_GLACIERS}</span>
+                </label>
+              )}
+              {onGradeLimitsChange && (
+                <>
+                  <label className="flex items-center space-x-2">
+                    <span>{UI_TEXT.MAX_SUSTAINED_GRADE}</span>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={gradeLimits.maxSustainedGrade ?? ''}
+                      onChange={(e) => onGradeLimitsChange({ ...gradeLimits, maxSustainedGrade: parseFloat(e.target.value) || undefined })}
+                      onBlur={onGradeLimitsCommit}
+                      disabled={loading}
+                      className="w-20 px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span>{UI_TEXT.MAX_PITCH_GRADE}</span>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={gradeLimits.maxPitchGrade ?? ''}
+                      onChange={(e) => onGradeLimitsChange({ ...gradeLimits, maxPitchGrade: parseFloat(e.target.value) || undefined })}
+                      onBlur={onGradeLimitsCommit}
+                      disabled={loading}
+                      className="w-20 px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Ordered via-points */}
+          {!isLoopMode && viaCoordinates.length > 0 && (
+            <ol className="space-y-2" aria-label="Via points">
+              {viaCoordinates.map((via, index) => (
+                <li
+                  key={`${via.lat}-${via.lng}-${index}`}
+                  className="flex items-center justify-between px-3 py-2 rounded-lg border border-blue-200 bg-blue-50 text-sm text-gray-700"
+                >
+                  <span>
+                    <span className="inline-flex items-center justify-center w-5 h-5 mr-2 rounded-full bg-blue-500 text-white text-xs font-bold">
+                      {index + 1}
+                    </span>
+                    {via.lat.toFixed(4)}, {via.lng.toFixed(4)}
+                  </span>
+                  <span className="flex items-center space-x-1">
+                    <button
+                      type="button"
+                      onClick={() => moveViaPoint(index, -1)}
+                      disabled={loading || index === 0}
+                      aria-label={`Move via point ${index + 1} up`}
+                      className="p-1 rounded hover:bg-blue-100 disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveViaPoint(index, 1)}
+                      disabled={loading || index === viaCoordinates.length - 1}
+                      aria-label={`Move via point ${index + 1} down`}
+                      className="p-1 rounded hover:bg-blue-100 disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeViaPoint(index)}
+                      disabled={loading}
+                      aria-label={`Remove via point ${index + 1}`}
+                      className="p-1 rounded hover:bg-red-100 text-red-600 disabled:opacity-30"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {/* Avoid areas */}
+          {onAvoidAreasChange && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-center gap-4 text-sm">
+                <button
+                  type="button"
+                  onClick={() => startDrawing('polygon')}
+                  disabled={loading || drawingShape === 'polygon'}
+                  className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Ban className="w-4 h-4 mr-2 inline" />
+                  {UI_TEXT.DRAW_AVOID_AREA}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startDrawing('line')}
+                  disabled={loading || drawingShape === 'line'}
+                  className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Ban className="w-4 h-4 mr-2 inline" />
+                  {UI_TEXT.DRAW_AVOID_LINE}
+                </button>
+              </div>
+
+              {avoidAreas.length > 0 && (
+                <ul className="space-y-2" aria-label={UI_TEXT.AVOID_AREAS}>
+                  {avoidAreas.map((area, index) => (
+                    <li
+                      key={area.id}
+                      className="flex items-center justify-between px-3 py-2 rounded-lg border border-red-200 bg-red-50 text-sm text-gray-700"
+                    >
+                      <span>
+                        {area.label || `${area.shape === 'polygon' ? UI_TEXT.AVOID_AREA_LABEL : UI_TEXT.AVOID_LINE_LABEL} ${index + 1}`}
+                      </span>
+                      <span className="flex items-center space-x-2">
+                        <select
+                          value={area.mode}
+                          onChange={(e) => setAvoidAreaMode(area.id, e.target.value as AvoidAreaMode)}
+                          disabled={loading}
+                          aria-label={`Avoid area ${index + 1} mode`}
+                          className="px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+                        >
+                          <option value="barrier">{UI_TEXT.AVOID_MODE_BARRIER}</option>
+                          <option value="penalty">{UI_TEXT.AVOID_MODE_PENALTY}</option>
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => removeAvoidArea(area.id)}
+                          disabled={loading}
+                          aria-label={`Remove avoid area ${index + 1}`}
+                          className="p-1 rounded hover:bg-red-100 text-red-600 disabled:opacity-30"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Interactive Map */}
           <CoordinateSelectorMap
             onCoordinateSelect={handleMapCoordinateSelect}
             startCoordinate={startCoordinate}
-            endCoordinate={endCoordinate}
+            endCoordinate={isLoopMode ? undefined : endCoordinate}
+            viaCoordinates={isLoopMode ? undefined : viaCoordinates}
             selectionMode={selectionType}
             loading={loading}
             height="h-96"
+            avoidAreas={avoidAreas}
+            drawingShape={drawingShape}
+            onAvoidAreaDrawn={handleAvoidAreaDrawn}
+            onDrawingCancel={() => setDrawingShape(null)}
           />
         </div>
 
         <div className={STYLES.BUTTON_FLEX_COL_SM_ROW}>
-          <FindOptimalRouteButton loading={loading} />
+          <FindOptimalRouteButton loading={loading} progress={progress} onCancel={onCancel} />
           <div className="relative">
             <button
               type="button"
@@ -184,7 +622,7 @@ export function EnhancedRouteInputForm({ onRouteSubmit, loading = false }: Enhan
 
       <div className={STYLES.TIP_BOX}>
         <p className={STYLES.TIP_TEXT}>
-          <strong>{UI_TEXT.TIP_LABEL}</strong> Click &quot;Select Start Point&quot; or &quot;Select End Point&quot;, then click on the map to place markers for your route.
+          <strong>{UI_TEXT.TIP_LABEL}</strong> Click &quot;Select Start Point&quot; or &quot;Select End Point&quot;, then click on the map to place markers for your route. Use &quot;Add Via Point&quot; to route through huts, cols or summits in order.
         </p>
       </div>
     </div>
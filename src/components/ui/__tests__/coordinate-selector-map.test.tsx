@@ -2,7 +2,7 @@
  * Tests for coordinate selector map component
  */
 
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { CoordinateSelectorMap } from '../coordinate-selector-map';
 
 // Mock mapbox-gl
@@ -198,6 +198,25 @@ describe('CoordinateSelectorMap', () => {
     expect(screen.getByText(/selecting end point/i)).toBeInTheDocument();
   });
 
+  it('should show drawing controls instead of the selection indicator while drawing', () => {
+    const mockOnDrawingCancel = jest.fn();
+    render(
+      <CoordinateSelectorMap 
+        onCoordinateSelect={mockOnCoordinateSelect}
+        selectionMode="start"
+        drawingShape="polygon"
+        onDrawingCancel={mockOnDrawingCancel}
+      />
+    );
+
+    expect(screen.getByText(/outline the area to avoid/i)).toBeInTheDocument();
+    expect(screen.queryByText(/selecting start point/i)).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /finish/i })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /cancel/i }));
+    expect(mockOnDrawingCancel).toHaveBeenCalled();
+  });
+
   it('should be disabled when loading', () => {
     render(
       <CoordinateSelectorMap 
@@ -8,38 +8,90 @@ import { useEffect, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { Coordinate } from '@/types/route';
+import { AvoidArea } from '@/types/pathfinding';
 import { MAPBOX_ACCESS_TOKEN } from '@/lib/mapbox-config';
+import { AVOID_AREA_CONSTANTS } from '@/lib/algorithms/pathfinding/avoid-areas';
+import { UI_TEXT } from '@/constants/ui-text';
+import { COLORS } from '@/constants/colors';
 import { MapPin, Navigation } from 'lucide-react';
 
+export type CoordinateSelectionType = 'start' | 'end' | 'via';
+
 interface CoordinateSelectorMapProps {
-  onCoordinateSelect: (coordinate: Coordinate, type: 'start' | 'end') => void;
+  onCoordinateSelect: (coordinate: Coordinate, type: CoordinateSelectionType) => void;
   startCoordinate?: Coordinate;
   endCoordinate?: Coordinate;
-  selectionMode?: 'start' | 'end' | null;
+  viaCoordinates?: Coordinate[];
+  selectionMode?: CoordinateSelectionType | null;
   center?: Coordinate;
   height?: string;
   className?: string;
   loading?: boolean;
+  avoidAreas?: AvoidArea[];
+  /** Shape being drawn; map clicks add its vertices instead of selecting coordinates */
+  drawingShape?: AvoidArea['shape'] | null;
+  onAvoidAreaDrawn?: (coordinates: Coordinate[], shape: AvoidArea['shape']) => void;
+  onDrawingCancel?: () => void;
+}
+
+// Stable defaults so marker and layer effects don't re-run on every render
+const NO_VIA_POINTS: Coordinate[] = [];
+const NO_AVOID_AREAS: AvoidArea[] = [];
+
+const AVOID_AREAS_SOURCE = 'avoid-areas';
+
+/**
+ * GeoJSON for the avoid areas and the shape being drawn
+ */
+function buildAvoidAreaFeatures(avoidAreas: AvoidArea[], draft: Coordinate[], drawingShape: AvoidArea['shape'] | null) {
+  const toPositions = (coordinates: Coordinate[]) => coordinates.map(coord => [coord.lng, coord.lat]);
+  const toGeometry = (shape: AvoidArea['shape'], coordinates: Coordinate[]) =>
+    shape === 'polygon' && coordinates.length >= AVOID_AREA_CONSTANTS.MIN_POLYGON_VERTICES
+      ? { type: 'Polygon' as const, coordinates: [toPositions([...coordinates, coordinates[0]])] }
+      : { type: 'LineString' as const, coordinates: toPositions(coordinates) };
+
+  const features = avoidAreas.map(area => ({
+    type: 'Feature' as const,
+    properties: { mode: area.mode as string },
+    geometry: toGeometry(area.shape, area.coordinates),
+  }));
+  if (drawingShape && draft.length > 0) {
+    features.push({
+      type: 'Feature' as const,
+      properties: { mode: 'draft' },
+      geometry: toGeometry(drawingShape, draft.length > 1 ? draft : [draft[0], draft[0]]),
+    });
+  }
+
+  return { type: 'FeatureCollection' as const, features };
 }
 
 export function CoordinateSelectorMap({
   onCoordinateSelect,
   startCoordinate,
   endCoordinate,
+  viaCoordinates = NO_VIA_POINTS,
   selectionMode = null,
   center = { lat: 46.8182, lng: 8.2275 }, // Switzerland center
   height = 'h-64',
   className = '',
-  loading = false
+  loading = false,
+  avoidAreas = NO_AVOID_AREAS,
+  drawingShape = null,
+  onAvoidAreaDrawn,
+  onDrawingCancel
 }: CoordinateSelectorMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const startMarker = useRef<mapboxgl.Marker | null>(null);
   const endMarker = useRef<mapboxgl.Marker | null>(null);
-  const selectionModeRef = useRef<'start' | 'end' | null>(selectionMode);
+  const viaMarkers = useRef<mapboxgl.Marker[]>([]);
+  const selectionModeRef = useRef<CoordinateSelectionType | null>(selectionMode);
   const loadingRef = useRef<boolean>(loading);
   const onCoordinateSelectRef = useRef(onCoordinateSelect);
+  const drawingShapeRef = useRef<AvoidArea['shape'] | null>(drawingShape);
   const [mapLoaded, setMapLoaded] = useState(false);
+  const [draftVertices, setDraftVertices] = useState<Coordinate[]>([]);
 
   // Update refs when props change
   useEffect(() => {
@@ -54,6 +106,12 @@ export function CoordinateSelectorMap({
     onCoordinateSelectRef.current = onCoordinateSelect;
   }, [onCoordinateSelect]);
 
+  // A new drawing starts from scratch
+  useEffect(() => {
+    drawingShapeRef.current = drawingShape;
+    setDraftVertices([]);
+  }, [drawingShape]);
+
   // Initialize map - simplified approach
   useEffect(() => {
     if (!mapContainer.current || map.current) return;
@@ -84,19 +142,25 @@ export function CoordinateSelectorMap({
 
     // Handle click events for coordinate selection
     map.current.on('click', (e) => {
-      if (loadingRef.current || !selectionModeRef.current) return;
+      if (loadingRef.current) return;
 
       const coordinate: Coordinate = {
         lat: e.lngLat.lat,
         lng: e.lngLat.lng
       };
 
+      if (drawingShapeRef.current) {
+        setDraftVertices(previous => [...previous, coordinate]);
+        return;
+      }
+      if (!selectionModeRef.current) return;
+
       onCoordinateSelectRef.current(coordinate, selectionModeRef.current);
     });
 
-    // Change cursor on hover when in selection mode
+    // Change cursor on hover when in selection or drawing mode
     map.current.on('mouseenter', () => {
-      if (selectionModeRef.current && !loadingRef.current) {
+      if ((selectionModeRef.current || drawingShapeRef.current) && !loadingRef.current) {
         map.current!.getContainer().style.cursor = 'crosshair';
       }
     });
@@ -115,19 +179,20 @@ export function CoordinateSelectorMap({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Auto-fit map to show both markers when both exist
+  // Auto-fit map to show all markers when both start and end exist
   useEffect(() => {
     if (!map.current || !mapLoaded || !startCoordinate || !endCoordinate) return;
 
     const bounds = new mapboxgl.LngLatBounds();
     bounds.extend([startCoordinate.lng, startCoordinate.lat]);
     bounds.extend([endCoordinate.lng, endCoordinate.lat]);
+    viaCoordinates.forEach(via => bounds.extend([via.lng, via.lat]));
     
     map.current.fitBounds(bounds, {
       padding: 50,
       maxZoom: 12
     });
-  }, [startCoordinate, endCoordinate, mapLoaded]);
+  }, [startCoordinate, endCoordinate, viaCoordinates, mapLoaded]);
 
   // Simple resize when map loads
   useEffect(() => {
@@ -186,8 +251,74 @@ export function CoordinateSelectorMap({
     }
   }, [endCoordinate, mapLoaded]);
 
+  // Update numbered via-point markers
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    viaMarkers.current.forEach(marker => marker.remove());
+    viaMarkers.current = [];
 
-  const hasMarkers = startCoordinate || endCoordinate;
+    viaCoordinates.forEach((via, index) => {
+      const el = document.createElement('div');
+      el.className = 'w-6 h-6 rounded-full border-2 border-white shadow-lg flex items-center justify-center bg-blue-500 text-white text-xs font-bold';
+      el.textContent = `${index + 1}`;
+
+      viaMarkers.current.push(
+        new mapboxgl.Marker(el)
+          .setLngLat([via.lng, via.lat])
+          .addTo(map.current!)
+      );
+    });
+  }, [viaCoordinates, mapLoaded]);
+
+  // Draw avoid areas, barriers in red and penalty areas in orange, with the shape being drawn in blue
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    const data = buildAvoidAreaFeatures(avoidAreas, draftVertices, drawingShape);
+    const source = map.current.getSource(AVOID_AREAS_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    const color: mapboxgl.ExpressionSpecification = [
+      'match', ['get', 'mode'],
+      'barrier', COLORS.AVOID_BARRIER,
+      'penalty', COLORS.AVOID_PENALTY,
+      COLORS.AVOID_DRAFT
+    ];
+    map.current.addSource(AVOID_AREAS_SOURCE, { type: 'geojson', data });
+    map.current.addLayer({
+      id: `${AVOID_AREAS_SOURCE}-fill`,
+      type: 'fill',
+      source: AVOID_AREAS_SOURCE,
+      filter: ['==', ['geometry-type'], 'Polygon'],
+      paint: { 'fill-color': color, 'fill-opacity': 0.2 }
+    });
+    map.current.addLayer({
+      id: `${AVOID_AREAS_SOURCE}-outline`,
+      type: 'line',
+      source: AVOID_AREAS_SOURCE,
+      paint: { 'line-color': color, 'line-width': 3 }
+    });
+  }, [avoidAreas, draftVertices, drawingShape, mapLoaded]);
+
+  const finishDrawing = () => {
+    if (!drawingShape) return;
+    onAvoidAreaDrawn?.(draftVertices, drawingShape);
+    setDraftVertices([]);
+  };
+
+  const cancelDrawing = () => {
+    setDraftVertices([]);
+    onDrawingCancel?.();
+  };
+
+  const minDraftVertices = drawingShape === 'polygon'
+    ? AVOID_AREA_CONSTANTS.MIN_POLYGON_VERTICES
+    : AVOID_AREA_CONSTANTS.MIN_LINE_VERTICES;
+  const hasMarkers = startCoordinate || endCoordinate || viaCoordinates.length > 0;
   const isDisabled = loading;
 
   return (
@@ -200,7 +331,7 @@ export function CoordinateSelectorMap({
       />
       
       {/* Instructions overlay when in selection mode */}
-      {selectionMode && !hasMarkers && !loading && (
+      {selectionMode && !drawingShape && !hasMarkers && !loading && (
         <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-20 pointer-events-none">
           <div className="bg-white px-4 py-2 rounded-lg shadow-lg text-center">
             <MapPin className="w-5 h-5 mx-auto mb-1 text-gray-600" />
@@ -211,14 +342,43 @@ export function CoordinateSelectorMap({
         </div>
       )}
 
+      {/* Avoid area drawing controls */}
+      {drawingShape && !loading && (
+        <div className="absolute top-3 left-3 bg-white px-3 py-2 rounded-lg shadow-lg text-sm flex items-center space-x-2">
+          <span className="text-gray-700">
+            {drawingShape === 'polygon' ? UI_TEXT.DRAWING_AVOID_AREA : UI_TEXT.DRAWING_AVOID_LINE}
+          </span>
+          <button
+            type="button"
+            onClick={finishDrawing}
+            disabled={draftVertices.length < minDraftVertices}
+            className="px-2 py-1 rounded bg-blue-500 text-white disabled:opacity-40"
+          >
+            {UI_TEXT.FINISH_DRAWING}
+          </button>
+          <button
+            type="button"
+            onClick={cancelDrawing}
+            className="px-2 py-1 rounded border border-gray-300 text-gray-700"
+          >
+            {UI_TEXT.CANCEL_DRAWING}
+          </button>
+        </div>
+      )}
+
       {/* Selection mode indicator */}
-      {selectionMode && !loading && (
+      {selectionMode && !drawingShape && !loading && (
         <div className="absolute top-3 left-3 bg-white px-3 py-1 rounded-full shadow-lg text-sm flex items-center">
           {selectionMode === 'start' ? (
             <>
               <MapPin className="w-4 h-4 text-green-500 mr-1" />
               <span className="text-gray-700">Selecting start point</span>
             </>
+          ) : selectionMode === 'via' ? (
+            <>
+              <MapPin className="w-4 h-4 text-blue-500 mr-1" />
+              <span className="text-gray-700">Adding via point</span>
+            </>
           ) : (
             <>
               <MapPin className="w-4 h-4 text-red-500 mr-1" />
@@ -8,10 +8,12 @@ import { COLORS } from '@/constants/colors';
 
 interface ElevationChartProps {
   points: RoutePoint[];
+  /** Profiles of other route variants, drawn faintly behind the route for comparison */
+  comparisonProfiles?: RoutePoint[][];
   className?: string;
 }
 
-export function ElevationChart({ points, className = '' }: ElevationChartProps) {
+export function ElevationChart({ points, comparisonProfiles = [], className = '' }: ElevationChartProps) {
   if (!points || points.length === 0) {
     return null;
   }
@@ -20,6 +22,12 @@ export function ElevationChart({ points, className = '' }: ElevationChartProps)
   const minElevation = Math.min(...points.map(p => p.elevation));
   const elevationRange = maxElevation - minElevation || 1;
 
+  // Scale the chart to fit the comparison profiles as well
+  const chartElevations = [points, ...comparisonProfiles].flat().map(p => p.elevation);
+  const chartMaxElevation = Math.max(...chartElevations);
+  const chartMinElevation = Math.min(...chartElevations);
+  const chartElevationRange = chartMaxElevation - chartMinElevation || 1;
+
   // Dynamic chart sizing based on number of waypoints - made larger
   const minWidth = 600;
   const maxWidth = 1400;
@@ -27,20 +35,24 @@ export function ElevationChart({ points, className = '' }: ElevationChartProps)
   const chartHeight = 350; // Much taller for better visibility
   const padding = 50; // More padding for labels
 
-  const pathData = points
+  const getY = (elevation: number) =>
+    chartHeight - padding - ((elevation - chartMinElevation) / chartElevationRange) * (chartHeight - 2 * padding);
+
+  const buildPathData = (profile: RoutePoint[]) => profile
     .map((point, index) => {
-      const x = padding + (index / (points.length - 1)) * (chartWidth - 2 * padding);
-      const y = chartHeight - padding - ((point.elevation - minElevation) / elevationRange) * (chartHeight - 2 * padding);
-      return `${index === 0 ? 'M' : 'L'} ${x} ${y}`;
+      const x = padding + (index / (profile.length - 1)) * (chartWidth - 2 * padding);
+      return `${index === 0 ? 'M' : 'L'} ${x} ${getY(point.elevation)}`;
     })
     .join(' ');
 
+  const pathData = buildPathData(points);
+
   const areaData = `${pathData} L ${chartWidth - padding} ${chartHeight - padding} L ${padding} ${chartHeight - padding} Z`;
 
   const gridLines = [];
   for (let i = 0; i <= 5; i++) {
     const y = padding + (i / 5) * (chartHeight - 2 * padding);
-    const elevation = maxElevation - (i / 5) * elevationRange;
+    const elevation = chartMaxElevation - (i / 5) * chartElevationRange;
     gridLines.push(
       <g key={i}>
         <line
@@ -91,6 +103,17 @@ export function ElevationChart({ points, className = '' }: ElevationChartProps)
             </linearGradient>
           </defs>
           
+          {comparisonProfiles.filter(profile => profile.length > 1).map((profile, index) => (
+            <path
+              key={`comparison-${index}`}
+              d={buildPathData(profile)}
+              fill="none"
+              stroke="#9ca3af"
+              strokeWidth="1.5"
+              strokeDasharray="6 4"
+            />
+          ))}
+          
           <path
             d={areaData}
             fill="url(#elevationGradient)"
@@ -121,7 +144,7 @@ export function ElevationChart({ points, className = '' }: ElevationChartProps)
             }
             
             const x = padding + (index / (points.length - 1)) * (chartWidth - 2 * padding);
-            const y = chartHeight - padding - ((point.elevation - minElevation) / elevationRange) * (chartHeight - 2 * padding);
+            const y = getY(point.elevation);
             
             return (
               <g key={index}>
@@ -10,11 +10,24 @@ import 'mapbox-gl/dist/mapbox-gl.css';
 
 interface RouteMapProps {
   points: RoutePoint[];
+  /** Selectable route variants, drawn beneath the route except for the selected one */
+  alternatives?: RoutePoint[][];
+  selectedAlternative?: number;
+  onAlternativeSelect?: (index: number) => void;
   className?: string;
   onMapReady?: () => void;
 }
 
-export function RouteMap({ points, className = '', onMapReady }: RouteMapProps) {
+const NO_ALTERNATIVES: RoutePoint[][] = [];
+
+export function RouteMap({
+  points,
+  alternatives = NO_ALTERNATIVES,
+  selectedAlternative = 0,
+  onAlternativeSelect,
+  className = '',
+  onMapReady
+}: RouteMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
@@ -57,9 +70,10 @@ export function RouteMap({ points, className = '', onMapReady }: RouteMapProps)
     
     mapboxgl.accessToken = token;
 
-    // Calculate bounds for the route
-    const lats = points.map(p => p.lat);
-    const lngs = points.map(p => p.lng);
+    // Calculate bounds for the route and its alternatives
+    const allPoints = [...points, ...alternatives.flat()];
+    const lats = allPoints.map(p => p.lat);
+    const lngs = allPoints.map(p => p.lng);
     const bounds = new mapboxgl.LngLatBounds(
       [Math.min(...lngs), Math.min(...lats)],
       [Math.max(...lngs), Math.max(...lats)]
@@ -88,6 +102,50 @@ export function RouteMap({ points, className = '', onMapReady }: RouteMapProps)
 
       map.current.on('load', () => {
       if (!map.current) return;
+
+      // Draw unselected alternatives first so they sit beneath the route
+      alternatives.forEach((alternative, index) => {
+        if (index === selectedAlternative || alternative.length < 2) return;
+
+        const layerId = `route-alternative-${index}`;
+        map.current!.addSource(layerId, {
+          type: 'geojson',
+          data: {
+            type: 'Feature',
+            properties: {},
+            geometry: {
+              type: 'LineString',
+              coordinates: alternative.map(point => [point.lng, point.lat])
+            }
+          }
+        });
+
+        map.current!.addLayer({
+          id: layerId,
+          type: 'line',
+          source: layerId,
+          layout: {
+            'line-join': 'round',
+            'line-cap': 'round'
+          },
+          paint: {
+            'line-color': COLORS.ALTERNATIVE_ROUTE,
+            'line-width': 5,
+            'line-opacity': 0.7,
+            'line-dasharray': [2, 1]
+          }
+        });
+
+        if (onAlternativeSelect) {
+          map.current!.on('click', layerId, () => onAlternativeSelect(index));
+          map.current!.on('mouseenter', layerId, () => {
+            map.current!.getCanvas().style.cursor = 'pointer';
+          });
+          map.current!.on('mouseleave', layerId, () => {
+            map.current!.getCanvas().style.cursor = '';
+          });
+        }
+      });
       
       // Add the route as a line
       const routeCoordinates = points.map(point => [point.lng, point.lat]);
@@ -214,7 +272,7 @@ export function RouteMap({ points, className = '', onMapReady }: RouteMapProps)
         map.current = null;
       }
     };
-  }, [points, getElevationColor, onMapReady]);
+  }, [points, alternatives, selectedAlternative, onAlternativeSelect, getElevationColor, onMapReady]);
 
   if (!points || points.length === 0) {
     return null;
@@ -366,6 +424,10 @@ export function RouteMap({ points, className = '', onMapReady }: RouteMapProps)
           </div>
         </div>
         
+        {alternatives.length > 1 && (
+          <div className={STYLES.TEXT_SM_GRAY_500}>{UI_TEXT.ALTERNATIVE_ROUTES_HINT}</div>
+        )}
+
         <div className={`${STYLES.GRID_1_MD_2} ${STYLES.TEXT_SM_GRAY}`}>
           <div>
             <div className={`font-semibold ${COLORS.TEXT.SECONDARY}`}>{UI_TEXT.COORDINATES_LABEL}</div>
@@ -0,0 +1,59 @@
+/**
+ * Tests for AvalancheTerrainReport component
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { AvalancheTerrainReport } from '../avalanche-terrain-report';
+import { AvalancheReport, PathfindingDiagnostics } from '@/types/pathfinding';
+
+describe('AvalancheTerrainReport', () => {
+  const diagnostics = (avalanche?: AvalancheReport): PathfindingDiagnostics => ({
+    strategy: 'trail-graph',
+    degraded: false,
+    fallbackReasons: [],
+    iterations: 0,
+    nodesExpanded: 0,
+    elapsedMs: 0,
+    failedSources: [],
+    warnings: [],
+    blockedAvoidAreas: [],
+    ...(avalanche && { avalanche }),
+  });
+  const steepReport: AvalancheReport = {
+    terrainClass: 'complex',
+    segments: ['simple', 'challenging', 'complex'],
+    sections: [{ startDistance: 1.23, endDistance: 2.5, terrainClass: 'complex', maxSlopeAngle: 37.6 }],
+  };
+
+  it('should render nothing outside winter mode', () => {
+    const { container } = render(<AvalancheTerrainReport diagnostics={[diagnostics()]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should list steep sections with distance markers', () => {
+    render(<AvalancheTerrainReport diagnostics={[diagnostics(steepReport)]} />);
+
+    const section = screen.getByRole('listitem');
+    expect(section).toHaveTextContent('1.2-2.5 km');
+    expect(section).toHaveTextContent('Complex');
+    expect(section).toHaveTextContent('38°');
+  });
+
+  it('should label sections by leg on routes with via-points', () => {
+    render(<AvalancheTerrainReport diagnostics={[diagnostics(steepReport), diagnostics(steepReport)]} />);
+
+    expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual([
+      expect.stringMatching(/^Leg 1: /),
+      expect.stringMatching(/^Leg 2: /),
+    ]);
+  });
+
+  it('should say when a route avoids avalanche terrain', () => {
+    render(<AvalancheTerrainReport diagnostics={[diagnostics({ terrainClass: 'simple', segments: ['simple'], sections: [] })]} />);
+
+    expect(screen.getByText(/no avalanche terrain/i)).toBeInTheDocument();
+  });
+});
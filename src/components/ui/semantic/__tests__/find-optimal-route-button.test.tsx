@@ -0,0 +1,39 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FindOptimalRouteButton } from '../find-optimal-route-button';
+import { UI_TEXT } from '@/constants/ui-text';
+
+describe('FindOptimalRouteButton', () => {
+  it('should show the default label when idle', () => {
+    render(<FindOptimalRouteButton onCancel={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: UI_TEXT.FIND_OPTIMAL_ROUTE })).toBeEnabled();
+    expect(screen.queryByRole('button', { name: UI_TEXT.CANCEL_ROUTE_SEARCH })).not.toBeInTheDocument();
+  });
+
+  it('should show the generic loading label before any progress', () => {
+    render(<FindOptimalRouteButton loading />);
+
+    expect(screen.getByRole('button', { name: UI_TEXT.FINDING_ROUTE })).toBeDisabled();
+  });
+
+  it('should show the current stage with the search iterations', () => {
+    render(<FindOptimalRouteButton loading progress={{ stage: 'searching', iterations: 150, maxIterations: 500 }} />);
+
+    expect(screen.getByRole('button', { name: `${UI_TEXT.SEARCHING_ROUTE} (150/500)` })).toBeInTheDocument();
+  });
+
+  it('should show the current stage without iterations', () => {
+    render(<FindOptimalRouteButton loading progress={{ stage: 'fetching-trails' }} />);
+
+    expect(screen.getByRole('button', { name: UI_TEXT.FETCHING_TRAILS })).toBeInTheDocument();
+  });
+
+  it('should cancel the running search', () => {
+    const onCancel = jest.fn();
+    render(<FindOptimalRouteButton loading onCancel={onCancel} />);
+
+    fireEvent.click(screen.getByRole('button', { name: UI_TEXT.CANCEL_ROUTE_SEARCH }));
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,54 @@
+import { AvalancheTerrainClass, PathfindingDiagnostics } from '@/types/pathfinding';
+import { UI_TEXT } from '@/constants/ui-text';
+
+interface AvalancheTerrainReportProps {
+  /** Diagnostics of the planned route, one entry per leg */
+  diagnostics: PathfindingDiagnostics[];
+  className?: string;
+}
+
+const CLASS_LABELS: Record<AvalancheTerrainClass, string> = {
+  simple: UI_TEXT.AVALANCHE_CLASS_SIMPLE,
+  challenging: UI_TEXT.AVALANCHE_CLASS_CHALLENGING,
+  complex: UI_TEXT.AVALANCHE_CLASS_COMPLEX,
+};
+
+const CLASS_STYLES: Record<AvalancheTerrainClass, string> = {
+  simple: 'text-green-700',
+  challenging: 'text-orange-700',
+  complex: 'text-red-700',
+};
+
+/**
+ * Steep sections of a route planned in winter mode, with their avalanche terrain class
+ * and distance markers; hidden when no leg has an avalanche report
+ */
+export function AvalancheTerrainReport({ diagnostics, className }: AvalancheTerrainReportProps) {
+  const legs = diagnostics
+    .map((entry, index) => ({ leg: index + 1, report: entry.avalanche }))
+    .filter(leg => leg.report !== undefined);
+  if (legs.length === 0) return null;
+
+  const sections = legs.flatMap(({ leg, report }) => report!.sections.map(section => ({ leg, ...section })));
+
+  return (
+    <section aria-label={UI_TEXT.AVALANCHE_TERRAIN_TITLE} className={`bg-white border border-gray-200 rounded-lg p-4 ${className || ''}`}>
+      <h3 className="text-sm font-medium text-gray-900">{UI_TEXT.AVALANCHE_TERRAIN_TITLE}</h3>
+      <p className="mt-1 text-sm text-gray-600">{UI_TEXT.AVALANCHE_TERRAIN_DESCRIPTION}</p>
+      {sections.length === 0 ? (
+        <p className="mt-2 text-sm text-green-700">{UI_TEXT.NO_AVALANCHE_TERRAIN}</p>
+      ) : (
+        <ul className="mt-2 space-y-1 text-sm text-gray-700">
+          {sections.map(section => (
+            <li key={`${section.leg}-${section.startDistance}`}>
+              {diagnostics.length > 1 && `${UI_TEXT.AVALANCHE_LEG_LABEL} ${section.leg}: `}
+              {section.startDistance.toFixed(1)}-{section.endDistance.toFixed(1)} {UI_TEXT.UNIT_KM}{' '}
+              <span className={`font-medium ${CLASS_STYLES[section.terrainClass]}`}>{CLASS_LABELS[section.terrainClass]}</span>{' '}
+              ({Math.round(section.maxSlopeAngle)}{UI_TEXT.UNIT_DEGREES})
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,32 @@
+import { PathfindingDiagnostics } from '@/types/pathfinding';
+import { UI_TEXT } from '@/constants/ui-text';
+
+interface DegradedRouteNoticeProps {
+  /** Diagnostics of the planned route, one entry per leg */
+  diagnostics: PathfindingDiagnostics[];
+  className?: string;
+}
+
+/**
+ * Notice shown when any part of the route is a fallback rather than an optimised route
+ */
+export function DegradedRouteNotice({ diagnostics, className }: DegradedRouteNoticeProps) {
+  const degraded = diagnostics.filter(entry => entry.degraded);
+  if (degraded.length === 0) return null;
+
+  const details = Array.from(new Set(degraded.flatMap(entry => [...entry.fallbackReasons, ...entry.warnings])));
+
+  return (
+    <div role="alert" className={`bg-yellow-50 border border-yellow-200 rounded-lg p-4 ${className || ''}`}>
+      <h3 className="text-sm font-medium text-yellow-800">{UI_TEXT.DEGRADED_ROUTE_TITLE}</h3>
+      <p className="mt-1 text-sm text-yellow-700">{UI_TEXT.DEGRADED_ROUTE_DESCRIPTION}</p>
+      {details.length > 0 && (
+        <ul className="mt-2 list-disc list-inside text-sm text-yellow-700">
+          {details.map(detail => (
+            <li key={detail}>{detail}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
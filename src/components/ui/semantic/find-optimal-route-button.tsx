@@ -1,5 +1,13 @@
 import { Button } from '@/components/ui/button';
 import { UI_TEXT } from '@/constants/ui-text';
+import { PathfindingProgress, PathfindingStage } from '@/types/pathfinding';
+
+const STAGE_LABELS: Record<PathfindingStage, string> = {
+  'fetching-trails': UI_TEXT.FETCHING_TRAILS,
+  'fetching-elevation': UI_TEXT.FETCHING_ELEVATION,
+  'searching': UI_TEXT.SEARCHING_ROUTE,
+  'post-processing': UI_TEXT.REFINING_ROUTE,
+};
 
 interface FindOptimalRouteButtonProps {
   loading?: boolean;
@@ -7,6 +15,23 @@ interface FindOptimalRouteButtonProps {
   onClick?: () => void;
   type?: 'button' | 'submit';
   className?: string;
+  /** Latest progress of the running search, shown while loading */
+  progress?: PathfindingProgress | null;
+  /** Cancels the running search; a cancel button is shown while loading when set */
+  onCancel?: () => void;
+}
+
+/**
+ * Button label while a search is running
+ */
+function getProgressLabel(progress?: PathfindingProgress | null): string {
+  if (!progress) return UI_TEXT.FINDING_ROUTE;
+
+  const label = STAGE_LABELS[progress.stage];
+  if (progress.iterations !== undefined && progress.maxIterations) {
+    return `${label} (${progress.iterations}/${progress.maxIterations})`;
+  }
+  return label;
 }
 
 export function FindOptimalRouteButton({ 
@@ -14,16 +39,25 @@ export function FindOptimalRouteButton({
   disabled = false, 
   onClick,
   type = 'submit',
-  className = 'flex-1'
+  className = 'flex-1',
+  progress,
+  onCancel
 }: FindOptimalRouteButtonProps) {
   return (
-    <Button 
-      type={type}
-      disabled={loading || disabled} 
-      onClick={onClick}
-      className={className}
-    >
-      {loading ? UI_TEXT.FINDING_ROUTE : UI_TEXT.FIND_OPTIMAL_ROUTE}
-    </Button>
+    <>
+      <Button 
+        type={type}
+        disabled={loading || disabled} 
+        onClick={onClick}
+        className={className}
+      >
+        {loading ? getProgressLabel(progress) : UI_TEXT.FIND_OPTIMAL_ROUTE}
+      </Button>
+      {loading && onCancel && (
+        <Button type="button" variant="outline" onClick={onCancel}>
+          {UI_TEXT.CANCEL_ROUTE_SEARCH}
+        </Button>
+      )}
+    </>
   );
-}
\ No newline at end of file
+}
@@ -1,9 +1,19 @@
+'use client';
+
+import { useMemo, useState } from 'react';
 import { Route } from '@/types/route';
 import { PathfindingOptions } from '@/types/pathfinding';
 import { DatabaseRoute } from '@/types/database';
 import { UI_TEXT } from '@/constants/ui-text';
 import { STYLES } from '@/constants/styles';
 import { SaveRouteButton } from './save-route-button';
+import { estimateEnergyExpenditure } from '@/lib/algorithms/pathfinding/terrain/terrain-analyzer';
+import { describeWaymarkedRouteSection } from '@/lib/algorithms/pathfinding/waymarked-routes';
+
+/** Body mass in kg assumed for the energy estimate until the user changes it */
+const DEFAULT_BODY_MASS_KG = 70;
+/** Pack weight in kg assumed for the energy estimate until the user changes it */
+const DEFAULT_PACK_WEIGHT_KG = 8;
 
 interface RouteSummaryCardProps {
   route: Route;
@@ -40,6 +50,14 @@ export function RouteSummaryCard({
   onAuthRequired, 
   className 
 }: RouteSummaryCardProps) {
+  const [bodyMass, setBodyMass] = useState(String(DEFAULT_BODY_MASS_KG));
+  const [packWeight, setPackWeight] = useState(String(DEFAULT_PACK_WEIGHT_KG));
+  const carriedMass = (Number(bodyMass) || 0) + (Number(packWeight) || 0);
+  const energy = useMemo(
+    () => Math.round(estimateEnergyExpenditure(route.points, carriedMass)),
+    [route.points, carriedMass]
+  );
+
   return (
     <div className={`${STYLES.CARD} ${className || ''}`}>
       {/* Header with Save Button */}
@@ -73,7 +91,7 @@ export function RouteSummaryCard({
         />
         <MetricItem 
           value={route.difficulty}
-          unit=""
+          unit={route.sacScale ? ` (${route.sacScale.hardestGrade})` : ''}
           label={UI_TEXT.DIFFICULTY}
           colorClass={`${STYLES.COLOR_ORANGE} capitalize`}
         />
@@ -84,6 +102,73 @@ export function RouteSummaryCard({
           colorClass={STYLES.COLOR_PURPLE}
         />
       </div>
+
+      {/* Energy estimate for the walker's body mass and pack */}
+      <div className={`mt-6 ${STYLES.FLEX_BETWEEN} flex-wrap gap-4`}>
+        <MetricItem
+          value={energy}
+          unit={UI_TEXT.UNIT_KCAL}
+          label={UI_TEXT.ESTIMATED_ENERGY}
+          colorClass={STYLES.COLOR_RED}
+        />
+        <div className={`flex flex-wrap items-center gap-4 ${STYLES.TEXT_SM_GRAY}`}>
+          <label className="flex items-center space-x-2">
+            <span>{UI_TEXT.BODY_MASS}</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={bodyMass}
+              onChange={(e) => setBodyMass(e.target.value)}
+              className="w-20 px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>{UI_TEXT.PACK_WEIGHT}</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={packWeight}
+              onChange={(e) => setPackWeight(e.target.value)}
+              className="w-20 px-2 py-1 rounded-md border border-gray-300 text-gray-900"
+            />
+          </label>
+        </div>
+      </div>
+
+      {/* Hardest stretch along SAC-graded trails */}
+      {route.sacScale && (
+        <p className={`mt-4 ${STYLES.TEXT_SM_GRAY}`}>
+          {UI_TEXT.HARDEST_SECTION}: {route.sacScale.hardestSection.grade}
+          {route.sacScale.hardestSection.trailName && ` · ${route.sacScale.hardestSection.trailName}`}
+          {' · '}{route.sacScale.hardestSection.startDistance.toFixed(1)}-{route.sacScale.hardestSection.endDistance.toFixed(1)}{UI_TEXT.UNIT_KM}
+        </p>
+      )}
+
+      {/* Waymarked hiking routes along the way, in order */}
+      {route.waymarkedRoutes?.map(section => (
+        <p key={section.startDistance} className={`mt-2 ${STYLES.TEXT_SM_GRAY}`}>
+          {UI_TEXT.FOLLOWS_WAYMARKED_ROUTE} {describeWaymarkedRouteSection(section)}
+        </p>
+      ))}
+
+      {/* Per-leg breakdown for routes with via-points */}
+      {route.legs && route.legs.length > 1 && (
+        <div className="mt-6">
+          <h4 className={STYLES.LABEL_STYLE}>{UI_TEXT.ROUTE_LEGS}</h4>
+          <ul className={`mt-2 ${STYLES.TEXT_SM_GRAY} divide-y divide-gray-100`}>
+            {route.legs.map((leg, index) => (
+              <li key={index} className={`${STYLES.FLEX_BETWEEN} py-1`}>
+                <span>{UI_TEXT.LEG_LABEL} {index + 1}</span>
+                <span>
+                  {leg.distance.toFixed(1)}{UI_TEXT.UNIT_KM} · +{Math.round(leg.elevationGain)}{UI_TEXT.UNIT_M} / -{Math.round(leg.elevationLoss)}{UI_TEXT.UNIT_M}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
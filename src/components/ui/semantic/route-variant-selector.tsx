@@ -0,0 +1,64 @@
+import { UI_TEXT } from '@/constants/ui-text';
+import { STYLES } from '@/constants/styles';
+
+/**
+ * Summary of one selectable route variant
+ */
+export interface RouteVariantSummary {
+  label: string;
+  distance: number;       // km
+  estimatedTime: number;  // hours
+  elevationGain?: number; // m
+  detail?: string;
+}
+
+interface RouteVariantSelectorProps {
+  title: string;
+  variants: RouteVariantSummary[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  className?: string;
+}
+
+export function RouteVariantSelector({
+  title,
+  variants,
+  selectedIndex,
+  onSelect,
+  className
+}: RouteVariantSelectorProps) {
+  return (
+    <div className={`${STYLES.CARD} ${className || ''}`}>
+      <h3 className={`${STYLES.HEADING_LG} mb-4`}>{title}</h3>
+      <div className={STYLES.GRID_1_MD_2} role="radiogroup" aria-label={title}>
+        {variants.map((variant, index) => {
+          const isSelected = index === selectedIndex;
+          return (
+            <button
+              key={index}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => onSelect(index)}
+              className={`text-left px-4 py-3 rounded-lg border transition-colors ${
+                isSelected
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 bg-white hover:bg-gray-50'
+              }`}
+            >
+              <div className="font-medium text-gray-900">{variant.label}</div>
+              <div className={STYLES.TEXT_SM_GRAY}>
+                {variant.distance.toFixed(1)}{UI_TEXT.UNIT_KM}
+                {variant.elevationGain !== undefined && <> · +{Math.round(variant.elevationGain)}{UI_TEXT.UNIT_M}</>}
+                {' · '}{variant.estimatedTime.toFixed(1)}{UI_TEXT.UNIT_H}
+              </div>
+              {variant.detail && (
+                <div className={STYLES.TEXT_SM_GRAY_500}>{variant.detail}</div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
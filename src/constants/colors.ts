@@ -13,6 +13,12 @@ export const COLORS = {
   START_POINT: '#22c55e',
   END_POINT: '#ef4444',
   WAYPOINT: '#374151',
+  ALTERNATIVE_ROUTE: '#6b7280',
+
+  // Avoid areas
+  AVOID_BARRIER: '#dc2626',
+  AVOID_PENALTY: '#f97316',
+  AVOID_DRAFT: '#3b82f6',
   
   // Text colors (Tailwind classes)
   TEXT: {
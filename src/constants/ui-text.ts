@@ -18,6 +18,11 @@ export const UI_TEXT = {
   LONGITUDE_PLACEHOLDER: 'Longitude',
   FIND_OPTIMAL_ROUTE: 'Find Optimal Route',
   FINDING_ROUTE: 'Finding Route...',
+  FETCHING_TRAILS: 'Fetching Trails...',
+  FETCHING_ELEVATION: 'Fetching Elevation...',
+  SEARCHING_ROUTE: 'Searching...',
+  REFINING_ROUTE: 'Refining Route...',
+  CANCEL_ROUTE_SEARCH: 'Cancel',
   USE_EXAMPLE: 'Use Example (Grindelwald to Eiger)',
   COORDINATE_TIP: 'Enter coordinates in decimal degrees. Positive latitude = North, Positive longitude = East. Example: Matterhorn is at 45.9763, 7.6586',
   TIP_LABEL: 'Tip:',
@@ -28,6 +33,8 @@ export const UI_TEXT = {
   ELEVATION_GAIN: 'Elevation Gain',
   DIFFICULTY: 'Difficulty',
   ESTIMATED_TIME: 'Est. Time',
+  ROUTE_LEGS: 'Legs',
+  LEG_LABEL: 'Leg',
 
   // Route Map
   ROUTE_MAP: 'Route Map',
@@ -63,15 +70,101 @@ export const UI_TEXT = {
   FILL_ALL_COORDINATES: 'Please fill in all coordinates',
   ENTER_VALID_COORDINATES: 'Please enter valid coordinates',
   NO_ROUTE_FOUND: 'No route found',
+  NO_LOOP_FOUND: 'No round trip could be built from the trails around this start point',
   ERROR_PLANNING_ROUTE: 'Error planning route. Please try again.',
 
   // Route Names
   OPTIMIZED_ALPINE_ROUTE: 'Optimized Alpine Route',
+  ROUND_TRIP_ROUTE: 'Round Trip',
+
+  // Round Trips
+  ROUND_TRIP: 'Round trip',
+  TARGET_DISTANCE: 'Target distance (km)',
+  TARGET_DURATION: 'Target time (h)',
+  LOOP_CANDIDATES: 'Round Trip Options',
+  LOOP_LABEL: 'Loop',
+  OFF_TARGET: 'off target',
+  ENTER_LOOP_TARGET: 'Please enter a target distance or time for the round trip.',
+
+  // Alternative Routes
+  ROUTE_ALTERNATIVES: 'Route Options',
+  OPTIMAL_ROUTE_LABEL: 'Optimal',
+  ALTERNATIVE_LABEL: 'Alternative',
+  ON_TRAIL: 'on trail',
+  ALTERNATIVE_ROUTES_HINT: 'Dashed grey lines show alternative routes. Click one to select it.',
+
+  // Avoid Areas
+  AVOID_AREAS: 'Avoid Areas',
+  DRAW_AVOID_AREA: 'Draw Avoid Area',
+  DRAW_AVOID_LINE: 'Draw Avoid Line',
+  DRAWING_AVOID_AREA: 'Click on map to outline the area to avoid',
+  DRAWING_AVOID_LINE: 'Click on map to trace the line to avoid',
+  FINISH_DRAWING: 'Finish',
+  CANCEL_DRAWING: 'Cancel',
+  AVOID_AREA_LABEL: 'Area',
+  AVOID_LINE_LABEL: 'Line',
+  AVOID_MODE_BARRIER: 'Never cross',
+  AVOID_MODE_PENALTY: 'Avoid if possible',
+
+  // Activities
+  ACTIVITY: 'Activity',
+  ACTIVITY_HIKING: 'Hiking',
+  ACTIVITY_TRAIL_RUNNING: 'Trail running',
+  ACTIVITY_MOUNTAIN_BIKING: 'Mountain biking',
+  ACTIVITY_SKI_TOURING: 'Ski touring',
+
+  // Cost Models
+  COST_MODEL: 'Optimise for',
+  COST_MODEL_TOBLER: 'Shortest time',
+  COST_MODEL_MINETTI: 'Least energy',
+  COST_MODEL_COMBINED: 'Time and energy',
+  ESTIMATED_ENERGY: 'Est. Energy',
+  BODY_MASS: 'Body mass (kg)',
+  PACK_WEIGHT: 'Pack weight (kg)',
+
+  // Avalanche Terrain
+  WINTER_MODE: 'Avalanche terrain',
+  WINTER_MODE_OFF: 'Ignore',
+  AVALANCHE_TERRAIN_TITLE: 'Avalanche Terrain',
+  AVALANCHE_TERRAIN_DESCRIPTION: 'Slopes of 30-45° where avalanches release, and the runout zones below them.',
+  AVALANCHE_CLASS_SIMPLE: 'Simple',
+  AVALANCHE_CLASS_CHALLENGING: 'Challenging',
+  AVALANCHE_CLASS_COMPLEX: 'Complex',
+  NO_AVALANCHE_TERRAIN: 'No avalanche terrain along this route',
+  AVALANCHE_LEG_LABEL: 'Leg',
+
+  // SAC Trail Grades
+  MAX_SAC_SCALE: 'Hardest trail',
+  MAX_SAC_SCALE_ANY: 'Any grade',
+  SAC_SCALE_T1: 'T1 Hiking',
+  SAC_SCALE_T2: 'T2 Mountain hiking',
+  SAC_SCALE_T3: 'T3 Demanding mountain hiking',
+  SAC_SCALE_T4: 'T4 Alpine hiking',
+  SAC_SCALE_T5: 'T5 Demanding alpine hiking',
+  HARDEST_SECTION: 'Hardest section',
+
+  // Grade Limits
+  MAX_SUSTAINED_GRADE: 'Max sustained grade (%)',
+  MAX_PITCH_GRADE: 'Max pitch grade (%)',
+
+  // Trail Access
+  PLANNED_DATE: 'Planned date',
+
+  // Waymarked Routes
+  FOLLOWS_WAYMARKED_ROUTE: 'Follows',
+
+  // Land Cover
+  ALLOW_GLACIERS: 'Allow glaciers',
+
+  // Route Diagnostics
+  DEGRADED_ROUTE_TITLE: 'Fallback Route',
+  DEGRADED_ROUTE_DESCRIPTION: 'This route could not be fully optimised and may not follow trails or the terrain. Check it carefully before relying on it.',
 
   // Units
   UNIT_KM: 'km',
   UNIT_M: 'm',
   UNIT_H: 'h',
+  UNIT_KCAL: 'kcal',
   UNIT_DEGREES: '°',
 
   // Route Saving
@@ -1,14 +1,27 @@
-import { findOptimalRoute } from '../pathfinding';
+import { findOptimalRoute, findOptimalRouteWithDiagnostics, findRouteThroughWaypoints, findLoopRoutes, findAlternativeRoutes } from '../pathfinding';
 import { Coordinate, RoutePoint } from '@/types/route';
-import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { AvoidArea, PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
 import { getElevationForRoute, getElevation } from '@/lib/api/elevation';
-import { fetchTrailData } from '@/lib/api/trails';
+import { fetchTrailData, DEFAULT_TRAIL_QUERY } from '@/lib/api/trails';
+import { OverpassError } from '@/lib/api/overpass';
+import { fetchElevationGrid, ElevationGrid } from '@/lib/api/elevation-grid';
 import { findDirectTrailPath } from '../pathfinding/trail-detection';
 import { optimizeRouteWithTrails, calculateHeuristic, calculateMovementCost, generateNeighbors, reconstructPath } from '../pathfinding/utilities';
 
-jest.mock('@/lib/api/elevation');
+jest.mock('@/lib/api/elevation', () => ({
+  ...jest.createMockFromModule<object>('@/lib/api/elevation'),
+  createElevationCacheStats: jest.requireActual('@/lib/api/elevation').createElevationCacheStats,
+  createElevationCacheReport: jest.requireActual('@/lib/api/elevation').createElevationCacheReport
+}));
 jest.mock('@/lib/api/trails');
-jest.mock('../pathfinding/trail-detection');
+jest.mock('@/lib/api/elevation-grid', () => ({
+  ...jest.requireActual('@/lib/api/elevation-grid'),
+  fetchElevationGrid: jest.fn()
+}));
+jest.mock('../pathfinding/trail-detection', () => ({
+  ...jest.createMockFromModule<object>('../pathfinding/trail-detection'),
+  isAlongTrail: jest.requireActual('../pathfinding/trail-detection').isAlongTrail
+}));
 jest.mock('../pathfinding/utilities', () => ({
   ...jest.requireActual('../pathfinding/utilities'),
   optimizeRouteWithTrails: jest.fn(),
@@ -21,6 +34,7 @@ jest.mock('../pathfinding/utilities', () => ({
 const mockGetElevationForRoute = getElevationForRoute as jest.MockedFunction<typeof getElevationForRoute>;
 const mockGetElevation = getElevation as jest.MockedFunction<typeof getElevation>;
 const mockFetchTrailData = fetchTrailData as jest.MockedFunction<typeof fetchTrailData>;
+const mockFetchElevationGrid = fetchElevationGrid as jest.MockedFunction<typeof fetchElevationGrid>;
 const mockFindDirectTrailPath = findDirectTrailPath as jest.MockedFunction<typeof findDirectTrailPath>;
 const mockOptimizeRouteWithTrails = optimizeRouteWithTrails as jest.MockedFunction<typeof optimizeRouteWithTrails>;
 const mockCalculateHeuristic = calculateHeuristic as jest.MockedFunction<typeof calculateHeuristic>;
@@ -47,9 +61,11 @@ describe('findOptimalRoute', () => {
       {
         id: 'trail1',
         coordinates: [startCoord, endCoord],
-        type: 'hiking'
+        highway: 'path'
       }
-    ]
+    ],
+    bbox: { minLat: 47.5, maxLat: 47.8, minLng: -122.5, maxLng: -122.2 },
+    cacheTime: 0
   };
 
   beforeEach(() => {
@@ -62,6 +78,7 @@ describe('findOptimalRoute', () => {
     mockCalculateMovementCost.mockReturnValue(5);
     mockGenerateNeighbors.mockReturnValue([]);
     mockReconstructPath.mockReturnValue(mockElevationPoints);
+    mockFetchElevationGrid.mockRejectedValue(new Error('Grid API error'));
   });
 
   describe('successful pathfinding', () => {
@@ -69,6 +86,7 @@ describe('findOptimalRoute', () => {
       const elevations = [100, 150, 200, 180, 190, 200, 185, 175, 165, 155, 145, 135, 125, 115, 105, 95, 85, 75, 65, 55, 45];
 
       mockGetElevation.mockResolvedValue(elevations);
+      mockFetchTrailData.mockResolvedValue(mockTrailNetwork);
 
       const result = await findOptimalRoute(startCoord, endCoord);
 
@@ -78,9 +96,9 @@ describe('findOptimalRoute', () => {
       expect(result[result.length - 1].lat).toBe(endCoord.lat);
       expect(result[result.length - 1].lng).toBe(endCoord.lng);
       expect(mockGetElevation).toHaveBeenCalled();
-      // For short distances, getElevationForRoute and fetchTrailData should NOT be called
+      // For short distances, trails are only fetched to check the straight line
       expect(mockGetElevationForRoute).not.toHaveBeenCalled();
-      expect(mockFetchTrailData).not.toHaveBeenCalled();
+      expect(mockFetchTrailData).toHaveBeenCalledTimes(1);
     });
 
     it('should return direct trail path when available for long distances', async () => {
@@ -97,7 +115,7 @@ describe('findOptimalRoute', () => {
       expect(result).toHaveLength(3);
       expect(result[0]).toEqual({ ...directPath[0], elevation: 100 });
       expect(result[2]).toEqual({ ...directPath[2], elevation: 200 });
-      expect(mockFindDirectTrailPath).toHaveBeenCalledWith(longStartCoord, longEndCoord, mockTrailNetwork.trails);
+      expect(mockFindDirectTrailPath).toHaveBeenCalledWith(longStartCoord, longEndCoord, mockTrailNetwork.trails, undefined);
     });
 
     it('should fall back to A* pathfinding when no direct trail path for long distances', async () => {
@@ -108,12 +126,35 @@ describe('findOptimalRoute', () => {
 
       const result = await findOptimalRoute(longStartCoord, longEndCoord);
 
-      expect(mockGetElevationForRoute).toHaveBeenCalledWith(longStartCoord, longEndCoord, 0.005);
-      expect(mockFetchTrailData).toHaveBeenCalledWith(longStartCoord, longEndCoord);
+      expect(mockGetElevationForRoute).toHaveBeenCalledWith(longStartCoord, longEndCoord, 0.005, undefined, expect.objectContaining({ lookups: 0 }));
+      expect(mockFetchTrailData).toHaveBeenCalledWith(longStartCoord, longEndCoord, 2, undefined, DEFAULT_TRAIL_QUERY);
       expect(result).toBeDefined();
       expect(result).toEqual(mockElevationPoints);
     });
 
+    it('should route over the trail graph when trails connect start and end', async () => {
+      const midpoint = { lat: 47.65, lng: -122.39 };
+      const connectedNetwork = {
+        trails: [{ id: 'ridge', coordinates: [longStartCoord, midpoint, longEndCoord], highway: 'path' }],
+        bbox: { minLat: 47.5, maxLat: 47.8, minLng: -122.5, maxLng: -122.2 },
+        cacheTime: 0,
+      };
+
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue(connectedNetwork);
+      mockFindDirectTrailPath.mockReturnValue(null);
+      mockGetElevation.mockResolvedValue([100, 400, 200]);
+
+      const result = await findOptimalRoute(longStartCoord, longEndCoord);
+
+      expect(result).toEqual([
+        { ...longStartCoord, elevation: 100 },
+        { ...midpoint, elevation: 400 },
+        { ...longEndCoord, elevation: 200 },
+      ]);
+      expect(mockOptimizeRouteWithTrails).not.toHaveBeenCalled();
+    });
+
     it('should use custom pathfinding options for long distances', async () => {
       const customOptions: PathfindingOptions = {
         ...DEFAULT_PATHFINDING_OPTIONS,
@@ -155,6 +196,19 @@ describe('findOptimalRoute', () => {
       expect(result).toBeDefined();
     });
 
+    it('should search the terrain and report failed Overpass servers without fetching trails again', async () => {
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockRejectedValue(new OverpassError('rate-limited', 429));
+      mockGenerateNeighbors.mockReturnValue([longEndCoord]);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(mockFetchTrailData).toHaveBeenCalledTimes(1);
+      expect(diagnostics.strategy).toBe('grid-search');
+      expect(diagnostics.failedSources).toEqual(['trails']);
+      expect(diagnostics.warnings).toContainEqual(expect.stringContaining('HTTP 429'));
+    });
+
     it('should handle direct path elevation fetch failure for short distances', async () => {
       mockGetElevation.mockRejectedValue(new Error('Elevation fetch failed'));
       mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
@@ -220,7 +274,9 @@ describe('findOptimalRoute', () => {
       expect(mockOptimizeRouteWithTrails).toHaveBeenCalledWith(
         [],
         mockTrailNetwork.trails,
-        expect.any(Object)
+        expect.any(Object),
+        undefined,
+        expect.objectContaining({ lookups: 0 })
       );
     });
   });
@@ -236,8 +292,501 @@ describe('findOptimalRoute', () => {
 
       const result = await findOptimalRoute(preciseStart, preciseEnd);
 
-      expect(mockGetElevationForRoute).toHaveBeenCalledWith(preciseStart, preciseEnd, 0.005);
+      expect(mockGetElevationForRoute).toHaveBeenCalledWith(preciseStart, preciseEnd, 0.005, undefined, expect.objectContaining({ lookups: 0 }));
       expect(result).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('findOptimalRouteWithDiagnostics', () => {
+    // Trail near the start only, so the trail graph cannot connect start and end
+    const startTrailNetwork = {
+      trails: [{ id: 'trail1', coordinates: [startCoord, endCoord], highway: 'path' }],
+      bbox: { minLat: 47.5, maxLat: 47.8, minLng: -122.5, maxLng: -122.2 },
+      cacheTime: 0,
+    };
+
+    it('should report a short route as a degraded straight line', async () => {
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+
+      const { points, diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord);
+
+      expect(points.length).toBeGreaterThan(1);
+      expect(diagnostics.strategy).toBe('short-direct');
+      expect(diagnostics.degraded).toBe(true);
+      expect(diagnostics.fallbackReasons).toHaveLength(1);
+      expect(diagnostics.failedSources).toEqual([]);
+    });
+
+    it('should search instead of taking a short straight line across a river', async () => {
+      const river = {
+        id: 'river',
+        coordinates: [{ lat: 47.62, lng: -122.33 }, { lat: 47.607, lng: -122.35 }],
+        isWater: true,
+        waterway: 'river',
+      };
+      mockFetchTrailData.mockResolvedValue({ ...startTrailNetwork, trails: [...startTrailNetwork.trails, river] });
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFindDirectTrailPath.mockReturnValue(null);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord);
+
+      expect(diagnostics.strategy).not.toBe('short-direct');
+      expect(diagnostics.fallbackReasons[0]).toBe('The straight line for this short route crosses water without a bridge, ford or stepping stones');
+      expect(mockGetElevationForRoute).toHaveBeenCalled();
+      expect(mockFetchTrailData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should search instead of taking a short straight line over a glacier', async () => {
+      const glacier = {
+        id: 'glacier',
+        cover: 'glacier' as const,
+        coordinates: [
+          { lat: 47.6, lng: -122.36 }, { lat: 47.63, lng: -122.36 }, { lat: 47.63, lng: -122.32 },
+          { lat: 47.6, lng: -122.32 }, { lat: 47.6, lng: -122.36 },
+        ],
+      };
+      mockFetchTrailData.mockResolvedValue({ ...startTrailNetwork, landcover: [glacier] });
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFindDirectTrailPath.mockReturnValue(null);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord);
+
+      expect(diagnostics.fallbackReasons[0]).toBe('The straight line for this short route crosses a glacier');
+      expect(diagnostics.strategy).not.toBe('short-direct');
+    });
+
+    it('should search instead of taking a short straight line over a cliff', async () => {
+      const cliff = [{ lat: 47.62, lng: -122.33 }, { lat: 47.607, lng: -122.35 }];
+      mockFetchTrailData.mockResolvedValue({ ...startTrailNetwork, trails: [], cliffs: [cliff] });
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFindDirectTrailPath.mockReturnValue(null);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord);
+
+      expect(diagnostics.fallbackReasons[0]).toBe('The straight line for this short route crosses a cliff');
+      expect(diagnostics.strategy).not.toBe('short-direct');
+    });
+
+    it('should search instead of taking a short straight line along a trail above the maximum SAC grade', async () => {
+      mockFetchTrailData.mockResolvedValue({
+        ...startTrailNetwork,
+        trails: [{ ...startTrailNetwork.trails[0], sac_scale: 'demanding_alpine_hiking' }],
+      });
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFindDirectTrailPath.mockReturnValue(null);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord, { ...DEFAULT_PATHFINDING_OPTIONS, maxSacScale: 'T3' });
+
+      expect(diagnostics.fallbackReasons[0]).toBe('The straight line for this short route follows T5 trail, above the maximum SAC grade');
+      expect(diagnostics.strategy).not.toBe('short-direct');
+    });
+
+    it('should report the SAC grade of a short straight line along a graded trail', async () => {
+      mockFetchTrailData.mockResolvedValue({
+        ...startTrailNetwork,
+        trails: [{ ...startTrailNetwork.trails[0], sac_scale: 'mountain_hiking' }],
+      });
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord, { ...DEFAULT_PATHFINDING_OPTIONS, maxSacScale: 'T3' });
+
+      expect(diagnostics.strategy).toBe('short-direct');
+      expect(diagnostics.sacScale?.hardestGrade).toBe('T2');
+    });
+
+    it('should search instead of taking a short straight line along a private path', async () => {
+      mockFetchTrailData.mockResolvedValue({
+        ...startTrailNetwork,
+        trails: [{ ...startTrailNetwork.trails[0], access: { closed: true } }],
+      });
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFindDirectTrailPath.mockReturnValue(null);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord);
+
+      expect(diagnostics.fallbackReasons[0]).toBe('The straight line for this short route follows a closed path');
+      expect(diagnostics.strategy).not.toBe('short-direct');
+    });
+
+    it('should report a trail graph route as optimised', async () => {
+      const midpoint = { lat: 47.65, lng: -122.39 };
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue({
+        trails: [{ id: 'ridge', coordinates: [longStartCoord, midpoint, longEndCoord], highway: 'path' }],
+        bbox: { minLat: 47.5, maxLat: 47.8, minLng: -122.5, maxLng: -122.2 },
+        cacheTime: 0,
+      });
+      mockFindDirectTrailPath.mockReturnValue(null);
+      mockGetElevation.mockResolvedValue([100, 400, 200]);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(diagnostics.strategy).toBe('trail-graph');
+      expect(diagnostics.degraded).toBe(false);
+      expect(diagnostics.nodesExpanded).toBeGreaterThan(0);
+      expect(diagnostics.elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report the grid search effort', async () => {
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockFindDirectTrailPath.mockReturnValue(null);
+      mockGenerateNeighbors.mockReturnValue([longEndCoord]);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(diagnostics.strategy).toBe('grid-search');
+      expect(diagnostics.iterations).toBeGreaterThan(0);
+      expect(diagnostics.fallbackReasons).toHaveLength(1);
+    });
+
+    it('should search the elevation grid when it is available', async () => {
+      const flatGrid: ElevationGrid = {
+        bbox: { minLat: 47.5, maxLat: 47.8, minLng: -122.5, maxLng: -122.2 },
+        rows: 2,
+        columns: 2,
+        latStep: 0.3,
+        lngStep: 0.3,
+        elevations: [1234, 1234, 1234, 1234],
+        cacheTime: 0,
+      };
+      mockFetchElevationGrid.mockResolvedValue(flatGrid);
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockFindDirectTrailPath.mockReturnValue(null);
+      mockGenerateNeighbors.mockReturnValue([{ ...longEndCoord }]);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(mockCalculateMovementCost.mock.calls.some(([, neighbor]) => neighbor.elevation === 1234)).toBe(true);
+      expect(diagnostics.warnings).toEqual([]);
+    });
+
+    it('should fall back to the elevation profile when the grid is unavailable', async () => {
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockFindDirectTrailPath.mockReturnValue(null);
+      mockGenerateNeighbors.mockReturnValue([{ ...longEndCoord }]);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(diagnostics.strategy).toBe('grid-search');
+      expect(diagnostics.degraded).toBe(false);
+      expect(diagnostics.warnings).toContain('Elevation grid unavailable: Grid API error; using the straight-line profile');
+    });
+
+    it('should not take the straight line across a barrier and report when no route avoids it', async () => {
+      const fence: AvoidArea = {
+        id: 'fence',
+        shape: 'line',
+        coordinates: [{ lat: 47.60, lng: -122.36 }, { lat: 47.63, lng: -122.32 }],
+        mode: 'barrier',
+      };
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockOptimizeRouteWithTrails.mockResolvedValue(mockElevationPoints);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord, { ...DEFAULT_PATHFINDING_OPTIONS, avoidAreas: [fence] });
+
+      expect(diagnostics.fallbackReasons[0]).toBe('The straight line for this short route crosses a barrier avoid area');
+      expect(diagnostics.strategy).toBe('trail-snapping');
+      expect(diagnostics.degraded).toBe(true);
+      expect(diagnostics.blockedAvoidAreas).toEqual(['fence']);
+    });
+
+    it('should not return a direct trail path steeper than the grade limits', async () => {
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockFindDirectTrailPath.mockReturnValue([longStartCoord, { lat: 47.6534, lng: -122.3807 }, longEndCoord]);
+      mockGetElevation.mockResolvedValue([100, 150, 2500]);
+      mockOptimizeRouteWithTrails.mockResolvedValue(mockElevationPoints);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord, { ...DEFAULT_PATHFINDING_OPTIONS, maxSustainedGrade: 25 });
+
+      expect(diagnostics.fallbackReasons[0]).toBe('The direct trail path is steeper than the grade limits');
+      expect(diagnostics.strategy).not.toBe('direct-trail');
+      expect(diagnostics.gradeLimits).toMatchObject({ maxSustainedGrade: 25 });
+    });
+
+    it('should not take a short straight line steeper than the grade limits', async () => {
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map((_, i) => i * 100));
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFindDirectTrailPath.mockReturnValue(null);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(startCoord, endCoord, { ...DEFAULT_PATHFINDING_OPTIONS, maxPitchGrade: 60 });
+
+      expect(diagnostics.fallbackReasons[0]).toBe('The straight line for this short route is steeper than the grade limits');
+      expect(diagnostics.strategy).not.toBe('short-direct');
+    });
+
+        it('should report the failed elevation source', async () => {
+      mockGetElevationForRoute
+        .mockRejectedValueOnce(new Error('Elevation API error'))
+        .mockResolvedValueOnce(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockOptimizeRouteWithTrails.mockResolvedValue(mockElevationPoints);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(diagnostics.strategy).toBe('trail-snapping');
+      expect(diagnostics.degraded).toBe(true);
+      expect(diagnostics.failedSources).toEqual(['elevation']);
+      expect(diagnostics.warnings).toContain('Elevation data unavailable: Elevation API error');
+    });
+
+    it('should report the failed trail source and fall back without trails', async () => {
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockRejectedValue(new Error('Trail API error'));
+      mockOptimizeRouteWithTrails.mockResolvedValue(mockElevationPoints);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(diagnostics.strategy).toBe('trail-snapping');
+      expect(diagnostics.failedSources).toEqual(['trails']);
+      expect(diagnostics.warnings).toContain('Trail data unavailable: Trail API error');
+      expect(diagnostics.fallbackReasons).toContainEqual(expect.stringContaining('Grid search did not reach the end'));
+      expect(mockOptimizeRouteWithTrails).toHaveBeenCalledWith(mockElevationPoints, [], expect.anything(), undefined, expect.objectContaining({ lookups: 0 }));
+    });
+
+    it('should treat an all-zero elevation profile as a failed elevation source', async () => {
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints.map(point => ({ ...point, elevation: 0 })));
+      mockFetchTrailData.mockResolvedValue(startTrailNetwork);
+      mockFindDirectTrailPath.mockReturnValue(null);
+      mockGenerateNeighbors.mockReturnValue([longEndCoord]);
+
+      const { diagnostics } = await findOptimalRouteWithDiagnostics(longStartCoord, longEndCoord);
+
+      expect(diagnostics.strategy).toBe('grid-search');
+      expect(diagnostics.failedSources).toEqual(['elevation']);
+      expect(diagnostics.degraded).toBe(true);
+    });
+  });
+
+  describe('cancellation and progress', () => {
+    it('should reject without fetching when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(findOptimalRoute(longStartCoord, longEndCoord, DEFAULT_PATHFINDING_OPTIONS, { signal: controller.signal }))
+        .rejects.toBe(controller.signal.reason);
+      expect(mockGetElevationForRoute).not.toHaveBeenCalled();
+      expect(mockFetchTrailData).not.toHaveBeenCalled();
+    });
+
+    it('should pass the signal to the data fetches and skip the fallbacks once aborted', async () => {
+      const controller = new AbortController();
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockImplementation(async () => {
+        controller.abort();
+        throw controller.signal.reason;
+      });
+
+      await expect(findOptimalRoute(longStartCoord, longEndCoord, DEFAULT_PATHFINDING_OPTIONS, { signal: controller.signal }))
+        .rejects.toBe(controller.signal.reason);
+      expect(mockGetElevationForRoute).toHaveBeenCalledWith(longStartCoord, longEndCoord, 0.005, controller.signal, expect.objectContaining({ lookups: 0 }));
+      expect(mockFetchTrailData).toHaveBeenCalledTimes(1);
+      expect(mockOptimizeRouteWithTrails).not.toHaveBeenCalled();
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should report the stages of a long route', async () => {
+      const onProgress = jest.fn();
+      mockGetElevationForRoute.mockResolvedValue(mockElevationPoints);
+      mockFetchTrailData.mockResolvedValue({ trails: [], bbox: { minLat: 47.5, maxLat: 47.8, minLng: -122.5, maxLng: -122.2 }, cacheTime: 0 });
+      mockFindDirectTrailPath.mockReturnValue(null);
+      mockOptimizeRouteWithTrails.mockResolvedValue(mockElevationPoints);
+
+      await findOptimalRoute(longStartCoord, longEndCoord, DEFAULT_PATHFINDING_OPTIONS, { onProgress });
+
+      const stages = onProgress.mock.calls.map(([progress]) => progress.stage);
+      expect(stages[0]).toBe('fetching-trails');
+      expect(stages).toContain('searching');
+      expect(stages[stages.length - 1]).toBe('post-processing');
+    });
+
+    it('should report fetching elevation for a short route', async () => {
+      const onProgress = jest.fn();
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockFetchTrailData.mockResolvedValue(mockTrailNetwork);
+
+      await findOptimalRoute(startCoord, endCoord, DEFAULT_PATHFINDING_OPTIONS, { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress.stage)).toEqual(['fetching-trails', 'fetching-elevation']);
+    });
+  });
+
+  describe('findRouteThroughWaypoints', () => {
+    it('should plan one leg per consecutive waypoint pair and stitch them', async () => {
+      const via: Coordinate = { lat: 47.6134, lng: -122.3407 };
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 100));
+      mockFetchTrailData.mockResolvedValue(mockTrailNetwork);
+
+      const result = await findRouteThroughWaypoints([startCoord, via, endCoord]);
+
+      expect(result.legs).toHaveLength(2);
+      expect(result.points[0].lat).toBe(startCoord.lat);
+      expect(result.points[result.points.length - 1].lat).toBe(endCoord.lat);
+      // The via-point joint appears exactly once
+      expect(result.points.filter(p => p.lat === via.lat && p.lng === via.lng)).toHaveLength(1);
+      expect(result.legs[0].endIndex).toBe(result.legs[1].startIndex);
+      expect(result.diagnostics.map(entry => entry.strategy)).toEqual(['short-direct', 'short-direct']);
+    });
+
+    it('should reject fewer than two waypoints', async () => {
+      await expect(findRouteThroughWaypoints([startCoord])).rejects.toThrow('At least a start and an end waypoint are required');
+    });
+  });
+
+  describe('findLoopRoutes', () => {
+    // Square of paths around the car park, roughly 4.4km x 3km
+    const carPark: Coordinate = { lat: 46.5, lng: 8.0 };
+    const loopNetwork = {
+      trails: [
+        { id: 'north', coordinates: [{ lat: 46.52, lng: 7.98 }, { lat: 46.52, lng: 8.0 }, { lat: 46.52, lng: 8.02 }] },
+        { id: 'east', coordinates: [{ lat: 46.52, lng: 8.02 }, { lat: 46.5, lng: 8.02 }, { lat: 46.48, lng: 8.02 }] },
+        { id: 'south', coordinates: [{ lat: 46.48, lng: 8.02 }, { lat: 46.48, lng: 8.0 }, { lat: 46.48, lng: 7.98 }] },
+        { id: 'west', coordinates: [{ lat: 46.48, lng: 7.98 }, { lat: 46.5, lng: 7.98 }, { lat: 46.52, lng: 7.98 }] },
+        { id: 'access', coordinates: [carPark, { lat: 46.5, lng: 7.99 }, { lat: 46.5, lng: 7.98 }] },
+      ],
+      bbox: { minLat: 46.4, maxLat: 46.6, minLng: 7.9, maxLng: 8.1 },
+      cacheTime: 0,
+    };
+
+    it('should fetch trails around the start and return ranked loops', async () => {
+      mockFetchTrailData.mockResolvedValue(loopNetwork);
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 1000));
+
+      const loops = await findLoopRoutes(carPark, { distance: 12 });
+
+      expect(mockFetchTrailData).toHaveBeenCalledWith(carPark, carPark, expect.any(Number), undefined, DEFAULT_TRAIL_QUERY);
+      expect(loops.length).toBeGreaterThan(0);
+      const [best] = loops;
+      expect(best.points[0]).toEqual({ ...carPark, elevation: 1000 });
+      expect(best.points[best.points.length - 1]).toEqual({ ...carPark, elevation: 1000 });
+      expect(best.estimatedDuration).toBeGreaterThan(0);
+      expect(best.cost).toBeGreaterThan(0);
+    });
+
+    it('should still return loops when elevation lookup fails', async () => {
+      mockFetchTrailData.mockResolvedValue(loopNetwork);
+      mockGetElevation.mockRejectedValue(new Error('Elevation API error'));
+
+      const loops = await findLoopRoutes(carPark, { duration: 3 });
+
+      expect(loops.length).toBeGreaterThan(0);
+      expect(loops[0].points.every(point => point.elevation === 0)).toBe(true);
+      expect(loops[0].diagnostics?.failedSources).toEqual(['elevation']);
+      expect(loops[0].diagnostics?.degraded).toBe(true);
+    });
+
+    it('should check each loop against the constraints and report it in its diagnostics', async () => {
+      const [north, ...rest] = loopNetwork.trails;
+      mockFetchTrailData.mockResolvedValue({ ...loopNetwork, trails: [{ ...north, access: { seasonal: 'summer' } }, ...rest] });
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 1000));
+
+      const loops = await findLoopRoutes(carPark, { distance: 12 });
+
+      const northLoop = loops.find(loop => loop.points.some(point => point.lat === 46.52));
+      expect(northLoop?.diagnostics?.strategy).toBe('trail-graph');
+      expect(northLoop?.diagnostics?.warnings).toContainEqual(expect.stringContaining('seasonal or conditional access'));
+      expect(northLoop?.diagnostics?.warnings).toContainEqual(expect.stringContaining('Elevation grid unavailable'));
+    });
+
+    it('should drop loops with impassable moves', async () => {
+      mockFetchTrailData.mockResolvedValue(loopNetwork);
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 1000));
+      mockCalculateMovementCost.mockReturnValue(Infinity);
+
+      expect(await findLoopRoutes(carPark, { distance: 12 })).toEqual([]);
+    });
+
+    it('should return no loops without a trail network', async () => {
+      mockFetchTrailData.mockResolvedValue({ ...loopNetwork, trails: [] });
+
+      await expect(findLoopRoutes(carPark, { distance: 10 })).resolves.toEqual([]);
+    });
+  });
+
+  describe('findAlternativeRoutes', () => {
+    // Valley path to the hut, with a ridge path on either side
+    const trailhead: Coordinate = { lat: 46.0, lng: 8.0 };
+    const hut: Coordinate = { lat: 46.0, lng: 8.04 };
+    const alternativeNetwork = {
+      trails: [
+        { id: 'valley', coordinates: [trailhead, { lat: 46.0, lng: 8.02 }, hut] },
+        { id: 'north', coordinates: [trailhead, { lat: 46.01, lng: 8.0 }, { lat: 46.01, lng: 8.04 }, hut] },
+        { id: 'south', coordinates: [trailhead, { lat: 45.99, lng: 8.0 }, { lat: 45.99, lng: 8.04 }, hut] },
+      ],
+      bbox: { minLat: 45.9, maxLat: 46.1, minLng: 7.9, maxLng: 8.1 },
+      cacheTime: 0,
+    };
+
+    beforeEach(() => {
+      mockFetchTrailData.mockResolvedValue(alternativeNetwork);
+      mockGetElevation.mockImplementation(async (points: Coordinate[]) => points.map(() => 1000));
+    });
+
+    it('should return the optimal route first, followed by distinct alternatives', async () => {
+      const routes = await findAlternativeRoutes(trailhead, hut);
+
+      expect(routes).toHaveLength(3);
+      expect(routes[0].overlap).toBe(0);
+      routes.slice(1).forEach(route => {
+        expect(route.points[0]).toEqual({ ...trailhead, elevation: 1000 });
+        expect(route.points[route.points.length - 1]).toEqual({ ...hut, elevation: 1000 });
+        expect(route.overlap).toBeLessThanOrEqual(0.7);
+        expect(route.distance).toBeGreaterThan(routes[0].distance);
+        expect(route.diagnostics?.strategy).toBe('trail-graph');
+        expect(route.diagnostics?.nodesExpanded).toBeGreaterThan(0);
+      });
+      expect(routes[0].diagnostics?.strategy).toBeDefined();
+    });
+
+    it('should check each alternative against the trails it follows', async () => {
+      const [valley, north, south] = alternativeNetwork.trails;
+      mockFetchTrailData.mockResolvedValue({
+        ...alternativeNetwork,
+        trails: [valley, { ...north, access: { seasonal: 'summer' } }, south],
+      });
+
+      const routes = await findAlternativeRoutes(trailhead, hut);
+
+      const northRoute = routes.find(route => route.points.some(point => point.lat === 46.01));
+      expect(northRoute?.diagnostics?.warnings).toContainEqual(expect.stringContaining('seasonal or conditional access'));
+      expect(northRoute?.diagnostics?.warnings).toContainEqual(expect.stringContaining('Elevation grid unavailable'));
+    });
+
+    it('should report statistics for each route', async () => {
+      const routes = await findAlternativeRoutes(trailhead, hut);
+
+      routes.forEach(route => {
+        expect(route.distance).toBeGreaterThan(0);
+        expect(route.estimatedTime).toBeGreaterThan(0);
+        expect(route.elevationGain).toBe(0);
+        expect(route.trailShare).toBeCloseTo(1);
+      });
+    });
+
+    it('should limit the number of routes', async () => {
+      const routes = await findAlternativeRoutes(trailhead, hut, DEFAULT_PATHFINDING_OPTIONS, 2);
+
+      expect(routes).toHaveLength(2);
+    });
+
+    it('should still return the optimal route when trail data is unavailable', async () => {
+      mockFetchTrailData.mockRejectedValue(new Error('Trail API error'));
+
+      const routes = await findAlternativeRoutes(trailhead, hut);
+
+      expect(routes).toHaveLength(1);
+      expect(routes[0].trailShare).toBe(0);
+    });
+  });
+});
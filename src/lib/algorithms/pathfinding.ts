@@ -1,30 +1,95 @@
-import { Coordinate, RoutePoint, PathfindingNode } from '@/types/route';
-import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
-import { calculateDistance } from '@/lib/utils';
+import { Coordinate, RoutePoint, RouteLeg, LoopRoute, RouteAlternative } from '@/types/route';
+import { PathfindingOptions, PathfindingControl, PathfindingResult, PathfindingDiagnostics, LoopTarget, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDistance, calculatePathDistance } from '@/lib/utils';
 import { getElevationForRoute, getElevation } from '@/lib/api/elevation';
-import { fetchTrailData } from '@/lib/api/trails';
-import PriorityQueue from '@/lib/algorithms/pathfinding/data-structures/priority-queue';
+import { fetchTrailData, calculateBoundingBox, TrailNetwork, TRAIL_BBOX_PADDING_KM } from '@/lib/api/trails';
+import { fetchElevationGrid, ELEVATION_GRID_CONSTANTS } from '@/lib/api/elevation-grid';
 import {
-  PATHFINDING_CONSTANTS,
-  calculateHeuristic,
   calculateMovementCost,
-  generateNeighbors,
-  reconstructPath,
   optimizeRouteWithTrails
 } from './pathfinding/utilities';
 import {
   findDirectTrailPath
 } from './pathfinding/trail-detection';
+import { stitchRouteLegs } from './pathfinding/route-legs';
+import { searchGrid } from './pathfinding/grid-search';
+import { findTrailGraphRoute } from './pathfinding/graph-router';
+import { createDiagnosticsRecorder, DiagnosticsRecorder } from './pathfinding/diagnostics';
+import { findEnteredAvoidAreas } from './pathfinding/avoid-areas';
+import { createGradeLimitReport, exceedsGradeLimits } from './pathfinding/grade-limits';
+import {
+  LOOP_CONSTANTS,
+  generateLoopCandidates,
+  rankLoopRoutes,
+  resolveTargetDistance,
+  calculateLoopRadius
+} from './pathfinding/loop-generator';
+import { createGridTerrain, createProfileTerrain } from './pathfinding/terrain/terrain-model';
+import { createAvalancheReport, SlopeRaster } from './pathfinding/terrain/slope-raster';
+import { markWaterCrossings } from './pathfinding/water-barriers';
+import { createSacScaleReport, isHarderSacScale } from './pathfinding/sac-scale';
+import { createWaymarkedRouteSections } from './pathfinding/waymarked-routes';
+import { countTerrainBarrierCrossings } from './pathfinding/terrain/landcover';
+import { findRestrictedTrails } from './pathfinding/trail-access';
+import { applyActivityProfile, estimateTravelTime, filterTrailNetwork, getActivityProfile } from './pathfinding/activity-profiles';
+import {
+  ALTERNATIVE_CONSTANTS,
+  generateAlternativeCandidates,
+  summarizeAlternative
+} from './pathfinding/alternative-routes';
 
+/**
+ * Plan a route between two coordinates.
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param options Pathfinding options
+ * @param control Abort signal and progress callback
+ * @returns Route points; use findOptimalRouteWithDiagnostics to learn how they were produced
+ */
 export async function findOptimalRoute(
   start: Coordinate,
   end: Coordinate,
-  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  control: PathfindingControl = {}
 ): Promise<RoutePoint[]> {
+  const { points } = await findOptimalRouteWithDiagnostics(start, end, options, control);
+  return points;
+}
+
+/**
+ * Plan a route between two coordinates and report how it was produced.
+ * Strategies are tried in order: straight line for short routes, a single linking
+ * trail, the trail graph, the terrain grid, and finally trail snapping of the
+ * straight line. Failures fall through to the next strategy and are recorded.
+ * Aborting stops the computation with the abort reason instead of falling back.
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param options Pathfinding options
+ * @param control Abort signal and progress callback
+ * @returns Route points with the strategy used, fallback reasons, search effort and failed data sources
+ */
+export async function findOptimalRouteWithDiagnostics(
+  start: Coordinate,
+  end: Coordinate,
+  requestedOptions: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  control: PathfindingControl = {}
+): Promise<PathfindingResult> {
+  const { signal, onProgress } = control;
+  const options = applyActivityProfile(requestedOptions);
+  const { trailQuery } = getActivityProfile(options.activity);
+  const recorder = createDiagnosticsRecorder(options);
+  signal?.throwIfAborted();
+
+  // Short routes check their straight line against the trail network, which the search then reuses
+  let trailRequest: Promise<TrailNetwork> | undefined;
+  const fetchTrails = () => (trailRequest ??= fetchTrailData(start, end, TRAIL_BBOX_PADDING_KM, signal, trailQuery));
+
   try {
     const distance = calculateDistance(start, end);
 
-    // For short routes, use a simple direct path with elevation data
+    // For short routes, use a simple direct path with elevation data, unless it crosses a barrier,
+    // water, glaciers, cliffs, closed or too hard trails, is too steep, or avalanche terrain
+    // has to be assessed on the elevation grid
     if (distance < 5) { // 5km threshold
       const points = [];
       const numPoints = Math.max(2, Math.floor(distance / 0.1)); // Add a point every 100m
@@ -33,34 +98,109 @@ export async function findOptimalRoute(
         const lng = start.lng + (end.lng - start.lng) * (i / numPoints);
         points.push({ lat, lng });
       }
-      const elevations = await getElevation(points);
-      return points.map((p, i) => ({ ...p, elevation: elevations[i] || 0 }));
+
+      if (findEnteredAvoidAreas(points, options.avoidAreas).length > 0) {
+        recorder.fallback('The straight line for this short route crosses a barrier avoid area');
+      } else if (options.winterMode) {
+        recorder.fallback('Winter mode needs the elevation grid, so no straight line was used for this short route');
+      } else {
+        onProgress?.({ stage: 'fetching-trails' });
+        // Failures are recorded once the search fetches its data
+        const shortRouteTrails = await fetchTrails().then(network => filterTrailNetwork(network, options.activity), () => null);
+        signal?.throwIfAborted();
+        if (!shortRouteTrails) {
+          recorder.fallback('The straight line for this short route cannot be checked without trail data');
+        } else {
+          onProgress?.({ stage: 'fetching-elevation' });
+          let elevations: number[];
+          try {
+            elevations = await getElevation(points, signal, recorder.elevationStats);
+          } catch (error) {
+            recorder.sourceFailed('elevation', error);
+            throw error;
+          }
+          const routePoints: RoutePoint[] = points.map((p, i) => ({ ...p, elevation: elevations[i] || 0 }));
+          const violation = findConstraintViolation(routePoints, shortRouteTrails, options);
+          if (violation) {
+            recorder.fallback(`The straight line for this short route ${violation}`);
+          } else {
+            recorder.fallback('Route is shorter than 5 km, so a straight line was used');
+            recorder.setTrails(shortRouteTrails.trails);
+            recorder.setTerrainFeatures(shortRouteTrails);
+            return recorder.finish(routePoints, 'short-direct');
+          }
+        }
+      }
     }
 
-    // Fetch both elevation and trail data in parallel
-    const [elevationPoints, trailNetwork] = await Promise.all([
-      getElevationForRoute(start, end, 0.005),
-      fetchTrailData(start, end)
+    // Fetch the elevation profile, the elevation grid and trail data in parallel
+    onProgress?.({ stage: 'fetching-trails' });
+    const gridBounds = calculateBoundingBox(start, end, ELEVATION_GRID_CONSTANTS.BBOX_PADDING_KM);
+    const [elevationResult, trailResult, gridResult] = await Promise.allSettled([
+      getElevationForRoute(start, end, 0.005, signal, recorder.elevationStats),
+      fetchTrails(),
+      fetchElevationGrid(gridBounds, ELEVATION_GRID_CONSTANTS.DEFAULT_SPACING, signal, recorder.elevationStats)
     ]);
+    signal?.throwIfAborted();
+    if (elevationResult.status === 'rejected') {
+      recorder.sourceFailed('elevation', elevationResult.reason);
+    }
+    if (trailResult.status === 'rejected') {
+      recorder.sourceFailed('trails', trailResult.reason);
+    }
+    if (elevationResult.status === 'rejected') throw elevationResult.reason;
+    const elevationPoints = elevationResult.value;
+    // Without trail data the searches still run over the terrain alone
+    const trailNetwork = trailResult.status === 'fulfilled'
+      ? filterTrailNetwork(trailResult.value, options.activity)
+      : { trails: [], bbox: calculateBoundingBox(start, end, TRAIL_BBOX_PADDING_KM), cacheTime: Date.now() };
+    recorder.setTrails(trailNetwork.trails);
+    recorder.setTerrainFeatures(trailNetwork);
+
+    // The elevation service answers with sea level when the API fails
+    if (elevationPoints.length > 0 && elevationPoints.every(point => !point.elevation)) {
+      recorder.sourceFailed('elevation');
+    }
+
+    // Searches read the grid; the straight-line profile only knows the terrain along the beeline
+    let terrain = createProfileTerrain(elevationPoints);
+    if (gridResult.status === 'fulfilled') {
+      terrain = createGridTerrain(gridResult.value);
+      if (terrain.slopes) recorder.setSlopeRaster(terrain.slopes);
+    } else {
+      const detail = gridResult.reason instanceof Error ? `: ${gridResult.reason.message}` : '';
+      recorder.warn(`Elevation grid unavailable${detail}; using the straight-line profile`);
+    }
 
     // TRY DIRECT TRAIL PATH FIRST - for linear routes like parks
-    const directPath = findDirectTrailPath(start, end, trailNetwork.trails);
+    onProgress?.({ stage: 'searching' });
+    const directPath = findDirectTrailPath(start, end, trailNetwork.trails, options.avoidAreas);
     if (directPath && directPath.length > 2) {
 
       // Add elevation data to the direct path
+      onProgress?.({ stage: 'post-processing' });
       try {
-        const elevations = await getElevation(directPath);
+        const elevations = await getElevation(directPath, signal, recorder.elevationStats);
         const routePoints: RoutePoint[] = directPath.map((coord, index) => ({
           ...coord,
           elevation: elevations[index] || 0,
         }));
 
-        return routePoints;
-      } catch {
+        const violation = findConstraintViolation(routePoints, trailNetwork, options, terrain.slopes);
+        if (violation) {
+          recorder.fallback(`The direct trail path ${violation}`);
+        } else {
+          return recorder.finish(routePoints, 'direct-trail');
+        }
+      } catch (error) {
+        signal?.throwIfAborted();
+        recorder.sourceFailed('elevation', error);
+        recorder.fallback('Elevation lookup for the direct trail path failed');
       }
     }
 
     if (elevationPoints.length === 0) {
+      recorder.sourceFailed('elevation');
       throw new Error('Failed to get elevation data');
     }
 
@@ -70,95 +210,294 @@ export async function findOptimalRoute(
       elevation: elevationPoints.find(p => p.lat === end.lat && p.lng === end.lng)?.elevation || elevationPoints[elevationPoints.length - 1].elevation
     };
 
-    const openSet = new PriorityQueue();
-    const closedSet: Coordinate[] = [];
+    // Route over the trail network graph, with grid-searched legs on and off it
+    onProgress?.({ stage: 'searching' });
+    const graphRoute = await findTrailGraphRoute(start, end, trailNetwork, terrain, options, signal);
+    if (graphRoute) {
+      recorder.addSearch(0, graphRoute.nodesExpanded);
+      onProgress?.({ stage: 'post-processing' });
+      try {
+        const elevations = await getElevation(graphRoute.points, signal, recorder.elevationStats);
+        return recorder.finish(
+          graphRoute.points.map((point, index) => ({ ...point, elevation: elevations[index] ?? point.elevation })),
+          'trail-graph'
+        );
+      } catch (error) {
+        signal?.throwIfAborted();
+        recorder.sourceFailed('elevation', error);
+        return recorder.finish(graphRoute.points, 'trail-graph');
+      }
+    }
+    recorder.fallback('No connected trail network near both the start and the end');
 
-    const startNode: PathfindingNode = {
-      coordinate: startWithElevation,
-      gCost: 0,
-      hCost: calculateHeuristic(startWithElevation, endWithElevation),
-      fCost: 0,
-    };
-    startNode.fCost = startNode.gCost + startNode.hCost;
+    const gridSearch = await searchGrid(startWithElevation, endWithElevation, terrain, trailNetwork, options, control);
+    recorder.addSearch(gridSearch.iterations, gridSearch.nodesExpanded);
+    if (gridSearch.path) {
+      return recorder.finish(gridSearch.path, 'grid-search');
+    }
+    recorder.fallback(`Grid search did not reach the end within ${options.maxIterations} iterations`);
 
-    openSet.enqueue(startNode);
+    // ALWAYS use trail optimization for fallback routes
+    onProgress?.({ stage: 'post-processing' });
+    const result = await optimizeRouteWithTrails(elevationPoints, trailNetwork.trails, options, signal, recorder.elevationStats);
+    return recorder.finish(result, 'trail-snapping');
 
-    let iterations = 0;
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error('Error in pathfinding:', error);
+    recorder.fallback(`Pathfinding failed: ${error instanceof Error ? error.message : String(error)}`);
 
-    while (!openSet.isEmpty() && iterations < options.maxIterations) {
-      iterations++;
+    // Even on error, try to use trail data; a failed trail request is not repeated
+    const fallbackPoints = await getElevationForRoute(start, end, 0.01, signal, recorder.elevationStats);
 
-      const current = openSet.dequeue();
-      if (!current) break;
+    try {
+      const emergencyTrailNetwork = filterTrailNetwork(await fetchTrails(), options.activity);
+      return recorder.finish(await optimizeRouteWithTrails(fallbackPoints, emergencyTrailNetwork.trails, options, signal, recorder.elevationStats), 'trail-snapping');
+    } catch (trailError) {
+      signal?.throwIfAborted();
+      console.error('Trail fallback also failed:', trailError);
+      recorder.fallback('Trail snapping fallback failed');
+    }
+    return recorder.finish(fallbackPoints.map(point => ({
+      lat: point.lat,
+      lng: point.lng,
+      elevation: point.elevation || 0,
+    })), 'straight-line');
+  }
+}
 
-      if (calculateDistance(current.coordinate, end) < PATHFINDING_CONSTANTS.GOAL_DISTANCE_THRESHOLD) {
-        const path = reconstructPath(current);
-        // Ensure the final point is the exact end coordinate
-        path.push({ ...end, elevation: current.coordinate.elevation || endWithElevation.elevation || 0 });
-        return path;
-      }
+/**
+ * Plan a route that passes through ordered via-points.
+ * Each leg is planned independently with findOptimalRoute and the legs are
+ * stitched together without duplicating the shared joints.
+ * @param waypoints Ordered waypoints: start, any via-points, end
+ * @param options Pathfinding options applied to every leg
+ * @param control Abort signal and progress callback, shared by every leg
+ * @returns Stitched route points, per-leg distance/elevation statistics and per-leg diagnostics
+ */
+export async function findRouteThroughWaypoints(
+  waypoints: Coordinate[],
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  control: PathfindingControl = {}
+): Promise<{ points: RoutePoint[]; legs: RouteLeg[]; diagnostics: PathfindingDiagnostics[] }> {
+  if (waypoints.length < 2) {
+    throw new Error('At least a start and an end waypoint are required');
+  }
+
+  // Legs are planned one after another to stay within the public API rate limits
+  const legPoints: RoutePoint[][] = [];
+  const diagnostics: PathfindingDiagnostics[] = [];
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const leg = await findOptimalRouteWithDiagnostics(waypoints[i], waypoints[i + 1], options, control);
+    legPoints.push(leg.points);
+    diagnostics.push(leg.diagnostics);
+  }
 
-      closedSet.push(current.coordinate);
+  return { ...stitchRouteLegs(waypoints, legPoints), diagnostics };
+}
 
-      const neighbors = generateNeighbors(current.coordinate, elevationPoints);
+/**
+ * Generate round-trip routes that start and finish at the same point.
+ * Loops are built over the fetched trail network, avoid re-using trail segments
+ * where possible, and are ranked by closeness to the target and movement cost.
+ * @param start Start and finish coordinate (e.g. a car park)
+ * @param target Target loop distance and/or duration
+ * @param options Pathfinding options used for trail filtering and cost
+ * @param maxResults Maximum number of candidate loops to return
+ * @param control Abort signal and progress callback
+ * @returns Candidate loops with diagnostics, best first, without loops the movement cost finds impassable (empty when no loop could be built)
+ */
+export async function findLoopRoutes(
+  start: Coordinate,
+  target: LoopTarget,
+  requestedOptions: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  maxResults: number = LOOP_CONSTANTS.MAX_RESULTS,
+  control: PathfindingControl = {}
+): Promise<LoopRoute[]> {
+  const { signal, onProgress } = control;
+  const options = applyActivityProfile(requestedOptions);
+  const targetDistance = resolveTargetDistance(target, options.activity);
+  const paddingKm = calculateLoopRadius(targetDistance) + LOOP_CONSTANTS.BBOX_MARGIN;
+  onProgress?.({ stage: 'fetching-trails' });
+  const trailNetwork = filterTrailNetwork(
+    await fetchTrailData(start, start, paddingKm, signal, getActivityProfile(options.activity).trailQuery),
+    options.activity
+  );
 
+  // Without the elevation grid loops are searched as if flat; their cost below still sees the slopes
+  let terrain = createProfileTerrain([]);
+  let gridWarning: string | undefined;
+  try {
+    terrain = createGridTerrain(await fetchElevationGrid(calculateBoundingBox(start, start, paddingKm), ELEVATION_GRID_CONSTANTS.DEFAULT_SPACING, signal));
+  } catch (error) {
+    signal?.throwIfAborted();
+    const detail = error instanceof Error ? `: ${error.message}` : '';
+    gridWarning = `Elevation grid unavailable${detail}; loops were searched as if flat`;
+  }
 
-      for (const neighbor of neighbors) {
-        if (closedSet.some(coord =>
-          Math.abs(coord.lat - neighbor.lat) < PATHFINDING_CONSTANTS.COORDINATE_TOLERANCE &&
-          Math.abs(coord.lng - neighbor.lng) < PATHFINDING_CONSTANTS.COORDINATE_TOLERANCE
-        )) {
-          continue;
-        }
+  onProgress?.({ stage: 'searching' });
+  const candidates = generateLoopCandidates(start, targetDistance, trailNetwork, terrain, options);
 
-        const elevationPoint = elevationPoints.find(point =>
-          Math.abs(point.lat - neighbor.lat) < PATHFINDING_CONSTANTS.GOAL_DISTANCE_THRESHOLD &&
-          Math.abs(point.lng - neighbor.lng) < PATHFINDING_CONSTANTS.GOAL_DISTANCE_THRESHOLD
-        );
+  onProgress?.({ stage: 'post-processing' });
+  const routes: LoopRoute[] = [];
+  for (const candidate of candidates) {
+    // Loops are checked against the same constraints as the routes between two points
+    const recorder = createDiagnosticsRecorder(options);
+    recorder.setTrails(trailNetwork.trails);
+    recorder.setTerrainFeatures(trailNetwork);
+    if (terrain.slopes) recorder.setSlopeRaster(terrain.slopes);
+    if (gridWarning) recorder.warn(gridWarning);
+    const { points, diagnostics } = recorder.finish(await addElevation(candidate.coordinates, recorder, signal), 'trail-graph');
 
-        if (elevationPoint) {
-          neighbor.elevation = elevationPoint.elevation;
-        }
+    let cost = 0;
+    for (let i = 1; i < points.length; i++) {
+      cost += calculateMovementCost(points[i - 1], points[i], trailNetwork, options);
+    }
 
-        const gCost = current.gCost + calculateMovementCost(current.coordinate, neighbor, trailNetwork, options);
+    const loop: LoopRoute = {
+      points,
+      distance: calculatePathDistance(points),
+      estimatedDuration: estimateTravelTime(points, options.activity),
+      cost,
+      reusedDistance: candidate.reusedDistance,
+      targetDeviation: 0,
+      diagnostics,
+    };
+    const sacScale = createSacScaleReport(points, trailNetwork.trails, options.maxSacScale);
+    if (sacScale) loop.sacScale = sacScale;
+    const waymarkedRoutes = createWaymarkedRouteSections(points, trailNetwork.trails);
+    if (waymarkedRoutes.length > 0) loop.waymarkedRoutes = waymarkedRoutes;
+    routes.push(loop);
+  }
 
+  return rankLoopRoutes(routes, target).slice(0, maxResults);
+}
 
-        const hCost = calculateHeuristic(neighbor, end);
+/**
+ * Plan the optimal route plus alternatives that differ meaningfully from it.
+ * Alternatives are searched over the trail network with the optimal route's edge costs,
+ * trails along the routes already found penalised, and near-duplicates dropped.
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param requestedOptions Pathfinding options applied to every route
+ * @param maxAlternatives Maximum number of routes to return, including the optimal one
+ * @param control Abort signal and progress callback
+ * @returns Routes with distance, elevation gain, time, trail share and diagnostics, optimal route first
+ */
+export async function findAlternativeRoutes(
+  start: Coordinate,
+  end: Coordinate,
+  requestedOptions: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  maxAlternatives: number = ALTERNATIVE_CONSTANTS.MAX_ALTERNATIVES,
+  control: PathfindingControl = {}
+): Promise<RouteAlternative[]> {
+  const { signal, onProgress } = control;
+  const options = applyActivityProfile(requestedOptions);
+  const { points: optimalRoute, diagnostics } = await findOptimalRouteWithDiagnostics(start, end, options, control);
 
-        if (!openSet.contains(neighbor)) {
-          const neighborNode: PathfindingNode = {
-            coordinate: neighbor,
-            gCost,
-            hCost,
-            fCost: gCost + hCost,
-            parent: current,
-          };
+  let trailNetwork: TrailNetwork | null = null;
+  try {
+    trailNetwork = filterTrailNetwork(
+      await fetchTrailData(start, end, TRAIL_BBOX_PADDING_KM, signal, getActivityProfile(options.activity).trailQuery),
+      options.activity
+    );
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error('Error fetching trails for alternative routes:', error);
+  }
 
-          openSet.enqueue(neighborNode);
-        }
-      }
+  const routes: RoutePoint[][] = [optimalRoute];
+  const routeDiagnostics: PathfindingDiagnostics[] = [diagnostics];
+  if (maxAlternatives > 1 && trailNetwork && trailNetwork.trails.length > 0) {
+    onProgress?.({ stage: 'searching' });
+    // The grid is cached from the optimal route's search; without it the optimal route is the profile
+    let terrain = createProfileTerrain(optimalRoute);
+    let gridWarning: string | undefined;
+    try {
+      const gridBounds = calculateBoundingBox(start, end, ELEVATION_GRID_CONSTANTS.BBOX_PADDING_KM);
+      terrain = createGridTerrain(await fetchElevationGrid(gridBounds, ELEVATION_GRID_CONSTANTS.DEFAULT_SPACING, signal));
+    } catch (error) {
+      signal?.throwIfAborted();
+      const detail = error instanceof Error ? `: ${error.message}` : '';
+      gridWarning = `Elevation grid unavailable${detail}; using the optimal route's profile`;
     }
 
-    // ALWAYS use trail optimization for fallback routes
-    const result = await optimizeRouteWithTrails(elevationPoints, trailNetwork.trails, options);
-    return result;
+    const candidates = await generateAlternativeCandidates(start, end, trailNetwork, terrain, [optimalRoute], maxAlternatives - 1, options, signal);
+    onProgress?.({ stage: 'post-processing' });
+    for (const candidate of candidates) {
+      const recorder = createDiagnosticsRecorder(options);
+      recorder.setTrails(trailNetwork.trails);
+      recorder.setTerrainFeatures(trailNetwork);
+      if (terrain.slopes) recorder.setSlopeRaster(terrain.slopes);
+      if (gridWarning) recorder.warn(gridWarning);
+      recorder.addSearch(0, candidate.nodesExpanded);
+      let candidatePoints = candidate.points;
+      try {
+        const elevations = await getElevation(candidatePoints, signal, recorder.elevationStats);
+        candidatePoints = candidatePoints.map((point, index) => ({ ...point, elevation: elevations[index] ?? point.elevation }));
+      } catch (error) {
+        signal?.throwIfAborted();
+        recorder.sourceFailed('elevation', error);
+      }
+      const { points, diagnostics: alternativeDiagnostics } = recorder.finish(candidatePoints, 'trail-graph');
+      routes.push(points);
+      routeDiagnostics.push(alternativeDiagnostics);
+    }
+  }
 
-  } catch (error) {
-    console.error('Error in pathfinding:', error);
+  const trails = trailNetwork?.trails ?? [];
+  return routes.map((points, index) => ({
+    ...summarizeAlternative(points, trails, routes.slice(0, index), options.activity),
+    diagnostics: routeDiagnostics[index],
+  }));
+}
 
-    // Even on error, try to use trail data
-    const fallbackPoints = await getElevationForRoute(start, end, 0.01);
+/**
+ * Check a route taken without a search, such as a short route's straight line or a direct
+ * trail path, against the constraints the searches enforce
+ * @param points Route points with elevation
+ * @param trailNetwork Trails, land cover and cliffs around the route
+ * @param options Pathfinding options with the constraints
+ * @param slopes Slope raster for the avalanche check in winter mode
+ * @returns How the route breaks a constraint, completing a sentence about it, or null when it keeps to them
+ */
+function findConstraintViolation(
+  points: RoutePoint[],
+  trailNetwork: Pick<TrailNetwork, 'trails' | 'landcover' | 'cliffs'>,
+  options: PathfindingOptions,
+  slopes?: SlopeRaster
+): string | null {
+  const gradeLimits = createGradeLimitReport(points, options);
+  if (gradeLimits && exceedsGradeLimits(gradeLimits)) return 'is steeper than the grade limits';
+  const avalanche = options.winterMode === 'barrier' && slopes ? createAvalancheReport(points, slopes) : null;
+  if (avalanche && avalanche.terrainClass !== 'simple') return 'crosses avalanche terrain';
+  if (markWaterCrossings(points, trailNetwork.trails).uncrossed > 0) return 'crosses water without a bridge, ford or stepping stones';
+  const sacScale = options.maxSacScale ? createSacScaleReport(points, trailNetwork.trails) : null;
+  if (sacScale && isHarderSacScale(sacScale.hardestGrade, options.maxSacScale!)) {
+    return `follows ${sacScale.hardestGrade} trail, above the maximum SAC grade`;
+  }
+  if (findRestrictedTrails(points, trailNetwork.trails, options.plannedDate).closed.length > 0) return 'follows a closed path';
+  const terrainBarriers = countTerrainBarrierCrossings(points, trailNetwork, options.allowGlaciers);
+  if (terrainBarriers.glacier > 0 || terrainBarriers.cliff > 0) return `crosses ${terrainBarriers.glacier > 0 ? 'a glacier' : 'a cliff'}`;
+  return null;
+}
 
-    try {
-      const emergencyTrailNetwork = await fetchTrailData(start, end);
-      return await optimizeRouteWithTrails(fallbackPoints, emergencyTrailNetwork.trails, options);
-    } catch (trailError) {
-      console.error('Trail fallback also failed:', trailError);
-      return fallbackPoints.map(point => ({
-        lat: point.lat,
-        lng: point.lng,
-        elevation: point.elevation || 0,
-      }));
-    }
+/**
+ * Attach elevation to route geometry, falling back to 0 when the lookup fails but not when it is aborted
+ * @param recorder Records a failed lookup on the route's diagnostics
+ */
+async function addElevation(coordinates: Coordinate[], recorder: DiagnosticsRecorder, signal?: AbortSignal): Promise<RoutePoint[]> {
+  let elevations: number[] = [];
+  try {
+    elevations = await getElevation(coordinates, signal, recorder.elevationStats);
+  } catch (error) {
+    signal?.throwIfAborted();
+    recorder.sourceFailed('elevation', error);
   }
-}
\ No newline at end of file
+
+  return coordinates.map((coord, index) => ({
+    lat: coord.lat,
+    lng: coord.lng,
+    elevation: elevations[index] || 0,
+  }));
+}
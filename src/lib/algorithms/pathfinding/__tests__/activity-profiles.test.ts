@@ -0,0 +1,134 @@
+/**
+ * Unit tests for activity profiles
+ */
+
+import {
+  applyActivityProfile,
+  estimateTravelTime,
+  filterTrailNetwork,
+  getActivityProfile,
+  HIKING_PROFILE,
+  MOUNTAIN_BIKING_PROFILE,
+  MTB_SPEED_CONSTANTS,
+  SKI_TOURING_PROFILE,
+  TRAIL_RUNNING_PROFILE
+} from '../activity-profiles';
+import { calculateSegmentTime, calculateSlope } from '../terrain/terrain-analyzer';
+import { buildSpatialIndex, TrailNetwork, TrailSegment } from '@/lib/api/trails';
+import { DEFAULT_PATHFINDING_OPTIONS, PATHFINDING_PRESETS } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+import { RoutePoint } from '@/types/route';
+
+describe('activity profiles', () => {
+  const coordinates = [{ lat: 46.0, lng: 8.0 }, { lat: 46.01, lng: 8.0 }];
+  const trail = (id: string, tags: Partial<TrailSegment> = {}): TrailSegment => ({ id, coordinates, highway: 'path', ...tags });
+
+  describe('speed curves', () => {
+    it('should run and ride faster than walking on the flat', () => {
+      expect(TRAIL_RUNNING_PROFILE.speed(0)).toBeGreaterThan(HIKING_PROFILE.speed(0));
+      expect(MOUNTAIN_BIKING_PROFILE.speed(0)).toBeGreaterThan(TRAIL_RUNNING_PROFILE.speed(0));
+    });
+
+    it('should slow bikes to pushing pace on steep climbs and descents', () => {
+      expect(MOUNTAIN_BIKING_PROFILE.speed(0.5)).toBe(MTB_SPEED_CONSTANTS.PUSHING_SPEED);
+      expect(MOUNTAIN_BIKING_PROFILE.speed(-MTB_SPEED_CONSTANTS.BRAKING_GRADIENT)).toBe(MTB_SPEED_CONSTANTS.MAX_DESCENT_SPEED);
+      expect(MOUNTAIN_BIKING_PROFILE.speed(-0.6)).toBeLessThan(MOUNTAIN_BIKING_PROFILE.speed(-0.3));
+    });
+
+    it('should ski down much faster than skinning up', () => {
+      expect(SKI_TOURING_PROFILE.speed(-0.3)).toBeGreaterThan(3 * SKI_TOURING_PROFILE.speed(0.3));
+    });
+
+    it('should never exceed the maximum speed', () => {
+      [HIKING_PROFILE, TRAIL_RUNNING_PROFILE, MOUNTAIN_BIKING_PROFILE, SKI_TOURING_PROFILE].forEach(profile => {
+        for (let slope = -1; slope <= 1; slope += 0.01) {
+          expect(profile.speed(slope)).toBeLessThanOrEqual(profile.maxSpeed + 1e-9);
+        }
+      });
+    });
+  });
+
+  describe('allowsTrail', () => {
+    it('should keep bikes off steps, closed ways, unsigned footways and hard mtb:scale grades', () => {
+      const allows = MOUNTAIN_BIKING_PROFILE.allowsTrail;
+
+      expect(allows(trail('path'))).toBe(true);
+      expect(allows(trail('steps', { highway: 'steps' }))).toBe(false);
+      expect(allows(trail('closed', { bicycle: 'no' }))).toBe(false);
+      expect(allows(trail('footway', { highway: 'footway' }))).toBe(false);
+      expect(allows(trail('shared', { highway: 'footway', bicycle: 'designated' }))).toBe(true);
+      expect(allows(trail('flowy', { mtbScale: '2' }))).toBe(true);
+      expect(allows(trail('rocky', { mtbScale: '5' }))).toBe(false);
+    });
+
+    it('should keep ski tourers off roads and on pistes', () => {
+      expect(SKI_TOURING_PROFILE.allowsTrail(trail('road', { highway: 'secondary', isRoad: true }))).toBe(false);
+      expect(SKI_TOURING_PROFILE.allowsTrail(trail('piste', { highway: undefined, pisteType: 'skitour' }))).toBe(true);
+    });
+  });
+
+  describe('getActivityProfile', () => {
+    it('should default to hiking', () => {
+      expect(getActivityProfile()).toBe(HIKING_PROFILE);
+      expect(getActivityProfile('ski-touring')).toBe(SKI_TOURING_PROFILE);
+    });
+  });
+
+  describe('applyActivityProfile', () => {
+    it('should layer the activity grade limits under a preset', () => {
+      const options = applyActivityProfile({ ...PATHFINDING_PRESETS.FAVOR_TRAILS_HEAVILY, activity: 'mountain-biking' });
+
+      expect(options.trailBonus).toBe(PATHFINDING_PRESETS.FAVOR_TRAILS_HEAVILY.trailBonus);
+      expect(options.maxSustainedGrade).toBe(MOUNTAIN_BIKING_PROFILE.maxSustainedGrade);
+      expect(options.maxPitchGrade).toBe(MOUNTAIN_BIKING_PROFILE.maxPitchGrade);
+    });
+
+    it('should keep grade limits set in the options', () => {
+      const options = applyActivityProfile({ ...DEFAULT_PATHFINDING_OPTIONS, activity: 'mountain-biking', maxSustainedGrade: 15 });
+
+      expect(options.maxSustainedGrade).toBe(15);
+    });
+
+    it('should add no limits for hikers', () => {
+      expect(applyActivityProfile(DEFAULT_PATHFINDING_OPTIONS)).toEqual(DEFAULT_PATHFINDING_OPTIONS);
+    });
+  });
+
+  describe('filterTrailNetwork', () => {
+    const trails = [trail('path'), trail('steps', { highway: 'steps' }), trail('lake', { highway: undefined, isWater: true })];
+    const bbox = { minLat: 45.9, maxLat: 46.1, minLng: 7.9, maxLng: 8.1 };
+    const network: TrailNetwork = { trails, bbox, cacheTime: 0, spatialIndex: buildSpatialIndex(trails, bbox) };
+
+    it('should return the same network when every trail is usable', () => {
+      expect(filterTrailNetwork(network)).toBe(network);
+    });
+
+    it('should drop unusable trails but keep water', () => {
+      const filtered = filterTrailNetwork(network, 'mountain-biking');
+
+      expect(filtered.trails.map(t => t.id)).toEqual(['path', 'lake']);
+      expect([...filtered.spatialIndex!.values()].flat()).not.toContainEqual(trails[1]);
+    });
+  });
+
+  describe('estimateTravelTime', () => {
+    const points: RoutePoint[] = [
+      { lat: 46.0, lng: 8.0, elevation: 1000 },
+      { lat: 46.01, lng: 8.0, elevation: 1100 },
+      { lat: 46.02, lng: 8.0, elevation: 1100 },
+    ];
+
+    it('should match Tobler time for hikers', () => {
+      const expected = points.slice(1).reduce((time, point, i) => {
+        const distance = calculateDistance(points[i], point);
+        return time + calculateSegmentTime(distance, calculateSlope(point.elevation - points[i].elevation, distance));
+      }, 0);
+
+      expect(estimateTravelTime(points)).toBeCloseTo(expected);
+    });
+
+    it('should be quicker for runners', () => {
+      expect(estimateTravelTime(points, 'trail-running')).toBeLessThan(estimateTravelTime(points, 'hiking'));
+    });
+  });
+});
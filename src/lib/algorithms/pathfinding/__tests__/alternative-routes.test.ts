@@ -0,0 +1,169 @@
+/**
+ * Unit tests for alternative route generation
+ */
+
+import {
+  calculateRouteOverlap,
+  calculateTrailShare,
+  generateAlternativeCandidates,
+  summarizeAlternative,
+  ALTERNATIVE_CONSTANTS
+} from '../alternative-routes';
+import { TrailNetwork, TrailSegment } from '@/lib/api/trails';
+import { Coordinate, RoutePoint } from '@/types/route';
+import { DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { isSameJoint } from '../route-legs';
+import { createProfileTerrain, TerrainModel } from '../terrain/terrain-model';
+
+describe('alternative routes', () => {
+  const start: Coordinate = { lat: 46.0, lng: 8.0 };
+  const end: Coordinate = { lat: 46.0, lng: 8.04 };
+
+  // Valley path between start and end, with a longer detour on either side
+  const valley: Coordinate[] = [start, { lat: 46.0, lng: 8.01 }, { lat: 46.0, lng: 8.02 }, { lat: 46.0, lng: 8.03 }, end];
+  const northRidge: Coordinate[] = [start, { lat: 46.01, lng: 8.0 }, { lat: 46.01, lng: 8.02 }, { lat: 46.01, lng: 8.04 }, end];
+  const southRidge: Coordinate[] = [start, { lat: 45.99, lng: 8.0 }, { lat: 45.99, lng: 8.02 }, { lat: 45.99, lng: 8.04 }, end];
+
+  const network: TrailSegment[] = [
+    { id: 'valley', coordinates: valley, highway: 'path' },
+    { id: 'north', coordinates: northRidge, highway: 'path' },
+    { id: 'south', coordinates: southRidge, highway: 'path' },
+  ];
+
+  const withElevation = (coordinates: Coordinate[], elevation: number): RoutePoint[] =>
+    coordinates.map(coord => ({ lat: coord.lat, lng: coord.lng, elevation }));
+
+  const toNetwork = (trails: TrailSegment[]): TrailNetwork => ({
+    trails,
+    bbox: { minLat: 45.9, maxLat: 46.1, minLng: 7.9, maxLng: 8.1 },
+    cacheTime: 0,
+  });
+  const flatTerrain = createProfileTerrain([]);
+  const geometryOf = (points: Coordinate[]) => points.map(({ lat, lng }) => ({ lat, lng }));
+
+  describe('calculateRouteOverlap', () => {
+    it('should report full overlap for the same route', () => {
+      expect(calculateRouteOverlap(valley, valley)).toBeCloseTo(1);
+    });
+
+    it('should report no overlap for routes on separate trails', () => {
+      expect(calculateRouteOverlap(northRidge, valley)).toBe(0);
+    });
+
+    it('should weight shared ground by distance', () => {
+      const halfValley = [start, { lat: 46.0, lng: 8.02 }, { lat: 46.01, lng: 8.02 }, { lat: 46.01, lng: 8.04 }];
+
+      const overlap = calculateRouteOverlap(halfValley, valley);
+
+      expect(overlap).toBeGreaterThan(0.3);
+      expect(overlap).toBeLessThan(0.6);
+    });
+  });
+
+  describe('generateAlternativeCandidates', () => {
+    it('should find the cheapest path first when nothing is penalised', async () => {
+      const [first] = await generateAlternativeCandidates(start, end, toNetwork(network), flatTerrain, [], 1);
+
+      expect(geometryOf(first.points)).toEqual(valley);
+      expect(first.nodesExpanded).toBeGreaterThan(0);
+    });
+
+    it('should avoid the earlier routes', async () => {
+      const candidates = await generateAlternativeCandidates(start, end, toNetwork(network), flatTerrain, [valley], 2);
+
+      expect(candidates).toHaveLength(2);
+      candidates.forEach(({ points }) => {
+        expect(calculateRouteOverlap(points, valley)).toBeLessThanOrEqual(ALTERNATIVE_CONSTANTS.MAX_OVERLAP);
+        expect(isSameJoint(points[0], start)).toBe(true);
+        expect(isSameJoint(points[points.length - 1], end)).toBe(true);
+      });
+      expect(calculateRouteOverlap(candidates[1].points, candidates[0].points)).toBeLessThanOrEqual(ALTERNATIVE_CONSTANTS.MAX_OVERLAP);
+    });
+
+    it('should stop when the network offers no distinct route', async () => {
+      const candidates = await generateAlternativeCandidates(start, end, toNetwork([network[0]]), flatTerrain, [valley], 2);
+
+      expect(candidates).toHaveLength(0);
+    });
+
+    it('should plan the legs from the exact start and to the exact end', async () => {
+      const offStart = { lat: 45.999, lng: 7.999 };
+
+      const [first] = await generateAlternativeCandidates(offStart, end, toNetwork(network), flatTerrain, [], 1);
+
+      expect(first.points[0]).toMatchObject(offStart);
+      expect(first.points.some(point => isSameJoint(point, start))).toBe(true);
+      expect(first.points[first.points.length - 1]).toMatchObject(end);
+    });
+
+    it('should return nothing when the start is far from any trail', async () => {
+      expect(await generateAlternativeCandidates({ lat: 46.5, lng: 8.5 }, end, toNetwork(network), flatTerrain, [], 2)).toEqual([]);
+    });
+
+    it('should only use roads in roads-only mode', async () => {
+      const roads: TrailSegment[] = [{ id: 'road', coordinates: northRidge, highway: 'track', isRoad: true }, ...network];
+
+      const [first] = await generateAlternativeCandidates(start, end, toNetwork(roads), flatTerrain, [], 1, { ...DEFAULT_PATHFINDING_OPTIONS, roadsOnly: true });
+
+      expect(geometryOf(first.points)).toEqual(northRidge);
+    });
+
+    it('should not follow trails steeper than the grade limits', async () => {
+      // A 2000 m spike in the middle of the valley path
+      const spike = { lat: 46.0, lng: 8.02 };
+      const spikedTerrain: TerrainModel = {
+        elevationAt: coordinate => (isSameJoint(coordinate, spike) ? 2000 : 0),
+        samplesNear: () => [],
+      };
+
+      const [first] = await generateAlternativeCandidates(
+        start, end, toNetwork(network), spikedTerrain, [], 1, { ...DEFAULT_PATHFINDING_OPTIONS, maxPitchGrade: 30 }
+      );
+
+      expect(calculateRouteOverlap(first.points, valley)).toBeLessThan(0.5);
+    });
+  });
+
+  describe('calculateTrailShare', () => {
+    it('should count a route along a trail as fully on trail', () => {
+      expect(calculateTrailShare(valley, network)).toBeCloseTo(1);
+    });
+
+    it('should count a cross-country leg as off trail', () => {
+      const shortcut = [start, { lat: 46.0, lng: 8.02 }, { lat: 46.03, lng: 8.02 }];
+
+      const share = calculateTrailShare(shortcut, network);
+
+      expect(share).toBeGreaterThan(0);
+      expect(share).toBeLessThan(0.5);
+    });
+
+    it('should ignore water bodies', () => {
+      const lake: TrailSegment[] = [{ id: 'lake', coordinates: valley, isWater: true }];
+
+      expect(calculateTrailShare(valley, lake)).toBe(0);
+    });
+  });
+
+  describe('summarizeAlternative', () => {
+    it('should report distance, elevation gain and time', () => {
+      const points = withElevation(valley, 1000);
+      points[2] = { ...points[2], elevation: 1200 };
+
+      const summary = summarizeAlternative(points, network);
+
+      expect(summary.points).toBe(points);
+      expect(summary.distance).toBeGreaterThan(3);
+      expect(summary.elevationGain).toBe(200);
+      expect(summary.estimatedTime).toBeGreaterThan(0);
+      expect(summary.trailShare).toBeCloseTo(1);
+      expect(summary.overlap).toBe(0);
+    });
+
+    it('should report the largest overlap with earlier routes', () => {
+      const summary = summarizeAlternative(withElevation(valley, 1000), network, [northRidge, valley]);
+
+      expect(summary.overlap).toBeCloseTo(1);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for avoid areas
+ */
+
+import {
+  AVOID_AREA_CONSTANTS,
+  doSegmentsIntersect,
+  findEnteredAvoidAreas,
+  getAvoidAreaCostFactor,
+  isPointInPolygon,
+  isValidAvoidArea,
+  segmentEntersAvoidArea
+} from '../avoid-areas';
+import { AvoidArea } from '@/types/pathfinding';
+import { Coordinate } from '@/types/route';
+
+describe('avoid areas', () => {
+  // A square nature reserve and a closed path running north-south east of it
+  const square: Coordinate[] = [
+    { lat: 46.0, lng: 8.0 },
+    { lat: 46.0, lng: 8.01 },
+    { lat: 46.01, lng: 8.01 },
+    { lat: 46.01, lng: 8.0 },
+  ];
+  const reserve: AvoidArea = { id: 'reserve', shape: 'polygon', coordinates: square, mode: 'barrier', label: 'Nesting site' };
+  const closedPath: AvoidArea = {
+    id: 'closed-path',
+    shape: 'line',
+    coordinates: [{ lat: 45.99, lng: 8.02 }, { lat: 46.02, lng: 8.02 }],
+    mode: 'penalty',
+    penalty: 3,
+  };
+
+  const west: Coordinate = { lat: 46.005, lng: 7.99 };
+  const inside: Coordinate = { lat: 46.005, lng: 8.005 };
+  const between: Coordinate = { lat: 46.005, lng: 8.015 };
+  const east: Coordinate = { lat: 46.005, lng: 8.03 };
+
+  describe('isPointInPolygon', () => {
+    it('should tell inside from outside', () => {
+      expect(isPointInPolygon(inside, square)).toBe(true);
+      expect(isPointInPolygon(west, square)).toBe(false);
+    });
+  });
+
+  describe('doSegmentsIntersect', () => {
+    it('should detect crossing and separate segments', () => {
+      expect(doSegmentsIntersect(west, between, square[0], square[3])).toBe(true);
+      expect(doSegmentsIntersect(between, east, square[0], square[3])).toBe(false);
+    });
+  });
+
+  describe('segmentEntersAvoidArea', () => {
+    it('should catch moves ending inside a polygon or crossing it', () => {
+      expect(segmentEntersAvoidArea(west, inside, reserve)).toBe(true);
+      expect(segmentEntersAvoidArea(west, between, reserve)).toBe(true);
+      expect(segmentEntersAvoidArea(between, east, reserve)).toBe(false);
+    });
+
+    it('should catch moves crossing a line or ending within its buffer', () => {
+      const nearLine = { lat: 46.005, lng: 8.0201 };
+
+      expect(segmentEntersAvoidArea(between, east, closedPath)).toBe(true);
+      expect(segmentEntersAvoidArea(between, nearLine, closedPath)).toBe(true);
+      expect(segmentEntersAvoidArea(west, between, closedPath)).toBe(false);
+    });
+
+    it('should ignore areas without enough vertices', () => {
+      const unfinished: AvoidArea = { ...reserve, coordinates: square.slice(0, 2) };
+
+      expect(isValidAvoidArea(unfinished)).toBe(false);
+      expect(segmentEntersAvoidArea(west, between, unfinished)).toBe(false);
+    });
+  });
+
+  describe('getAvoidAreaCostFactor', () => {
+    it('should rule out moves into a barrier', () => {
+      expect(getAvoidAreaCostFactor(west, inside, [reserve, closedPath])).toBe(Infinity);
+    });
+
+    it('should multiply the cost of moves through a penalty area', () => {
+      expect(getAvoidAreaCostFactor(between, east, [reserve, closedPath])).toBe(3);
+      expect(getAvoidAreaCostFactor(between, east, [{ ...closedPath, penalty: undefined }]))
+        .toBe(AVOID_AREA_CONSTANTS.DEFAULT_PENALTY);
+    });
+
+    it('should leave other moves alone', () => {
+      expect(getAvoidAreaCostFactor(west, { lat: 45.99, lng: 7.99 }, [reserve, closedPath])).toBe(1);
+      expect(getAvoidAreaCostFactor(west, inside)).toBe(1);
+    });
+  });
+
+  describe('findEnteredAvoidAreas', () => {
+    const route = [west, between, east];
+
+    it('should report the barriers a route enters', () => {
+      expect(findEnteredAvoidAreas(route, [reserve, closedPath])).toEqual([reserve]);
+    });
+
+    it('should include penalty areas when asked', () => {
+      expect(findEnteredAvoidAreas(route, [reserve, closedPath], ['barrier', 'penalty'])).toEqual([reserve, closedPath]);
+    });
+
+    it('should check a single point route', () => {
+      expect(findEnteredAvoidAreas([inside], [reserve])).toEqual([reserve]);
+    });
+  });
+});
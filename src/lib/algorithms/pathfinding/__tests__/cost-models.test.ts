@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the route cost models
+ */
+
+import {
+  COMBINED_COST_MODEL,
+  COST_MODELS,
+  MINETTI_COST_MODEL,
+  TOBLER_COST_MODEL,
+  getCostModel
+} from '../cost-models';
+import { calculateSegmentTime } from '../terrain/terrain-analyzer';
+import { MOUNTAIN_BIKING_PROFILE } from '../activity-profiles';
+
+describe('cost models', () => {
+  const slopes = [-0.45, -0.3, -0.15, -0.05, 0, 0.05, 0.15, 0.3, 0.45, 0.8];
+
+  describe('TOBLER_COST_MODEL', () => {
+    it('should cost the Tobler walking time', () => {
+      expect(TOBLER_COST_MODEL.segmentCost(2, 0.1)).toBeCloseTo(calculateSegmentTime(2, 0.1));
+    });
+  });
+
+  describe('MINETTI_COST_MODEL', () => {
+    it('should cost flat ground the same as Tobler', () => {
+      expect(MINETTI_COST_MODEL.segmentCost(1, 0)).toBeCloseTo(TOBLER_COST_MODEL.segmentCost(1, 0));
+    });
+
+    it('should weigh steep climbs more heavily than Tobler', () => {
+      const steepRatio = MINETTI_COST_MODEL.segmentCost(1, 0.3) / TOBLER_COST_MODEL.segmentCost(1, 0.3);
+      const gentleRatio = MINETTI_COST_MODEL.segmentCost(1, 0.05) / TOBLER_COST_MODEL.segmentCost(1, 0.05);
+
+      expect(steepRatio).toBeGreaterThan(gentleRatio);
+    });
+  });
+
+  describe('COMBINED_COST_MODEL', () => {
+    it('should fall between time and energy', () => {
+      slopes.forEach(slope => {
+        const time = TOBLER_COST_MODEL.segmentCost(1, slope);
+        const energy = MINETTI_COST_MODEL.segmentCost(1, slope);
+        const combined = COMBINED_COST_MODEL.segmentCost(1, slope);
+
+        expect(combined).toBeGreaterThanOrEqual(Math.min(time, energy) - 1e-9);
+        expect(combined).toBeLessThanOrEqual(Math.max(time, energy) + 1e-9);
+      });
+    });
+  });
+
+  describe('minimumCostPerKm', () => {
+    it('should never exceed the cost of a km at any slope', () => {
+      Object.values(COST_MODELS).forEach(model => {
+        slopes.forEach(slope => {
+          expect(model.minimumCostPerKm()).toBeLessThanOrEqual(model.segmentCost(1, slope) + 1e-9);
+        });
+      });
+    });
+  });
+
+  describe('getCostModel', () => {
+    it('should look up models by id and default to Tobler', () => {
+      expect(getCostModel('minetti')).toBe(MINETTI_COST_MODEL);
+      expect(getCostModel('combined')).toBe(COMBINED_COST_MODEL);
+      expect(getCostModel()).toBe(TOBLER_COST_MODEL);
+    });
+
+    it('should build models from the activity speed curve', () => {
+      const riding = getCostModel('tobler', 'mountain-biking');
+
+      expect(riding.segmentCost(1, 0)).toBeCloseTo(1 / MOUNTAIN_BIKING_PROFILE.speed(0));
+      expect(riding.minimumCostPerKm()).toBeCloseTo(1 / MOUNTAIN_BIKING_PROFILE.maxSpeed);
+      expect(getCostModel('tobler', 'mountain-biking')).toBe(riding);
+    });
+  });
+});
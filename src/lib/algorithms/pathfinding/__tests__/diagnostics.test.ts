@@ -0,0 +1,275 @@
+/**
+ * Unit tests for pathfinding diagnostics
+ */
+
+import { createDiagnosticsRecorder } from '../diagnostics';
+import { SlopeRaster } from '../terrain/slope-raster';
+import { LandcoverArea, TrailSegment } from '@/lib/api/trails';
+import { clearElevationCache, getElevation, setElevationProvider } from '@/lib/api/elevation';
+import { RoutePoint } from '@/types/route';
+import { AvoidArea } from '@/types/pathfinding';
+
+describe('diagnostics recorder', () => {
+  const points: RoutePoint[] = [
+    { lat: 46.0, lng: 8.0, elevation: 1000 },
+    { lat: 46.0, lng: 8.01, elevation: 1100 },
+  ];
+
+  it('should report an optimised route as not degraded', () => {
+    const { points: result, diagnostics } = createDiagnosticsRecorder().finish(points, 'trail-graph');
+
+    expect(result).toBe(points);
+    expect(diagnostics).toMatchObject({
+      strategy: 'trail-graph',
+      degraded: false,
+      fallbackReasons: [],
+      iterations: 0,
+      nodesExpanded: 0,
+      failedSources: [],
+      warnings: [],
+      blockedAvoidAreas: [],
+    });
+    expect(diagnostics.elapsedMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report fallback strategies as degraded', () => {
+    const recorder = createDiagnosticsRecorder();
+    recorder.fallback('No connected trail network');
+
+    const { diagnostics } = recorder.finish(points, 'trail-snapping');
+
+    expect(diagnostics.degraded).toBe(true);
+    expect(diagnostics.fallbackReasons).toEqual(['No connected trail network']);
+  });
+
+  it('should report failed data sources once, with a warning per failure', () => {
+    const recorder = createDiagnosticsRecorder();
+    recorder.sourceFailed('elevation', new Error('timeout'));
+    recorder.sourceFailed('elevation');
+
+    const { diagnostics } = recorder.finish(points, 'grid-search');
+
+    expect(diagnostics.degraded).toBe(true);
+    expect(diagnostics.failedSources).toEqual(['elevation']);
+    expect(diagnostics.warnings).toEqual(['Elevation data unavailable: timeout', 'Elevation data unavailable']);
+  });
+
+  it('should add up the effort of several searches', () => {
+    const recorder = createDiagnosticsRecorder();
+    recorder.addSearch(0, 12);
+    recorder.addSearch(40, 35);
+
+    const { diagnostics } = recorder.finish(points, 'grid-search');
+
+    expect(diagnostics.iterations).toBe(40);
+    expect(diagnostics.nodesExpanded).toBe(47);
+  });
+
+  it('should keep warnings that do not degrade the route', () => {
+    const recorder = createDiagnosticsRecorder();
+    recorder.warn('Route crosses a closed trail');
+
+    const { diagnostics } = recorder.finish(points, 'trail-graph');
+
+    expect(diagnostics.degraded).toBe(false);
+    expect(diagnostics.warnings).toEqual(['Route crosses a closed trail']);
+  });
+
+  it('should report barrier avoid areas the route still enters', () => {
+    const quarry: AvoidArea = {
+      id: 'quarry',
+      shape: 'line',
+      coordinates: [{ lat: 45.99, lng: 8.005 }, { lat: 46.01, lng: 8.005 }],
+      mode: 'barrier',
+      label: 'Quarry fence',
+    };
+
+    const { diagnostics } = createDiagnosticsRecorder({ avoidAreas: [quarry] }).finish(points, 'trail-graph');
+
+    expect(diagnostics.degraded).toBe(true);
+    expect(diagnostics.blockedAvoidAreas).toEqual(['quarry']);
+    expect(diagnostics.warnings).toEqual(['No route avoids every barrier; this route enters Quarry fence']);
+  });
+
+  it('should report how close the route came to the grade limits', () => {
+    // The points climb 100 m over ~770 m, a grade of ~13%
+    const within = createDiagnosticsRecorder({ maxSustainedGrade: 20 }).finish(points, 'trail-graph').diagnostics;
+    const beyond = createDiagnosticsRecorder({ maxSustainedGrade: 10, maxPitchGrade: 30 }).finish(points, 'trail-graph').diagnostics;
+
+    expect(within.degraded).toBe(false);
+    expect(within.gradeLimits).toEqual({
+      maxSustainedGrade: 20,
+      maxPitchGrade: undefined,
+      steepestSustainedGrade: expect.closeTo(13, 0),
+      steepestPitchGrade: expect.closeTo(13, 0),
+    });
+    expect(beyond.degraded).toBe(true);
+    expect(beyond.warnings).toEqual(['No route stays within the grade limits; the steepest sustained grade is 13% and the steepest pitch 13%']);
+  });
+
+  it('should leave out the grade report without grade limits', () => {
+    expect(createDiagnosticsRecorder().finish(points, 'trail-graph').diagnostics.gradeLimits).toBeUndefined();
+  });
+
+  it('should mark water crossings and flag routes through water without one', () => {
+    const river: TrailSegment = {
+      id: 'river',
+      coordinates: [{ lat: 45.99, lng: 8.005 }, { lat: 46.01, lng: 8.005 }],
+      isWater: true,
+      waterway: 'river',
+    };
+    const ford: TrailSegment = {
+      id: 'ford',
+      coordinates: [{ lat: 46.0, lng: 8.004 }, { lat: 46.0, lng: 8.006 }],
+      highway: 'path',
+      crossing: 'ford',
+    };
+
+    const unbridged = createDiagnosticsRecorder();
+    unbridged.setTrails([river]);
+    const forded = createDiagnosticsRecorder();
+    forded.setTrails([river, ford]);
+    const blocked = unbridged.finish(points, 'grid-search');
+    const crossed = forded.finish(points, 'trail-graph');
+
+    expect(blocked.diagnostics.degraded).toBe(true);
+    expect(blocked.diagnostics.warnings).toEqual([
+      'No route avoids open water; this route crosses water 1 time without a bridge, ford or stepping stones',
+    ]);
+    expect(crossed.diagnostics.degraded).toBe(false);
+    expect(crossed.points[1].crossing).toBe('ford');
+  });
+
+  it('should report the hardest SAC section and flag trails above the maximum grade', () => {
+    const ridge: TrailSegment = { id: 'ridge', coordinates: points, sac_scale: 'alpine_hiking', name: 'Ridge route' };
+    const limited = createDiagnosticsRecorder({ maxSacScale: 'T3' });
+    limited.setTrails([ridge]);
+    const unlimited = createDiagnosticsRecorder();
+    unlimited.setTrails([ridge]);
+
+    const tooHard = limited.finish(points, 'trail-graph').diagnostics;
+    const graded = unlimited.finish(points, 'trail-graph').diagnostics;
+
+    expect(tooHard.degraded).toBe(true);
+    expect(tooHard.warnings).toEqual(['No route stays within the maximum SAC grade T3; this route follows T4 trail']);
+    expect(tooHard.sacScale).toMatchObject({ maxSacScale: 'T3', hardestGrade: 'T4', hardestSection: { grade: 'T4', trailName: 'Ridge route' } });
+    expect(graded.degraded).toBe(false);
+    expect(graded.sacScale!.hardestGrade).toBe('T4');
+  });
+
+  it('should flag closed paths and warn about conditional access', () => {
+    const closedPath: TrailSegment = { id: 'closed', coordinates: points, name: 'Old mule track', access: { closed: true } };
+    const seasonalPath: TrailSegment = { id: 'seasonal', coordinates: points, access: { seasonal: 'summer' } };
+    const closed = createDiagnosticsRecorder();
+    closed.setTrails([closedPath]);
+    const seasonal = createDiagnosticsRecorder({ plannedDate: '2026-07-15' });
+    seasonal.setTrails([seasonalPath]);
+    const undated = createDiagnosticsRecorder();
+    undated.setTrails([seasonalPath]);
+
+    const followsClosed = closed.finish(points, 'trail-graph').diagnostics;
+    const inSeason = seasonal.finish(points, 'trail-graph').diagnostics;
+    const uncertain = undated.finish(points, 'trail-graph').diagnostics;
+
+    expect(followsClosed.degraded).toBe(true);
+    expect(followsClosed.warnings).toEqual(['No route avoids closed paths; this route follows Old mule track']);
+    expect(inSeason.warnings).toEqual([]);
+    expect(uncertain.degraded).toBe(false);
+    expect(uncertain.warnings).toEqual([
+      'This route relies on paths with seasonal or conditional access (Way seasonal); check they are open on the day',
+    ]);
+  });
+
+  it('should flag routes over glaciers and off-trail cliffs', () => {
+    const glacier: LandcoverArea = {
+      id: 'glacier',
+      cover: 'glacier',
+      coordinates: [{ lat: 45.99, lng: 8.0 }, { lat: 45.99, lng: 8.02 }, { lat: 46.01, lng: 8.02 }, { lat: 46.01, lng: 8.0 }, { lat: 45.99, lng: 8.0 }],
+    };
+    const cliff = [{ lat: 45.99, lng: 8.005 }, { lat: 46.01, lng: 8.005 }];
+    const recorder = createDiagnosticsRecorder();
+    recorder.setTerrainFeatures({ landcover: [glacier], cliffs: [cliff] });
+    const allowed = createDiagnosticsRecorder({ allowGlaciers: true });
+    allowed.setTrails([{ id: 'path', coordinates: points, highway: 'path' }]);
+    allowed.setTerrainFeatures({ landcover: [glacier], cliffs: [cliff] });
+
+    const { diagnostics } = recorder.finish(points, 'trail-graph');
+
+    expect(diagnostics.degraded).toBe(true);
+    expect(diagnostics.warnings).toEqual([
+      'No route avoids glaciers; this route crosses glacier on 1 segment',
+      'No route avoids cliffs; this route crosses a cliff 1 time away from any trail',
+    ]);
+    expect(allowed.finish(points, 'trail-graph').diagnostics).toMatchObject({ degraded: false, warnings: [] });
+  });
+
+  it('should list the waymarked routes the route follows', () => {
+    const recorder = createDiagnosticsRecorder();
+    recorder.setTrails([{ id: 'path', coordinates: points, hikingRoutes: [{ id: '1', name: 'Via Alpina', symbol: 'red:white:red_bar' }] }]);
+
+    const { diagnostics } = recorder.finish(points, 'trail-graph');
+
+    expect(diagnostics.waymarkedRoutes).toEqual([expect.objectContaining({ startDistance: 0, name: 'Via Alpina', colour: 'red' })]);
+    expect(createDiagnosticsRecorder().finish(points, 'trail-graph').diagnostics.waymarkedRoutes).toBeUndefined();
+  });
+
+  it('should report how the elevation lookups made during the route were answered', async () => {
+    setElevationProvider({ name: 'fixed', getElevations: async coordinates => coordinates.map(() => 1500) });
+    clearElevationCache();
+    try {
+      const recorder = createDiagnosticsRecorder();
+      await getElevation(points, undefined, recorder.elevationStats);
+      await getElevation(points, undefined, recorder.elevationStats);
+      // Lookups for other routes computed at the same time are not counted
+      await getElevation(points);
+
+      const { diagnostics } = recorder.finish(points, 'trail-graph');
+
+      expect(diagnostics.elevationCache).toEqual({ lookups: 4, memoryHits: 2, persistentHits: 0, fetched: 2, hitRate: 0.5 });
+      expect(createDiagnosticsRecorder().finish(points, 'trail-graph').diagnostics.elevationCache).toBeUndefined();
+    } finally {
+      setElevationProvider(null);
+    }
+  });
+
+  describe('winter mode', () => {
+    // Runout zone east of 8.005
+    const slopes: SlopeRaster = {
+      slopeAngleAt: coord => coord.lng > 8.005 ? 15 : 5,
+      exposureAt: coord => coord.lng > 8.005 ? 'runout' : 'none',
+    };
+
+    it('should report the avalanche terrain along the route', () => {
+      const recorder = createDiagnosticsRecorder({ winterMode: 'penalty' });
+      recorder.setSlopeRaster(slopes);
+      const { diagnostics } = recorder.finish(points, 'trail-graph');
+
+      expect(diagnostics.degraded).toBe(false);
+      expect(diagnostics.avalanche).toMatchObject({ terrainClass: 'challenging', segments: ['challenging'] });
+      expect(diagnostics.avalanche!.sections).toHaveLength(1);
+    });
+
+    it('should flag a barrier-mode route through avalanche terrain as degraded', () => {
+      const recorder = createDiagnosticsRecorder({ winterMode: 'barrier' });
+      recorder.setSlopeRaster(slopes);
+      const { diagnostics } = recorder.finish(points, 'grid-search');
+
+      expect(diagnostics.degraded).toBe(true);
+      expect(diagnostics.warnings).toEqual(['No route avoids avalanche terrain; this route crosses 1 section of challenging terrain']);
+    });
+
+    it('should warn when avalanche terrain could not be assessed', () => {
+      const { diagnostics } = createDiagnosticsRecorder({ winterMode: 'barrier' }).finish(points, 'grid-search');
+
+      expect(diagnostics.avalanche).toBeUndefined();
+      expect(diagnostics.warnings).toEqual(['Avalanche terrain was not assessed without the elevation grid']);
+    });
+
+    it('should leave out the avalanche report outside winter mode', () => {
+      const recorder = createDiagnosticsRecorder();
+      recorder.setSlopeRaster(slopes);
+
+      expect(recorder.finish(points, 'trail-graph').diagnostics.avalanche).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for grade limits
+ */
+
+import {
+  createGradeLimitReport,
+  exceedsGradeLimits,
+  findSteepestGrade,
+  isMoveWithinGradeLimits
+} from '../grade-limits';
+import { calculateDistance } from '@/lib/utils';
+import { Coordinate } from '@/types/route';
+
+describe('grade limits', () => {
+  const from: Coordinate = { lat: 46.0, lng: 8.0 };
+  const to: Coordinate = { lat: 46.0, lng: 8.01 }; // ~770 m east
+
+  // An even 20% slope rising east
+  const slope = (coord: Coordinate) => 1000 + calculateDistance(from, coord) * 200;
+  // Flat ground with a 30 m step halfway, like a short rock band
+  const step = (coord: Coordinate) => (coord.lng > 8.005 ? 1030 : 1000);
+
+  describe('isMoveWithinGradeLimits', () => {
+    it('should allow any move without limits', () => {
+      expect(isMoveWithinGradeLimits(from, to, step, {})).toBe(true);
+    });
+
+    it('should check the sustained grade of the move', () => {
+      expect(isMoveWithinGradeLimits(from, to, slope, { maxSustainedGrade: 25 })).toBe(true);
+      expect(isMoveWithinGradeLimits(from, to, slope, { maxSustainedGrade: 15 })).toBe(false);
+    });
+
+    it('should catch a short steep pitch within a gentle move', () => {
+      expect(isMoveWithinGradeLimits(from, to, step, { maxSustainedGrade: 25 })).toBe(true);
+      expect(isMoveWithinGradeLimits(from, to, step, { maxPitchGrade: 50 })).toBe(false);
+    });
+
+    it('should allow a short pitch steeper than the sustained limit but within the pitch limit', () => {
+      expect(isMoveWithinGradeLimits(from, to, step, { maxSustainedGrade: 25, maxPitchGrade: 80 })).toBe(true);
+      expect(isMoveWithinGradeLimits(from, to, step, { maxSustainedGrade: 25, maxPitchGrade: 50 })).toBe(false);
+    });
+  });
+
+  describe('findSteepestGrade', () => {
+    const profile: Coordinate[] = Array.from({ length: 11 }, (_, i) => ({
+      lat: 46.0,
+      lng: 8.0 + i * 0.001,
+      elevation: i === 5 ? 1030 : 1000,
+    }));
+
+    it('should find the steepest stretch of at least the window length', () => {
+      const pitch = findSteepestGrade(profile, 0.05);
+
+      expect(pitch).toBeCloseTo(30 / (calculateDistance(profile[4], profile[5]) * 1000) * 100, 1);
+      expect(findSteepestGrade(profile, 0.2)).toBeLessThan(pitch);
+    });
+
+    it('should measure routes shorter than the window end to end', () => {
+      expect(findSteepestGrade([profile[0], profile[5]], 1)).toBeGreaterThan(0);
+      expect(findSteepestGrade([profile[0]], 1)).toBe(0);
+    });
+  });
+
+  describe('createGradeLimitReport', () => {
+    const route = [{ ...from, elevation: slope(from) }, { ...to, elevation: slope(to) }];
+
+    it('should return null without limits', () => {
+      expect(createGradeLimitReport(route, {})).toBeNull();
+    });
+
+    it('should compare the steepest grades with the limits', () => {
+      const report = createGradeLimitReport(route, { maxSustainedGrade: 15 })!;
+
+      expect(report.steepestSustainedGrade).toBeCloseTo(20);
+      expect(exceedsGradeLimits(report)).toBe(true);
+      expect(exceedsGradeLimits({ ...report, maxSustainedGrade: 25 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for routing over the trail network graph
+ */
+
+import {
+  createTerrainEdgeCost,
+  createTerrainHeuristic,
+  findTrailGraphRoute
+} from '../graph-router';
+import { createProfileTerrain } from '../terrain/terrain-model';
+import { AVALANCHE_CONSTANTS, SlopeRaster } from '../terrain/slope-raster';
+import { DEFAULT_SAC_SCALE_MULTIPLIERS } from '../sac-scale';
+import { WAYMARKED_ROUTE_CONSTANTS } from '../waymarked-routes';
+import { buildTrailGraph, findGraphPath, getNodeKey } from '../trail-graph';
+import { TrailNetwork } from '@/lib/api/trails';
+import { Coordinate } from '@/types/route';
+import { calculateDistance } from '@/lib/utils';
+import { DEFAULT_PATHFINDING_OPTIONS, PathfindingOptions } from '@/types/pathfinding';
+
+describe('graph router', () => {
+  const trailhead: Coordinate = { lat: 46.0, lng: 8.0 };
+  const ridgeTop: Coordinate = { lat: 46.0, lng: 8.02 };
+  const hut: Coordinate = { lat: 46.0, lng: 8.04 };
+  const valleyWest: Coordinate = { lat: 45.99, lng: 8.01 };
+  const valleyEast: Coordinate = { lat: 45.99, lng: 8.03 };
+
+  // A short path over a ridge and a longer one through the valley
+  const network: TrailNetwork = {
+    trails: [
+      { id: 'ridge', coordinates: [trailhead, ridgeTop, hut], highway: 'path' },
+      { id: 'valley', coordinates: [trailhead, valleyWest, valleyEast, hut], highway: 'path' },
+    ],
+    bbox: { minLat: 45.9, maxLat: 46.1, minLng: 7.9, maxLng: 8.1 },
+    cacheTime: 0,
+  };
+
+  const flatSamples = [trailhead, ridgeTop, hut, valleyWest, valleyEast].map(coord => ({ ...coord, elevation: 1000 }));
+  const ridgeSamples = flatSamples.map(point => point.lng === ridgeTop.lng && point.lat === ridgeTop.lat ? { ...point, elevation: 2000 } : point);
+  const flatTerrain = createProfileTerrain(flatSamples);
+  const steepRidge = createProfileTerrain(ridgeSamples);
+
+  describe('createTerrainEdgeCost', () => {
+    it('should make climbing more expensive than descending the same edge', () => {
+      const graph = buildTrailGraph(network.trails);
+      const edgeCost = createTerrainEdgeCost(graph, steepRidge.elevationAt);
+      const edge = graph.adjacency.get(getNodeKey(trailhead))!.find(e => e.trail.id === 'ridge')!;
+
+      expect(edgeCost(edge, getNodeKey(trailhead))).toBeGreaterThan(edgeCost(edge, getNodeKey(ridgeTop)));
+    });
+
+    it('should favour roads over trails with the default bonuses', () => {
+      const roadNetwork = [{ ...network.trails[0], id: 'road', isRoad: true }];
+      const trailGraph = buildTrailGraph(network.trails.slice(0, 1));
+      const roadGraph = buildTrailGraph(roadNetwork);
+      const elevationAt = flatTerrain.elevationAt;
+      const trailEdge = trailGraph.adjacency.get(getNodeKey(trailhead))![0];
+      const roadEdge = roadGraph.adjacency.get(getNodeKey(trailhead))![0];
+
+      expect(createTerrainEdgeCost(roadGraph, elevationAt)(roadEdge, getNodeKey(trailhead)))
+        .toBeLessThan(createTerrainEdgeCost(trailGraph, elevationAt)(trailEdge, getNodeKey(trailhead)));
+    });
+
+    it('should rule out edges steeper than the grade limits', () => {
+      const graph = buildTrailGraph(network.trails);
+      const edgeCost = createTerrainEdgeCost(graph, steepRidge.elevationAt, { ...DEFAULT_PATHFINDING_OPTIONS, maxSustainedGrade: 40 });
+      const [ridgeEdge, valleyEdge] = ['ridge', 'valley']
+        .map(id => graph.adjacency.get(getNodeKey(trailhead))!.find(e => e.trail.id === id)!);
+
+      expect(edgeCost(ridgeEdge, getNodeKey(trailhead))).toBe(Infinity);
+      expect(edgeCost(ridgeEdge, getNodeKey(ridgeTop))).toBe(Infinity);
+      expect(edgeCost(valleyEdge, getNodeKey(trailhead))).toBeLessThan(Infinity);
+    });
+
+    it('should cost edges with the chosen cost model', () => {
+      const graph = buildTrailGraph(network.trails);
+      const edge = graph.adjacency.get(getNodeKey(trailhead))!.find(e => e.trail.id === 'ridge')!;
+      const climbToDescentRatio = (costModel: PathfindingOptions['costModel']) => {
+        const edgeCost = createTerrainEdgeCost(graph, steepRidge.elevationAt, { ...DEFAULT_PATHFINDING_OPTIONS, costModel });
+        return edgeCost(edge, getNodeKey(trailhead)) / edgeCost(edge, getNodeKey(ridgeTop));
+      };
+
+      // Descending steeply is slow but cheap in energy
+      expect(climbToDescentRatio('minetti')).toBeGreaterThan(climbToDescentRatio('tobler'));
+      expect(climbToDescentRatio(undefined)).toBe(climbToDescentRatio('tobler'));
+    });
+
+    it('should penalise or rule out edges through avalanche terrain in winter mode', () => {
+      // Release-angle slopes around the ridge top
+      const slopes: SlopeRaster = {
+        slopeAngleAt: coord => calculateDistance(coord, ridgeTop) < 0.5 ? 38 : 10,
+        exposureAt: coord => calculateDistance(coord, ridgeTop) < 0.5 ? 'release' : 'none',
+      };
+      const graph = buildTrailGraph(network.trails);
+      const [ridgeEdge, valleyEdge] = ['ridge', 'valley']
+        .map(id => graph.adjacency.get(getNodeKey(trailhead))!.find(e => e.trail.id === id)!);
+      const summer = createTerrainEdgeCost(graph, flatTerrain.elevationAt, DEFAULT_PATHFINDING_OPTIONS, slopes);
+      const penalty = createTerrainEdgeCost(graph, flatTerrain.elevationAt, { ...DEFAULT_PATHFINDING_OPTIONS, winterMode: 'penalty' }, slopes);
+      const barrier = createTerrainEdgeCost(graph, flatTerrain.elevationAt, { ...DEFAULT_PATHFINDING_OPTIONS, winterMode: 'barrier' }, slopes);
+
+      expect(penalty(ridgeEdge, getNodeKey(trailhead)))
+        .toBeCloseTo(summer(ridgeEdge, getNodeKey(trailhead)) * AVALANCHE_CONSTANTS.RELEASE_PENALTY);
+      expect(barrier(ridgeEdge, getNodeKey(trailhead))).toBe(Infinity);
+      expect(barrier(valleyEdge, getNodeKey(trailhead))).toBe(summer(valleyEdge, getNodeKey(trailhead)));
+    });
+
+    it('should scale trail edges by their SAC grade multiplier', () => {
+      const graded = [{ ...network.trails[0], sac_scale: 'alpine_hiking' }, network.trails[1]];
+      const edgeOf = (graph: ReturnType<typeof buildTrailGraph>) =>
+        graph.adjacency.get(getNodeKey(trailhead))!.find(e => e.trail.id === 'ridge')!;
+      const ungradedGraph = buildTrailGraph(network.trails);
+      const gradedGraph = buildTrailGraph(graded);
+
+      expect(createTerrainEdgeCost(gradedGraph, flatTerrain.elevationAt)(edgeOf(gradedGraph), getNodeKey(trailhead)))
+        .toBeCloseTo(createTerrainEdgeCost(ungradedGraph, flatTerrain.elevationAt)(edgeOf(ungradedGraph), getNodeKey(trailhead)) * DEFAULT_SAC_SCALE_MULTIPLIERS.T4);
+    });
+
+    it('should scale trail edges on waymarked routes by the waymarked route bonus', () => {
+      const waymarked = [{ ...network.trails[0], hikingRoutes: [{ id: '1', name: 'Ridge Trail' }] }, network.trails[1]];
+      const edgeOf = (graph: ReturnType<typeof buildTrailGraph>) =>
+        graph.adjacency.get(getNodeKey(trailhead))!.find(e => e.trail.id === 'ridge')!;
+      const plainGraph = buildTrailGraph(network.trails);
+      const waymarkedGraph = buildTrailGraph(waymarked);
+
+      expect(createTerrainEdgeCost(waymarkedGraph, flatTerrain.elevationAt)(edgeOf(waymarkedGraph), getNodeKey(trailhead)))
+        .toBeCloseTo(createTerrainEdgeCost(plainGraph, flatTerrain.elevationAt)(edgeOf(plainGraph), getNodeKey(trailhead)) * WAYMARKED_ROUTE_CONSTANTS.DEFAULT_BONUS);
+    });
+  });
+
+  describe('createTerrainHeuristic', () => {
+    it('should never overestimate the remaining cost', () => {
+      const graph = buildTrailGraph(network.trails);
+      const edgeCost = createTerrainEdgeCost(graph, flatTerrain.elevationAt);
+      const heuristic = createTerrainHeuristic(graph, getNodeKey(hut));
+
+      const path = findGraphPath(graph, getNodeKey(trailhead), getNodeKey(hut), edgeCost);
+
+      expect(heuristic(getNodeKey(trailhead))).toBeLessThanOrEqual(path!.cost);
+      expect(heuristic(getNodeKey(hut))).toBe(0);
+    });
+
+    it('should stay admissible under every cost model', () => {
+      const graph = buildTrailGraph(network.trails);
+      (['tobler', 'minetti', 'combined'] as const).forEach(costModel => {
+        const options = { ...DEFAULT_PATHFINDING_OPTIONS, costModel };
+        const edgeCost = createTerrainEdgeCost(graph, steepRidge.elevationAt, options);
+        const heuristic = createTerrainHeuristic(graph, getNodeKey(hut), options);
+
+        const path = findGraphPath(graph, getNodeKey(trailhead), getNodeKey(hut), edgeCost);
+
+        expect(heuristic(getNodeKey(trailhead))).toBeLessThanOrEqual(path!.cost);
+      });
+    });
+
+    it('should stay admissible on waymarked routes', () => {
+      const waymarked = network.trails.map(trail => ({ ...trail, hikingRoutes: [{ id: '1', name: 'Valley Trail' }] }));
+      const graph = buildTrailGraph(waymarked);
+      const options = { ...DEFAULT_PATHFINDING_OPTIONS, waymarkedRouteBonus: 0.5 };
+      const edgeCost = createTerrainEdgeCost(graph, flatTerrain.elevationAt, options);
+
+      const path = findGraphPath(graph, getNodeKey(trailhead), getNodeKey(hut), edgeCost);
+
+      expect(createTerrainHeuristic(graph, getNodeKey(hut), options)(getNodeKey(trailhead))).toBeLessThanOrEqual(path!.cost);
+    });
+  });
+
+  describe('findTrailGraphRoute', () => {
+    it('should take the shorter trail over flat terrain', async () => {
+      const route = (await findTrailGraphRoute(trailhead, hut, network, flatTerrain))?.points;
+
+      expect(route).toHaveLength(3);
+      expect(route![1]).toMatchObject(ridgeTop);
+    });
+
+    it('should take a longer waymarked route with a large enough bonus', async () => {
+      const waymarked: TrailNetwork = {
+        ...network,
+        trails: [network.trails[0], { ...network.trails[1], hikingRoutes: [{ id: '1', name: 'Valley Trail' }] }],
+      };
+      const options: PathfindingOptions = { ...DEFAULT_PATHFINDING_OPTIONS, waymarkedRouteBonus: 0.5 };
+
+      const route = (await findTrailGraphRoute(trailhead, hut, waymarked, flatTerrain, options))?.points;
+
+      expect(route).toHaveLength(4);
+      expect(route![1]).toMatchObject(valleyWest);
+    });
+
+    it('should take the valley trail around a steep climb', async () => {
+      const route = (await findTrailGraphRoute(trailhead, hut, network, steepRidge))?.points;
+
+      expect(route).toHaveLength(4);
+      expect(route![1]).toMatchObject(valleyWest);
+      expect(route!.every(point => point.elevation === 1000)).toBe(true);
+    });
+
+    it('should join the network from an off-trail start', async () => {
+      const meadow = { lat: 46.003, lng: 7.998 };
+
+      const route = (await findTrailGraphRoute(meadow, hut, network, flatTerrain))?.points;
+
+      expect(route![0]).toMatchObject(meadow);
+      expect(route!.some(point => point.lat === trailhead.lat && point.lng === trailhead.lng)).toBe(true);
+      expect(route![route!.length - 1]).toMatchObject(hut);
+    });
+
+    it('should return null when an access leg cannot be planned', async () => {
+      const meadow = { lat: 46.003, lng: 7.998 };
+      const options: PathfindingOptions = { ...DEFAULT_PATHFINDING_OPTIONS, maxIterations: 1 };
+
+      expect(await findTrailGraphRoute(meadow, hut, network, flatTerrain, options)).toBeNull();
+    });
+
+    it('should count the graph nodes expanded', async () => {
+      const route = await findTrailGraphRoute(trailhead, hut, network, flatTerrain);
+
+      expect(route!.nodesExpanded).toBeGreaterThan(1);
+    });
+
+    it('should return null when the start is too far from the network', async () => {
+      expect(await findTrailGraphRoute({ lat: 46.05, lng: 8.0 }, hut, network, flatTerrain)).toBeNull();
+    });
+
+    it('should return null when start and end are not connected', async () => {
+      const islands: TrailNetwork = {
+        ...network,
+        trails: [
+          { id: 'west', coordinates: [trailhead, valleyWest], highway: 'path' },
+          { id: 'east', coordinates: [valleyEast, hut], highway: 'path' },
+        ],
+      };
+
+      expect(await findTrailGraphRoute(trailhead, hut, islands, flatTerrain)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Benchmarks for the terrain grid search
+ */
+
+import { searchGrid } from '../grid-search';
+import { createGridTerrain } from '../terrain/terrain-model';
+import PriorityQueue from '../data-structures/priority-queue';
+import { buildSpatialIndex, TrailNetwork, TrailSegment } from '@/lib/api/trails';
+import { getLatticeCoordinate, planElevationGrid } from '@/lib/api/elevation-grid';
+import { Coordinate, RoutePoint } from '@/types/route';
+import { PATHFINDING_PRESETS } from '@/types/pathfinding';
+
+/**
+ * Time budgets in ms, generous enough for slow CI machines; a regression to
+ * linear-time lookups takes several times longer
+ */
+const BENCHMARK_BUDGET_MS = {
+  PRESET_SEARCH: 3000,
+  QUEUE_OPERATIONS: 2000,
+} as const;
+
+describe('searchGrid benchmarks', () => {
+  // Rolling terrain around a 20 km route, laid out like fetchElevationGrid does
+  const start: RoutePoint = { lat: 46.0, lng: 8.0, elevation: 1200 };
+  const end: Coordinate = { lat: 46.13, lng: 8.18, elevation: 2100 };
+  // A goal across two paths of the network, reached within the preset's iterations
+  const nearEnd: Coordinate = { lat: 46.01, lng: 8.012 };
+  const layout = planElevationGrid({ minLat: 45.99, maxLat: 46.14, minLng: 7.99, maxLng: 8.19 });
+  const elevations: number[] = [];
+  for (let row = 0; row < layout.rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      const { lat, lng } = getLatticeCoordinate(layout, row, column);
+      elevations.push(1200 + 4000 * (lat - start.lat) + 3000 * (lng - start.lng) + 150 * Math.sin(lat * 300) * Math.cos(lng * 300));
+    }
+  }
+  const terrain = createGridTerrain({ ...layout, elevations, cacheTime: 0 });
+
+  // A grid of paths every ~2 km
+  const trails: TrailSegment[] = [];
+  for (let i = 0; i <= 8; i++) {
+    const lat = 45.98 + i * 0.02;
+    const lng = 7.98 + i * 0.026;
+    trails.push({ id: `east-${i}`, highway: 'path', coordinates: Array.from({ length: 40 }, (_, j) => ({ lat, lng: 7.98 + j * 0.006 })) });
+    trails.push({ id: `north-${i}`, highway: 'path', coordinates: Array.from({ length: 40 }, (_, j) => ({ lat: 45.98 + j * 0.005, lng })) });
+  }
+  const bbox = { minLat: 45.95, maxLat: 46.2, minLng: 7.95, maxLng: 8.25 };
+  const trailNetwork: TrailNetwork = { trails, bbox, cacheTime: 0, spatialIndex: buildSpatialIndex(trails, bbox) };
+
+  it('should reach the goal with FAVOR_TRAILS_HEAVILY within the time budget', async () => {
+    const options = PATHFINDING_PRESETS.FAVOR_TRAILS_HEAVILY;
+    // Warm up so the budget measures the search rather than compilation
+    await searchGrid(start, end, terrain, trailNetwork, { ...options, maxIterations: 100 });
+
+    const startTime = performance.now();
+    const result = await searchGrid(start, nearEnd, terrain, trailNetwork, options);
+    const elapsed = performance.now() - startTime;
+
+    expect(result.path).not.toBeNull();
+    expect(result.path![result.path!.length - 1]).toMatchObject(nearEnd);
+    expect(result.iterations).toBeLessThan(options.maxIterations);
+    expect(elapsed).toBeLessThan(BENCHMARK_BUDGET_MS.PRESET_SEARCH);
+  });
+
+  it('should keep queue operations near constant time on large open sets', () => {
+    const queue = new PriorityQueue();
+    const nodeCount = 10000;
+    let decreased = 0;
+
+    const startTime = performance.now();
+    for (let i = 0; i < nodeCount; i++) {
+      const coordinate = { lat: 46 + (i % 100) * 0.001, lng: 8 + Math.floor(i / 100) * 0.001 };
+      queue.enqueue({ coordinate, gCost: i, hCost: nodeCount - i / 2, fCost: nodeCount + i / 2 });
+    }
+    for (let i = 0; i < nodeCount; i++) {
+      const node = queue.find({ lat: 46 + (i % 100) * 0.001, lng: 8 + Math.floor(i / 100) * 0.001 });
+      decreased += queue.decreaseKey(node!, node!.gCost - 1) ? 1 : 0;
+    }
+    let previousCost = -Infinity;
+    let ordered = true;
+    let dequeued = 0;
+    while (!queue.isEmpty()) {
+      const node = queue.dequeue()!;
+      ordered = ordered && node.fCost >= previousCost;
+      previousCost = node.fCost;
+      dequeued++;
+    }
+    const elapsed = performance.now() - startTime;
+
+    expect(decreased).toBe(nodeCount);
+    expect(dequeued).toBe(nodeCount);
+    expect(ordered).toBe(true);
+    expect(elapsed).toBeLessThan(BENCHMARK_BUDGET_MS.QUEUE_OPERATIONS);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the terrain grid search
+ */
+
+import { searchGrid, GRID_SEARCH_CONSTANTS } from '../grid-search';
+import { createProfileTerrain, TerrainModel } from '../terrain/terrain-model';
+import { calculateDistance } from '@/lib/utils';
+import { Coordinate, RoutePoint } from '@/types/route';
+import { AvoidArea, DEFAULT_PATHFINDING_OPTIONS, PathfindingProgress } from '@/types/pathfinding';
+
+describe('searchGrid', () => {
+  const start: RoutePoint = { lat: 46.0, lng: 8.0, elevation: 1000 };
+  const farEnd: Coordinate = { lat: 46.5, lng: 8.5 };
+  const elevationPoints: Coordinate[] = Array.from({ length: 11 }, (_, i) => ({
+    lat: 46.0 + i * 0.05,
+    lng: 8.0 + i * 0.05,
+    elevation: 1000 + i * 50,
+  }));
+  const terrain = createProfileTerrain(elevationPoints);
+  const options = { ...DEFAULT_PATHFINDING_OPTIONS, maxIterations: 120 };
+
+  it('should end exactly at a goal within reach', async () => {
+    const end = { lat: 46.000001, lng: 8.000001, elevation: 1000 };
+
+    const result = await searchGrid(start, end, terrain, undefined, options);
+
+    expect(result.path).toHaveLength(2);
+    expect(result.path![1]).toMatchObject({ lat: end.lat, lng: end.lng });
+    expect(result.iterations).toBe(1);
+  });
+
+  it('should step onto a goal off the grid once it is within a step', async () => {
+    const end = { lat: 46.0123, lng: 8.0071 };
+
+    const result = await searchGrid(start, end, terrain, undefined, options);
+
+    expect(result.path).not.toBeNull();
+    expect(result.path![result.path!.length - 1]).toMatchObject(end);
+    expect(result.path!.filter(point => point.lat === end.lat && point.lng === end.lng)).toHaveLength(1);
+  });
+
+  it('should give up after the iteration limit', async () => {
+    const result = await searchGrid(start, farEnd, terrain, undefined, options);
+
+    expect(result.path).toBeNull();
+    expect(result.iterations).toBe(options.maxIterations);
+    expect(result.nodesExpanded).toBeGreaterThan(0);
+  });
+
+  it('should not move into barrier avoid areas', async () => {
+    const enclosure: AvoidArea = {
+      id: 'enclosure',
+      shape: 'polygon',
+      coordinates: [{ lat: 45.99, lng: 7.99 }, { lat: 45.99, lng: 8.01 }, { lat: 46.01, lng: 8.01 }, { lat: 46.01, lng: 7.99 }],
+      mode: 'barrier',
+    };
+
+    const result = await searchGrid(start, farEnd, terrain, undefined, { ...options, avoidAreas: [enclosure] });
+
+    expect(result.path).toBeNull();
+    expect(result.iterations).toBe(1);
+    expect(result.nodesExpanded).toBe(1);
+  });
+
+  it('should not take moves steeper than the grade limits', async () => {
+    // A cone rising at 100% in every direction from the start
+    const cone: TerrainModel = {
+      elevationAt: coord => 1000 + calculateDistance(coord, start) * 1000,
+      samplesNear: () => [],
+    };
+
+    const unlimited = await searchGrid(start, farEnd, cone, undefined, options);
+    const limited = await searchGrid(start, farEnd, cone, undefined, { ...options, maxPitchGrade: 60 });
+
+    expect(unlimited.nodesExpanded).toBeGreaterThan(1);
+    expect(limited.path).toBeNull();
+    expect(limited.nodesExpanded).toBe(1);
+  });
+
+  it('should not cross avalanche terrain in barrier winter mode', async () => {
+    const avalancheSlope: TerrainModel = {
+      ...terrain,
+      slopes: { slopeAngleAt: () => 38, exposureAt: () => 'release' },
+    };
+
+    const penalty = await searchGrid(start, farEnd, avalancheSlope, undefined, { ...options, winterMode: 'penalty' });
+    const barrier = await searchGrid(start, farEnd, avalancheSlope, undefined, { ...options, winterMode: 'barrier' });
+
+    expect(penalty.nodesExpanded).toBeGreaterThan(1);
+    expect(barrier.path).toBeNull();
+    expect(barrier.nodesExpanded).toBe(1);
+  });
+
+  it('should report searching progress at a fixed interval', async () => {
+    const events: PathfindingProgress[] = [];
+
+    await searchGrid(start, farEnd, terrain, undefined, options, { onProgress: progress => events.push(progress) });
+
+    expect(events).toEqual([
+      { stage: 'searching', iterations: GRID_SEARCH_CONSTANTS.PROGRESS_INTERVAL, maxIterations: options.maxIterations },
+      { stage: 'searching', iterations: GRID_SEARCH_CONSTANTS.PROGRESS_INTERVAL * 2, maxIterations: options.maxIterations },
+    ]);
+  });
+
+  it('should stop with the abort reason once aborted', async () => {
+    const controller = new AbortController();
+    const onProgress = jest.fn(() => controller.abort());
+
+    await expect(searchGrid(start, farEnd, terrain, undefined, options, { signal: controller.signal, onProgress }))
+      .rejects.toBe(controller.signal.reason);
+    expect(onProgress).toHaveBeenCalledTimes(1);
+  });
+});
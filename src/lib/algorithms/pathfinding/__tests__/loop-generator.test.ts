@@ -0,0 +1,158 @@
+/**
+ * Unit tests for round-trip loop generation
+ */
+
+import {
+  generateLoopCandidates,
+  rankLoopRoutes,
+  resolveTargetDistance,
+  isDuplicateLoop,
+  LoopCandidate
+} from '../loop-generator';
+import { TrailSegment } from '@/lib/api/trails';
+import { Coordinate, LoopRoute } from '@/types/route';
+import { calculateHikingSpeed } from '../terrain/terrain-analyzer';
+import { createProfileTerrain, TerrainModel } from '../terrain/terrain-model';
+import { DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+
+/**
+ * Build a lattice of paths around a centre, like a dense park or valley network
+ */
+function createTrailLattice(center: Coordinate, lines: number, spacing: number): TrailSegment[] {
+  const trails: TrailSegment[] = [];
+  const half = Math.floor(lines / 2);
+
+  for (let i = -half; i <= half; i++) {
+    const row: Coordinate[] = [];
+    const column: Coordinate[] = [];
+    for (let j = -half; j <= half; j++) {
+      row.push({ lat: center.lat + i * spacing, lng: center.lng + j * spacing });
+      column.push({ lat: center.lat + j * spacing, lng: center.lng + i * spacing });
+    }
+    trails.push({ id: `row-${i}`, coordinates: row, highway: 'path' });
+    trails.push({ id: `column-${i}`, coordinates: column, highway: 'path' });
+  }
+
+  return trails;
+}
+
+describe('loop generator', () => {
+  const carPark: Coordinate = { lat: 46.5, lng: 8.0 };
+  const lattice = createTrailLattice(carPark, 15, 0.004);
+  const network = { trails: lattice };
+  const flatTerrain = createProfileTerrain([]);
+
+  describe('resolveTargetDistance', () => {
+    it('should prefer an explicit distance', () => {
+      expect(resolveTargetDistance({ distance: 8, duration: 1 })).toBe(8);
+    });
+
+    it('should convert a duration using the flat hiking speed', () => {
+      expect(resolveTargetDistance({ duration: 2 })).toBeCloseTo(2 * calculateHikingSpeed(0));
+    });
+
+    it('should reject an empty target', () => {
+      expect(() => resolveTargetDistance({})).toThrow('positive distance or duration');
+    });
+  });
+
+  describe('generateLoopCandidates', () => {
+    it('should build loops that start and end at the same point', () => {
+      const candidates = generateLoopCandidates(carPark, 5, network, flatTerrain);
+
+      expect(candidates.length).toBeGreaterThan(0);
+      candidates.forEach(candidate => {
+        expect(candidate.coordinates[0]).toEqual(candidate.coordinates[candidate.coordinates.length - 1]);
+      });
+    });
+
+    it('should produce loops in the region of the target distance', () => {
+      const candidates = generateLoopCandidates(carPark, 5, network, flatTerrain);
+
+      candidates.forEach(candidate => {
+        expect(candidate.distance).toBeGreaterThan(2.5);
+        expect(candidate.distance).toBeLessThan(10);
+      });
+    });
+
+    it('should avoid re-using trail segments on a dense network', () => {
+      const candidates = generateLoopCandidates(carPark, 5, network, flatTerrain);
+      const best = Math.min(...candidates.map(candidate => candidate.reusedDistance));
+      expect(best).toBe(0);
+    });
+
+    it('should walk from an off-network start onto the trails and back', () => {
+      const offNetwork = { lat: carPark.lat + 0.001, lng: carPark.lng + 0.001 };
+      const [candidate] = generateLoopCandidates(offNetwork, 5, network, flatTerrain);
+
+      expect(candidate.coordinates[0]).toEqual(offNetwork);
+      expect(candidate.coordinates[candidate.coordinates.length - 1]).toEqual(offNetwork);
+    });
+
+    it('should not climb trails steeper than the grade limits', () => {
+      // Everything north of the car park rises at well over 100%
+      const wall: TerrainModel = {
+        elevationAt: coordinate => Math.max(0, coordinate.lat - carPark.lat) * 1e6,
+        samplesNear: () => [],
+      };
+
+      const candidates = generateLoopCandidates(carPark, 5, network, wall, { ...DEFAULT_PATHFINDING_OPTIONS, maxPitchGrade: 40 });
+
+      expect(candidates.length).toBeGreaterThan(0);
+      candidates.forEach(candidate => {
+        expect(Math.max(...candidate.coordinates.map(coordinate => coordinate.lat))).toBeLessThanOrEqual(carPark.lat + 1e-9);
+      });
+    });
+
+    it('should return no candidates without nearby trails', () => {
+      expect(generateLoopCandidates({ lat: 47.5, lng: 9.0 }, 5, network, flatTerrain)).toEqual([]);
+    });
+  });
+
+  describe('isDuplicateLoop', () => {
+    it('should flag loops that mostly share edges', () => {
+      const existing: LoopCandidate = { coordinates: [], distance: 1, reusedDistance: 0, edgeIds: ['a', 'b', 'c', 'd', 'e'] };
+      expect(isDuplicateLoop(['a', 'b', 'c', 'd', 'e'], [existing])).toBe(true);
+      expect(isDuplicateLoop(['a', 'x', 'y', 'z', 'w'], [existing])).toBe(false);
+    });
+  });
+
+  describe('rankLoopRoutes', () => {
+    const loop = (distance: number, cost: number, estimatedDuration = distance / 4): LoopRoute => ({
+      points: [],
+      distance,
+      estimatedDuration,
+      cost,
+      reusedDistance: 0,
+      targetDeviation: 0,
+    });
+
+    it('should rank loops closest to the target distance first', () => {
+      const ranked = rankLoopRoutes([loop(9, 9), loop(6.2, 6.2), loop(4, 4)], { distance: 6 });
+
+      expect(ranked.map(route => route.distance)).toEqual([6.2, 4, 9]);
+      expect(ranked[0].targetDeviation).toBeCloseTo(0.2 / 6);
+    });
+
+    it('should prefer the cheaper loop when distances are equally close', () => {
+      const ranked = rankLoopRoutes([loop(6, 12), loop(6, 6)], { distance: 6 });
+      expect(ranked[0].cost).toBe(6);
+    });
+
+    it('should compare on duration for duration targets', () => {
+      const ranked = rankLoopRoutes([loop(5, 5, 3), loop(8, 8, 2)], { duration: 2 });
+      expect(ranked[0].distance).toBe(8);
+    });
+
+    it('should handle an empty list', () => {
+      expect(rankLoopRoutes([], { distance: 5 })).toEqual([]);
+    });
+
+    it('should drop impassable loops and still rank the rest', () => {
+      const ranked = rankLoopRoutes([loop(6, Infinity), loop(9, 9), loop(6.2, 6.2), loop(5, NaN)], { distance: 6 });
+
+      expect(ranked.map(route => route.distance)).toEqual([6.2, 9]);
+      ranked.forEach(route => expect(Number.isFinite(route.targetDeviation)).toBe(true));
+    });
+  });
+});
@@ -8,6 +8,10 @@ import { calculateDistance } from '@/lib/utils';
 // Mock the API modules
 jest.mock('@/lib/api/elevation');
 jest.mock('@/lib/api/trails');
+jest.mock('@/lib/api/elevation-grid', () => ({
+  ...jest.requireActual('@/lib/api/elevation-grid'),
+  fetchElevationGrid: jest.fn().mockRejectedValue(new Error('Grid API error'))
+}));
 
 const mockedGetElevationForRoute = getElevationForRoute as jest.Mock;
 const mockedFetchTrailData = fetchTrailData as jest.Mock;
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for multi-waypoint leg stitching
+ */
+
+import { stitchRouteLegs, isSameJoint } from '../route-legs';
+import { Coordinate, RoutePoint } from '@/types/route';
+
+describe('route legs', () => {
+  const start: Coordinate = { lat: 46.0, lng: 8.0 };
+  const hut: Coordinate = { lat: 46.01, lng: 8.01 };
+  const summit: Coordinate = { lat: 46.02, lng: 8.0 };
+
+  const firstLeg: RoutePoint[] = [
+    { lat: 46.0, lng: 8.0, elevation: 1000 },
+    { lat: 46.005, lng: 8.005, elevation: 1200 },
+    { lat: 46.01, lng: 8.01, elevation: 1500 },
+  ];
+
+  const secondLeg: RoutePoint[] = [
+    { lat: 46.01, lng: 8.01, elevation: 1500 },
+    { lat: 46.015, lng: 8.005, elevation: 1400 },
+    { lat: 46.02, lng: 8.0, elevation: 1900 },
+  ];
+
+  describe('isSameJoint', () => {
+    it('should treat coordinates within tolerance as the same joint', () => {
+      expect(isSameJoint(hut, { lat: 46.01000005, lng: 8.01000005 })).toBe(true);
+    });
+
+    it('should distinguish separate coordinates', () => {
+      expect(isSameJoint(hut, summit)).toBe(false);
+    });
+  });
+
+  describe('stitchRouteLegs', () => {
+    it('should not duplicate the joint between consecutive legs', () => {
+      const { points } = stitchRouteLegs([start, hut, summit], [firstLeg, secondLeg]);
+
+      expect(points).toHaveLength(5);
+      expect(points.filter(p => isSameJoint(p, hut))).toHaveLength(1);
+      expect(points[0]).toEqual(firstLeg[0]);
+      expect(points[points.length - 1]).toEqual(secondLeg[2]);
+    });
+
+    it('should keep both points when legs do not share a joint', () => {
+      const offsetLeg = [{ lat: 46.0102, lng: 8.0102, elevation: 1500 }, ...secondLeg.slice(1)];
+
+      const { points, legs } = stitchRouteLegs([start, hut, summit], [firstLeg, offsetLeg]);
+
+      expect(points).toHaveLength(6);
+      expect(legs[1].startIndex).toBe(3);
+    });
+
+    it('should report per-leg distance and elevation', () => {
+      const { legs } = stitchRouteLegs([start, hut, summit], [firstLeg, secondLeg]);
+
+      expect(legs).toHaveLength(2);
+      expect(legs[0].start).toBe(start);
+      expect(legs[0].end).toBe(hut);
+      expect(legs[0].elevationGain).toBe(500);
+      expect(legs[0].elevationLoss).toBe(0);
+      expect(legs[1].elevationGain).toBe(500);
+      expect(legs[1].elevationLoss).toBe(100);
+      expect(legs[0].distance).toBeGreaterThan(0);
+    });
+
+    it('should index each leg into the stitched points', () => {
+      const { points, legs } = stitchRouteLegs([start, hut, summit], [firstLeg, secondLeg]);
+
+      expect(legs[0].startIndex).toBe(0);
+      expect(legs[0].endIndex).toBe(2);
+      expect(legs[1].startIndex).toBe(2);
+      expect(legs[1].endIndex).toBe(points.length - 1);
+    });
+
+    it('should reject a leg count that does not match the waypoints', () => {
+      expect(() => stitchRouteLegs([start, hut, summit], [firstLeg])).toThrow('Expected 2 legs');
+    });
+  });
+});
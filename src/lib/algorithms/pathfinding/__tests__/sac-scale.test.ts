@@ -0,0 +1,121 @@
+/**
+ * Unit tests for SAC trail grades
+ */
+
+import {
+  combineSacScaleReports,
+  createSacScaleReport,
+  DEFAULT_SAC_SCALE_MULTIPLIERS,
+  getSacScaleCostFactor,
+  getSacScaleDifficulty,
+  parseSacScale
+} from '../sac-scale';
+import { getMoveTrailCostFactor } from '../trail-detection';
+import { TrailSegment } from '@/lib/api/trails';
+import { SacScaleReport } from '@/types/pathfinding';
+
+describe('SAC trail grades', () => {
+  // A T2 valley path north to a T4 ridge, with an ungraded track alongside the ridge
+  const valley: TrailSegment = {
+    id: 'valley',
+    coordinates: [{ lat: 46.0, lng: 8.0 }, { lat: 46.01, lng: 8.0 }],
+    sac_scale: 'mountain_hiking',
+    name: 'Valley path',
+  };
+  const ridge: TrailSegment = {
+    id: 'ridge',
+    coordinates: [{ lat: 46.01, lng: 8.0 }, { lat: 46.03, lng: 8.0 }],
+    sac_scale: 'alpine_hiking',
+    name: 'Ridge route',
+  };
+  const track: TrailSegment = {
+    id: 'track',
+    coordinates: [{ lat: 46.02, lng: 8.001 }, { lat: 46.03, lng: 8.001 }],
+    highway: 'track',
+  };
+
+  describe('parseSacScale', () => {
+    it('should read OSM values and T grades', () => {
+      expect(parseSacScale('hiking')).toBe('T1');
+      expect(parseSacScale('difficult_alpine_hiking')).toBe('T6');
+      expect(parseSacScale('T3')).toBe('T3');
+      expect(parseSacScale('unknown')).toBeUndefined();
+      expect(parseSacScale()).toBeUndefined();
+    });
+  });
+
+  describe('getSacScaleCostFactor', () => {
+    it('should cost harder grades more and rule out grades above the maximum', () => {
+      expect(getSacScaleCostFactor(valley, {})).toBe(DEFAULT_SAC_SCALE_MULTIPLIERS.T2);
+      expect(getSacScaleCostFactor(ridge, {})).toBeGreaterThan(getSacScaleCostFactor(valley, {}));
+      expect(getSacScaleCostFactor(ridge, { maxSacScale: 'T3' })).toBe(Infinity);
+      expect(getSacScaleCostFactor(ridge, { maxSacScale: 'T4' })).toBe(DEFAULT_SAC_SCALE_MULTIPLIERS.T4);
+      expect(getSacScaleCostFactor(track, { maxSacScale: 'T1' })).toBe(1);
+    });
+
+    it('should use the multipliers from the options', () => {
+      expect(getSacScaleCostFactor(ridge, { sacScaleMultipliers: { T4: 3 } })).toBe(3);
+      expect(getSacScaleCostFactor(valley, { sacScaleMultipliers: { T4: 3 } })).toBe(DEFAULT_SAC_SCALE_MULTIPLIERS.T2);
+    });
+  });
+
+  describe('moves along graded trails', () => {
+    it('should follow the easiest trail along the move', () => {
+      const factor = (trails: TrailSegment[], maxSacScale?: 'T3') =>
+        getMoveTrailCostFactor({ lat: 46.022, lng: 8.0 }, { lat: 46.025, lng: 8.0 }, trails, trail => getSacScaleCostFactor(trail, { maxSacScale }));
+
+      expect(factor([ridge])).toBe(DEFAULT_SAC_SCALE_MULTIPLIERS.T4);
+      expect(factor([ridge], 'T3')).toBe(Infinity);
+      expect(factor([ridge, track], 'T3')).toBe(1);
+    });
+  });
+
+  describe('createSacScaleReport', () => {
+    it('should report the hardest grade and its longest section', () => {
+      const points = [
+        { lat: 46.0, lng: 8.0 },
+        { lat: 46.005, lng: 8.0 },
+        { lat: 46.01, lng: 8.0 },
+        { lat: 46.015, lng: 8.0 },
+        { lat: 46.019, lng: 8.0 },
+      ];
+
+      const report = createSacScaleReport(points, [valley, ridge], 'T3')!;
+
+      expect(report.maxSacScale).toBe('T3');
+      expect(report.hardestGrade).toBe('T4');
+      expect(report.hardestSection.grade).toBe('T4');
+      expect(report.hardestSection.trailName).toBe('Ridge route');
+      expect(report.hardestSection.startDistance).toBeGreaterThan(0.5);
+      expect(report.hardestSection.endDistance).toBeCloseTo(2.11, 1);
+    });
+
+    it('should report nothing off graded trails', () => {
+      expect(createSacScaleReport([{ lat: 46.0, lng: 8.1 }, { lat: 46.01, lng: 8.1 }], [valley, ridge])).toBeNull();
+      expect(createSacScaleReport([{ lat: 46.02, lng: 8.001 }, { lat: 46.03, lng: 8.001 }], [track])).toBeNull();
+    });
+  });
+
+  describe('combineSacScaleReports', () => {
+    const report = (grade: 'T2' | 'T4', startDistance: number, endDistance: number): SacScaleReport => ({
+      hardestGrade: grade,
+      hardestSection: { startDistance, endDistance, grade },
+    });
+
+    it('should keep the hardest leg with its distance markers on the whole route', () => {
+      const combined = combineSacScaleReports([report('T2', 0, 2), undefined, report('T4', 1, 1.5)], [3, 2, 4]);
+
+      expect(combined!.hardestGrade).toBe('T4');
+      expect(combined!.hardestSection).toEqual({ startDistance: 6, endDistance: 6.5, grade: 'T4' });
+      expect(combineSacScaleReports([undefined], [3])).toBeNull();
+    });
+  });
+
+  describe('getSacScaleDifficulty', () => {
+    it('should rate routes by their hardest grade', () => {
+      expect(getSacScaleDifficulty('T1')).toBe('easy');
+      expect(getSacScaleDifficulty('T3')).toBe('hard');
+      expect(getSacScaleDifficulty('T6')).toBe('extreme');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for trail access
+ */
+
+import {
+  findRestrictedTrails,
+  getAccessCostFactor,
+  getTrailAccessStatus,
+  TRAIL_ACCESS_CONSTANTS
+} from '../trail-access';
+import { TrailAccess, TrailSegment } from '@/lib/api/trails';
+
+describe('trail access', () => {
+  const coordinates = [{ lat: 46.0, lng: 8.0 }, { lat: 46.01, lng: 8.0 }];
+  const trail = (access?: TrailAccess, id = 'path'): TrailSegment => ({ id, coordinates, highway: 'path', access });
+
+  describe('getTrailAccessStatus', () => {
+    it('should leave unrestricted trails open and closed trails closed', () => {
+      expect(getTrailAccessStatus(trail())).toBe('open');
+      expect(getTrailAccessStatus(trail({ closed: true }), '2026-07-15')).toBe('closed');
+    });
+
+    it('should be uncertain about seasonal and conditional access without a planned date', () => {
+      expect(getTrailAccessStatus(trail({ seasonal: 'summer' }))).toBe('uncertain');
+      expect(getTrailAccessStatus(trail({ openingHours: 'May-Oct' }))).toBe('uncertain');
+      expect(getTrailAccessStatus(trail({ conditional: 'no @ (Nov-Apr)' }))).toBe('uncertain');
+      expect(getTrailAccessStatus(trail({ openingHours: '24/7' }))).toBe('open');
+    });
+
+    it('should check seasons on the hemisphere of the trail', () => {
+      const southern: TrailSegment = { ...trail({ seasonal: 'summer' }), coordinates: [{ lat: -43.5, lng: 170.1 }] };
+
+      expect(getTrailAccessStatus(trail({ seasonal: 'summer' }), '2026-07-15')).toBe('open');
+      expect(getTrailAccessStatus(trail({ seasonal: 'summer;autumn' }), '2026-01-15')).toBe('closed');
+      expect(getTrailAccessStatus(southern, '2026-01-15')).toBe('open');
+      expect(getTrailAccessStatus(trail({ seasonal: 'yes' }), '2026-07-15')).toBe('uncertain');
+    });
+
+    it('should check the month ranges of opening hours', () => {
+      expect(getTrailAccessStatus(trail({ openingHours: 'May-Oct' }), '2026-07-15')).toBe('open');
+      expect(getTrailAccessStatus(trail({ openingHours: 'May-Oct' }), '2026-12-01')).toBe('closed');
+      expect(getTrailAccessStatus(trail({ openingHours: 'May 15-Oct 15' }), '2026-05-10')).toBe('closed');
+      expect(getTrailAccessStatus(trail({ openingHours: 'Jan-Dec 24/7; Dec 24-Dec 26 off' }), '2026-12-25')).toBe('closed');
+      expect(getTrailAccessStatus(trail({ openingHours: 'Mo-Fr 08:00-18:00' }), '2026-07-15')).toBe('uncertain');
+    });
+
+    it('should close trails while a conditional restriction applies, across the new year', () => {
+      const winterClosure = trail({ conditional: 'no @ (Nov-Apr)' });
+
+      expect(getTrailAccessStatus(winterClosure, '2026-01-15')).toBe('closed');
+      expect(getTrailAccessStatus(winterClosure, '2026-07-15')).toBe('open');
+      expect(getTrailAccessStatus(trail({ conditional: 'no @ (wet)' }), '2026-07-15')).toBe('uncertain');
+    });
+  });
+
+  describe('getAccessCostFactor', () => {
+    it('should rule out closed trails and penalise uncertain ones', () => {
+      expect(getAccessCostFactor(trail())).toBe(1);
+      expect(getAccessCostFactor(trail({ seasonal: 'summer' }))).toBe(TRAIL_ACCESS_CONSTANTS.UNCERTAIN_PENALTY);
+      expect(getAccessCostFactor(trail({ seasonal: 'summer' }), '2026-01-15')).toBe(Infinity);
+    });
+  });
+
+  describe('findRestrictedTrails', () => {
+    const points = [{ lat: 46.002, lng: 8.0 }, { lat: 46.008, lng: 8.0 }];
+
+    it('should list the restricted trails a route relies on', () => {
+      const seasonal = { ...trail({ seasonal: 'summer' }, 'seasonal'), name: 'Summer path' };
+      const closed = trail({ closed: true }, 'closed');
+
+      expect(findRestrictedTrails(points, [seasonal])).toEqual({ closed: [], uncertain: [seasonal] });
+      expect(findRestrictedTrails(points, [closed])).toEqual({ closed: [closed], uncertain: [] });
+      expect(findRestrictedTrails(points, [seasonal, closed])).toEqual({ closed: [], uncertain: [seasonal] });
+    });
+
+    it('should ignore restricted trails with an open trail alongside', () => {
+      expect(findRestrictedTrails(points, [trail({ closed: true }, 'closed'), trail(undefined, 'open')]))
+        .toEqual({ closed: [], uncertain: [] });
+    });
+  });
+});
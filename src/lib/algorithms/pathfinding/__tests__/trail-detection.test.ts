@@ -22,7 +22,7 @@ import {
 } from '../trail-detection';
 
 import { Coordinate } from '@/types/route';
-import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { AvoidArea, PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
 import { TrailSegment } from '@/lib/api/trails';
 
 // Mock external dependencies
@@ -32,7 +32,9 @@ jest.mock('@/lib/utils', () => ({
     const dLat = to.lat - from.lat;
     const dLng = to.lng - from.lng;
     return Math.sqrt(dLat * dLat + dLng * dLng) * 111; // Approximate km conversion
-  })
+  }),
+  calculateDistanceToPath: jest.requireActual('@/lib/utils').calculateDistanceToPath,
+  toRadians: jest.requireActual('@/lib/utils').toRadians
 }));
 
 describe('isObviousLinearRoute', () => {
@@ -582,6 +584,40 @@ describe('findDirectTrailPath', () => {
     }
   });
 
+  it('returns null when the trail path enters an avoid area', () => {
+    const start: Coordinate = { lat: 47.0000, lng: 8.0000 };
+    const end: Coordinate = { lat: 47.0010, lng: 8.0010 };
+
+    const commonTrail = {
+      id: 'trail1',
+      coordinates: [
+        { lat: 47.0001, lng: 8.0001 },
+        { lat: 47.0005, lng: 8.0005 },
+        { lat: 47.0009, lng: 8.0009 }
+      ],
+      isWater: false,
+      isRoad: false
+    };
+    const rockfall: AvoidArea = {
+      id: 'rockfall',
+      shape: 'polygon',
+      coordinates: [
+        { lat: 47.0004, lng: 8.0004 },
+        { lat: 47.0004, lng: 8.0006 },
+        { lat: 47.0006, lng: 8.0006 },
+        { lat: 47.0006, lng: 8.0004 }
+      ],
+      mode: 'penalty'
+    };
+
+    mockCalculateDistance.mockImplementation((from: Coordinate, to: Coordinate) =>
+      Math.hypot(to.lat - from.lat, to.lng - from.lng) * 111
+    );
+
+    expect(findDirectTrailPath(start, end, [commonTrail])).toHaveLength(3);
+    expect(findDirectTrailPath(start, end, [commonTrail], [rockfall])).toBeNull();
+  });
+
   it('returns null when no suitable trails found', () => {
     const start: Coordinate = { lat: 47.0000, lng: 8.0000 };
     const end: Coordinate = { lat: 47.0010, lng: 8.0010 };
@@ -0,0 +1,240 @@
+/**
+ * Unit tests for the trail network routing graph
+ */
+
+import {
+  buildTrailGraph,
+  findNearestGraphNode,
+  findGraphPath,
+  getNodeKey,
+  getEdgeId
+} from '../trail-graph';
+import { LandcoverArea, TrailSegment } from '@/lib/api/trails';
+import { AvoidArea, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+
+describe('trail graph', () => {
+  // Two paths meeting at a shared junction (46.01, 8.01), plus a road and a lake
+  const trails: TrailSegment[] = [
+    {
+      id: 'path-a',
+      coordinates: [{ lat: 46.0, lng: 8.0 }, { lat: 46.005, lng: 8.005 }, { lat: 46.01, lng: 8.01 }],
+      highway: 'path',
+    },
+    {
+      id: 'path-b',
+      coordinates: [{ lat: 46.01, lng: 8.01 }, { lat: 46.015, lng: 8.015 }, { lat: 46.02, lng: 8.02 }],
+      highway: 'path',
+    },
+    {
+      id: 'road',
+      coordinates: [{ lat: 46.0, lng: 8.0 }, { lat: 46.02, lng: 8.02 }],
+      highway: 'secondary',
+      isRoad: true,
+    },
+    {
+      id: 'lake',
+      coordinates: [{ lat: 46.1, lng: 8.1 }, { lat: 46.11, lng: 8.11 }],
+      isWater: true,
+    },
+  ];
+
+  describe('getEdgeId', () => {
+    it('should be independent of direction', () => {
+      expect(getEdgeId('a', 'b')).toBe(getEdgeId('b', 'a'));
+    });
+  });
+
+  describe('buildTrailGraph', () => {
+    it('should share nodes between trails with common vertices', () => {
+      const graph = buildTrailGraph(trails);
+      const junction = getNodeKey({ lat: 46.01, lng: 8.01 });
+
+      expect(graph.nodes.size).toBe(5);
+      expect(graph.adjacency.get(junction)).toHaveLength(2);
+    });
+
+    it('should skip water bodies', () => {
+      const graph = buildTrailGraph(trails);
+      expect(graph.nodes.has(getNodeKey({ lat: 46.1, lng: 8.1 }))).toBe(false);
+    });
+
+    it('should only use roads in roads-only mode', () => {
+      const graph = buildTrailGraph(trails, { ...DEFAULT_PATHFINDING_OPTIONS, roadsOnly: true });
+      expect(graph.nodes.size).toBe(2);
+    });
+
+    it('should leave out edges entering barrier avoid areas', () => {
+      const barrier: AvoidArea = {
+        id: 'closed-junction',
+        shape: 'polygon',
+        coordinates: [{ lat: 46.008, lng: 8.008 }, { lat: 46.008, lng: 8.012 }, { lat: 46.012, lng: 8.012 }, { lat: 46.012, lng: 8.008 }],
+        mode: 'barrier',
+      };
+
+      const graph = buildTrailGraph(trails, { ...DEFAULT_PATHFINDING_OPTIONS, avoidAreas: [barrier] });
+
+      expect(graph.nodes.has(getNodeKey({ lat: 46.01, lng: 8.01 }))).toBe(false);
+      expect(graph.adjacency.get(getNodeKey({ lat: 46.0, lng: 8.0 }))!.map(edge => edge.trail.id)).toEqual(['path-a']);
+      expect(findGraphPath(graph, getNodeKey({ lat: 46.0, lng: 8.0 }), getNodeKey({ lat: 46.02, lng: 8.02 }))).toBeNull();
+    });
+
+    it('should leave out trails graded above the maximum SAC grade', () => {
+      const graded = trails.map(trail => trail.id === 'path-a' ? { ...trail, sac_scale: 'demanding_alpine_hiking' } : trail);
+      const graph = buildTrailGraph(graded, { ...DEFAULT_PATHFINDING_OPTIONS, maxSacScale: 'T4' });
+
+      expect(graph.adjacency.get(getNodeKey({ lat: 46.0, lng: 8.0 }))!.map(edge => edge.trail.id)).toEqual(['road']);
+      expect(buildTrailGraph(graded, { ...DEFAULT_PATHFINDING_OPTIONS, maxSacScale: 'T5' }).nodes.size).toBe(graph.nodes.size + 1);
+    });
+
+    it('should leave out trails closed on the planned date', () => {
+      const seasonal = trails.map(trail => trail.id === 'path-a' ? { ...trail, access: { seasonal: 'summer' } } : trail);
+      const graph = buildTrailGraph(seasonal, { ...DEFAULT_PATHFINDING_OPTIONS, plannedDate: '2026-01-15' });
+
+      expect(graph.adjacency.get(getNodeKey({ lat: 46.0, lng: 8.0 }))!.map(edge => edge.trail.id)).toEqual(['road']);
+      expect(buildTrailGraph(seasonal, { ...DEFAULT_PATHFINDING_OPTIONS, plannedDate: '2026-07-15' }).nodes.size).toBe(graph.nodes.size + 1);
+    });
+
+    it('should leave out edges over glaciers unless they are allowed', () => {
+      const glacier: LandcoverArea = {
+        id: 'glacier',
+        cover: 'glacier',
+        coordinates: [
+          { lat: 46.011, lng: 8.011 }, { lat: 46.011, lng: 8.03 }, { lat: 46.03, lng: 8.03 }, { lat: 46.03, lng: 8.011 }, { lat: 46.011, lng: 8.011 },
+        ],
+      };
+      const summit = getNodeKey({ lat: 46.02, lng: 8.02 });
+
+      expect(buildTrailGraph(trails, DEFAULT_PATHFINDING_OPTIONS, [glacier]).adjacency.get(summit)!.map(edge => edge.trail.id))
+        .toEqual(['road']);
+      expect(buildTrailGraph(trails, { ...DEFAULT_PATHFINDING_OPTIONS, allowGlaciers: true }, [glacier]).adjacency.get(summit)!
+        .map(edge => edge.trail.id)).toEqual(['path-b', 'road']);
+    });
+
+    it('should only cross rivers near a bridge, ford or stepping stones', () => {
+      const river: TrailSegment = {
+        id: 'river',
+        coordinates: [{ lat: 46.0025, lng: 7.99 }, { lat: 46.0025, lng: 8.003 }],
+        isWater: true,
+        waterway: 'river',
+      };
+      const bridge: TrailSegment = {
+        id: 'bridge',
+        coordinates: [{ lat: 46.002, lng: 8.0025 }, { lat: 46.003, lng: 8.0025 }],
+        highway: 'footway',
+        crossing: 'bridge',
+      };
+      const trailhead = getNodeKey({ lat: 46.0, lng: 8.0 });
+
+      expect(buildTrailGraph([...trails, river]).nodes.has(trailhead)).toBe(false);
+      expect(buildTrailGraph([...trails, river, bridge]).adjacency.get(trailhead)!.map(edge => edge.trail.id))
+        .toEqual(['path-a', 'road']);
+    });
+
+    it('should mark edges entering penalty avoid areas with the penalty', () => {
+      const roadworks: AvoidArea = {
+        id: 'roadworks',
+        shape: 'line',
+        coordinates: [{ lat: 46.0, lng: 8.02 }, { lat: 46.02, lng: 8.0 }],
+        mode: 'penalty',
+        penalty: 4,
+      };
+
+      const graph = buildTrailGraph(trails, { ...DEFAULT_PATHFINDING_OPTIONS, avoidAreas: [roadworks] });
+      const roadEdge = graph.adjacency.get(getNodeKey({ lat: 46.0, lng: 8.0 }))!.find(edge => edge.trail.id === 'road')!;
+      const firstPathEdge = graph.adjacency.get(getNodeKey({ lat: 46.0, lng: 8.0 }))!.find(edge => edge.trail.id === 'path-a')!;
+
+      expect(roadEdge.avoidPenalty).toBe(4);
+      expect(firstPathEdge.avoidPenalty).toBeUndefined();
+    });
+
+    it('should join ways whose vertices nearly meet', () => {
+      // Ends ~3m apart, as happens when an OSM junction was never connected
+      const nearlyJoined: TrailSegment[] = [
+        { id: 'upper', coordinates: [{ lat: 46.0, lng: 8.0 }, { lat: 46.01, lng: 8.01 }], highway: 'path' },
+        { id: 'lower', coordinates: [{ lat: 46.01002, lng: 8.01002 }, { lat: 46.02, lng: 8.02 }], highway: 'path' },
+      ];
+
+      const graph = buildTrailGraph(nearlyJoined);
+
+      expect(graph.nodes.size).toBe(3);
+      expect(graph.adjacency.get(getNodeKey({ lat: 46.01, lng: 8.01 }))).toHaveLength(2);
+      expect(findGraphPath(graph, getNodeKey({ lat: 46.0, lng: 8.0 }), getNodeKey({ lat: 46.02, lng: 8.02 }))).not.toBeNull();
+    });
+
+    it('should keep vertices further apart than the merge distance separate', () => {
+      const separate: TrailSegment[] = [
+        { id: 'upper', coordinates: [{ lat: 46.0, lng: 8.0 }, { lat: 46.01, lng: 8.01 }], highway: 'path' },
+        { id: 'lower', coordinates: [{ lat: 46.0104, lng: 8.0104 }, { lat: 46.02, lng: 8.02 }], highway: 'path' },
+      ];
+
+      expect(buildTrailGraph(separate).nodes.size).toBe(4);
+    });
+  });
+
+  describe('findNearestGraphNode', () => {
+    it('should snap to the closest node within range', () => {
+      const graph = buildTrailGraph(trails);
+      const node = findNearestGraphNode(graph, { lat: 46.0051, lng: 8.0049 });
+      expect(node?.key).toBe(getNodeKey({ lat: 46.005, lng: 8.005 }));
+    });
+
+    it('should return null when no node is within range', () => {
+      const graph = buildTrailGraph(trails);
+      expect(findNearestGraphNode(graph, { lat: 47, lng: 9 })).toBeNull();
+    });
+  });
+
+  describe('findGraphPath', () => {
+    it('should find the shortest path by distance', () => {
+      const graph = buildTrailGraph(trails);
+      const path = findGraphPath(graph, getNodeKey({ lat: 46.0, lng: 8.0 }), getNodeKey({ lat: 46.02, lng: 8.02 }));
+
+      // The straight road is shorter than the two paths via the junction
+      expect(path?.edges).toHaveLength(1);
+      expect(path?.edges[0].trail.id).toBe('road');
+    });
+
+    it('should respect a custom edge cost', () => {
+      const graph = buildTrailGraph(trails);
+      const path = findGraphPath(
+        graph,
+        getNodeKey({ lat: 46.0, lng: 8.0 }),
+        getNodeKey({ lat: 46.02, lng: 8.02 }),
+        edge => edge.trail.isRoad ? edge.distance * 10 : edge.distance
+      );
+
+      expect(path?.edges).toHaveLength(4);
+      expect(path?.coordinates[2]).toEqual({ lat: 46.01, lng: 8.01 });
+    });
+
+    it('should pass the node an edge is traversed from to the edge cost', () => {
+      const graph = buildTrailGraph(trails);
+      const start = getNodeKey({ lat: 46.0, lng: 8.0 });
+      const traversedFrom: string[] = [];
+
+      findGraphPath(graph, start, getNodeKey({ lat: 46.02, lng: 8.02 }), (edge, fromKey) => {
+        traversedFrom.push(fromKey);
+        return edge.distance;
+      });
+
+      expect(traversedFrom[0]).toBe(start);
+    });
+
+    it('should find the same path with an admissible heuristic', () => {
+      const graph = buildTrailGraph(trails);
+      const goal = { lat: 46.02, lng: 8.02 };
+      const heuristic = (key: string) => calculateDistance(graph.nodes.get(key)!.coordinate, goal);
+
+      const path = findGraphPath(graph, getNodeKey({ lat: 46.0, lng: 8.0 }), getNodeKey(goal), undefined, heuristic);
+
+      expect(path?.edges).toHaveLength(1);
+      expect(path?.edges[0].trail.id).toBe('road');
+    });
+
+    it('should return null for disconnected or unknown nodes', () => {
+      const graph = buildTrailGraph(trails);
+      expect(findGraphPath(graph, getNodeKey({ lat: 46.0, lng: 8.0 }), 'missing')).toBeNull();
+    });
+  });
+});
@@ -17,7 +17,7 @@ import {
 
 import { Coordinate, PathfindingNode } from '@/types/route';
 import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
-import { TrailSegment, TrailNetwork } from '@/lib/api/trails';
+import { LandcoverArea, TrailSegment, TrailNetwork } from '@/lib/api/trails';
 
 // Mock external dependencies
 jest.mock('@/lib/utils', () => ({
@@ -63,8 +63,12 @@ jest.mock('@/lib/algorithms/pathfinding/terrain/terrain-analyzer', () => ({
   calculateHikingSpeed: jest.fn((slope: number) => 6 * Math.exp(-3.5 * Math.abs(slope + 0.05))),
   calculateSlopeVariability: jest.fn((slope: number) => Math.min(Math.abs(slope) * 2, 0.5)),
   detectTerrainType: jest.fn(() => 'vegetation'),
+  calculateRoughnessVariability: jest.fn((roughness: number) => Math.min(roughness / 50, 1)),
+  calculateCrossSlope: jest.fn(() => 0),
   calculateTerrainComplexity: jest.fn(() => 0.5),
-  TERRAIN_MULTIPLIERS: { vegetation: 1.0, trail: 0.8, rock: 1.3, scree: 1.8, unknown: 1.1 },
+  TerrainType: { TRAIL: 'trail', VEGETATION: 'vegetation', ROCK: 'rock', SCREE: 'scree', GLACIER: 'glacier', UNKNOWN: 'unknown' },
+  TERRAIN_MULTIPLIERS: { vegetation: 1.0, trail: 0.8, rock: 1.3, scree: 1.8, glacier: 2.0, unknown: 1.1 },
+  TOBLER_CONSTANTS: { BASE_SPEED: 6, SLOPE_COEFFICIENT: -3.5, SLOPE_OFFSET: 0.05 },
   SLOPE_THRESHOLDS: { DANGEROUS: 100, VERY_STEEP_GRADE: 58 },
   CONVERSION_CONSTANTS: { NEARBY_POINT_THRESHOLD: 0.01 }
 }));
@@ -247,6 +251,69 @@ describe('calculateMovementCost', () => {
     
     expect(cost).toBeGreaterThan(defaultCost); // Higher off-trail penalty
   });
+
+  it('leaves the length-aware grade limits to the searches', () => {
+    const from: Coordinate = { lat: 47.0000, lng: 8.0000, elevation: 1000 };
+    const to: Coordinate = { lat: 47.0010, lng: 8.0010, elevation: 1400 };
+    const limitedOptions: PathfindingOptions = { ...DEFAULT_PATHFINDING_OPTIONS, maxSustainedGrade: 35, maxPitchGrade: 50 };
+
+    // A 40% step is a pitch between the two limits, which a search may take
+    mockCalculateSlope.mockReturnValue(0.4);
+    expect(calculateMovementCost(from, to, undefined, limitedOptions)).toBeLessThan(Infinity);
+  });
+
+  it('rules out glaciers unless they are allowed and costs mapped land cover by its terrain', () => {
+    const from: Coordinate = { lat: 47.0000, lng: 8.0000, elevation: 1000 };
+    const to: Coordinate = { lat: 47.0010, lng: 8.0010, elevation: 1100 };
+    const area = (cover: LandcoverArea['cover']): TrailNetwork => ({
+      trails: [],
+      landcover: [{
+        id: cover,
+        cover,
+        coordinates: [
+          { lat: 46.99, lng: 7.99 }, { lat: 46.99, lng: 8.01 }, { lat: 47.01, lng: 8.01 }, { lat: 47.01, lng: 7.99 }, { lat: 46.99, lng: 7.99 },
+        ],
+      }],
+      bbox: { minLat: 46.9, maxLat: 47.1, minLng: 7.9, maxLng: 8.1 },
+      cacheTime: Date.now()
+    });
+
+    expect(calculateMovementCost(from, to, area('glacier'))).toBe(Infinity);
+    expect(calculateMovementCost(from, to, area('glacier'), { ...DEFAULT_PATHFINDING_OPTIONS, allowGlaciers: true }))
+      .toBeCloseTo(calculateMovementCost(from, to) * 2.0, 5);
+    expect(calculateMovementCost(from, to, area('scree'))).toBeCloseTo(calculateMovementCost(from, to) * 1.8, 5);
+  });
+
+  it('classifies the terrain from the ground around the move and penalises traverses', () => {
+    const from: Coordinate = { lat: 47.0000, lng: 8.0000, elevation: 1000 };
+    const to: Coordinate = { lat: 47.0010, lng: 8.0000, elevation: 1000 };
+    const surface = { slope: 0.6, aspect: 270, roughness: 10 };
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const terrainAnalyzer = require('@/lib/algorithms/pathfinding/terrain/terrain-analyzer');
+
+    mockCalculateSlope.mockReturnValue(0);
+    const level = calculateMovementCost(from, to);
+    terrainAnalyzer.calculateCrossSlope.mockReturnValueOnce(0.6);
+    const traverse = calculateMovementCost(from, to, undefined, DEFAULT_PATHFINDING_OPTIONS, surface);
+
+    expect(terrainAnalyzer.detectTerrainType).toHaveBeenLastCalledWith(0.6, 0.2);
+    expect(terrainAnalyzer.calculateCrossSlope).toHaveBeenCalledWith(from, to, surface);
+    expect(traverse).toBeCloseTo(level * (1 + PATHFINDING_CONSTANTS.CROSS_SLOPE_PENALTY * 0.6), 5);
+  });
+
+  it('rules out off-trail moves over a cliff', () => {
+    const from: Coordinate = { lat: 47.0000, lng: 8.0000, elevation: 1000 };
+    const to: Coordinate = { lat: 47.0010, lng: 8.0010, elevation: 1100 };
+    const trailNetwork: TrailNetwork = {
+      trails: [],
+      cliffs: [[{ lat: 47.0000, lng: 8.0010 }, { lat: 47.0010, lng: 8.0000 }]],
+      bbox: { minLat: 46.9, maxLat: 47.1, minLng: 7.9, maxLng: 8.1 },
+      cacheTime: Date.now()
+    };
+
+    expect(calculateMovementCost(from, to, trailNetwork)).toBe(Infinity);
+    expect(calculateMovementCost(from, to, { ...trailNetwork, cliffs: [] })).toBeLessThan(Infinity);
+  });
 });
 
 describe('calculateAdaptiveStepSize', () => {
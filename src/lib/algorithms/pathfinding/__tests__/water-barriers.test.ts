@@ -0,0 +1,95 @@
+/**
+ * Unit tests for water barriers and crossings
+ */
+
+import { checkWaterCrossing, markWaterCrossings } from '../water-barriers';
+import { TrailSegment } from '@/lib/api/trails';
+import { RoutePoint } from '@/types/route';
+
+describe('water barriers', () => {
+  // A square lake with an island, and a river running north-south east of it
+  const lake: TrailSegment = {
+    id: 'lake',
+    coordinates: [
+      { lat: 46.0, lng: 8.0 }, { lat: 46.0, lng: 8.01 }, { lat: 46.01, lng: 8.01 }, { lat: 46.01, lng: 8.0 }, { lat: 46.0, lng: 8.0 },
+    ],
+    isWater: true,
+    innerRings: [[
+      { lat: 46.004, lng: 8.004 }, { lat: 46.004, lng: 8.006 }, { lat: 46.006, lng: 8.006 }, { lat: 46.006, lng: 8.004 }, { lat: 46.004, lng: 8.004 },
+    ]],
+  };
+  const river: TrailSegment = {
+    id: 'river',
+    coordinates: [{ lat: 45.99, lng: 8.02 }, { lat: 46.02, lng: 8.02 }],
+    isWater: true,
+    waterway: 'river',
+  };
+  const bridge: TrailSegment = {
+    id: 'bridge',
+    coordinates: [{ lat: 46.015, lng: 8.019 }, { lat: 46.015, lng: 8.021 }],
+    highway: 'footway',
+    crossing: 'bridge',
+  };
+  const fordPath: TrailSegment = {
+    id: 'ford-path',
+    coordinates: [{ lat: 45.995, lng: 8.018 }, { lat: 45.995, lng: 8.02 }, { lat: 45.995, lng: 8.022 }],
+    highway: 'path',
+    crossingPoints: [{ coordinate: { lat: 45.995, lng: 8.02 }, type: 'ford' }],
+  };
+  const trails = [lake, river, bridge, fordPath];
+
+  describe('checkWaterCrossing', () => {
+    it('should leave dry moves alone', () => {
+      expect(checkWaterCrossing({ lat: 46.011, lng: 8.0 }, { lat: 46.011, lng: 8.015 }, trails)).toEqual({ blocked: false });
+    });
+
+    it('should block moves into or across a water area', () => {
+      expect(checkWaterCrossing({ lat: 46.005, lng: 7.99 }, { lat: 46.005, lng: 8.002 }, trails).blocked).toBe(true);
+      expect(checkWaterCrossing({ lat: 45.995, lng: 8.005 }, { lat: 46.015, lng: 8.005 }, trails).blocked).toBe(true);
+    });
+
+    it('should allow moves on an island', () => {
+      expect(checkWaterCrossing({ lat: 46.0045, lng: 8.0045 }, { lat: 46.0055, lng: 8.0055 }, trails).blocked).toBe(false);
+    });
+
+    it('should allow moves along a shoreline', () => {
+      expect(checkWaterCrossing({ lat: 46.01, lng: 8.0 }, { lat: 46.01, lng: 8.01 }, trails).blocked).toBe(false);
+    });
+
+    it('should only cross rivers at bridges, fords or stepping stones', () => {
+      expect(checkWaterCrossing({ lat: 46.005, lng: 8.015 }, { lat: 46.005, lng: 8.025 }, trails).blocked).toBe(true);
+      expect(checkWaterCrossing({ lat: 46.015, lng: 8.015 }, { lat: 46.015, lng: 8.025 }, trails))
+        .toEqual({ blocked: false, crossing: 'bridge' });
+      expect(checkWaterCrossing({ lat: 45.995, lng: 8.018 }, { lat: 45.995, lng: 8.022 }, trails))
+        .toEqual({ blocked: false, crossing: 'ford' });
+    });
+
+    it('should not block anything without water', () => {
+      expect(checkWaterCrossing({ lat: 46.005, lng: 7.99 }, { lat: 46.005, lng: 8.03 }, [bridge])).toEqual({ blocked: false });
+    });
+  });
+
+  describe('markWaterCrossings', () => {
+    it('should record the crossing on the point after it', () => {
+      const points: RoutePoint[] = [
+        { lat: 46.015, lng: 8.015, elevation: 500 },
+        { lat: 46.015, lng: 8.025, elevation: 500 },
+        { lat: 46.005, lng: 8.025, elevation: 500 },
+      ];
+
+      const marked = markWaterCrossings(points, trails);
+
+      expect(marked.uncrossed).toBe(0);
+      expect(marked.points.map(point => point.crossing)).toEqual([undefined, 'bridge', undefined]);
+      expect(points[1].crossing).toBeUndefined();
+    });
+
+    it('should count moves through water without a crossing and keep dry routes as they are', () => {
+      const wet: RoutePoint[] = [{ lat: 46.005, lng: 8.015, elevation: 500 }, { lat: 46.005, lng: 8.025, elevation: 500 }];
+      const dry: RoutePoint[] = [{ lat: 46.011, lng: 8.0, elevation: 500 }, { lat: 46.011, lng: 8.015, elevation: 500 }];
+
+      expect(markWaterCrossings(wet, trails).uncrossed).toBe(1);
+      expect(markWaterCrossings(dry, trails).points).toBe(dry);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for waymarked hiking routes
+ */
+
+import {
+  combineWaymarkedRouteSections,
+  createWaymarkedRouteSections,
+  describeWaymarkedRouteSection,
+  getWaymarkColour,
+  getWaymarkedRouteCostFactor,
+  WAYMARKED_ROUTE_CONSTANTS
+} from '../waymarked-routes';
+import { HikingRoute, TrailSegment } from '@/lib/api/trails';
+import { calculateDistance } from '@/lib/utils';
+
+describe('waymarked routes', () => {
+  const viaAlpina: HikingRoute = { id: '1', name: 'Via Alpina', network: 'iwn', symbol: 'red:white:red_bar' };
+  const localLoop: HikingRoute = { id: '2', ref: 'L4', network: 'lwn', colour: 'yellow' };
+
+  // Points 1.11 km apart heading north
+  const points = [0, 1, 2, 3].map(step => ({ lat: 46.0 + step * 0.01, lng: 8.0 }));
+  const trail = (id: string, from: number, to: number, hikingRoutes?: HikingRoute[]): TrailSegment => ({
+    id,
+    coordinates: points.slice(from, to + 1),
+    highway: 'path',
+    hikingRoutes,
+  });
+
+  describe('getWaymarkColour', () => {
+    it('should take the colour tag, then the way colour of the osmc:symbol', () => {
+      expect(getWaymarkColour(viaAlpina)).toBe('red');
+      expect(getWaymarkColour(localLoop)).toBe('yellow');
+      expect(getWaymarkColour({ id: '3', symbol: ':white:red_dot' })).toBeUndefined();
+    });
+  });
+
+  describe('getWaymarkedRouteCostFactor', () => {
+    it('should apply the bonus to trails on a hiking route only', () => {
+      expect(getWaymarkedRouteCostFactor(trail('a', 0, 1, [viaAlpina]), {})).toBe(WAYMARKED_ROUTE_CONSTANTS.DEFAULT_BONUS);
+      expect(getWaymarkedRouteCostFactor(trail('a', 0, 1, [viaAlpina]), { waymarkedRouteBonus: 0.5 })).toBe(0.5);
+      expect(getWaymarkedRouteCostFactor(trail('a', 0, 1), {})).toBe(1);
+    });
+  });
+
+  describe('createWaymarkedRouteSections', () => {
+    it('should list the named routes a route follows with distance markers', () => {
+      const sections = createWaymarkedRouteSections(points, [trail('a', 0, 1, [viaAlpina]), trail('b', 2, 3, [localLoop])]);
+      const step = calculateDistance(points[0], points[1]);
+
+      expect(sections).toHaveLength(2);
+      expect(sections[0]).toEqual({ startDistance: 0, endDistance: step, name: 'Via Alpina', colour: 'red', network: 'iwn' });
+      expect(sections[1]).toMatchObject({ name: 'L4', colour: 'yellow', network: 'lwn' });
+      expect(sections[1].startDistance).toBeCloseTo(2 * step);
+    });
+
+    it('should prefer the widest network and keep following a route while it lasts', () => {
+      const shared = trail('shared', 1, 3, [localLoop, viaAlpina]);
+      const local = trail('local', 0, 3, [localLoop]);
+
+      expect(createWaymarkedRouteSections(points.slice(1), [shared]).map(section => section.name)).toEqual(['Via Alpina']);
+      expect(createWaymarkedRouteSections(points, [local, shared]).map(section => section.name)).toEqual(['L4']);
+    });
+
+    it('should leave out unnamed routes and those the route only touches', () => {
+      const unnamed = trail('a', 0, 3, [{ id: '3', network: 'rwn' }]);
+      const touched = trail('b', 0, 1, [viaAlpina]);
+
+      expect(createWaymarkedRouteSections(points, [unnamed])).toEqual([]);
+      expect(createWaymarkedRouteSections([points[0], { lat: 46.0005, lng: 8.0 }], [touched])).toEqual([]);
+    });
+  });
+
+  describe('combineWaymarkedRouteSections', () => {
+    it('should shift leg sections and join a route followed across a waypoint', () => {
+      const combined = combineWaymarkedRouteSections([
+        [{ startDistance: 1, endDistance: 3, name: 'Via Alpina' }],
+        undefined,
+        [{ startDistance: 0, endDistance: 2, name: 'Via Alpina' }, { startDistance: 2, endDistance: 4, name: 'L4' }],
+      ], [3, 5, 4]);
+
+      expect(combined).toEqual([
+        { startDistance: 1, endDistance: 3, name: 'Via Alpina' },
+        { startDistance: 8, endDistance: 10, name: 'Via Alpina' },
+        { startDistance: 10, endDistance: 12, name: 'L4' },
+      ]);
+      expect(combineWaymarkedRouteSections([
+        [{ startDistance: 1, endDistance: 3, name: 'Via Alpina' }],
+        [{ startDistance: 0, endDistance: 2, name: 'Via Alpina' }],
+      ], [3, 2])).toEqual([{ startDistance: 1, endDistance: 5, name: 'Via Alpina' }]);
+    });
+  });
+
+  describe('describeWaymarkedRouteSection', () => {
+    it('should name the route, its waymark colour and the distance', () => {
+      expect(describeWaymarkedRouteSection({ startDistance: 1.3, endDistance: 7.5, name: 'Via Alpina', colour: 'red' }))
+        .toBe('Via Alpina (red) for 6.2 km');
+      expect(describeWaymarkedRouteSection({ startDistance: 0, endDistance: 2, name: 'L4' })).toBe('L4 for 2.0 km');
+    });
+  });
+});
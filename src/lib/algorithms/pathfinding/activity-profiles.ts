@@ -0,0 +1,260 @@
+import { Coordinate } from '@/types/route';
+import { ActivityId, PathfindingOptions } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+import { buildSpatialIndex, DEFAULT_TRAIL_QUERY, TrailNetwork, TrailQueryFilter, TrailSegment } from '@/lib/api/trails';
+import {
+  calculateHikingSpeed,
+  calculateSlope,
+  TerrainType,
+  TERRAIN_MULTIPLIERS,
+  TOBLER_CONSTANTS
+} from './terrain/terrain-analyzer';
+
+/**
+ * Speed constants for trail running, on Tobler's curve
+ */
+export const TRAIL_RUNNING_SPEED_CONSTANTS = {
+  /** Running speed on a gentle descent in km/h */
+  BASE_SPEED: 10,
+  /** Minimum speed in km/h, walking the steepest ground */
+  MIN_SPEED: 1
+} as const;
+
+/**
+ * Speed constants for mountain biking
+ */
+export const MTB_SPEED_CONSTANTS = {
+  /** Riding speed on the flat in km/h */
+  FLAT_SPEED: 16,
+  /** Exponential slowdown per unit of uphill gradient */
+  CLIMB_COEFFICIENT: -8,
+  /** Speed in km/h pushing the bike where it is too steep to ride */
+  PUSHING_SPEED: 3,
+  /** Fastest descent speed in km/h */
+  MAX_DESCENT_SPEED: 25,
+  /** Downhill gradient at which descents are fastest */
+  BRAKING_GRADIENT: 0.2,
+  /** Exponential slowdown per unit of downhill gradient beyond the braking gradient */
+  DESCENT_COEFFICIENT: -6,
+  /** Hardest OSM mtb:scale grade ridden */
+  MAX_MTB_SCALE: 3
+} as const;
+
+/**
+ * Speed constants for ski touring
+ */
+export const SKI_TOURING_SPEED_CONSTANTS = {
+  /** Skinning speed on the flat in km/h */
+  SKINNING_SPEED: 4,
+  /** Exponential slowdown per unit of uphill gradient while skinning */
+  CLIMB_COEFFICIENT: -3,
+  /** Minimum skinning speed in km/h */
+  MIN_SPEED: 0.8,
+  /** Speed in km/h gained per unit of downhill gradient */
+  DESCENT_GAIN: 60,
+  /** Fastest descent speed in km/h */
+  MAX_DESCENT_SPEED: 20
+} as const;
+
+/**
+ * How an activity moves over terrain and which trails it may use
+ */
+export interface ActivityProfile {
+  id: ActivityId;
+  /**
+   * Travel speed in km/h
+   * @param slope Grade as rise/run ratio
+   */
+  speed: (slope: number) => number;
+  /** Fastest speed at any grade in km/h, for admissible A* heuristics */
+  maxSpeed: number;
+  /** Trail highway and piste types fetched from OpenStreetMap */
+  trailQuery: TrailQueryFilter;
+  /** Whether the activity may use a trail, from its OSM tags */
+  allowsTrail: (trail: TrailSegment) => boolean;
+  /** Off-trail cost multipliers by terrain type */
+  terrainMultipliers: Readonly<Record<TerrainType, number>>;
+  /** Default grade limits in percent, used when the options set none */
+  maxSustainedGrade?: number;
+  maxPitchGrade?: number;
+}
+
+/**
+ * Trail running speed: Tobler's curve scaled to a running pace
+ */
+export function calculateTrailRunningSpeed(slope: number): number {
+  const speed = TRAIL_RUNNING_SPEED_CONSTANTS.BASE_SPEED * Math.exp(
+    TOBLER_CONSTANTS.SLOPE_COEFFICIENT * Math.abs(slope + TOBLER_CONSTANTS.SLOPE_OFFSET)
+  );
+  return Math.max(speed, TRAIL_RUNNING_SPEED_CONSTANTS.MIN_SPEED);
+}
+
+/**
+ * Mountain bike speed: climbs slow quickly down to pushing pace; descents speed up
+ * to the braking gradient and slow down beyond it
+ */
+export function calculateMtbSpeed(slope: number): number {
+  const { FLAT_SPEED, CLIMB_COEFFICIENT, PUSHING_SPEED, MAX_DESCENT_SPEED, BRAKING_GRADIENT, DESCENT_COEFFICIENT } = MTB_SPEED_CONSTANTS;
+  if (slope >= 0) return Math.max(PUSHING_SPEED, FLAT_SPEED * Math.exp(CLIMB_COEFFICIENT * slope));
+
+  const descent = -slope;
+  if (descent <= BRAKING_GRADIENT) return FLAT_SPEED + (MAX_DESCENT_SPEED - FLAT_SPEED) * descent / BRAKING_GRADIENT;
+  return Math.max(PUSHING_SPEED, MAX_DESCENT_SPEED * Math.exp(DESCENT_COEFFICIENT * (descent - BRAKING_GRADIENT)));
+}
+
+/**
+ * Ski touring speed: skinning uphill, skiing downhill
+ */
+export function calculateSkiTouringSpeed(slope: number): number {
+  const { SKINNING_SPEED, CLIMB_COEFFICIENT, MIN_SPEED, DESCENT_GAIN, MAX_DESCENT_SPEED } = SKI_TOURING_SPEED_CONSTANTS;
+  if (slope >= 0) return Math.max(MIN_SPEED, SKINNING_SPEED * Math.exp(CLIMB_COEFFICIENT * slope));
+  return Math.min(MAX_DESCENT_SPEED, SKINNING_SPEED - DESCENT_GAIN * slope);
+}
+
+const BICYCLE_ALLOWED = ['yes', 'designated', 'permissive'];
+
+/**
+ * Walking with Tobler's hiking function on every fetched trail
+ */
+export const HIKING_PROFILE: ActivityProfile = {
+  id: 'hiking',
+  speed: calculateHikingSpeed,
+  maxSpeed: TOBLER_CONSTANTS.BASE_SPEED,
+  trailQuery: DEFAULT_TRAIL_QUERY,
+  allowsTrail: () => true,
+  terrainMultipliers: TERRAIN_MULTIPLIERS,
+};
+
+/**
+ * Running on walking trails, slowed more by loose ground
+ */
+export const TRAIL_RUNNING_PROFILE: ActivityProfile = {
+  id: 'trail-running',
+  speed: calculateTrailRunningSpeed,
+  maxSpeed: TRAIL_RUNNING_SPEED_CONSTANTS.BASE_SPEED,
+  trailQuery: DEFAULT_TRAIL_QUERY,
+  allowsTrail: () => true,
+  terrainMultipliers: {
+    [TerrainType.TRAIL]: 0.8,
+    [TerrainType.VEGETATION]: 1.1,
+    [TerrainType.ROCK]: 1.5,
+    [TerrainType.SCREE]: 2.2,
+    [TerrainType.GLACIER]: 2.5,
+    [TerrainType.UNKNOWN]: 1.2,
+  },
+};
+
+/**
+ * Riding on trails open to bikes, off steps and above the ridable mtb:scale
+ */
+export const MOUNTAIN_BIKING_PROFILE: ActivityProfile = {
+  id: 'mountain-biking',
+  speed: calculateMtbSpeed,
+  maxSpeed: MTB_SPEED_CONSTANTS.MAX_DESCENT_SPEED,
+  trailQuery: { highways: ['path', 'track', 'cycleway', 'bridleway', 'footway'] },
+  allowsTrail: trail => trail.highway !== 'steps'
+    && trail.bicycle !== 'no'
+    // Footways are only open to bikes when signed so
+    && (trail.highway !== 'footway' || BICYCLE_ALLOWED.includes(trail.bicycle ?? ''))
+    && !(parseInt(trail.mtbScale ?? '', 10) > MTB_SPEED_CONSTANTS.MAX_MTB_SCALE),
+  terrainMultipliers: {
+    [TerrainType.TRAIL]: 0.8,
+    [TerrainType.VEGETATION]: 2.0,
+    [TerrainType.ROCK]: 3.0,
+    [TerrainType.SCREE]: 4.0,
+    [TerrainType.GLACIER]: 5.0,
+    [TerrainType.UNKNOWN]: 2.0,
+  },
+  maxSustainedGrade: 25,
+  maxPitchGrade: 40,
+};
+
+/**
+ * Skinning up and skiing down snow-covered tracks, paths and pistes, off ploughed roads
+ */
+export const SKI_TOURING_PROFILE: ActivityProfile = {
+  id: 'ski-touring',
+  speed: calculateSkiTouringSpeed,
+  maxSpeed: SKI_TOURING_SPEED_CONSTANTS.MAX_DESCENT_SPEED,
+  trailQuery: { highways: ['path', 'track'], pisteTypes: ['skitour', 'downhill', 'nordic'] },
+  allowsTrail: trail => !trail.isRoad && trail.highway !== 'steps',
+  // Snow covers scree and glaciers and smooths vegetation; rock stays hard going
+  terrainMultipliers: {
+    [TerrainType.TRAIL]: 0.9,
+    [TerrainType.VEGETATION]: 1.0,
+    [TerrainType.ROCK]: 2.5,
+    [TerrainType.SCREE]: 1.2,
+    [TerrainType.GLACIER]: 1.0,
+    [TerrainType.UNKNOWN]: 1.1,
+  },
+  // About 30° sustained and 40° on short pitches
+  maxSustainedGrade: 58,
+  maxPitchGrade: 84,
+};
+
+/**
+ * Built-in activity profiles by id
+ */
+export const ACTIVITY_PROFILES: Record<ActivityId, ActivityProfile> = {
+  'hiking': HIKING_PROFILE,
+  'trail-running': TRAIL_RUNNING_PROFILE,
+  'mountain-biking': MOUNTAIN_BIKING_PROFILE,
+  'ski-touring': SKI_TOURING_PROFILE,
+};
+
+/**
+ * Look up the profile of an activity
+ * @param id Activity id from the pathfinding options
+ * @returns Activity profile (hiking by default)
+ */
+export function getActivityProfile(id: ActivityId = 'hiking'): ActivityProfile {
+  return ACTIVITY_PROFILES[id] ?? HIKING_PROFILE;
+}
+
+/**
+ * Fill in the grade limits of the options' activity where the options set none
+ * @param options Pathfinding options, usually a preset with an activity
+ * @returns Options with the activity's default grade limits
+ */
+export function applyActivityProfile(options: PathfindingOptions): PathfindingOptions {
+  const { maxSustainedGrade, maxPitchGrade } = getActivityProfile(options.activity);
+  return {
+    ...options,
+    ...(options.maxSustainedGrade === undefined && maxSustainedGrade !== undefined && { maxSustainedGrade }),
+    ...(options.maxPitchGrade === undefined && maxPitchGrade !== undefined && { maxPitchGrade }),
+  };
+}
+
+/**
+ * Drop the trails an activity may not use; water is kept so it is still avoided
+ * @param network Fetched trail network
+ * @param activity Activity id from the pathfinding options
+ * @returns The same network when every trail is usable, otherwise a filtered copy with its own spatial index
+ */
+export function filterTrailNetwork(network: TrailNetwork, activity?: ActivityId): TrailNetwork {
+  const profile = getActivityProfile(activity);
+  const trails = network.trails.filter(trail => trail.isWater || profile.allowsTrail(trail));
+  if (trails.length === network.trails.length) return network;
+
+  return {
+    ...network,
+    trails,
+    spatialIndex: network.spatialIndex && buildSpatialIndex(trails, network.bbox),
+  };
+}
+
+/**
+ * Estimate the time to travel a route
+ * @param points Route points with elevation
+ * @param activity Activity id from the pathfinding options
+ * @returns Time in hours
+ */
+export function estimateTravelTime(points: Coordinate[], activity?: ActivityId): number {
+  const { speed } = getActivityProfile(activity);
+  let time = 0;
+  for (let i = 1; i < points.length; i++) {
+    const distance = calculateDistance(points[i - 1], points[i]);
+    time += distance / speed(calculateSlope((points[i].elevation || 0) - (points[i - 1].elevation || 0), distance));
+  }
+  return time;
+}
@@ -0,0 +1,187 @@
+import { Coordinate, RoutePoint, RouteAlternative } from '@/types/route';
+import { ActivityId, PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDistance, calculateDistanceToPath, calculateElevationGain, calculatePathDistance } from '@/lib/utils';
+import { TrailNetwork, TrailSegment } from '@/lib/api/trails';
+import { buildTrailGraph, findNearestGraphNode, findGraphPath, TrailGraphEdge } from './trail-graph';
+import { TRAIL_CONSTANTS } from './trail-detection';
+import { isSameJoint } from './route-legs';
+import { TerrainModel } from './terrain/terrain-model';
+import {
+  createTerrainEdgeCost,
+  createTerrainHeuristic,
+  GRAPH_ROUTING_CONSTANTS,
+  joinGraphPath,
+  TrailGraphRoute
+} from './graph-router';
+import { estimateTravelTime } from './activity-profiles';
+import { createSacScaleReport } from './sac-scale';
+import { createWaymarkedRouteSections } from './waymarked-routes';
+
+/**
+ * Constants for alternative route generation
+ */
+export const ALTERNATIVE_CONSTANTS = {
+  /** Number of routes returned by default, including the optimal one */
+  MAX_ALTERNATIVES: 3,
+  /** Distance in km within which two routes are considered to share ground */
+  OVERLAP_RADIUS: 0.05,
+  /** Cost multiplier per earlier route for trail edges along that route */
+  OVERLAP_PENALTY: 3,
+  /** Routes sharing more than this share of their distance with an earlier route are dropped */
+  MAX_OVERLAP: 0.7,
+  /** Maximum penalised searches per request */
+  MAX_ATTEMPTS: 6
+} as const;
+
+/**
+ * Share of a route's distance that runs alongside a reference route
+ * @param route Route to measure
+ * @param reference Route it is compared with
+ * @returns Shared distance as a fraction of the route's distance (0-1)
+ */
+export function calculateRouteOverlap(route: Coordinate[], reference: Coordinate[]): number {
+  let sharedDistance = 0;
+  let totalDistance = 0;
+
+  for (let i = 1; i < route.length; i++) {
+    const segmentDistance = calculateDistance(route[i - 1], route[i]);
+    const midpoint = { lat: (route[i - 1].lat + route[i].lat) / 2, lng: (route[i - 1].lng + route[i].lng) / 2 };
+    totalDistance += segmentDistance;
+    if (calculateDistanceToPath(midpoint, reference) <= ALTERNATIVE_CONSTANTS.OVERLAP_RADIUS) {
+      sharedDistance += segmentDistance;
+    }
+  }
+
+  return totalDistance > 0 ? sharedDistance / totalDistance : 0;
+}
+
+/**
+ * Generate routes over the trail network that differ from a set of earlier routes.
+ * Edges cost what they cost the optimal route's graph search, and each search penalises
+ * trail edges running along the earlier routes and the routes found so far. Results
+ * overlapping an earlier route too much are dropped, and the rest are joined to the exact
+ * start and end with the graph router's access legs.
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param trailNetwork Trail network to route over
+ * @param terrain Terrain for edge costs and access legs
+ * @param previousRoutes Routes the alternatives should differ from
+ * @param count Maximum number of alternatives to generate
+ * @param options Pathfinding options
+ * @param signal Aborts the access leg searches
+ * @returns Alternative routes with elevations, in the order they were found
+ */
+export async function generateAlternativeCandidates(
+  start: Coordinate,
+  end: Coordinate,
+  trailNetwork: TrailNetwork,
+  terrain: TerrainModel,
+  previousRoutes: Coordinate[][],
+  count: number,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  signal?: AbortSignal
+): Promise<TrailGraphRoute[]> {
+  const graph = buildTrailGraph(trailNetwork.trails, options, trailNetwork.landcover);
+  const startNode = findNearestGraphNode(graph, start, GRAPH_ROUTING_CONSTANTS.MAX_ACCESS_DISTANCE);
+  const endNode = findNearestGraphNode(graph, end, GRAPH_ROUTING_CONSTANTS.MAX_ACCESS_DISTANCE);
+  if (!startNode || !endNode || startNode.key === endNode.key) return [];
+
+  const terrainCost = createTerrainEdgeCost(graph, terrain.elevationAt, options, terrain.slopes);
+  // Penalties only raise edge costs, so the heuristic stays admissible
+  const heuristic = createTerrainHeuristic(graph, endNode.key, options);
+  const penalisedRoutes = [...previousRoutes];
+  const acceptedRoutes = [...previousRoutes];
+  const candidates: TrailGraphRoute[] = [];
+
+  for (let attempt = 0; attempt < ALTERNATIVE_CONSTANTS.MAX_ATTEMPTS && candidates.length < count; attempt++) {
+    const penaltyCache = new Map<string, number>();
+    const overlapAwareCost = (edge: TrailGraphEdge, fromKey: string) => {
+      let penalty = penaltyCache.get(edge.id);
+      if (penalty === undefined) {
+        const from = graph.nodes.get(edge.from)!.coordinate;
+        const to = graph.nodes.get(edge.to)!.coordinate;
+        const midpoint = { lat: (from.lat + to.lat) / 2, lng: (from.lng + to.lng) / 2 };
+        const overlappingRoutes = penalisedRoutes.filter(route =>
+          calculateDistanceToPath(midpoint, route) <= ALTERNATIVE_CONSTANTS.OVERLAP_RADIUS
+        ).length;
+        penalty = Math.pow(ALTERNATIVE_CONSTANTS.OVERLAP_PENALTY, overlappingRoutes);
+        penaltyCache.set(edge.id, penalty);
+      }
+      return terrainCost(edge, fromKey) * penalty;
+    };
+
+    const path = findGraphPath(graph, startNode.key, endNode.key, overlapAwareCost, heuristic);
+    if (!path) break;
+
+    // Walk from the exact start onto the network and off it to the exact end
+    const coordinates = [...path.coordinates];
+    if (!isSameJoint(start, startNode.coordinate)) coordinates.unshift(start);
+    if (!isSameJoint(end, endNode.coordinate)) coordinates.push(end);
+
+    // Penalise even rejected results so the next search moves further away
+    penalisedRoutes.push(coordinates);
+    if (acceptedRoutes.some(route => calculateRouteOverlap(coordinates, route) > ALTERNATIVE_CONSTANTS.MAX_OVERLAP)) {
+      continue;
+    }
+
+    acceptedRoutes.push(coordinates);
+    const route = await joinGraphPath(start, end, path.coordinates, trailNetwork, terrain, options, signal);
+    // Without an access leg there is no route for this candidate, but it still steers the next search
+    if (!route) continue;
+    candidates.push({ points: route.points, nodesExpanded: path.nodesExpanded + route.nodesExpanded });
+  }
+
+  return candidates;
+}
+
+/**
+ * Share of a route's distance that follows trails or roads
+ * @param points Route points
+ * @param trails Available trail segments (water bodies are ignored)
+ * @returns Distance on trails as a fraction of the route's distance (0-1)
+ */
+export function calculateTrailShare(points: Coordinate[], trails: TrailSegment[]): number {
+  const walkableTrails = trails.filter(trail => !trail.isWater);
+  let trailDistance = 0;
+  let totalDistance = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const segmentDistance = calculateDistance(points[i - 1], points[i]);
+    const midpoint = { lat: (points[i - 1].lat + points[i].lat) / 2, lng: (points[i - 1].lng + points[i].lng) / 2 };
+    totalDistance += segmentDistance;
+    if (walkableTrails.some(trail => calculateDistanceToPath(midpoint, trail.coordinates) <= TRAIL_CONSTANTS.TRAIL_DETECTION_RADIUS)) {
+      trailDistance += segmentDistance;
+    }
+  }
+
+  return totalDistance > 0 ? trailDistance / totalDistance : 0;
+}
+
+/**
+ * Summarise a planned route as an alternative
+ * @param points Route points with elevation
+ * @param trails Available trail segments
+ * @param earlierRoutes Alternatives listed before this one
+ * @param activity Activity the time is estimated for
+ * @returns Alternative with distance, elevation gain, time, trail share, overlap, hardest SAC grade and waymarked routes
+ */
+export function summarizeAlternative(
+  points: RoutePoint[],
+  trails: TrailSegment[],
+  earlierRoutes: Coordinate[][] = [],
+  activity?: ActivityId
+): RouteAlternative {
+  const alternative: RouteAlternative = {
+    points,
+    distance: calculatePathDistance(points),
+    elevationGain: calculateElevationGain(points),
+    estimatedTime: estimateTravelTime(points, activity),
+    trailShare: calculateTrailShare(points, trails),
+    overlap: Math.max(0, ...earlierRoutes.map(route => calculateRouteOverlap(points, route))),
+  };
+  const sacScale = createSacScaleReport(points, trails);
+  if (sacScale) alternative.sacScale = sacScale;
+  const waymarkedRoutes = createWaymarkedRouteSections(points, trails);
+  if (waymarkedRoutes.length > 0) alternative.waymarkedRoutes = waymarkedRoutes;
+  return alternative;
+}
@@ -0,0 +1,170 @@
+import { Coordinate } from '@/types/route';
+import { AvoidArea } from '@/types/pathfinding';
+import { calculateDistanceToPath, toRadians } from '@/lib/utils';
+
+/**
+ * Constants for avoid areas
+ */
+export const AVOID_AREA_CONSTANTS = {
+  /** Cost multiplier inside a penalty area without its own penalty */
+  DEFAULT_PENALTY: 5,
+  /** Distance in km from an avoid line that counts as on the line */
+  LINE_BUFFER_KM: 0.02,
+  /** Vertices needed to draw a polygon */
+  MIN_POLYGON_VERTICES: 3,
+  /** Vertices needed to draw a line */
+  MIN_LINE_VERTICES: 2
+} as const;
+
+interface AreaBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Bounds are computed once per area; most segments are rejected on them alone
+const boundsCache = new WeakMap<AvoidArea, AreaBounds>();
+
+function getAreaBounds(area: AvoidArea): AreaBounds {
+  let bounds = boundsCache.get(area);
+  if (!bounds) {
+    const lats = area.coordinates.map(coord => coord.lat);
+    const lngs = area.coordinates.map(coord => coord.lng);
+    // Lines reach out by their buffer
+    const latPadding = area.shape === 'line' ? AVOID_AREA_CONSTANTS.LINE_BUFFER_KM / toRadians(6371) : 0;
+    const lngPadding = latPadding / Math.max(Math.cos(toRadians(lats[0] ?? 0)), 0.01);
+    bounds = {
+      minLat: Math.min(...lats) - latPadding,
+      maxLat: Math.max(...lats) + latPadding,
+      minLng: Math.min(...lngs) - lngPadding,
+      maxLng: Math.max(...lngs) + lngPadding,
+    };
+    boundsCache.set(area, bounds);
+  }
+  return bounds;
+}
+
+/**
+ * Check whether an avoid area has enough vertices for its shape
+ */
+export function isValidAvoidArea(area: AvoidArea): boolean {
+  const minVertices = area.shape === 'polygon'
+    ? AVOID_AREA_CONSTANTS.MIN_POLYGON_VERTICES
+    : AVOID_AREA_CONSTANTS.MIN_LINE_VERTICES;
+  return area.coordinates.length >= minVertices;
+}
+
+/**
+ * Point-in-polygon test by ray casting in lat/lng
+ * @param point Coordinate to test
+ * @param ring Polygon vertices, closed implicitly
+ */
+export function isPointInPolygon(point: Coordinate, ring: Coordinate[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check whether segment a1-a2 crosses or touches segment b1-b2
+ */
+export function doSegmentsIntersect(a1: Coordinate, a2: Coordinate, b1: Coordinate, b2: Coordinate): boolean {
+  const orientation = (p: Coordinate, q: Coordinate, r: Coordinate) =>
+    Math.sign((q.lng - p.lng) * (r.lat - p.lat) - (q.lat - p.lat) * (r.lng - p.lng));
+  const onSegment = (p: Coordinate, q: Coordinate, r: Coordinate) =>
+    Math.min(p.lng, r.lng) <= q.lng && q.lng <= Math.max(p.lng, r.lng)
+    && Math.min(p.lat, r.lat) <= q.lat && q.lat <= Math.max(p.lat, r.lat);
+
+  const o1 = orientation(a1, a2, b1);
+  const o2 = orientation(a1, a2, b2);
+  const o3 = orientation(b1, b2, a1);
+  const o4 = orientation(b1, b2, a2);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (o1 === 0 && onSegment(a1, b1, a2))
+    || (o2 === 0 && onSegment(a1, b2, a2))
+    || (o3 === 0 && onSegment(b1, a1, b2))
+    || (o4 === 0 && onSegment(b1, a2, b2));
+}
+
+/**
+ * Check whether the straight move between two coordinates enters an avoid area:
+ * ends inside or crosses the edge of a polygon, or crosses or comes within
+ * LINE_BUFFER_KM of a line at either end
+ * @param from Start of the move
+ * @param to End of the move
+ * @param area Avoid area
+ */
+export function segmentEntersAvoidArea(from: Coordinate, to: Coordinate, area: AvoidArea): boolean {
+  if (!isValidAvoidArea(area)) return false;
+
+  const bounds = getAreaBounds(area);
+  if (Math.max(from.lat, to.lat) < bounds.minLat || Math.min(from.lat, to.lat) > bounds.maxLat
+    || Math.max(from.lng, to.lng) < bounds.minLng || Math.min(from.lng, to.lng) > bounds.maxLng) {
+    return false;
+  }
+
+  const vertices = area.coordinates;
+  if (area.shape === 'polygon') {
+    if (isPointInPolygon(from, vertices) || isPointInPolygon(to, vertices)) return true;
+    return vertices.some((vertex, i) => doSegmentsIntersect(from, to, vertex, vertices[(i + 1) % vertices.length]));
+  }
+
+  if (calculateDistanceToPath(from, vertices) <= AVOID_AREA_CONSTANTS.LINE_BUFFER_KM
+    || calculateDistanceToPath(to, vertices) <= AVOID_AREA_CONSTANTS.LINE_BUFFER_KM) {
+    return true;
+  }
+  return vertices.slice(1).some((vertex, i) => doSegmentsIntersect(from, to, vertices[i], vertex));
+}
+
+/**
+ * Cost multiplier for the straight move between two coordinates
+ * @param from Start of the move
+ * @param to End of the move
+ * @param avoidAreas Avoid areas from the pathfinding options
+ * @returns Infinity when the move enters a barrier, otherwise the product of the
+ * penalties of the penalty areas it enters (1 for none)
+ */
+export function getAvoidAreaCostFactor(from: Coordinate, to: Coordinate, avoidAreas: AvoidArea[] = []): number {
+  let factor = 1;
+  for (const area of avoidAreas) {
+    if (!segmentEntersAvoidArea(from, to, area)) continue;
+    if (area.mode === 'barrier') return Infinity;
+    factor *= area.penalty ?? AVOID_AREA_CONSTANTS.DEFAULT_PENALTY;
+  }
+  return factor;
+}
+
+/**
+ * Avoid areas of the given modes entered anywhere along a route
+ * @param points Route points
+ * @param avoidAreas Avoid areas from the pathfinding options
+ * @param modes Modes to check (barriers by default)
+ * @returns Entered areas, in the order of avoidAreas
+ */
+export function findEnteredAvoidAreas(
+  points: Coordinate[],
+  avoidAreas: AvoidArea[] = [],
+  modes: AvoidArea['mode'][] = ['barrier']
+): AvoidArea[] {
+  return avoidAreas.filter(area => {
+    if (!modes.includes(area.mode)) return false;
+    if (points.length === 1) return segmentEntersAvoidArea(points[0], points[0], area);
+    return points.slice(1).some((point, i) => segmentEntersAvoidArea(points[i], point, area));
+  });
+}
+
+/**
+ * Human-readable name of an avoid area
+ */
+export function describeAvoidArea(area: AvoidArea): string {
+  return area.label || (area.shape === 'polygon' ? `Avoid area ${area.id}` : `Avoid line ${area.id}`);
+}
@@ -0,0 +1,123 @@
+import { ActivityId, CostModelId } from '@/types/pathfinding';
+import { calculateMinettiEnergyCost, MINETTI_CONSTANTS } from './terrain/terrain-analyzer';
+import { ActivityProfile, getActivityProfile, HIKING_PROFILE } from './activity-profiles';
+
+/**
+ * Constants for the cost models
+ */
+export const COST_MODEL_CONSTANTS = {
+  /** Share of energy in the combined model; the rest is time */
+  COMBINED_ENERGY_WEIGHT: 0.5,
+  /** Gradient step used to find the cheapest Minetti gradient */
+  GRADIENT_SEARCH_STEP: 0.005
+} as const;
+
+/**
+ * What a route search minimises for each stretch travelled. Costs are expressed in
+ * hours of travel on flat ground, so every model keeps the scale of travel time
+ * that the trail, road and terrain multipliers were tuned against.
+ */
+export interface CostModel {
+  id: CostModelId;
+  /**
+   * Cost of a stretch
+   * @param distance Horizontal distance in km
+   * @param slope Grade as rise/run ratio
+   */
+  segmentCost: (distance: number, slope: number) => number;
+  /** Lowest cost per km at any slope, for admissible A* heuristics */
+  minimumCostPerKm: () => number;
+}
+
+let cheapestMinettiCost: number | undefined;
+
+/**
+ * Lowest Minetti energy cost at any gradient (a gentle descent of about 15%)
+ */
+function findCheapestMinettiCost(): number {
+  if (cheapestMinettiCost === undefined) {
+    cheapestMinettiCost = Infinity;
+    const step = COST_MODEL_CONSTANTS.GRADIENT_SEARCH_STEP;
+    for (let gradient = -MINETTI_CONSTANTS.MAX_GRADIENT; gradient <= MINETTI_CONSTANTS.MAX_GRADIENT; gradient += step) {
+      cheapestMinettiCost = Math.min(cheapestMinettiCost, calculateMinettiEnergyCost(gradient));
+    }
+  }
+  return cheapestMinettiCost;
+}
+
+/**
+ * Build a cost model for an activity's speed curve
+ * @param id Cost model id
+ * @param profile Activity whose speed the model is based on
+ */
+export function createCostModel(id: CostModelId, profile: Pick<ActivityProfile, 'speed' | 'maxSpeed'>): CostModel {
+  const time: CostModel = {
+    id: 'tobler',
+    segmentCost: (distance, slope) => distance / profile.speed(slope),
+    minimumCostPerKm: () => 1 / profile.maxSpeed,
+  };
+  // Energy is scaled so flat ground costs its travel time
+  const energy: CostModel = {
+    id: 'minetti',
+    segmentCost: (distance, slope) => {
+      const relativeEnergy = calculateMinettiEnergyCost(slope) / calculateMinettiEnergyCost(0);
+      return distance * Math.sqrt(1 + slope * slope) * relativeEnergy / profile.speed(0);
+    },
+    minimumCostPerKm: () => findCheapestMinettiCost() / calculateMinettiEnergyCost(0) / profile.speed(0),
+  };
+  if (id === 'tobler') return time;
+  if (id === 'minetti') return energy;
+
+  const weight = COST_MODEL_CONSTANTS.COMBINED_ENERGY_WEIGHT;
+  return {
+    id: 'combined',
+    segmentCost: (distance, slope) => (1 - weight) * time.segmentCost(distance, slope) + weight * energy.segmentCost(distance, slope),
+    minimumCostPerKm: () => (1 - weight) * time.minimumCostPerKm() + weight * energy.minimumCostPerKm(),
+  };
+}
+
+/**
+ * Walking time from Tobler's hiking function
+ */
+export const TOBLER_COST_MODEL = createCostModel('tobler', HIKING_PROFILE);
+
+/**
+ * Metabolic energy from Minetti's polynomial, scaled so flat ground costs its Tobler time
+ */
+export const MINETTI_COST_MODEL = createCostModel('minetti', HIKING_PROFILE);
+
+/**
+ * Weighted blend of walking time and metabolic energy
+ */
+export const COMBINED_COST_MODEL = createCostModel('combined', HIKING_PROFILE);
+
+/**
+ * Built-in cost models for hikers by id
+ */
+export const COST_MODELS: Record<CostModelId, CostModel> = {
+  tobler: TOBLER_COST_MODEL,
+  minetti: MINETTI_COST_MODEL,
+  combined: COMBINED_COST_MODEL,
+};
+
+// Cost models of other activities, built on first use
+const activityCostModels = new Map<string, CostModel>();
+
+/**
+ * Look up the cost model a search optimises for
+ * @param id Cost model id from the pathfinding options
+ * @param activity Activity id from the pathfinding options
+ * @returns Cost model (Tobler time for hikers by default)
+ */
+export function getCostModel(id: CostModelId = 'tobler', activity: ActivityId = 'hiking'): CostModel {
+  const profile = getActivityProfile(activity);
+  if (profile === HIKING_PROFILE) return COST_MODELS[id] ?? TOBLER_COST_MODEL;
+
+  const key = `${profile.id}:${id}`;
+  let model = activityCostModels.get(key);
+  if (!model) {
+    model = createCostModel(id, profile);
+    activityCostModels.set(key, model);
+  }
+  return model;
+}
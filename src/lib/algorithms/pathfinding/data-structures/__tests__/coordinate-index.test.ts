@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the CoordinateIndex spatial hash
+ */
+
+import { CoordinateIndex, getCellKey } from '../coordinate-index';
+import { Coordinate } from '@/types/route';
+
+describe('CoordinateIndex', () => {
+  const TOLERANCE = 0.0001;
+  let index: CoordinateIndex<Coordinate>;
+
+  beforeEach(() => {
+    index = new CoordinateIndex<Coordinate>(TOLERANCE, coordinate => coordinate);
+  });
+
+  describe('getCellKey', () => {
+    it('quantises coordinates into cells', () => {
+      expect(getCellKey({ lat: 47.00001, lng: 8.00001 }, 0.001)).toBe(getCellKey({ lat: 47.0009, lng: 8.0009 }, 0.001));
+      expect(getCellKey({ lat: 47.0001, lng: 8.0 }, 0.001)).not.toBe(getCellKey({ lat: 47.0011, lng: 8.0 }, 0.001));
+    });
+  });
+
+  describe('find', () => {
+    it('finds a coordinate within tolerance across a cell boundary', () => {
+      const point = { lat: 47.00009, lng: 7.99999 };
+      index.add(point);
+
+      expect(index.find({ lat: 47.00011, lng: 8.00001 })).toBe(point);
+    });
+
+    it('does not match at or beyond the tolerance', () => {
+      index.add({ lat: 47.0, lng: 8.0 });
+
+      expect(index.has({ lat: 47.0 + TOLERANCE, lng: 8.0 })).toBe(false);
+      expect(index.has({ lat: 47.0, lng: 8.0 + TOLERANCE * 2 })).toBe(false);
+    });
+
+    it('answers with the earliest added match', () => {
+      const first = { lat: 47.00005, lng: 8.0 };
+      const second = { lat: 47.0, lng: 8.0 };
+      index.add(first);
+      index.add(second);
+
+      expect(index.find({ lat: 47.0, lng: 8.0 })).toBe(first);
+    });
+
+    it('handles negative coordinates', () => {
+      const point = { lat: -47.0, lng: -8.0 };
+      index.add(point);
+
+      expect(index.find({ lat: -47.00005, lng: -7.99995 })).toBe(point);
+    });
+  });
+
+  describe('remove', () => {
+    it('removes an added item', () => {
+      const point = { lat: 47.0, lng: 8.0 };
+      index.add(point);
+
+      expect(index.remove(point)).toBe(true);
+      expect(index.has(point)).toBe(false);
+      expect(index.size).toBe(0);
+    });
+
+    it('only removes the same item', () => {
+      index.add({ lat: 47.0, lng: 8.0 });
+
+      expect(index.remove({ lat: 47.0, lng: 8.0 })).toBe(false);
+      expect(index.size).toBe(1);
+    });
+  });
+});
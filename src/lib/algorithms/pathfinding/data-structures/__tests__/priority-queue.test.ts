@@ -625,4 +625,63 @@ describe('PriorityQueue', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('find', () => {
+    it('returns the queued node near a coordinate', () => {
+      const node: PathfindingNode = { coordinate: { lat: 47.0, lng: 8.0 }, gCost: 1, hCost: 1, fCost: 2 };
+      queue.enqueue(node);
+
+      expect(queue.find({ lat: 47.00005, lng: 8.00005 })).toBe(node);
+      expect(queue.find({ lat: 47.001, lng: 8.0 })).toBeUndefined();
+    });
+  });
+
+  describe('decreaseKey', () => {
+    const createNode = (lat: number, gCost: number): PathfindingNode => ({
+      coordinate: { lat, lng: 8.0 },
+      gCost,
+      hCost: 10,
+      fCost: gCost + 10
+    });
+
+    it('moves a cheaper node to the front', () => {
+      const nodes = [createNode(47.0, 5), createNode(47.001, 10), createNode(47.002, 20)];
+      nodes.forEach(node => queue.enqueue(node));
+      const parent = createNode(46.999, 0);
+
+      expect(queue.decreaseKey(nodes[2], 1, parent)).toBe(true);
+
+      expect(queue.dequeue()).toBe(nodes[2]);
+      expect(nodes[2]).toMatchObject({ gCost: 1, fCost: 11, parent });
+      expect(queue.dequeue()).toBe(nodes[0]);
+      expect(queue.dequeue()).toBe(nodes[1]);
+    });
+
+    it('ignores costs that are not lower', () => {
+      const node = createNode(47.0, 5);
+      queue.enqueue(node);
+
+      expect(queue.decreaseKey(node, 7)).toBe(false);
+      expect(node.gCost).toBe(5);
+    });
+
+    it('ignores nodes that are not queued', () => {
+      const node = createNode(47.0, 5);
+      queue.enqueue(node);
+      queue.dequeue();
+
+      expect(queue.decreaseKey(node, 1)).toBe(false);
+      expect(queue.isEmpty()).toBe(true);
+    });
+  });
+
+  describe('size', () => {
+    it('counts queued nodes', () => {
+      queue.enqueue({ coordinate: { lat: 47.0, lng: 8.0 }, gCost: 1, hCost: 1, fCost: 2 });
+      queue.enqueue({ coordinate: { lat: 47.1, lng: 8.0 }, gCost: 1, hCost: 1, fCost: 2 });
+      queue.dequeue();
+
+      expect(queue.size).toBe(1);
+    });
+  });
+});
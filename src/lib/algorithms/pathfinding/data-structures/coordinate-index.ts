@@ -0,0 +1,112 @@
+import { Coordinate } from '@/types/route';
+
+interface IndexedItem<T> {
+  item: T;
+  order: number;
+}
+
+/**
+ * Quantised cell key of a coordinate
+ * @param coordinate Coordinate to quantise
+ * @param cellSize Cell size in degrees
+ * @returns Key shared by all coordinates in the same cell
+ */
+export function getCellKey(coordinate: Coordinate, cellSize: number): string {
+  return `${Math.floor(coordinate.lat / cellSize)}:${Math.floor(coordinate.lng / cellSize)}`;
+}
+
+/**
+ * Spatial hash of items by coordinate for constant-time tolerance lookups.
+ * Cells are as large as the tolerance, so a match is always in the cell of the
+ * query coordinate or one of its eight neighbours.
+ */
+export class CoordinateIndex<T> {
+  private cells = new Map<string, IndexedItem<T>[]>();
+  private nextOrder = 0;
+  private count = 0;
+
+  /**
+   * @param tolerance Largest lat and lng difference in degrees (exclusive) at which coordinates match
+   * @param getCoordinate Coordinate of an item
+   */
+  constructor(
+    private readonly tolerance: number,
+    private readonly getCoordinate: (item: T) => Coordinate
+  ) {}
+
+  /**
+   * Number of items in the index
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add an item at its current coordinate
+   * @param item Item to add
+   */
+  add(item: T): void {
+    const key = getCellKey(this.getCoordinate(item), this.tolerance);
+    const cell = this.cells.get(key);
+    const entry = { item, order: this.nextOrder++ };
+    if (cell) {
+      cell.push(entry);
+    } else {
+      this.cells.set(key, [entry]);
+    }
+    this.count++;
+  }
+
+  /**
+   * Remove an item; its coordinate must not have changed since it was added
+   * @param item Item to remove
+   * @returns True if the item was in the index
+   */
+  remove(item: T): boolean {
+    const key = getCellKey(this.getCoordinate(item), this.tolerance);
+    const cell = this.cells.get(key);
+    const index = cell?.findIndex(entry => entry.item === item) ?? -1;
+    if (!cell || index < 0) return false;
+
+    cell.splice(index, 1);
+    if (cell.length === 0) this.cells.delete(key);
+    this.count--;
+    return true;
+  }
+
+  /**
+   * Find the earliest added item within tolerance of a coordinate
+   * @param coordinate Coordinate to look up (elevation is ignored)
+   * @returns Matching item, or undefined
+   */
+  find(coordinate: Coordinate): T | undefined {
+    const row = Math.floor(coordinate.lat / this.tolerance);
+    const column = Math.floor(coordinate.lng / this.tolerance);
+    let match: IndexedItem<T> | undefined;
+
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dColumn = -1; dColumn <= 1; dColumn++) {
+        for (const entry of this.cells.get(`${row + dRow}:${column + dColumn}`) || []) {
+          if (match && entry.order > match.order) continue;
+          const candidate = this.getCoordinate(entry.item);
+          if (
+            Math.abs(candidate.lat - coordinate.lat) < this.tolerance &&
+            Math.abs(candidate.lng - coordinate.lng) < this.tolerance
+          ) {
+            match = entry;
+          }
+        }
+      }
+    }
+
+    return match?.item;
+  }
+
+  /**
+   * Check whether any item is within tolerance of a coordinate
+   * @param coordinate Coordinate to look up (elevation is ignored)
+   */
+  has(coordinate: Coordinate): boolean {
+    return this.find(coordinate) !== undefined;
+  }
+}
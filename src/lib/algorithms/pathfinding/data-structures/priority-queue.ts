@@ -1,4 +1,5 @@
 import { PathfindingNode, Coordinate } from '@/types/route';
+import { CoordinateIndex } from './coordinate-index';
 
 /**
  * Coordinate comparison tolerance for pathfinding nodes
@@ -7,18 +8,23 @@ const COORDINATE_TOLERANCE = 0.0001;
 
 /**
  * Priority queue implementation for A* pathfinding algorithm
- * Manages PathfindingNode objects sorted by their fCost (total cost)
+ * Manages PathfindingNode objects in a binary min-heap on their fCost (total cost),
+ * with a spatial index for coordinate lookups and decrease-key updates
  */
 class PriorityQueue {
-  private items: PathfindingNode[] = [];
+  private heap: PathfindingNode[] = [];
+  private positions = new Map<PathfindingNode, number>();
+  private index = new CoordinateIndex<PathfindingNode>(COORDINATE_TOLERANCE, node => node.coordinate);
 
   /**
-   * Add a node to the priority queue, maintaining sorted order by fCost
+   * Add a node to the priority queue
    * @param item The PathfindingNode to add
    */
   enqueue(item: PathfindingNode) {
-    this.items.push(item);
-    this.items.sort((a, b) => a.fCost - b.fCost);
+    this.heap.push(item);
+    this.positions.set(item, this.heap.length - 1);
+    this.index.add(item);
+    this.siftUp(this.heap.length - 1);
   }
 
   /**
@@ -26,7 +32,18 @@ class PriorityQueue {
    * @returns The PathfindingNode with lowest fCost, or undefined if queue is empty
    */
   dequeue(): PathfindingNode | undefined {
-    return this.items.shift();
+    if (this.heap.length === 0) return undefined;
+
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.positions.set(last, 0);
+      this.siftDown(0);
+    }
+    this.positions.delete(top);
+    this.index.remove(top);
+    return top;
   }
 
   /**
@@ -34,7 +51,14 @@ class PriorityQueue {
    * @returns True if the queue has no items
    */
   isEmpty(): boolean {
-    return this.items.length === 0;
+    return this.heap.length === 0;
+  }
+
+  /**
+   * Number of nodes in the queue
+   */
+  get size(): number {
+    return this.heap.length;
   }
 
   /**
@@ -43,11 +67,66 @@ class PriorityQueue {
    * @returns True if a node with similar coordinates exists in the queue
    */
   contains(coordinate: Coordinate): boolean {
-    return this.items.some(item => 
-      Math.abs(item.coordinate.lat - coordinate.lat) < COORDINATE_TOLERANCE &&
-      Math.abs(item.coordinate.lng - coordinate.lng) < COORDINATE_TOLERANCE
-    );
+    return this.index.has(coordinate);
+  }
+
+  /**
+   * Find the queued node at a coordinate
+   * @param coordinate The coordinate to search for
+   * @returns The earliest queued node with similar coordinates, or undefined
+   */
+  find(coordinate: Coordinate): PathfindingNode | undefined {
+    return this.index.find(coordinate);
+  }
+
+  /**
+   * Lower the cost of a queued node and restore the heap order
+   * @param item The queued node
+   * @param gCost New cost from the start, lower than the current one
+   * @param parent New parent node
+   * @returns True if the node was queued and its cost lowered
+   */
+  decreaseKey(item: PathfindingNode, gCost: number, parent?: PathfindingNode): boolean {
+    const position = this.positions.get(item);
+    if (position === undefined || gCost >= item.gCost) return false;
+
+    item.gCost = gCost;
+    item.fCost = gCost + item.hCost;
+    item.parent = parent;
+    this.siftUp(position);
+    return true;
+  }
+
+  private siftUp(position: number) {
+    const item = this.heap[position];
+    while (position > 0) {
+      const parentPosition = (position - 1) >> 1;
+      const parent = this.heap[parentPosition];
+      if (parent.fCost <= item.fCost) break;
+      this.heap[position] = parent;
+      this.positions.set(parent, position);
+      position = parentPosition;
+    }
+    this.heap[position] = item;
+    this.positions.set(item, position);
+  }
+
+  private siftDown(position: number) {
+    const item = this.heap[position];
+    const length = this.heap.length;
+    while (true) {
+      const left = position * 2 + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child = right < length && this.heap[right].fCost < this.heap[left].fCost ? right : left;
+      if (this.heap[child].fCost >= item.fCost) break;
+      this.heap[position] = this.heap[child];
+      this.positions.set(this.heap[child], position);
+      position = child;
+    }
+    this.heap[position] = item;
+    this.positions.set(item, position);
   }
 }
 
-export default PriorityQueue;
\ No newline at end of file
+export default PriorityQueue;
@@ -0,0 +1,176 @@
+import { RoutePoint } from '@/types/route';
+import {
+  PathfindingDataSource,
+  PathfindingOptions,
+  PathfindingDiagnostics,
+  PathfindingResult,
+  PathfindingStrategy
+} from '@/types/pathfinding';
+import { TrailNetwork, TrailSegment } from '@/lib/api/trails';
+import { createElevationCacheReport, createElevationCacheStats, ElevationCacheStats } from '@/lib/api/elevation';
+import { describeAvoidArea, findEnteredAvoidAreas } from './avoid-areas';
+import { createGradeLimitReport, exceedsGradeLimits } from './grade-limits';
+import { createAvalancheReport, SlopeRaster } from './terrain/slope-raster';
+import { countTerrainBarrierCrossings } from './terrain/landcover';
+import { markWaterCrossings } from './water-barriers';
+import { createSacScaleReport, isHarderSacScale } from './sac-scale';
+import { describeTrail, findRestrictedTrails } from './trail-access';
+import { createWaymarkedRouteSections } from './waymarked-routes';
+
+/**
+ * Strategies that produce a fallback route rather than an optimised one
+ */
+export const DEGRADED_STRATEGIES: readonly PathfindingStrategy[] = ['short-direct', 'trail-snapping', 'straight-line'];
+
+const DATA_SOURCE_LABELS: Record<PathfindingDataSource, string> = {
+  elevation: 'Elevation data',
+  trails: 'Trail data',
+};
+
+/**
+ * Collects diagnostics while a route is computed
+ */
+export interface DiagnosticsRecorder {
+  /** Counts this route's elevation lookups; pass it to getElevation, getElevationForRoute and fetchElevationGrid */
+  elevationStats: ElevationCacheStats;
+  /** Record why a strategy was skipped or failed */
+  fallback: (reason: string) => void;
+  /** Record a failed data source, with a warning describing the failure */
+  sourceFailed: (source: PathfindingDataSource, error?: unknown) => void;
+  warn: (message: string) => void;
+  /** Add the work done by a search */
+  addSearch: (iterations: number, nodesExpanded: number) => void;
+  /** Use a slope raster to report the avalanche terrain of the finished route in winter mode */
+  setSlopeRaster: (slopes: SlopeRaster) => void;
+  /** Use these trails to mark where the finished route crosses water, grade the SAC-scale trails it follows, check their access and list the waymarked routes it follows */
+  setTrails: (trails: TrailSegment[]) => void;
+  /** Use the land cover and cliffs of the trail network to check the finished route for glaciers and cliffs */
+  setTerrainFeatures: (features: Pick<TrailNetwork, 'landcover' | 'cliffs'>) => void;
+  /** Complete the result with the strategy that produced the points, checking it against the barriers, water, glaciers, cliffs, grade limits, winter mode, SAC grade limit and trail access */
+  finish: (points: RoutePoint[], strategy: PathfindingStrategy) => PathfindingResult;
+}
+
+/**
+ * Create a diagnostics recorder; elapsed time is measured from creation
+ * @param constraints Avoid areas, grade limits, winter mode, SAC grade limit, planned date and glacier opt-in the finished route is checked against
+ */
+export function createDiagnosticsRecorder(
+  constraints: Pick<PathfindingOptions, 'avoidAreas' | 'maxSustainedGrade' | 'maxPitchGrade' | 'winterMode' | 'maxSacScale' | 'plannedDate' | 'allowGlaciers'> = {}
+): DiagnosticsRecorder {
+  const startTime = performance.now();
+  const elevationStats = createElevationCacheStats();
+  const fallbackReasons: string[] = [];
+  const failedSources: PathfindingDataSource[] = [];
+  const warnings: string[] = [];
+  let iterations = 0;
+  let nodesExpanded = 0;
+  let slopeRaster: SlopeRaster | undefined;
+  let trailSegments: TrailSegment[] | undefined;
+  let terrainFeatures: Pick<TrailNetwork, 'landcover' | 'cliffs'> = {};
+
+  return {
+    elevationStats,
+    fallback: reason => {
+      fallbackReasons.push(reason);
+    },
+    sourceFailed: (source, error) => {
+      if (!failedSources.includes(source)) failedSources.push(source);
+      const detail = error instanceof Error ? `: ${error.message}` : '';
+      warnings.push(`${DATA_SOURCE_LABELS[source]} unavailable${detail}`);
+    },
+    warn: message => {
+      warnings.push(message);
+    },
+    addSearch: (searchIterations, searchNodesExpanded) => {
+      iterations += searchIterations;
+      nodesExpanded += searchNodesExpanded;
+    },
+    setSlopeRaster: slopes => {
+      slopeRaster = slopes;
+    },
+    setTrails: trails => {
+      trailSegments = trails;
+    },
+    setTerrainFeatures: features => {
+      terrainFeatures = features;
+    },
+    finish: (routePoints, strategy) => {
+      const water = trailSegments ? markWaterCrossings(routePoints, trailSegments) : { points: routePoints, uncrossed: 0 };
+      const { points } = water;
+      const blockedAreas = findEnteredAvoidAreas(points, constraints.avoidAreas);
+      const constraintWarnings = blockedAreas.length > 0
+        ? [`No route avoids every barrier; this route enters ${blockedAreas.map(describeAvoidArea).join(', ')}`]
+        : [];
+      const gradeLimits = createGradeLimitReport(points, constraints);
+      const tooSteep = gradeLimits !== null && exceedsGradeLimits(gradeLimits);
+      if (tooSteep) {
+        constraintWarnings.push(
+          `No route stays within the grade limits; the steepest sustained grade is ${Math.round(gradeLimits.steepestSustainedGrade)}% and the steepest pitch ${Math.round(gradeLimits.steepestPitchGrade)}%`
+        );
+      }
+      const avalanche = constraints.winterMode && slopeRaster ? createAvalancheReport(points, slopeRaster) : null;
+      const avalancheExposed = constraints.winterMode === 'barrier' && avalanche !== null && avalanche.terrainClass !== 'simple';
+      if (water.uncrossed > 0) {
+        constraintWarnings.push(
+          `No route avoids open water; this route crosses water ${water.uncrossed} ${water.uncrossed === 1 ? 'time' : 'times'} without a bridge, ford or stepping stones`
+        );
+      }
+      const terrainBarriers = countTerrainBarrierCrossings(points, { trails: trailSegments ?? [], ...terrainFeatures }, constraints.allowGlaciers);
+      if (terrainBarriers.glacier > 0) {
+        constraintWarnings.push(
+          `No route avoids glaciers; this route crosses glacier on ${terrainBarriers.glacier} ${terrainBarriers.glacier === 1 ? 'segment' : 'segments'}`
+        );
+      }
+      if (terrainBarriers.cliff > 0) {
+        constraintWarnings.push(
+          `No route avoids cliffs; this route crosses a cliff ${terrainBarriers.cliff} ${terrainBarriers.cliff === 1 ? 'time' : 'times'} away from any trail`
+        );
+      }
+      const sacScale = trailSegments ? createSacScaleReport(points, trailSegments, constraints.maxSacScale) : null;
+      const tooHard = sacScale !== null && constraints.maxSacScale !== undefined && isHarderSacScale(sacScale.hardestGrade, constraints.maxSacScale);
+      if (tooHard) {
+        constraintWarnings.push(
+          `No route stays within the maximum SAC grade ${constraints.maxSacScale}; this route follows ${sacScale.hardestGrade} trail`
+        );
+      }
+      const access = trailSegments ? findRestrictedTrails(points, trailSegments, constraints.plannedDate) : { closed: [], uncertain: [] };
+      if (access.closed.length > 0) {
+        constraintWarnings.push(`No route avoids closed paths; this route follows ${access.closed.map(describeTrail).join(', ')}`);
+      }
+      if (access.uncertain.length > 0) {
+        constraintWarnings.push(
+          `This route relies on paths with seasonal or conditional access (${access.uncertain.map(describeTrail).join(', ')}); check they are open ${constraints.plannedDate ? `on ${constraints.plannedDate}` : 'on the day'}`
+        );
+      }
+      if (constraints.winterMode && !slopeRaster) {
+        constraintWarnings.push('Avalanche terrain was not assessed without the elevation grid');
+      }
+      if (avalancheExposed) {
+        const sections = avalanche.sections.length;
+        constraintWarnings.push(
+          `No route avoids avalanche terrain; this route crosses ${sections} ${sections === 1 ? 'section' : 'sections'} of ${avalanche.terrainClass} terrain`
+        );
+      }
+      const diagnostics: PathfindingDiagnostics = {
+        strategy,
+        degraded: DEGRADED_STRATEGIES.includes(strategy) || failedSources.length > 0 || blockedAreas.length > 0 || tooSteep || avalancheExposed
+          || water.uncrossed > 0 || tooHard || access.closed.length > 0 || terrainBarriers.glacier > 0 || terrainBarriers.cliff > 0,
+        fallbackReasons: [...fallbackReasons],
+        iterations,
+        nodesExpanded,
+        elapsedMs: performance.now() - startTime,
+        failedSources: [...failedSources],
+        warnings: [...warnings, ...constraintWarnings],
+        blockedAvoidAreas: blockedAreas.map(area => area.id),
+      };
+      if (gradeLimits) diagnostics.gradeLimits = gradeLimits;
+      if (avalanche) diagnostics.avalanche = avalanche;
+      if (sacScale) diagnostics.sacScale = sacScale;
+      const waymarkedRoutes = trailSegments ? createWaymarkedRouteSections(points, trailSegments) : [];
+      if (waymarkedRoutes.length > 0) diagnostics.waymarkedRoutes = waymarkedRoutes;
+      const elevationCache = createElevationCacheReport(elevationStats);
+      if (elevationCache) diagnostics.elevationCache = elevationCache;
+      return { points, diagnostics };
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { Coordinate } from '@/types/route';
+import { GradeLimitReport, PathfindingOptions } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+
+/**
+ * Constants for grade limits
+ */
+export const GRADE_LIMIT_CONSTANTS = {
+  /** Length in km over which a short pitch is measured */
+  PITCH_LENGTH_KM: 0.05,
+  /** Length in km over which a sustained grade is measured along a route */
+  SUSTAINED_LENGTH_KM: 0.2
+} as const;
+
+type GradeLimits = Pick<PathfindingOptions, 'maxSustainedGrade' | 'maxPitchGrade'>;
+
+/**
+ * Check whether the options set a maximum sustained or pitch grade
+ */
+export function hasGradeLimits(options: GradeLimits): boolean {
+  return options.maxSustainedGrade !== undefined || options.maxPitchGrade !== undefined;
+}
+
+/**
+ * Absolute grade in percent between two coordinates with elevation
+ */
+function calculateGrade(from: Coordinate, to: Coordinate, distance: number): number {
+  if (distance === 0) return 0;
+  return Math.abs((to.elevation || 0) - (from.elevation || 0)) / (distance * 1000) * 100;
+}
+
+/**
+ * Check a single search move against the grade limits, measured on terrain
+ * samples about PITCH_LENGTH_KM apart the same way as a finished route
+ * @param from Start of the move
+ * @param to End of the move
+ * @param elevationAt Terrain elevation lookup
+ * @param options Pathfinding options with the grade limits
+ * @returns False when the move is steeper than either limit
+ */
+export function isMoveWithinGradeLimits(
+  from: Coordinate,
+  to: Coordinate,
+  elevationAt: (coordinate: Coordinate) => number,
+  options: GradeLimits
+): boolean {
+  if (!hasGradeLimits(options)) return true;
+
+  // Samples at least a pitch apart, so each pitch is measured between neighbouring samples
+  const pitches = Math.max(1, Math.floor(calculateDistance(from, to) / GRADE_LIMIT_CONSTANTS.PITCH_LENGTH_KM));
+  const samples: Coordinate[] = [];
+  for (let i = 0; i <= pitches; i++) {
+    const point = { lat: from.lat + (to.lat - from.lat) * i / pitches, lng: from.lng + (to.lng - from.lng) * i / pitches };
+    samples.push({ ...point, elevation: elevationAt(point) });
+  }
+
+  return !exceedsGradeLimits(createGradeLimitReport(samples, options)!);
+}
+
+/**
+ * Steepest grade in percent over any stretch of a route at least windowLength long;
+ * routes shorter than the window are measured end to end
+ * @param points Route points with elevation
+ * @param windowLength Stretch length in km
+ */
+export function findSteepestGrade(points: Coordinate[], windowLength: number): number {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + calculateDistance(points[i - 1], points[i]));
+  }
+
+  let steepest = 0;
+  let end = 0;
+  for (let start = 0; start < points.length - 1; start++) {
+    end = Math.max(end, start + 1);
+    while (end < points.length - 1 && cumulative[end] - cumulative[start] < windowLength) end++;
+    const length = cumulative[end] - cumulative[start];
+    // Only the first stretch may be shorter than the window, when the whole route is
+    if (length < windowLength && start > 0) break;
+    steepest = Math.max(steepest, calculateGrade(points[start], points[end], length));
+  }
+  return steepest;
+}
+
+/**
+ * Compare a finished route with the grade limits
+ * @param points Route points with elevation
+ * @param options Pathfinding options with the grade limits
+ * @returns Steepest sustained and pitch grades next to the limits, or null without limits
+ */
+export function createGradeLimitReport(points: Coordinate[], options: GradeLimits): GradeLimitReport | null {
+  if (!hasGradeLimits(options)) return null;
+
+  return {
+    maxSustainedGrade: options.maxSustainedGrade,
+    maxPitchGrade: options.maxPitchGrade,
+    steepestSustainedGrade: findSteepestGrade(points, GRADE_LIMIT_CONSTANTS.SUSTAINED_LENGTH_KM),
+    steepestPitchGrade: findSteepestGrade(points, GRADE_LIMIT_CONSTANTS.PITCH_LENGTH_KM),
+  };
+}
+
+/**
+ * Check whether a report shows the route steeper than a limit
+ */
+export function exceedsGradeLimits(report: GradeLimitReport): boolean {
+  return (report.maxSustainedGrade !== undefined && report.steepestSustainedGrade > report.maxSustainedGrade)
+    || (report.maxPitchGrade !== undefined && report.steepestPitchGrade > report.maxPitchGrade);
+}
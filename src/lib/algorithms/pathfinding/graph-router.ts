@@ -0,0 +1,197 @@
+import { Coordinate, RoutePoint } from '@/types/route';
+import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+import { TrailNetwork } from '@/lib/api/trails';
+import { calculateSlope } from './terrain/terrain-analyzer';
+import { PATHFINDING_CONSTANTS, calculateSteepSlopePenalty } from './utilities';
+import { buildTrailGraph, findNearestGraphNode, findGraphPath, TrailGraph, TrailGraphEdge } from './trail-graph';
+import { searchGrid } from './grid-search';
+import { isSameJoint } from './route-legs';
+import { TerrainModel } from './terrain/terrain-model';
+import { isMoveWithinGradeLimits } from './grade-limits';
+import { getCostModel } from './cost-models';
+import { getAvalancheCostFactor, SlopeRaster } from './terrain/slope-raster';
+import { getSacScaleCostFactor } from './sac-scale';
+import { getWaymarkedRouteBonus, getWaymarkedRouteCostFactor } from './waymarked-routes';
+import { getAccessCostFactor } from './trail-access';
+
+/**
+ * Constants for routing over the trail graph
+ */
+export const GRAPH_ROUTING_CONSTANTS = {
+  /** Maximum off-trail distance in km from the start or end to the trail network */
+  MAX_ACCESS_DISTANCE: 1,
+  /** Iteration cap for the grid search on off-trail access legs */
+  ACCESS_MAX_ITERATIONS: 200
+} as const;
+
+/**
+ * Route found over the trail graph
+ */
+export interface TrailGraphRoute {
+  points: RoutePoint[];
+  /** Graph and access-leg grid nodes expanded */
+  nodesExpanded: number;
+}
+
+/**
+ * Create a direction-aware edge cost from the options' cost model (Tobler's hiking function by default).
+ * Cost units match calculateMovementCost so graph and grid routes are comparable.
+ * @param graph Trail graph
+ * @param elevationAt Elevation lookup for graph nodes
+ * @param options Pathfinding options (cost model, activity, trail and road bonuses, grade limits, winter mode, SAC grade multipliers, planned date)
+ * @param slopes Slope raster for winter mode
+ * @returns Cost of traversing an edge starting at the given node, Infinity above the grade limits
+ * or through avalanche terrain in barrier winter mode
+ */
+export function createTerrainEdgeCost(
+  graph: TrailGraph,
+  elevationAt: (coordinate: Coordinate) => number,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  slopes?: SlopeRaster
+): (edge: TrailGraphEdge, fromKey: string) => number {
+  const costModel = getCostModel(options.costModel, options.activity);
+  // Avalanche terrain does not depend on the direction an edge is traversed in
+  const avalancheFactors = new Map<string, number>();
+  const elevations = new Map<string, number>();
+  const getNodeElevation = (key: string): number => {
+    let elevation = elevations.get(key);
+    if (elevation === undefined) {
+      elevation = elevationAt(graph.nodes.get(key)!.coordinate);
+      elevations.set(key, elevation);
+    }
+    return elevation;
+  };
+
+  return (edge: TrailGraphEdge, fromKey: string) => {
+    const toKey = edge.from === fromKey ? edge.to : edge.from;
+    if (!isMoveWithinGradeLimits(graph.nodes.get(fromKey)!.coordinate, graph.nodes.get(toKey)!.coordinate, elevationAt, options)) {
+      return Infinity;
+    }
+    let avalancheFactor = avalancheFactors.get(edge.id);
+    if (avalancheFactor === undefined) {
+      avalancheFactor = getAvalancheCostFactor(graph.nodes.get(edge.from)!.coordinate, graph.nodes.get(edge.to)!.coordinate, slopes, options.winterMode);
+      avalancheFactors.set(edge.id, avalancheFactor);
+    }
+    if (avalancheFactor === Infinity) return Infinity;
+    const slope = calculateSlope(getNodeElevation(toKey) - getNodeElevation(fromKey), edge.distance);
+    const baseCost = costModel.segmentCost(edge.distance, slope);
+    const bonus = (edge.trail.isRoad
+      ? options.roadBonus
+      : options.trailBonus * getSacScaleCostFactor(edge.trail, options) * getWaymarkedRouteCostFactor(edge.trail, options))
+      * getAccessCostFactor(edge.trail, options.plannedDate);
+
+    return baseCost * PATHFINDING_CONSTANTS.TIME_COST_SCALE_FACTOR * bonus * calculateSteepSlopePenalty(Math.abs(slope * 100)) * (edge.avoidPenalty ?? 1) * avalancheFactor;
+  };
+}
+
+/**
+ * Create an admissible A* heuristic for createTerrainEdgeCost: the straight-line
+ * distance to the goal at the cost model's cheapest slope with the largest trail, waymarked route or road bonus
+ * @param graph Trail graph
+ * @param goalKey Key of the goal node
+ * @param options Pathfinding options (cost model, activity, trail, waymarked route and road bonuses)
+ * @returns Lower bound of the remaining cost from a node
+ */
+export function createTerrainHeuristic(
+  graph: TrailGraph,
+  goalKey: string,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS
+): (nodeKey: string) => number {
+  const goal = graph.nodes.get(goalKey)!.coordinate;
+  const trailBonus = options.trailBonus * Math.min(1, getWaymarkedRouteBonus(options));
+  const costPerKm = PATHFINDING_CONSTANTS.TIME_COST_SCALE_FACTOR * Math.min(trailBonus, options.roadBonus)
+    * getCostModel(options.costModel, options.activity).minimumCostPerKm();
+
+  return (nodeKey: string) => calculateDistance(graph.nodes.get(nodeKey)!.coordinate, goal) * costPerKm;
+}
+
+/**
+ * Route between two coordinates over the trail network graph.
+ * The legs from the start onto the network and from the network to the end are
+ * planned with the grid search.
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param trailNetwork Trail network to route over
+ * @param terrain Terrain for edge costs and access legs
+ * @param options Pathfinding options
+ * @param signal Aborts the access leg searches
+ * @returns Route, or null when start or end is far from the network, they are not connected
+ * or an access leg cannot be planned
+ */
+export async function findTrailGraphRoute(
+  start: Coordinate,
+  end: Coordinate,
+  trailNetwork: TrailNetwork,
+  terrain: TerrainModel,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  signal?: AbortSignal
+): Promise<TrailGraphRoute | null> {
+  const graph = buildTrailGraph(trailNetwork.trails, options, trailNetwork.landcover);
+  const startNode = findNearestGraphNode(graph, start, GRAPH_ROUTING_CONSTANTS.MAX_ACCESS_DISTANCE);
+  const endNode = findNearestGraphNode(graph, end, GRAPH_ROUTING_CONSTANTS.MAX_ACCESS_DISTANCE);
+  if (!startNode || !endNode || startNode.key === endNode.key) return null;
+
+  const { elevationAt } = terrain;
+  const path = findGraphPath(
+    graph,
+    startNode.key,
+    endNode.key,
+    createTerrainEdgeCost(graph, elevationAt, options, terrain.slopes),
+    createTerrainHeuristic(graph, endNode.key, options)
+  );
+  if (!path) return null;
+
+  const route = await joinGraphPath(start, end, path.coordinates, trailNetwork, terrain, options, signal);
+  if (!route) return null;
+  return { points: route.points, nodesExpanded: path.nodesExpanded + route.nodesExpanded };
+}
+
+/**
+ * Join a path over the trail graph to the exact start and end, planning the legs
+ * onto and off the network with the grid search
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param pathCoordinates Path over the trail graph, from near the start to near the end
+ * @param trailNetwork Trail network for the access leg searches
+ * @param terrain Terrain for elevations and access legs
+ * @param options Pathfinding options
+ * @param signal Aborts the access leg searches
+ * @returns Route with elevations and the grid nodes expanded by the access legs, or null when
+ * an access leg cannot be planned (a straight leg could cross a cliff, river or the grade limits)
+ */
+export async function joinGraphPath(
+  start: Coordinate,
+  end: Coordinate,
+  pathCoordinates: Coordinate[],
+  trailNetwork: TrailNetwork,
+  terrain: TerrainModel,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  signal?: AbortSignal
+): Promise<TrailGraphRoute | null> {
+  const { elevationAt } = terrain;
+  const withElevation = (coordinate: Coordinate): RoutePoint => ({
+    lat: coordinate.lat,
+    lng: coordinate.lng,
+    elevation: elevationAt(coordinate),
+  });
+
+  let nodesExpanded = 0;
+  const accessOptions = { ...options, maxIterations: Math.min(options.maxIterations, GRAPH_ROUTING_CONSTANTS.ACCESS_MAX_ITERATIONS) };
+  const findAccessLeg = async (from: RoutePoint, to: RoutePoint): Promise<RoutePoint[] | null> => {
+    if (isSameJoint(from, to)) return [from];
+    const accessSearch = await searchGrid(from, to, terrain, trailNetwork, accessOptions, { signal });
+    nodesExpanded += accessSearch.nodesExpanded;
+    return accessSearch.path;
+  };
+
+  const trailPoints = pathCoordinates.map(withElevation);
+  const accessLeg = await findAccessLeg(withElevation(start), trailPoints[0]);
+  if (!accessLeg) return null;
+  const exitLeg = await findAccessLeg(trailPoints[trailPoints.length - 1], withElevation(end));
+  if (!exitLeg) return null;
+
+  const route = [...accessLeg, ...trailPoints.slice(1), ...exitLeg.slice(1)];
+
+  return { points: route, nodesExpanded };
+}
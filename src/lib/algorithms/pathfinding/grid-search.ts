@@ -0,0 +1,158 @@
+import { Coordinate, RoutePoint, PathfindingNode } from '@/types/route';
+import { PathfindingOptions, PathfindingControl, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+import { TrailNetwork } from '@/lib/api/trails';
+import PriorityQueue from './data-structures/priority-queue';
+import { CoordinateIndex } from './data-structures/coordinate-index';
+import { TerrainModel } from './terrain/terrain-model';
+import { CONVERSION_CONSTANTS } from './terrain/terrain-analyzer';
+import { isMoveWithinGradeLimits } from './grade-limits';
+import { getAvalancheCostFactor } from './terrain/slope-raster';
+import {
+  PATHFINDING_CONSTANTS,
+  calculateHeuristic,
+  calculateMovementCost,
+  generateNeighbors,
+  reconstructPath
+} from './utilities';
+
+/**
+ * Constants for the grid search
+ */
+export const GRID_SEARCH_CONSTANTS = {
+  /** Iterations between progress reports, each followed by a yield to the event loop */
+  PROGRESS_INTERVAL: 50
+} as const;
+
+/**
+ * Let pending events, such as an abort, run before the search continues
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Outcome of a grid search
+ */
+export interface GridSearchResult {
+  /** Path ending exactly at the end coordinate, or null if the goal was not reached */
+  path: RoutePoint[] | null;
+  iterations: number;
+  nodesExpanded: number;
+}
+
+/**
+ * A* search over a synthetic 8-direction lat/lng grid, for terrain without trails
+ * @param start Start coordinate, with elevation
+ * @param end End coordinate, with elevation if known
+ * @param terrain Terrain giving neighbour elevation, the samples for the step size and the ground each move crosses
+ * @param trailNetwork Trail network used for trail/road cost benefits
+ * @param options Pathfinding options (maxIterations and cost factors)
+ * @param control Abort signal, checked between batches of iterations, and progress callback
+ * @returns Path (null if the goal was not reached) with iteration and expansion counts
+ */
+export async function searchGrid(
+  start: Coordinate,
+  end: Coordinate,
+  terrain: TerrainModel,
+  trailNetwork: TrailNetwork | undefined,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  control: PathfindingControl = {}
+): Promise<GridSearchResult> {
+  const openSet = new PriorityQueue();
+  const closedSet = new CoordinateIndex<Coordinate>(PATHFINDING_CONSTANTS.COORDINATE_TOLERANCE, coordinate => coordinate);
+
+  const startNode: PathfindingNode = {
+    coordinate: start,
+    gCost: 0,
+    hCost: calculateHeuristic(start, end),
+    fCost: 0,
+  };
+  startNode.fCost = startNode.gCost + startNode.hCost;
+
+  openSet.enqueue(startNode);
+
+  let iterations = 0;
+
+  while (!openSet.isEmpty() && iterations < options.maxIterations) {
+    if (iterations > 0 && iterations % GRID_SEARCH_CONSTANTS.PROGRESS_INTERVAL === 0) {
+      control.onProgress?.({ stage: 'searching', iterations, maxIterations: options.maxIterations });
+      await yieldToEventLoop();
+      control.signal?.throwIfAborted();
+    }
+    iterations++;
+
+    const current = openSet.dequeue();
+    if (!current) break;
+
+    if (calculateDistance(current.coordinate, end) < PATHFINDING_CONSTANTS.GOAL_DISTANCE_THRESHOLD) {
+      const path = reconstructPath(current);
+      // Ensure the final point is the exact end coordinate
+      if (current.coordinate.lat !== end.lat || current.coordinate.lng !== end.lng) {
+        path.push({ ...end, elevation: current.coordinate.elevation || end.elevation || 0 });
+      }
+      return { path, iterations, nodesExpanded: closedSet.size };
+    }
+
+    closedSet.add(current.coordinate);
+
+    const neighbors = generateNeighbors(
+      current.coordinate,
+      terrain.samplesNear(current.coordinate, CONVERSION_CONSTANTS.NEARBY_POINT_THRESHOLD)
+    );
+    // Grid steps rarely land on the end itself, so step onto it once it is within a step
+    const stepDistance = Math.max(...neighbors.map(neighbor => calculateDistance(current.coordinate, neighbor)));
+    if (calculateDistance(current.coordinate, end) <= stepDistance
+      && !neighbors.some(neighbor => calculateDistance(neighbor, end) < PATHFINDING_CONSTANTS.GOAL_DISTANCE_THRESHOLD)) {
+      neighbors.push({ lat: end.lat, lng: end.lng, elevation: current.coordinate.elevation });
+    }
+
+    for (const neighbor of neighbors) {
+      if (closedSet.has(neighbor)) {
+        continue;
+      }
+
+      neighbor.elevation = terrain.elevationAt(neighbor);
+
+      if (!isMoveWithinGradeLimits(current.coordinate, neighbor, terrain.elevationAt, options)) {
+        continue;
+      }
+
+      const avalancheFactor = getAvalancheCostFactor(current.coordinate, neighbor, terrain.slopes, options.winterMode);
+      if (avalancheFactor === Infinity) {
+        // The move crosses avalanche terrain in barrier winter mode
+        continue;
+      }
+
+      const surface = terrain.surfaceAt?.({
+        lat: (current.coordinate.lat + neighbor.lat) / 2,
+        lng: (current.coordinate.lng + neighbor.lng) / 2,
+      });
+      const gCost = current.gCost + calculateMovementCost(current.coordinate, neighbor, trailNetwork, options, surface) * avalancheFactor;
+      if (gCost === Infinity) {
+        // The move enters a barrier avoid area
+        continue;
+      }
+
+      // The index answers any node within tolerance, which may be a different grid point
+      const queuedNode = openSet.find(neighbor);
+      if (queuedNode && queuedNode.coordinate.lat === neighbor.lat && queuedNode.coordinate.lng === neighbor.lng) {
+        // A cheaper way to a queued node replaces its parent
+        openSet.decreaseKey(queuedNode, gCost, current);
+      } else {
+        const hCost = calculateHeuristic(neighbor, end);
+        const neighborNode: PathfindingNode = {
+          coordinate: neighbor,
+          gCost,
+          hCost,
+          fCost: gCost + hCost,
+          parent: current,
+        };
+
+        openSet.enqueue(neighborNode);
+      }
+    }
+  }
+
+  return { path: null, iterations, nodesExpanded: closedSet.size };
+}
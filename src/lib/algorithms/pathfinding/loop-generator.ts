@@ -0,0 +1,173 @@
+import { Coordinate, LoopRoute } from '@/types/route';
+import { ActivityId, LoopTarget, PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDestination } from '@/lib/utils';
+import { TrailNetwork } from '@/lib/api/trails';
+import { getActivityProfile } from './activity-profiles';
+import { buildTrailGraph, findNearestGraphNode, findGraphPath, TrailGraphEdge } from './trail-graph';
+import { isSameJoint } from './route-legs';
+import { createTerrainEdgeCost } from './graph-router';
+import { TerrainModel } from './terrain/terrain-model';
+
+/**
+ * Constants for round-trip loop generation
+ */
+export const LOOP_CONSTANTS = {
+  /** Number of directions explored for candidate loops */
+  CANDIDATE_BEARINGS: 8,
+  /** Angle in degrees between the two turning points of a loop */
+  TURN_ANGLE: 60,
+  /** Trails are roughly this much longer than the straight line they cover */
+  TRAIL_TORTUOSITY: 1.3,
+  /** Cost multiplier for re-using a trail edge already in the loop */
+  REUSE_PENALTY: 5,
+  /** Candidates sharing more than this share of edges are considered duplicates */
+  DUPLICATE_OVERLAP: 0.8,
+  /** Number of loops returned by default */
+  MAX_RESULTS: 3,
+  /** Weight of the relative movement cost when ranking loops */
+  COST_WEIGHT: 0.25,
+  /** Extra trail-data padding around the loop radius in km */
+  BBOX_MARGIN: 0.5
+} as const;
+
+/**
+ * Loop geometry found on the trail graph, before elevation and cost analysis
+ */
+export interface LoopCandidate {
+  coordinates: Coordinate[];
+  distance: number;        // km
+  reusedDistance: number;  // km
+  edgeIds: string[];
+}
+
+/**
+ * Resolve the loop target to a distance in km.
+ * Durations are converted using the activity's flat-ground speed.
+ */
+export function resolveTargetDistance(target: LoopTarget, activity?: ActivityId): number {
+  if (target.distance && target.distance > 0) return target.distance;
+  if (target.duration && target.duration > 0) return target.duration * getActivityProfile(activity).speed(0);
+  throw new Error('Loop target requires a positive distance or duration');
+}
+
+/**
+ * Straight-line distance from the start to the loop's turning points
+ */
+export function calculateLoopRadius(targetDistance: number): number {
+  return targetDistance / (3 * LOOP_CONSTANTS.TRAIL_TORTUOSITY);
+}
+
+/**
+ * Generate circular routes over the trail network that start and end at the same point.
+ * Each candidate is a triangle start → A → B → start, with A and B placed in a
+ * different direction per candidate. Edges cost what they cost a route over the trail
+ * graph, and edges already used by the loop are penalised so the way back prefers
+ * different trails.
+ * @param start Start and finish coordinate
+ * @param targetDistance Target loop length in km
+ * @param trailNetwork Trails and land cover to build loops over
+ * @param terrain Terrain for edge costs
+ * @param options Pathfinding options
+ * @returns Distinct loop candidates, unranked
+ */
+export function generateLoopCandidates(
+  start: Coordinate,
+  targetDistance: number,
+  trailNetwork: Pick<TrailNetwork, 'trails' | 'landcover'>,
+  terrain: TerrainModel,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS
+): LoopCandidate[] {
+  const graph = buildTrailGraph(trailNetwork.trails, options, trailNetwork.landcover);
+  const startNode = findNearestGraphNode(graph, start);
+  if (!startNode) return [];
+
+  const radius = calculateLoopRadius(targetDistance);
+  const terrainCost = createTerrainEdgeCost(graph, terrain.elevationAt, options, terrain.slopes);
+  const candidates: LoopCandidate[] = [];
+
+  for (let i = 0; i < LOOP_CONSTANTS.CANDIDATE_BEARINGS; i++) {
+    const bearing = (i * 360) / LOOP_CONSTANTS.CANDIDATE_BEARINGS;
+    const firstTurn = findNearestGraphNode(graph, calculateDestination(start, bearing, radius), radius / 2);
+    const secondTurn = findNearestGraphNode(graph, calculateDestination(start, bearing + LOOP_CONSTANTS.TURN_ANGLE, radius), radius / 2);
+    if (!firstTurn || !secondTurn) continue;
+
+    const turnKeys = [startNode.key, firstTurn.key, secondTurn.key];
+    if (new Set(turnKeys).size < turnKeys.length) continue;
+
+    const usedEdges = new Set<string>();
+    const reuseAwareCost = (edge: TrailGraphEdge, fromKey: string) =>
+      terrainCost(edge, fromKey) * (usedEdges.has(edge.id) ? LOOP_CONSTANTS.REUSE_PENALTY : 1);
+
+    const coordinates: Coordinate[] = [];
+    const edgeIds: string[] = [];
+    let distance = 0;
+    let reusedDistance = 0;
+    let complete = true;
+
+    for (const [from, to] of [[startNode.key, firstTurn.key], [firstTurn.key, secondTurn.key], [secondTurn.key, startNode.key]]) {
+      const path = findGraphPath(graph, from, to, reuseAwareCost);
+      if (!path) {
+        complete = false;
+        break;
+      }
+
+      for (const edge of path.edges) {
+        if (usedEdges.has(edge.id)) reusedDistance += edge.distance;
+        distance += edge.distance;
+        edgeIds.push(edge.id);
+      }
+      path.edges.forEach(edge => usedEdges.add(edge.id));
+      coordinates.push(...(coordinates.length > 0 ? path.coordinates.slice(1) : path.coordinates));
+    }
+
+    if (!complete || isDuplicateLoop(edgeIds, candidates)) continue;
+
+    // Walk from the exact start point onto the network and back
+    if (!isSameJoint(start, startNode.coordinate)) {
+      coordinates.unshift(start);
+      coordinates.push(start);
+    }
+
+    candidates.push({ coordinates, distance, reusedDistance, edgeIds });
+  }
+
+  return candidates;
+}
+
+/**
+ * Check whether a loop mostly repeats an existing candidate
+ */
+export function isDuplicateLoop(edgeIds: string[], candidates: LoopCandidate[]): boolean {
+  const edges = new Set(edgeIds);
+  return candidates.some(candidate => {
+    const shared = candidate.edgeIds.filter(id => edges.has(id)).length;
+    return shared / Math.max(candidate.edgeIds.length, edges.size) > LOOP_CONSTANTS.DUPLICATE_OVERLAP;
+  });
+}
+
+/**
+ * Rank loops by closeness to the target, then by movement cost.
+ * Loops are compared on duration when the target is a duration, on distance otherwise.
+ * @param analysedRoutes Analysed loop routes (targetDeviation is recalculated)
+ * @param target Loop target
+ * @returns Routes sorted best first, without impassable loops (those with a non-finite cost)
+ */
+export function rankLoopRoutes(analysedRoutes: LoopRoute[], target: LoopTarget): LoopRoute[] {
+  const routes = analysedRoutes.filter(route => Number.isFinite(route.cost));
+  if (routes.length === 0) return [];
+
+  const byDuration = !target.distance && !!target.duration;
+  const cheapestCostPerKm = Math.min(...routes.map(route => route.cost / Math.max(route.distance, 0.001)));
+
+  const scored = routes.map(route => {
+    const targetDeviation = byDuration
+      ? Math.abs(route.estimatedDuration - target.duration!) / target.duration!
+      : Math.abs(route.distance - resolveTargetDistance(target)) / resolveTargetDistance(target);
+    const costPerKm = route.cost / Math.max(route.distance, 0.001);
+    const relativeCost = cheapestCostPerKm > 0 ? costPerKm / cheapestCostPerKm - 1 : 0;
+
+    return { route: { ...route, targetDeviation }, score: targetDeviation + relativeCost * LOOP_CONSTANTS.COST_WEIGHT };
+  });
+
+  return scored.sort((a, b) => a.score - b.score).map(entry => entry.route);
+}
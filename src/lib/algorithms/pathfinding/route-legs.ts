@@ -0,0 +1,55 @@
+import { Coordinate, RoutePoint, RouteLeg } from '@/types/route';
+import { calculateElevationGain, calculateElevationLoss, calculatePathDistance } from '@/lib/utils';
+import { PATHFINDING_CONSTANTS } from './utilities';
+
+/**
+ * Constants for multi-waypoint routing
+ */
+export const ROUTE_LEG_CONSTANTS = {
+  /** Maximum number of intermediate via-points per route */
+  MAX_VIA_POINTS: 8
+} as const;
+
+/**
+ * Check whether two coordinates describe the same route joint
+ */
+export function isSameJoint(a: Coordinate, b: Coordinate): boolean {
+  return Math.abs(a.lat - b.lat) < PATHFINDING_CONSTANTS.COORDINATE_TOLERANCE &&
+         Math.abs(a.lng - b.lng) < PATHFINDING_CONSTANTS.COORDINATE_TOLERANCE;
+}
+
+/**
+ * Stitch independently planned legs into a single route with per-leg statistics
+ * @param waypoints Ordered waypoints (start, via-points..., end) the legs connect
+ * @param legPoints Planned points for each leg, in waypoint order
+ * @returns Stitched route points without duplicated joints, plus one RouteLeg per leg
+ */
+export function stitchRouteLegs(waypoints: Coordinate[], legPoints: RoutePoint[][]): { points: RoutePoint[]; legs: RouteLeg[] } {
+  if (legPoints.length !== waypoints.length - 1) {
+    throw new Error(`Expected ${waypoints.length - 1} legs for ${waypoints.length} waypoints, got ${legPoints.length}`);
+  }
+
+  const points: RoutePoint[] = [];
+  const legs: RouteLeg[] = [];
+
+  legPoints.forEach((legRoute, index) => {
+    // The previous leg already ends at this leg's first point, so don't repeat it
+    const startIndex = points.length > 0 && legRoute.length > 0 && isSameJoint(points[points.length - 1], legRoute[0])
+      ? points.length - 1
+      : points.length;
+    const newPoints = startIndex < points.length ? legRoute.slice(1) : legRoute;
+    points.push(...newPoints);
+
+    legs.push({
+      start: waypoints[index],
+      end: waypoints[index + 1],
+      startIndex,
+      endIndex: points.length - 1,
+      distance: calculatePathDistance(legRoute),
+      elevationGain: calculateElevationGain(legRoute),
+      elevationLoss: calculateElevationLoss(legRoute),
+    });
+  });
+
+  return { points, legs };
+}
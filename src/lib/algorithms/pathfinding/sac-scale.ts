@@ -0,0 +1,161 @@
+import { Coordinate, Route } from '@/types/route';
+import { PathfindingOptions, SacScale, SacScaleReport, SacScaleSection } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+import { TrailSegment } from '@/lib/api/trails';
+import { isAlongTrail } from './trail-detection';
+
+/**
+ * SAC grades from easiest to hardest
+ */
+export const SAC_SCALE_GRADES: readonly SacScale[] = ['T1', 'T2', 'T3', 'T4', 'T5', 'T6'];
+
+/**
+ * Trail cost multiplier per SAC grade: harder trails are slower and riskier than their gradient suggests
+ */
+export const DEFAULT_SAC_SCALE_MULTIPLIERS: Readonly<Record<SacScale, number>> = {
+  T1: 1.0,
+  T2: 1.1,
+  T3: 1.3,
+  T4: 1.8,
+  T5: 2.5,
+  T6: 4.0,
+};
+
+const OSM_SAC_SCALES: Record<string, SacScale> = {
+  hiking: 'T1',
+  mountain_hiking: 'T2',
+  demanding_mountain_hiking: 'T3',
+  alpine_hiking: 'T4',
+  demanding_alpine_hiking: 'T5',
+  difficult_alpine_hiking: 'T6',
+};
+
+const SAC_SCALE_DIFFICULTIES: Record<SacScale, Route['difficulty']> = {
+  T1: 'easy',
+  T2: 'moderate',
+  T3: 'hard',
+  T4: 'hard',
+  T5: 'extreme',
+  T6: 'extreme',
+};
+
+type SacScaleOptions = Pick<PathfindingOptions, 'maxSacScale' | 'sacScaleMultipliers'>;
+
+/**
+ * Parse an OSM sac_scale value, either the tag value or the T1-T6 grade
+ * @param value OSM sac_scale tag
+ * @returns SAC grade, or undefined for missing and unknown values
+ */
+export function parseSacScale(value?: string): SacScale | undefined {
+  if (!value) return undefined;
+  if ((SAC_SCALE_GRADES as readonly string[]).includes(value)) return value as SacScale;
+  return OSM_SAC_SCALES[value];
+}
+
+/**
+ * Check whether a SAC grade is harder than another
+ */
+export function isHarderSacScale(grade: SacScale, than: SacScale): boolean {
+  return SAC_SCALE_GRADES.indexOf(grade) > SAC_SCALE_GRADES.indexOf(than);
+}
+
+/**
+ * Cost multiplier for following a trail, from its SAC grade
+ * @param trail Trail segment
+ * @param options Pathfinding options with the SAC grade limit and multipliers
+ * @returns Infinity above the options' maximum grade, otherwise the grade's multiplier (1 for ungraded trails)
+ */
+export function getSacScaleCostFactor(trail: TrailSegment, options: SacScaleOptions): number {
+  const grade = parseSacScale(trail.sac_scale);
+  if (!grade) return 1;
+  if (options.maxSacScale && isHarderSacScale(grade, options.maxSacScale)) return Infinity;
+  return options.sacScaleMultipliers?.[grade] ?? DEFAULT_SAC_SCALE_MULTIPLIERS[grade];
+}
+
+/**
+ * Find the SAC-graded trails a finished route follows and its hardest stretch
+ * @param points Route points
+ * @param trails Trail segments
+ * @param maxSacScale Grade limit the route was planned with
+ * @returns SAC report, or null when the route follows no graded trail
+ */
+export function createSacScaleReport(points: Coordinate[], trails: TrailSegment[], maxSacScale?: SacScale): SacScaleReport | null {
+  const graded = trails
+    .filter(trail => !trail.isWater)
+    .map(trail => ({ trail, grade: parseSacScale(trail.sac_scale) }))
+    .filter((entry): entry is { trail: TrailSegment; grade: SacScale } => entry.grade !== undefined);
+  if (graded.length === 0) return null;
+
+  const sections: SacScaleSection[] = [];
+  let distance = 0;
+  let previous: SacScaleSection | undefined;
+  for (let i = 1; i < points.length; i++) {
+    const length = calculateDistance(points[i - 1], points[i]);
+    // Where graded trails run side by side the route is taken to follow the easiest
+    let easiest: { trail: TrailSegment; grade: SacScale } | undefined;
+    for (const entry of graded) {
+      if (isAlongTrail(points[i - 1], points[i], entry.trail) && (!easiest || isHarderSacScale(easiest.grade, entry.grade))) {
+        easiest = entry;
+      }
+    }
+
+    if (!easiest) {
+      previous = undefined;
+    } else if (previous && previous.grade === easiest.grade && previous.trailName === easiest.trail.name) {
+      // Consecutive segments on a trail of one grade form one section
+      previous.endDistance = distance + length;
+    } else {
+      previous = { startDistance: distance, endDistance: distance + length, grade: easiest.grade };
+      if (easiest.trail.name) previous.trailName = easiest.trail.name;
+      sections.push(previous);
+    }
+    distance += length;
+  }
+  if (sections.length === 0) return null;
+
+  const hardestSection = sections.reduce((hardest, section) => {
+    if (isHarderSacScale(section.grade, hardest.grade)) return section;
+    if (section.grade === hardest.grade && section.endDistance - section.startDistance > hardest.endDistance - hardest.startDistance) {
+      return section;
+    }
+    return hardest;
+  });
+
+  const report: SacScaleReport = { hardestGrade: hardestSection.grade, hardestSection };
+  if (maxSacScale) report.maxSacScale = maxSacScale;
+  return report;
+}
+
+/**
+ * Route difficulty rating of a SAC grade
+ */
+export function getSacScaleDifficulty(grade: SacScale): Route['difficulty'] {
+  return SAC_SCALE_DIFFICULTIES[grade];
+}
+
+/**
+ * Combine the SAC reports of consecutive route legs into one for the whole route
+ * @param reports Report of each leg, undefined for legs on no graded trail
+ * @param legDistances Length of each leg in km, to shift distance markers onto the whole route
+ * @returns Report with the hardest section of any leg, or null when no leg follows a graded trail
+ */
+export function combineSacScaleReports(reports: (SacScaleReport | undefined)[], legDistances: number[]): SacScaleReport | null {
+  let combined: SacScaleReport | null = null;
+  let offset = 0;
+  reports.forEach((report, index) => {
+    if (report) {
+      const section = report.hardestSection;
+      const length = section.endDistance - section.startDistance;
+      const hardest = combined?.hardestSection;
+      if (!hardest || isHarderSacScale(section.grade, hardest.grade)
+        || (section.grade === hardest.grade && length > hardest.endDistance - hardest.startDistance)) {
+        combined = {
+          ...report,
+          hardestSection: { ...section, startDistance: section.startDistance + offset, endDistance: section.endDistance + offset },
+        };
+      }
+    }
+    offset += legDistances[index] ?? 0;
+  });
+  return combined;
+}
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for land cover, cliffs and glaciers
+ */
+
+import {
+  countTerrainBarrierCrossings,
+  crossesCliff,
+  getLandcoverAt,
+  isMoveOnGlacier
+} from '../landcover';
+import { LandcoverArea, TrailSegment } from '@/lib/api/trails';
+import { Coordinate } from '@/types/route';
+
+describe('land cover', () => {
+  const square = (minLat: number, minLng: number, size: number): Coordinate[] => [
+    { lat: minLat, lng: minLng },
+    { lat: minLat, lng: minLng + size },
+    { lat: minLat + size, lng: minLng + size },
+    { lat: minLat + size, lng: minLng },
+    { lat: minLat, lng: minLng },
+  ];
+
+  // A forest with a clearing, a scree field overlapping its east edge and a glacier to the north
+  const forest: LandcoverArea = {
+    id: 'forest',
+    cover: 'wood',
+    coordinates: square(46.0, 8.0, 0.01),
+    innerRings: [square(46.004, 8.004, 0.002)],
+  };
+  const scree: LandcoverArea = { id: 'scree', cover: 'scree', coordinates: square(46.0, 8.008, 0.01) };
+  const glacier: LandcoverArea = { id: 'glacier', cover: 'glacier', coordinates: square(46.02, 8.0, 0.01) };
+  const landcover = [forest, scree, glacier];
+
+  // A cliff running east-west south of the glacier
+  const cliff: Coordinate[] = [{ lat: 46.015, lng: 7.99 }, { lat: 46.015, lng: 8.02 }];
+
+  describe('getLandcoverAt', () => {
+    it('should find the cover of the area a coordinate lies in', () => {
+      expect(getLandcoverAt({ lat: 46.002, lng: 8.002 }, landcover)).toBe('wood');
+      expect(getLandcoverAt({ lat: 46.025, lng: 8.005 }, landcover)).toBe('glacier');
+    });
+
+    it('should leave out holes and coordinates outside every area', () => {
+      expect(getLandcoverAt({ lat: 46.005, lng: 8.005 }, landcover)).toBeUndefined();
+      expect(getLandcoverAt({ lat: 45.99, lng: 8.005 }, landcover)).toBeUndefined();
+      expect(getLandcoverAt({ lat: 46.005, lng: 8.005 })).toBeUndefined();
+    });
+
+    it('should take the hardest cover where areas overlap', () => {
+      expect(getLandcoverAt({ lat: 46.005, lng: 8.009 }, landcover)).toBe('scree');
+      expect(getLandcoverAt({ lat: 46.005, lng: 8.009 }, [scree, forest])).toBe('scree');
+    });
+  });
+
+  describe('crossesCliff', () => {
+    it('should detect moves over a cliff line', () => {
+      expect(crossesCliff({ lat: 46.01, lng: 8.005 }, { lat: 46.02, lng: 8.005 }, [cliff])).toBe(true);
+    });
+
+    it('should leave moves beside or beyond the cliff alone', () => {
+      expect(crossesCliff({ lat: 46.01, lng: 8.005 }, { lat: 46.012, lng: 8.005 }, [cliff])).toBe(false);
+      expect(crossesCliff({ lat: 46.01, lng: 8.03 }, { lat: 46.02, lng: 8.03 }, [cliff])).toBe(false);
+      expect(crossesCliff({ lat: 46.01, lng: 8.005 }, { lat: 46.02, lng: 8.005 })).toBe(false);
+    });
+  });
+
+  describe('isMoveOnGlacier', () => {
+    it('should judge a move by its midpoint', () => {
+      expect(isMoveOnGlacier({ lat: 46.021, lng: 8.002 }, { lat: 46.029, lng: 8.008 }, landcover)).toBe(true);
+      expect(isMoveOnGlacier({ lat: 46.018, lng: 8.005 }, { lat: 46.021, lng: 8.005 }, landcover)).toBe(false);
+      expect(isMoveOnGlacier({ lat: 46.021, lng: 8.002 }, { lat: 46.029, lng: 8.008 })).toBe(false);
+    });
+  });
+
+  describe('countTerrainBarrierCrossings', () => {
+    // North from the forest, over the cliff and onto the glacier
+    const points: Coordinate[] = [
+      { lat: 46.002, lng: 8.005 },
+      { lat: 46.012, lng: 8.005 },
+      { lat: 46.018, lng: 8.005 },
+      { lat: 46.022, lng: 8.005 },
+      { lat: 46.028, lng: 8.005 },
+    ];
+
+    it('should count moves on glaciers and over cliffs', () => {
+      expect(countTerrainBarrierCrossings(points, { trails: [], landcover, cliffs: [cliff] })).toEqual({ glacier: 1, cliff: 1 });
+    });
+
+    it('should leave out glaciers when they are allowed', () => {
+      expect(countTerrainBarrierCrossings(points, { trails: [], landcover, cliffs: [cliff] }, true)).toEqual({ glacier: 0, cliff: 1 });
+    });
+
+    it('should leave out cliffs where a trail leads through them', () => {
+      const passage: TrailSegment = {
+        id: 'passage',
+        coordinates: [{ lat: 46.012, lng: 8.005 }, { lat: 46.018, lng: 8.005 }],
+        highway: 'path',
+      };
+      expect(countTerrainBarrierCrossings(points, { trails: [passage], landcover, cliffs: [cliff] }).cliff).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the slope-angle raster and avalanche terrain classification
+ */
+
+import {
+  AVALANCHE_CONSTANTS,
+  createAvalancheReport,
+  createSlopeRaster,
+  getAvalancheCostFactor
+} from '../slope-raster';
+import { getLatticeCoordinate, planElevationGrid } from '@/lib/api/elevation-grid';
+import { calculateDistance } from '@/lib/utils';
+
+describe('slope raster', () => {
+  // A flat valley floor at 1000 m meeting a north-facing wall of the given angle at 46.02°N
+  const foot = 46.02;
+  const layout = planElevationGrid({ minLat: 46.0, maxLat: 46.04, minLng: 8.0, maxLng: 8.02 }, 0.001);
+  const rampGrid = (angle: number) => {
+    const elevations: number[] = [];
+    for (let row = 0; row < layout.rows; row++) {
+      for (let column = 0; column < layout.columns; column++) {
+        const node = getLatticeCoordinate(layout, row, column);
+        const rise = node.lat > foot ? calculateDistance({ lat: foot, lng: node.lng }, node) * 1000 : 0;
+        elevations.push(1000 + rise * Math.tan(angle * Math.PI / 180));
+      }
+    }
+    return { ...layout, elevations, cacheTime: 0 };
+  };
+  const slopes = createSlopeRaster(rampGrid(35));
+
+  const wall = { lat: 46.03, lng: 8.01 };
+  const belowWall = { lat: 46.017, lng: 8.01 };
+  const valley = { lat: 46.003, lng: 8.01 };
+
+  describe('createSlopeRaster', () => {
+    it('should measure slope angles from the elevation grid', () => {
+      expect(slopes.slopeAngleAt(wall)).toBeCloseTo(35, 0);
+      expect(slopes.slopeAngleAt(valley)).toBeCloseTo(0);
+    });
+
+    it('should mark release-angle slopes and the runout zone below them', () => {
+      expect(slopes.exposureAt(wall)).toBe('release');
+      expect(slopes.exposureAt(belowWall)).toBe('runout');
+      expect(slopes.exposureAt(valley)).toBe('none');
+    });
+
+    it('should not release on slopes steeper than the release band', () => {
+      const cliff = createSlopeRaster(rampGrid(55));
+
+      expect(cliff.slopeAngleAt(wall)).toBeGreaterThan(AVALANCHE_CONSTANTS.RELEASE_MAX_ANGLE);
+      expect(cliff.exposureAt(wall)).not.toBe('release');
+    });
+  });
+
+  describe('getAvalancheCostFactor', () => {
+    it('should leave moves alone outside winter mode or avalanche terrain', () => {
+      expect(getAvalancheCostFactor(wall, { lat: 46.031, lng: 8.01 }, slopes, undefined)).toBe(1);
+      expect(getAvalancheCostFactor(wall, { lat: 46.031, lng: 8.01 }, undefined, 'barrier')).toBe(1);
+      expect(getAvalancheCostFactor(valley, { lat: 46.004, lng: 8.01 }, slopes, 'barrier')).toBe(1);
+    });
+
+    it('should penalise release terrain more than runout zones', () => {
+      expect(getAvalancheCostFactor(wall, { lat: 46.031, lng: 8.01 }, slopes, 'penalty')).toBe(AVALANCHE_CONSTANTS.RELEASE_PENALTY);
+      expect(getAvalancheCostFactor(belowWall, { lat: 46.016, lng: 8.01 }, slopes, 'penalty')).toBe(AVALANCHE_CONSTANTS.RUNOUT_PENALTY);
+    });
+
+    it('should forbid avalanche terrain in barrier mode', () => {
+      expect(getAvalancheCostFactor(belowWall, { lat: 46.016, lng: 8.01 }, slopes, 'barrier')).toBe(Infinity);
+    });
+  });
+
+  describe('createAvalancheReport', () => {
+    const route = [valley, { lat: 46.012, lng: 8.01 }, belowWall, wall];
+
+    it('should classify every segment', () => {
+      const report = createAvalancheReport(route, slopes);
+
+      expect(report.segments).toEqual(['simple', 'challenging', 'complex']);
+      expect(report.terrainClass).toBe('complex');
+    });
+
+    it('should merge consecutive steep segments into sections with distance markers', () => {
+      const { sections } = createAvalancheReport(route, slopes);
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0].startDistance).toBeCloseTo(calculateDistance(route[0], route[1]));
+      expect(sections[0].endDistance).toBeCloseTo(calculateDistance(valley, wall));
+      expect(sections[0].terrainClass).toBe('complex');
+      expect(sections[0].maxSlopeAngle).toBeCloseTo(35, 0);
+    });
+
+    it('should report a valley route as simple', () => {
+      const report = createAvalancheReport([valley, { lat: 46.003, lng: 8.015 }], slopes);
+
+      expect(report).toEqual({ terrainClass: 'simple', segments: ['simple'], sections: [] });
+    });
+  });
+});
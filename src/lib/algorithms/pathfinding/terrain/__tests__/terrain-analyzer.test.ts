@@ -11,7 +11,12 @@ import {
   isVerySteepSlope,
   calculateHikingSpeed,
   calculateSegmentTime,
+  calculateMinettiEnergyCost,
+  estimateEnergyExpenditure,
   calculateSlopeVariability,
+  analyzeTerrainSurface,
+  calculateRoughnessVariability,
+  calculateCrossSlope,
   detectTerrainType,
   getTerrainMultiplier,
   analyzeTerrainBetweenPoints,
@@ -23,8 +28,10 @@ import {
   SLOPE_THRESHOLDS,
   SLOPE_VARIABILITY_THRESHOLDS,
   TOBLER_CONSTANTS,
+  MINETTI_CONSTANTS,
   TERRAIN_COMPLEXITY,
-  CONVERSION_CONSTANTS
+  CONVERSION_CONSTANTS,
+  SURFACE_CONSTANTS
 } from '../terrain-analyzer';
 
 import { Coordinate } from '@/types/route';
@@ -270,6 +277,184 @@ describe('calculateSegmentTime', () => {
   });
 });
 
+describe('calculateMinettiEnergyCost', () => {
+  it('costs 2.5 J/kg/m on flat ground', () => {
+    expect(calculateMinettiEnergyCost(0)).toBeCloseTo(2.5, 5);
+  });
+
+  it('costs more uphill than on flat ground or a gentle descent', () => {
+    expect(calculateMinettiEnergyCost(0.2)).toBeCloseTo(7.88, 1);
+    expect(calculateMinettiEnergyCost(-0.1)).toBeLessThan(calculateMinettiEnergyCost(0));
+    expect(calculateMinettiEnergyCost(-0.4)).toBeGreaterThan(calculateMinettiEnergyCost(-0.1));
+  });
+
+  it('clamps gradients beyond the measured range', () => {
+    expect(calculateMinettiEnergyCost(1)).toBe(calculateMinettiEnergyCost(MINETTI_CONSTANTS.MAX_GRADIENT));
+    expect(calculateMinettiEnergyCost(-1)).toBe(calculateMinettiEnergyCost(-MINETTI_CONSTANTS.MAX_GRADIENT));
+  });
+});
+
+describe('estimateEnergyExpenditure', () => {
+  const flat: Coordinate[] = [
+    { lat: 46.0, lng: 7.0, elevation: 1000 },
+    { lat: 46.009, lng: 7.0, elevation: 1000 },
+  ];
+
+  it('estimates kcal from distance and carried mass', () => {
+    const distanceMeters = 0.009 * 111 * 1000; // From the mocked distance
+    const kcal = estimateEnergyExpenditure(flat, 75);
+
+    expect(kcal).toBeCloseTo(2.5 * distanceMeters * 75 / MINETTI_CONSTANTS.JOULES_PER_KCAL, 3);
+  });
+
+  it('needs more energy uphill and with a heavier pack', () => {
+    const uphill = [flat[0], { ...flat[1], elevation: 1200 }];
+
+    expect(estimateEnergyExpenditure(uphill, 75)).toBeGreaterThan(estimateEnergyExpenditure(flat, 75));
+    expect(estimateEnergyExpenditure(flat, 85)).toBeGreaterThan(estimateEnergyExpenditure(flat, 75));
+  });
+
+  it('needs no energy for a single point', () => {
+    expect(estimateEnergyExpenditure([flat[0]], 75)).toBe(0);
+  });
+});
+
+describe('terrain surface analysis', () => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const mockCalculateDistance = require('@/lib/utils').calculateDistance;
+  const METERS_PER_DEGREE = 111000;
+  const center: Coordinate = { lat: 46.0, lng: 8.0 };
+
+  // Synthetic DEM: a 5x5 lattice around a point given in meters east and north of the
+  // center, with elevation from the east and north offsets of each node
+  const dem = (elevation: (east: number, north: number) => number, east = 0, north = 0, spacing = 20): Coordinate[] => {
+    const metersPerDegreeLng = METERS_PER_DEGREE * Math.cos(center.lat * Math.PI / 180);
+    const nodes: Coordinate[] = [];
+    for (let row = -2; row <= 2; row++) {
+      for (let column = -2; column <= 2; column++) {
+        const x = east + column * spacing;
+        const y = north + row * spacing;
+        nodes.push({ lat: center.lat + y / METERS_PER_DEGREE, lng: center.lng + x / metersPerDegreeLng, elevation: elevation(x, y) });
+      }
+    }
+    return nodes;
+  };
+  const at = (nodes: Coordinate[]) => nodes[12];
+
+  const plane = (east: number, north: number) => 1000 + 0.2 * north;
+  const cone = (east: number, north: number) => 2000 - 0.5 * Math.hypot(east, north);
+  const ridge = (east: number) => 1500 - 0.4 * Math.abs(east);
+
+  beforeEach(() => {
+    mockCalculateDistance.mockImplementation((from: Coordinate, to: Coordinate) =>
+      Math.sqrt((to.lat - from.lat) ** 2 + (to.lng - from.lng) ** 2) * METERS_PER_DEGREE / 1000);
+  });
+
+  describe('analyzeTerrainSurface', () => {
+    it('finds the slope and aspect of a plane, with no roughness', () => {
+      const nodes = dem(plane);
+      const surface = analyzeTerrainSurface(at(nodes), nodes)!;
+
+      expect(surface.slope).toBeCloseTo(0.2, 5);
+      expect(surface.aspect).toBeCloseTo(180, 5); // Rising northward, so facing south
+      expect(surface.roughness).toBeCloseTo(0, 5);
+    });
+
+    it('finds the flanks of a cone facing away from its summit', () => {
+      const flanks = [[100, 0, 90], [0, -100, 180], [-100, 0, 270]].map(([east, north, aspect]) => {
+        const nodes = dem(cone, east, north);
+        return { surface: analyzeTerrainSurface(at(nodes), nodes)!, aspect };
+      });
+
+      for (const { surface, aspect } of flanks) {
+        expect(surface.slope).toBeCloseTo(0.5, 1);
+        expect(surface.aspect).toBeCloseTo(aspect, 5);
+        expect(surface.roughness).toBeLessThan(2); // Only the curve around the cone
+      }
+    });
+
+    it('finds the summit of a cone level but rough', () => {
+      const nodes = dem(cone);
+      const surface = analyzeTerrainSurface(at(nodes), nodes)!;
+
+      expect(surface.slope).toBeCloseTo(0, 5);
+      expect(surface.aspect).toBeUndefined();
+      expect(surface.roughness).toBeGreaterThan(5);
+    });
+
+    it('tells the crest of a ridge from its even flanks', () => {
+      const crestNodes = dem(ridge);
+      const flankNodes = dem(ridge, -100);
+      const crest = analyzeTerrainSurface(at(crestNodes), crestNodes)!;
+      const flank = analyzeTerrainSurface(at(flankNodes), flankNodes)!;
+
+      expect(crest.slope).toBeCloseTo(0, 5);
+      expect(crest.aspect).toBeUndefined();
+      expect(crest.roughness).toBeCloseTo(6, 0);
+      expect(flank.slope).toBeCloseTo(0.4, 5);
+      expect(flank.aspect).toBeCloseTo(270, 5);
+      expect(flank.roughness).toBeCloseTo(0, 5);
+    });
+
+    it('returns null for too few samples or samples in a line', () => {
+      const nodes = dem(plane);
+
+      expect(analyzeTerrainSurface(center, nodes.slice(0, SURFACE_CONSTANTS.MIN_SAMPLES - 1))).toBeNull();
+      expect(analyzeTerrainSurface(center, nodes.slice(0, 5))).toBeNull(); // One lattice row
+      expect(analyzeTerrainSurface(center, nodes.map(node => ({ lat: node.lat, lng: node.lng })))).toBeNull();
+    });
+  });
+
+  describe('calculateRoughnessVariability', () => {
+    it('scales roughness up to full variability', () => {
+      expect(calculateRoughnessVariability(0)).toBe(0);
+      expect(calculateRoughnessVariability(SURFACE_CONSTANTS.FULL_VARIABILITY_ROUGHNESS / 2)).toBeCloseTo(0.5);
+      expect(calculateRoughnessVariability(SURFACE_CONSTANTS.FULL_VARIABILITY_ROUGHNESS * 3)).toBe(1);
+    });
+  });
+
+  describe('calculateCrossSlope', () => {
+    const westFacing = { slope: 0.4, aspect: 270, roughness: 0 };
+
+    it('is the full slope when traversing and none along the fall line', () => {
+      expect(calculateCrossSlope(center, { lat: 46.001, lng: 8.0 }, westFacing)).toBeCloseTo(0.4, 5);
+      expect(calculateCrossSlope(center, { lat: 46.0, lng: 7.999 }, westFacing)).toBeCloseTo(0, 5);
+      expect(calculateCrossSlope(center, { lat: 46.001, lng: 8.001 }, westFacing)).toBeGreaterThan(0.2);
+    });
+
+    it('is zero on flat ground', () => {
+      expect(calculateCrossSlope(center, { lat: 46.001, lng: 8.0 }, { slope: 0, roughness: 0 })).toBe(0);
+    });
+  });
+
+  describe('analyzeTerrainBetweenPoints', () => {
+    it('classifies a level traverse of a steep, even slope as rock', () => {
+      const steepRidge = (east: number) => 1500 - 0.6 * Math.abs(east);
+      const nodes = dem(steepRidge, -100);
+      const from = at(nodes);
+      const to = { ...nodes[17], elevation: from.elevation }; // The next node north, on the same contour
+
+      const analysis = analyzeTerrainBetweenPoints(from, to, nodes);
+
+      expect(analysis.slope).toBe(0);
+      expect(analysis.terrainType).toBe(TerrainType.ROCK);
+      expect(analysis.aspect).toBeCloseTo(270, 5);
+      expect(analysis.roughness).toBeCloseTo(0, 5);
+      expect(analysis.slopeVariability).toBeCloseTo(0, 5);
+    });
+
+    it('classifies steep, rough ground as scree', () => {
+      const sharpRidge = (east: number) => 1500 - 0.9 * Math.abs(east);
+      const nodes = dem(sharpRidge, 0, 0, 50);
+
+      const analysis = analyzeTerrainBetweenPoints(nodes[11], nodes[12], nodes);
+
+      expect(analysis.roughness).toBeGreaterThan(SURFACE_CONSTANTS.FULL_VARIABILITY_ROUGHNESS / 2);
+      expect(analysis.terrainType).toBe(TerrainType.SCREE);
+    });
+  });
+});
+
 describe('calculateSlopeVariability', () => {
   it('estimates variability from slope magnitude', () => {
     const moderateSlope = 0.2;
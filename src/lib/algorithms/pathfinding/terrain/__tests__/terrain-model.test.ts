@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the terrain models read by the route searches
+ */
+
+import { createGridTerrain, createProfileTerrain } from '../terrain-model';
+import { getLatticeCoordinate, planElevationGrid } from '@/lib/api/elevation-grid';
+import { calculateDistance } from '@/lib/utils';
+import { Coordinate } from '@/types/route';
+
+describe('terrain model', () => {
+  describe('createProfileTerrain', () => {
+    const samples: Coordinate[] = [
+      { lat: 46.0, lng: 8.0, elevation: 1000 },
+      { lat: 46.0, lng: 8.02, elevation: 2000 },
+    ];
+
+    it('should answer with the nearest sample', () => {
+      const terrain = createProfileTerrain(samples);
+
+      expect(terrain.elevationAt({ lat: 46.0001, lng: 8.0201 })).toBe(2000);
+      expect(terrain.elevationAt({ lat: 45.9999, lng: 8.0001 })).toBe(1000);
+    });
+
+    it('should default to 0 without samples', () => {
+      expect(createProfileTerrain([]).elevationAt({ lat: 46.0, lng: 8.0 })).toBe(0);
+    });
+
+    it('should return the samples within the radius', () => {
+      expect(createProfileTerrain(samples).samplesNear({ lat: 46.0, lng: 8.001 }, 0.5)).toEqual([samples[0]]);
+    });
+  });
+
+  describe('createGridTerrain', () => {
+    // A cone peaking at 2000 m over the grid centre
+    const peak = { lat: 46.01, lng: 8.01 };
+    const layout = planElevationGrid({ minLat: 46.0, maxLat: 46.02, minLng: 8.0, maxLng: 8.02 }, 0.001);
+    const elevations: number[] = [];
+    for (let row = 0; row < layout.rows; row++) {
+      for (let column = 0; column < layout.columns; column++) {
+        elevations.push(2000 - 500 * calculateDistance(getLatticeCoordinate(layout, row, column), peak));
+      }
+    }
+    const terrain = createGridTerrain({ ...layout, elevations, cacheTime: 0 });
+
+    it('should interpolate elevation from the grid', () => {
+      expect(terrain.elevationAt(peak)).toBeCloseTo(2000);
+      expect(terrain.elevationAt({ lat: 46.0105, lng: 8.0105 })).toBeLessThan(2000);
+      expect(terrain.elevationAt({ lat: 46.0, lng: 8.0 })).toBeLessThan(terrain.elevationAt({ lat: 46.005, lng: 8.005 }));
+    });
+
+    it('should return the lattice nodes within the radius', () => {
+      const samples = terrain.samplesNear(peak, 0.2);
+
+      expect(samples.length).toBeGreaterThan(4);
+      samples.forEach(sample => {
+        expect(calculateDistance(sample, peak)).toBeLessThan(0.2);
+        expect(sample.elevation).toBeCloseTo(terrain.elevationAt(sample));
+      });
+    });
+
+    it('should analyze the ground around the nearest lattice node', () => {
+      const eastFlank = terrain.surfaceAt!({ lat: 46.01, lng: 8.015 })!;
+
+      expect(eastFlank.slope).toBeCloseTo(0.5, 1);
+      expect(eastFlank.aspect).toBeCloseTo(90, 0);
+      expect(terrain.surfaceAt!({ lat: 46.0101, lng: 8.0151 })).toBe(eastFlank);
+      expect(terrain.surfaceAt!(peak)!.aspect).toBeUndefined();
+    });
+
+    it('should return no samples far outside the grid', () => {
+      expect(terrain.samplesNear({ lat: 47.0, lng: 9.0 }, 0.2)).toEqual([]);
+    });
+  });
+});
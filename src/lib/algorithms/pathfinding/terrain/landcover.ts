@@ -0,0 +1,131 @@
+import { Coordinate } from '@/types/route';
+import { LandcoverArea, LandcoverType, TrailNetwork } from '@/lib/api/trails';
+import { doSegmentsIntersect, isPointInPolygon } from '../avoid-areas';
+import { isAlongTrail } from '../trail-detection';
+import { TerrainType } from './terrain-analyzer';
+
+/**
+ * Terrain type of each land cover
+ */
+export const LANDCOVER_TERRAIN_TYPES: Readonly<Record<LandcoverType, TerrainType>> = {
+  glacier: TerrainType.GLACIER,
+  scree: TerrainType.SCREE,
+  'bare-rock': TerrainType.ROCK,
+  wood: TerrainType.VEGETATION,
+  scrub: TerrainType.VEGETATION,
+  grass: TerrainType.VEGETATION,
+};
+
+// Where land cover areas overlap, the hardest going applies
+const COVER_RANK: Record<LandcoverType, number> = {
+  grass: 0,
+  wood: 1,
+  scrub: 2,
+  'bare-rock': 3,
+  scree: 4,
+  glacier: 5,
+};
+
+interface Bounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+const getBounds = (line: Coordinate[]): Bounds => ({
+  minLat: Math.min(...line.map(coord => coord.lat)),
+  maxLat: Math.max(...line.map(coord => coord.lat)),
+  minLng: Math.min(...line.map(coord => coord.lng)),
+  maxLng: Math.max(...line.map(coord => coord.lng)),
+});
+
+// Bounds are computed once per area and cliff list
+const areaBoundsCache = new WeakMap<LandcoverArea[], Bounds[]>();
+const cliffBoundsCache = new WeakMap<Coordinate[][], Bounds[]>();
+
+/**
+ * Find the land cover at a coordinate
+ * @param coordinate Coordinate to look up
+ * @param landcover Land cover areas
+ * @returns Cover of the area the coordinate lies in, outside its holes; the hardest cover where areas overlap
+ */
+export function getLandcoverAt(coordinate: Coordinate, landcover: LandcoverArea[] = []): LandcoverType | undefined {
+  let bounds = areaBoundsCache.get(landcover);
+  if (!bounds) {
+    bounds = landcover.map(area => getBounds(area.coordinates));
+    areaBoundsCache.set(landcover, bounds);
+  }
+
+  let cover: LandcoverType | undefined;
+  landcover.forEach((area, index) => {
+    const { minLat, maxLat, minLng, maxLng } = bounds![index];
+    if (coordinate.lat < minLat || coordinate.lat > maxLat || coordinate.lng < minLng || coordinate.lng > maxLng) return;
+    if (cover && COVER_RANK[area.cover] <= COVER_RANK[cover]) return;
+    if (isPointInPolygon(coordinate, area.coordinates) && !(area.innerRings ?? []).some(hole => isPointInPolygon(coordinate, hole))) {
+      cover = area.cover;
+    }
+  });
+  return cover;
+}
+
+/**
+ * Check whether a move crosses a cliff line
+ * @param from Start of the move
+ * @param to End of the move
+ * @param cliffs natural=cliff lines
+ * @returns True when the move crosses or touches any cliff segment
+ */
+export function crossesCliff(from: Coordinate, to: Coordinate, cliffs: Coordinate[][] = []): boolean {
+  let bounds = cliffBoundsCache.get(cliffs);
+  if (!bounds) {
+    bounds = cliffs.map(getBounds);
+    cliffBoundsCache.set(cliffs, bounds);
+  }
+
+  return cliffs.some((cliff, index) => {
+    const { minLat, maxLat, minLng, maxLng } = bounds![index];
+    if (Math.max(from.lat, to.lat) < minLat || Math.min(from.lat, to.lat) > maxLat
+      || Math.max(from.lng, to.lng) < minLng || Math.min(from.lng, to.lng) > maxLng) {
+      return false;
+    }
+    for (let i = 1; i < cliff.length; i++) {
+      if (doSegmentsIntersect(from, to, cliff[i - 1], cliff[i])) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Check whether a move is on a glacier, judged by its midpoint
+ * @param from Start of the move
+ * @param to End of the move
+ * @param landcover Land cover areas
+ */
+export function isMoveOnGlacier(from: Coordinate, to: Coordinate, landcover?: LandcoverArea[]): boolean {
+  if (!landcover?.length) return false;
+  return getLandcoverAt({ lat: (from.lat + to.lat) / 2, lng: (from.lng + to.lng) / 2 }, landcover) === 'glacier';
+}
+
+/**
+ * Count the moves of a finished route over glaciers and cliffs
+ * @param points Route points
+ * @param network Land cover, cliffs and trails; cliffs are passed where the move follows a trail
+ * @param allowGlaciers Whether glaciers may be crossed; they are not counted then
+ * @returns Number of moves on a glacier and off-trail moves over a cliff
+ */
+export function countTerrainBarrierCrossings(
+  points: Coordinate[],
+  network: Pick<TrailNetwork, 'trails' | 'landcover' | 'cliffs'>,
+  allowGlaciers?: boolean
+): { glacier: number; cliff: number } {
+  const crossings = { glacier: 0, cliff: 0 };
+  for (let i = 1; i < points.length; i++) {
+    if (!allowGlaciers && isMoveOnGlacier(points[i - 1], points[i], network.landcover)) crossings.glacier++;
+    if (crossesCliff(points[i - 1], points[i], network.cliffs)
+      && !network.trails.some(trail => !trail.isWater && isAlongTrail(points[i - 1], points[i], trail))) {
+      crossings.cliff++;
+    }
+  }
+  return crossings;
+}
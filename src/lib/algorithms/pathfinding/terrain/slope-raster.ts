@@ -0,0 +1,223 @@
+import { Coordinate } from '@/types/route';
+import { AvalancheReport, AvalancheSection, AvalancheTerrainClass, AvoidAreaMode } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+import { ElevationGrid, sampleElevationGrid } from '@/lib/api/elevation-grid';
+
+/**
+ * Constants for avalanche terrain
+ */
+export const AVALANCHE_CONSTANTS = {
+  /** Gentlest slope angle in degrees where slab avalanches release */
+  RELEASE_MIN_ANGLE: 30,
+  /** Steepest release angle in degrees; steeper slopes shed snow before a slab builds up */
+  RELEASE_MAX_ANGLE: 45,
+  /** Avalanches run out below release terrain while the angle back up to it is at least this, in degrees */
+  RUNOUT_ALPHA_ANGLE: 20,
+  /** Farthest horizontal distance in km runout zones reach from release terrain */
+  RUNOUT_MAX_DISTANCE_KM: 1.5,
+  /** Cost multiplier for moves through release terrain in penalty mode */
+  RELEASE_PENALTY: 5,
+  /** Cost multiplier for moves through runout zones in penalty mode */
+  RUNOUT_PENALTY: 2.5,
+  /** Spacing in km of the raster samples taken along a move or route segment */
+  SAMPLE_SPACING_KM: 0.05
+} as const;
+
+/**
+ * Avalanche terrain at a coordinate
+ */
+export type AvalancheExposure = 'release' | 'runout' | 'none';
+
+/**
+ * Slope angles and avalanche terrain derived from an elevation grid
+ */
+export interface SlopeRaster {
+  /** Slope angle in degrees at any coordinate, interpolated between lattice nodes */
+  slopeAngleAt: (coordinate: Coordinate) => number;
+  /** Release-angle slope, runout zone below one, or neither */
+  exposureAt: (coordinate: Coordinate) => AvalancheExposure;
+}
+
+const EXPOSURE_CLASSES: Record<AvalancheExposure, AvalancheTerrainClass> = {
+  none: 'simple',
+  runout: 'challenging',
+  release: 'complex',
+};
+
+const CLASS_RANK: Record<AvalancheTerrainClass, number> = {
+  simple: 0,
+  challenging: 1,
+  complex: 2,
+};
+
+const isReleaseAngle = (angle: number) =>
+  angle >= AVALANCHE_CONSTANTS.RELEASE_MIN_ANGLE && angle <= AVALANCHE_CONSTANTS.RELEASE_MAX_ANGLE;
+
+/**
+ * Slope angle of every lattice node from central differences, and the nodes in
+ * runout zones: below release terrain within RUNOUT_MAX_DISTANCE_KM and the alpha angle
+ */
+function analyzeGrid(grid: ElevationGrid): { angles: number[]; runout: boolean[] } {
+  const kmPerDegreeLat = calculateDistance({ lat: 0, lng: 0 }, { lat: 1, lng: 0 });
+  const centerLat = (grid.bbox.minLat + grid.bbox.maxLat) / 2;
+  const rowSpacing = grid.latStep * kmPerDegreeLat * 1000;
+  const columnSpacing = grid.lngStep * kmPerDegreeLat * Math.cos(centerLat * Math.PI / 180) * 1000;
+  const at = (row: number, column: number) => grid.elevations[row * grid.columns + column];
+  const gradient = (lower: number, upper: number, nodes: number, spacing: number) =>
+    nodes > 0 && spacing > 0 ? (upper - lower) / (nodes * spacing) : 0;
+
+  const angles: number[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      const [south, north] = [Math.max(0, row - 1), Math.min(grid.rows - 1, row + 1)];
+      const [west, east] = [Math.max(0, column - 1), Math.min(grid.columns - 1, column + 1)];
+      const northward = gradient(at(south, column), at(north, column), north - south, rowSpacing);
+      const eastward = gradient(at(row, west), at(row, east), east - west, columnSpacing);
+      angles.push(Math.atan(Math.hypot(northward, eastward)) * 180 / Math.PI);
+    }
+  }
+
+  const reachMeters = AVALANCHE_CONSTANTS.RUNOUT_MAX_DISTANCE_KM * 1000;
+  const rowReach = rowSpacing > 0 ? Math.floor(reachMeters / rowSpacing) : 0;
+  const columnReach = columnSpacing > 0 ? Math.floor(reachMeters / columnSpacing) : 0;
+  const minDropRatio = Math.tan(AVALANCHE_CONSTANTS.RUNOUT_ALPHA_ANGLE * Math.PI / 180);
+
+  const runout = angles.map((angle, index) => {
+    if (isReleaseAngle(angle)) return false;
+    const row = Math.floor(index / grid.columns);
+    const column = index % grid.columns;
+    for (let r = Math.max(0, row - rowReach); r <= Math.min(grid.rows - 1, row + rowReach); r++) {
+      for (let c = Math.max(0, column - columnReach); c <= Math.min(grid.columns - 1, column + columnReach); c++) {
+        if (!isReleaseAngle(angles[r * grid.columns + c])) continue;
+        const distance = Math.hypot((r - row) * rowSpacing, (c - column) * columnSpacing);
+        if (distance > 0 && distance <= reachMeters && (at(r, c) - at(row, column)) / distance >= minDropRatio) return true;
+      }
+    }
+    return false;
+  });
+
+  return { angles, runout };
+}
+
+/**
+ * Build a slope-angle raster over an elevation grid. Angles are computed on first
+ * use; slopes shorter than the lattice spacing are smoothed out.
+ * @param grid Elevation grid
+ * @returns Slope raster
+ */
+export function createSlopeRaster(grid: ElevationGrid): SlopeRaster {
+  let analysis: { angles: ElevationGrid; runout: boolean[] } | null = null;
+  const analyze = () => {
+    if (!analysis) {
+      const { angles, runout } = analyzeGrid(grid);
+      analysis = { angles: { ...grid, elevations: angles }, runout };
+    }
+    return analysis;
+  };
+
+  const slopeAngleAt = (coordinate: Coordinate) => sampleElevationGrid(analyze().angles, coordinate);
+
+  return {
+    slopeAngleAt,
+    exposureAt: coordinate => {
+      if (isReleaseAngle(slopeAngleAt(coordinate))) return 'release';
+      const toNearest = (offset: number, step: number, lines: number) =>
+        step > 0 ? Math.min(lines - 1, Math.max(0, Math.round(offset / step))) : 0;
+      const row = toNearest(coordinate.lat - grid.bbox.minLat, grid.latStep, grid.rows);
+      const column = toNearest(coordinate.lng - grid.bbox.minLng, grid.lngStep, grid.columns);
+      return analyze().runout[row * grid.columns + column] ? 'runout' : 'none';
+    },
+  };
+}
+
+/**
+ * Raster samples about SAMPLE_SPACING_KM apart from one coordinate to another, both included
+ */
+function sampleSegment(from: Coordinate, to: Coordinate): Coordinate[] {
+  const steps = Math.max(1, Math.ceil(calculateDistance(from, to) / AVALANCHE_CONSTANTS.SAMPLE_SPACING_KM));
+  const samples: Coordinate[] = [];
+  for (let i = 0; i <= steps; i++) {
+    samples.push({ lat: from.lat + (to.lat - from.lat) * i / steps, lng: from.lng + (to.lng - from.lng) * i / steps });
+  }
+  return samples;
+}
+
+/**
+ * Classify the avalanche terrain a segment crosses
+ * @param from Start of the segment
+ * @param to End of the segment
+ * @param slopes Slope raster
+ * @returns Worst class along the segment and the steepest slope angle in degrees
+ */
+export function classifyAvalancheSegment(
+  from: Coordinate,
+  to: Coordinate,
+  slopes: SlopeRaster
+): { terrainClass: AvalancheTerrainClass; maxSlopeAngle: number } {
+  let terrainClass: AvalancheTerrainClass = 'simple';
+  let maxSlopeAngle = 0;
+  for (const sample of sampleSegment(from, to)) {
+    const sampleClass = EXPOSURE_CLASSES[slopes.exposureAt(sample)];
+    if (CLASS_RANK[sampleClass] > CLASS_RANK[terrainClass]) terrainClass = sampleClass;
+    maxSlopeAngle = Math.max(maxSlopeAngle, slopes.slopeAngleAt(sample));
+  }
+  return { terrainClass, maxSlopeAngle };
+}
+
+/**
+ * Cost multiplier for a move in winter mode
+ * @param from Start of the move
+ * @param to End of the move
+ * @param slopes Slope raster, when the elevation grid is available
+ * @param winterMode How avalanche terrain is treated; off when unset
+ * @returns Infinity when a barrier-mode move crosses avalanche terrain, otherwise the
+ * release or runout penalty, or 1 outside avalanche terrain
+ */
+export function getAvalancheCostFactor(
+  from: Coordinate,
+  to: Coordinate,
+  slopes: SlopeRaster | undefined,
+  winterMode: AvoidAreaMode | undefined
+): number {
+  if (!slopes || !winterMode) return 1;
+
+  const { terrainClass } = classifyAvalancheSegment(from, to, slopes);
+  if (terrainClass === 'simple') return 1;
+  if (winterMode === 'barrier') return Infinity;
+  return terrainClass === 'complex' ? AVALANCHE_CONSTANTS.RELEASE_PENALTY : AVALANCHE_CONSTANTS.RUNOUT_PENALTY;
+}
+
+/**
+ * Classify every segment of a route and list its stretches through avalanche terrain
+ * @param points Route points
+ * @param slopes Slope raster
+ * @returns Avalanche report with the route's worst class and the steep sections with distance markers
+ */
+export function createAvalancheReport(points: Coordinate[], slopes: SlopeRaster): AvalancheReport {
+  const segments: AvalancheTerrainClass[] = [];
+  const sections: AvalancheSection[] = [];
+  let terrainClass: AvalancheTerrainClass = 'simple';
+  let distance = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const length = calculateDistance(points[i - 1], points[i]);
+    const segment = classifyAvalancheSegment(points[i - 1], points[i], slopes);
+    if (segment.terrainClass !== 'simple') {
+      const previousClass = segments[segments.length - 1];
+      if (previousClass !== undefined && previousClass !== 'simple') {
+        // Consecutive segments through avalanche terrain form one section
+        const previous = sections[sections.length - 1];
+        previous.endDistance = distance + length;
+        previous.maxSlopeAngle = Math.max(previous.maxSlopeAngle, segment.maxSlopeAngle);
+        if (CLASS_RANK[segment.terrainClass] > CLASS_RANK[previous.terrainClass]) previous.terrainClass = segment.terrainClass;
+      } else {
+        sections.push({ startDistance: distance, endDistance: distance + length, ...segment });
+      }
+      if (CLASS_RANK[segment.terrainClass] > CLASS_RANK[terrainClass]) terrainClass = segment.terrainClass;
+    }
+    segments.push(segment.terrainClass);
+    distance += length;
+  }
+
+  return { terrainClass, segments, sections };
+}
@@ -4,7 +4,9 @@
  * This module provides terrain analysis functionality including:
  * - Terrain type detection and classification
  * - Slope calculation and analysis
+ * - Slope, aspect and roughness of the ground from nearby elevations
  * - Hiking speed estimation using Tobler's function
+ * - Energy expenditure estimation using Minetti's gradient polynomial
  * - Movement cost calculations for pathfinding algorithms
  * - Adaptive terrain analysis with elevation data
  */
@@ -24,6 +26,7 @@ export enum TerrainType {
   VEGETATION = 'vegetation', 
   ROCK = 'rock',
   SCREE = 'scree',
+  GLACIER = 'glacier',
   UNKNOWN = 'unknown'
 }
 
@@ -35,7 +38,8 @@ export const TERRAIN_MULTIPLIERS = {
   [TerrainType.TRAIL]: 0.8,      // Easiest - established paths
   [TerrainType.VEGETATION]: 1.0,  // Normal - grass, forest
   [TerrainType.ROCK]: 1.3,       // Harder - solid rock faces
-  [TerrainType.SCREE]: 1.8,      // Hardest - loose rock/debris
+  [TerrainType.SCREE]: 1.8,      // Harder still - loose rock/debris
+  [TerrainType.GLACIER]: 2.0,    // Hardest - roped travel around crevasses
   [TerrainType.UNKNOWN]: 1.1     // Slight penalty for uncertainty
 } as const;
 
@@ -69,6 +73,18 @@ export const SLOPE_VARIABILITY_THRESHOLDS = {
   VERY_LOW_VARIABILITY: 0.1
 } as const;
 
+/**
+ * Constants for the shape of the ground around a coordinate
+ */
+export const SURFACE_CONSTANTS = {
+  /** Fewest elevation samples a plane is fitted to */
+  MIN_SAMPLES: 3,
+  /** Gradient below which the ground is flat and faces no direction */
+  FLAT_SLOPE: 0.01,
+  /** Roughness in m at which slope variability reaches 1 */
+  FULL_VARIABILITY_ROUGHNESS: 50
+} as const;
+
 /**
  * Hiking speed constants for Tobler's function
  */
@@ -83,6 +99,18 @@ export const TOBLER_CONSTANTS = {
   MIN_SPEED: 0.5
 } as const;
 
+/**
+ * Energy cost constants for Minetti's polynomial
+ */
+export const MINETTI_CONSTANTS = {
+  /** Polynomial coefficients in J/kg/m, highest power of the gradient first */
+  COEFFICIENTS: [280.5, -58.7, -76.8, 51.9, 19.6, 2.5],
+  /** Largest gradient magnitude the polynomial was fitted to */
+  MAX_GRADIENT: 0.45,
+  /** Joules per kilocalorie */
+  JOULES_PER_KCAL: 4184
+} as const;
+
 /**
  * Terrain complexity analysis constants
  */
@@ -123,6 +151,10 @@ export interface TerrainAnalysis {
   slopePercentage: number;
   /** Estimated slope variability (0-1 scale) */
   slopeVariability: number;
+  /** Compass direction in degrees the ground faces, when nearby elevations show it */
+  aspect?: number;
+  /** Roughness of the ground in m, when nearby elevations show it */
+  roughness?: number;
   /** Calculated hiking speed in km/h */
   hikingSpeed: number;
   /** Terrain difficulty multiplier */
@@ -131,6 +163,18 @@ export interface TerrainAnalysis {
   isDangerous: boolean;
 }
 
+/**
+ * Shape of the ground around a coordinate, from a plane fitted to nearby elevations
+ */
+export interface TerrainSurface {
+  /** Steepest gradient of the ground as rise/run ratio, whichever way a route crosses it */
+  slope: number;
+  /** Compass direction in degrees the ground faces (downhill); undefined on flat ground */
+  aspect?: number;
+  /** Root-mean-square deviation in m of the elevations from the fitted plane */
+  roughness: number;
+}
+
 /**
  * Slope calculation parameters
  */
@@ -253,6 +297,136 @@ export function calculateSegmentTime(distance: number, slope: number): number {
   return distance / hikingSpeed;
 }
 
+// =============================================================================
+// ENERGY EXPENDITURE
+// =============================================================================
+
+/**
+ * Calculate the metabolic cost of walking using Minetti et al. (2002).
+ * 
+ * Cost = 280.5i^5 - 58.7i^4 - 76.8i^3 + 51.9i^2 + 19.6i + 2.5 J/kg/m, where i is the gradient.
+ * Gradients beyond the measured range of ±45% are clamped to it.
+ * 
+ * @param slope - Grade as rise/run ratio (not percentage)
+ * @returns Energy in joules per kg of carried mass per metre walked
+ * 
+ * @example
+ * ```typescript
+ * const flatCost = calculateMinettiEnergyCost(0); // 2.5 J/kg/m
+ * const uphillCost = calculateMinettiEnergyCost(0.2); // ~7.9 J/kg/m on 20% grade
+ * ```
+ */
+export function calculateMinettiEnergyCost(slope: number): number {
+  const gradient = Math.max(-MINETTI_CONSTANTS.MAX_GRADIENT, Math.min(MINETTI_CONSTANTS.MAX_GRADIENT, slope));
+  return MINETTI_CONSTANTS.COEFFICIENTS.reduce((cost, coefficient) => cost * gradient + coefficient, 0);
+}
+
+/**
+ * Estimate the energy needed to walk a route, carrying body and pack.
+ * 
+ * @param points - Route points with elevation
+ * @param totalMass - Body mass plus pack weight in kg
+ * @returns Energy in kcal
+ */
+export function estimateEnergyExpenditure(points: Coordinate[], totalMass: number): number {
+  let joulesPerKg = 0;
+  for (let i = 1; i < points.length; i++) {
+    const distance = calculateDistance(points[i - 1], points[i]);
+    const slope = calculateSlope((points[i].elevation || 0) - (points[i - 1].elevation || 0), distance);
+    // Minetti's cost is per metre walked along the slope
+    const walkedMeters = distance * CONVERSION_CONSTANTS.KM_TO_METERS * Math.sqrt(1 + slope * slope);
+    joulesPerKg += calculateMinettiEnergyCost(slope) * walkedMeters;
+  }
+  return joulesPerKg * totalMass / MINETTI_CONSTANTS.JOULES_PER_KCAL;
+}
+
+// =============================================================================
+// SURFACE ANALYSIS
+// =============================================================================
+
+/**
+ * Analyze the ground around a coordinate by fitting a plane to nearby elevations.
+ * 
+ * The plane's steepest gradient is the slope of the ground and its downhill direction
+ * the aspect; how far the elevations stray from it is the roughness, which tells broken
+ * ground, ridges and gullies from an even slope.
+ * 
+ * @param coordinate - Center of the neighbourhood
+ * @param elevationPoints - Nearby coordinates with elevation, such as the surrounding DEM nodes
+ * @returns Slope, aspect and roughness, or null with too few samples or samples in a line
+ * 
+ * @example
+ * ```typescript
+ * const surface = analyzeTerrainSurface(center, gridNeighbours);
+ * console.log(surface?.aspect); // 180 for a south-facing slope
+ * ```
+ */
+export function analyzeTerrainSurface(coordinate: Coordinate, elevationPoints: Coordinate[]): TerrainSurface | null {
+  const samples = elevationPoints.filter(point => point.elevation !== undefined);
+  if (samples.length < SURFACE_CONSTANTS.MIN_SAMPLES) return null;
+
+  // Local east (x) and north (y) offsets in meters
+  const metersPerDegreeLat = calculateDistance({ lat: 0, lng: 0 }, { lat: 1, lng: 0 }) * CONVERSION_CONSTANTS.KM_TO_METERS;
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos(coordinate.lat * Math.PI / 180);
+  const xs = samples.map(point => (point.lng - coordinate.lng) * metersPerDegreeLng);
+  const ys = samples.map(point => (point.lat - coordinate.lat) * metersPerDegreeLat);
+  const zs = samples.map(point => point.elevation!);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const [meanX, meanY, meanZ] = [mean(xs), mean(ys), mean(zs)];
+
+  // Least-squares plane z = meanZ + east * (x - meanX) + north * (y - meanY)
+  let sxx = 0, syy = 0, sxy = 0, sxz = 0, syz = 0;
+  samples.forEach((_, i) => {
+    const [dx, dy, dz] = [xs[i] - meanX, ys[i] - meanY, zs[i] - meanZ];
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+    sxz += dx * dz;
+    syz += dy * dz;
+  });
+  const determinant = sxx * syy - sxy * sxy;
+  if (!(determinant > 1e-9 * sxx * syy)) return null;
+  const east = (sxz * syy - syz * sxy) / determinant;
+  const north = (syz * sxx - sxz * sxy) / determinant;
+
+  const residuals = samples.map((_, i) => zs[i] - (meanZ + east * (xs[i] - meanX) + north * (ys[i] - meanY)));
+  const surface: TerrainSurface = {
+    slope: Math.hypot(east, north),
+    roughness: Math.sqrt(mean(residuals.map(residual => residual * residual))),
+  };
+  if (surface.slope >= SURFACE_CONSTANTS.FLAT_SLOPE) {
+    surface.aspect = (Math.atan2(-east, -north) * 180 / Math.PI + 360) % 360;
+  }
+  return surface;
+}
+
+/**
+ * Slope variability of ground with a given roughness.
+ * 
+ * @param roughness - Roughness in m from analyzeTerrainSurface
+ * @returns Slope variability (0-1 scale), 1 from FULL_VARIABILITY_ROUGHNESS up
+ */
+export function calculateRoughnessVariability(roughness: number): number {
+  return Math.min(1, roughness / SURFACE_CONSTANTS.FULL_VARIABILITY_ROUGHNESS);
+}
+
+/**
+ * Calculate the gradient across the direction of a move, which a walker traverses sideways.
+ * 
+ * @param from - Starting coordinate
+ * @param to - Destination coordinate
+ * @param surface - Ground the move crosses
+ * @returns Cross slope as rise/run ratio: the full slope when traversing, 0 along the fall line or on flat ground
+ */
+export function calculateCrossSlope(from: Coordinate, to: Coordinate, surface: TerrainSurface): number {
+  if (surface.aspect === undefined) return 0;
+  const east = (to.lng - from.lng) * Math.cos(from.lat * Math.PI / 180);
+  const north = to.lat - from.lat;
+  if (east === 0 && north === 0) return 0;
+  const heading = Math.atan2(east, north);
+  return surface.slope * Math.abs(Math.sin(heading - surface.aspect * Math.PI / 180));
+}
+
 // =============================================================================
 // SLOPE VARIABILITY ANALYSIS
 // =============================================================================
@@ -260,8 +434,8 @@ export function calculateSegmentTime(distance: number, slope: number): number {
 /**
  * Calculate slope variability in nearby area for terrain type detection.
  * 
- * This is a simplified version - in a full implementation, this would analyze
- * multiple nearby elevation points to determine terrain roughness and consistency.
+ * With enough nearby elevation points this is the roughness of the ground around the
+ * coordinate; otherwise it is estimated from the slope alone.
  * 
  * @param slope - Current slope as rise/run ratio
  * @param elevationPoints - Optional elevation points for enhanced analysis
@@ -294,7 +468,7 @@ export function calculateSlopeVariability(
 }
 
 /**
- * Advanced slope variability calculation using multiple elevation points.
+ * Advanced slope variability calculation from the roughness of the ground around a coordinate.
  * 
  * @param coordinate - Center coordinate for analysis
  * @param elevationPoints - Available elevation data
@@ -309,30 +483,11 @@ function calculateAdvancedSlopeVariability(
     calculateDistance(coordinate, point) < CONVERSION_CONSTANTS.NEARBY_POINT_THRESHOLD
   );
   
-  if (nearbyPoints.length < 3) {
-    // Fall back to simplified calculation
-    return TERRAIN_COMPLEXITY.DEFAULT_COMPLEXITY;
-  }
-  
-  // Calculate elevation differences between nearby points
-  const elevations = nearbyPoints.map(p => p.elevation || 0);
-  const elevationDifferences: number[] = [];
-  
-  for (let i = 0; i < elevations.length - 1; i++) {
-    for (let j = i + 1; j < elevations.length; j++) {
-      elevationDifferences.push(Math.abs(elevations[i] - elevations[j]));
-    }
-  }
-  
-  if (elevationDifferences.length === 0) return TERRAIN_COMPLEXITY.DEFAULT_COMPLEXITY;
+  // Too few points, or points in a line, leave the roughness unknown
+  const surface = analyzeTerrainSurface(coordinate, nearbyPoints);
+  if (!surface) return TERRAIN_COMPLEXITY.DEFAULT_COMPLEXITY;
   
-  // Calculate standard deviation of elevation differences
-  const mean = elevationDifferences.reduce((sum, diff) => sum + diff, 0) / elevationDifferences.length;
-  const variance = elevationDifferences.reduce((sum, diff) => sum + Math.pow(diff - mean, 2), 0) / elevationDifferences.length;
-  const standardDeviation = Math.sqrt(variance);
-  
-  // Normalize to 0-1 scale based on expected mountain terrain variation
-  return Math.min(1, standardDeviation / 50); // 50m elevation difference = high variability
+  return calculateRoughnessVariability(surface.roughness);
 }
 
 // =============================================================================
@@ -343,7 +498,9 @@ function calculateAdvancedSlopeVariability(
  * Detect terrain type based on elevation gradient analysis and slope characteristics.
  * 
  * This function uses slope steepness and variability to classify terrain into
- * categories that affect movement difficulty and speed.
+ * categories that affect movement difficulty and speed. Where nearby elevations are
+ * known, pass the steeper of the move's slope and the ground's, so traverses across
+ * steep ground are not mistaken for easy terrain.
  * 
  * @param slope - Current slope as rise/run ratio
  * @param slopeVariability - Slope variability in nearby area (0-1 scale)
@@ -409,7 +566,7 @@ export function getTerrainMultiplier(terrainType: TerrainType): number {
  * 
  * @param from - Starting coordinate
  * @param to - Destination coordinate
- * @param elevationPoints - Optional elevation data for enhanced analysis
+ * @param elevationPoints - Optional elevation data around the starting coordinate, for its slope, aspect and roughness
  * @returns Terrain analysis result
  * 
  * @example
@@ -429,17 +586,20 @@ export function analyzeTerrainBetweenPoints(
   // Calculate slope characteristics
   const slope = calculateSlope(elevationDiff, distance);
   const slopePercentage = calculateSlopePercentage(slope);
-  const slopeVariability = calculateSlopeVariability(slope, elevationPoints, from);
+  const surface = elevationPoints ? analyzeTerrainSurface(from, elevationPoints) : null;
+  const slopeVariability = surface
+    ? calculateRoughnessVariability(surface.roughness)
+    : calculateSlopeVariability(slope, elevationPoints, from);
   
-  // Detect terrain type and characteristics
-  const terrainType = detectTerrainType(slope, slopeVariability);
+  // Detect terrain type and characteristics from the steeper of the move and the ground
+  const terrainType = detectTerrainType(surface ? Math.max(Math.abs(slope), surface.slope) : slope, slopeVariability);
   const terrainMultiplier = getTerrainMultiplier(terrainType);
   const hikingSpeed = calculateHikingSpeed(slope);
   
   // Assess danger level
   const isDangerous = isDangerousSlope(slopePercentage);
   
-  return {
+  const analysis: TerrainAnalysis = {
     terrainType,
     slope,
     slopePercentage,
@@ -448,6 +608,11 @@ export function analyzeTerrainBetweenPoints(
     terrainMultiplier,
     isDangerous
   };
+  if (surface) {
+    if (surface.aspect !== undefined) analysis.aspect = surface.aspect;
+    analysis.roughness = surface.roughness;
+  }
+  return analysis;
 }
 
 // =============================================================================
@@ -0,0 +1,101 @@
+import { Coordinate } from '@/types/route';
+import { calculateDistance } from '@/lib/utils';
+import { ElevationGrid, getLatticeCoordinate, sampleElevationGrid } from '@/lib/api/elevation-grid';
+import { createSlopeRaster, SlopeRaster } from './slope-raster';
+import { analyzeTerrainSurface, TerrainSurface } from './terrain-analyzer';
+
+/**
+ * Terrain the route searches read elevation from
+ */
+export interface TerrainModel {
+  /** Elevation in m at any coordinate */
+  elevationAt: (coordinate: Coordinate) => number;
+  /** Elevation samples within a radius in km, for terrain complexity analysis */
+  samplesNear: (coordinate: Coordinate, radiusKm: number) => Coordinate[];
+  /** Slope angles and avalanche terrain, when the terrain covers an area */
+  slopes?: SlopeRaster;
+  /** Slope, aspect and roughness of the ground around a coordinate, when the terrain covers an area */
+  surfaceAt?: (coordinate: Coordinate) => TerrainSurface | null;
+}
+
+/**
+ * Terrain from scattered elevation samples, such as a straight-line profile.
+ * Each coordinate takes the elevation of the nearest sample.
+ * @param elevationPoints Coordinates with known elevation
+ * @returns Terrain model (elevation 0 without samples)
+ */
+export function createProfileTerrain(elevationPoints: Coordinate[]): TerrainModel {
+  return {
+    elevationAt: coordinate => {
+      let nearestElevation = 0;
+      let nearestDistance = Infinity;
+      for (const point of elevationPoints) {
+        const distance = calculateDistance(coordinate, point);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearestElevation = point.elevation || 0;
+        }
+      }
+      return nearestElevation;
+    },
+    samplesNear: (coordinate, radiusKm) =>
+      elevationPoints.filter(point => calculateDistance(coordinate, point) < radiusKm),
+  };
+}
+
+/**
+ * Terrain from an elevation grid, interpolated bilinearly between lattice nodes
+ * @param grid Elevation grid
+ * @returns Terrain model with a slope raster, and the ground around each coordinate
+ * taken from the nearest lattice node and its eight neighbours
+ */
+export function createGridTerrain(grid: ElevationGrid): TerrainModel {
+  const kmPerDegreeLat = calculateDistance({ lat: 0, lng: 0 }, { lat: 1, lng: 0 });
+  // The ground is analyzed once per lattice node
+  const surfaces = new Map<number, TerrainSurface | null>();
+  const toNearest = (offset: number, step: number, lines: number) =>
+    step > 0 ? Math.min(lines - 1, Math.max(0, Math.round(offset / step))) : 0;
+
+  return {
+    elevationAt: coordinate => sampleElevationGrid(grid, coordinate),
+    slopes: createSlopeRaster(grid),
+    surfaceAt: coordinate => {
+      const row = toNearest(coordinate.lat - grid.bbox.minLat, grid.latStep, grid.rows);
+      const column = toNearest(coordinate.lng - grid.bbox.minLng, grid.lngStep, grid.columns);
+      const index = row * grid.columns + column;
+      if (!surfaces.has(index)) {
+        const neighbourhood: Coordinate[] = [];
+        for (let r = Math.max(0, row - 1); r <= Math.min(grid.rows - 1, row + 1); r++) {
+          for (let c = Math.max(0, column - 1); c <= Math.min(grid.columns - 1, column + 1); c++) {
+            neighbourhood.push({ ...getLatticeCoordinate(grid, r, c), elevation: grid.elevations[r * grid.columns + c] });
+          }
+        }
+        surfaces.set(index, analyzeTerrainSurface(getLatticeCoordinate(grid, row, column), neighbourhood));
+      }
+      return surfaces.get(index)!;
+    },
+    samplesNear: (coordinate, radiusKm) => {
+      // Only the lattice nodes in the square around the radius are candidates
+      const latRadius = radiusKm / kmPerDegreeLat;
+      const lngRadius = latRadius / Math.max(Math.cos(coordinate.lat * Math.PI / 180), Number.EPSILON);
+      const toRange = (center: number, radius: number, min: number, step: number, lines: number): [number, number] =>
+        step > 0
+          ? [Math.max(0, Math.ceil((center - radius - min) / step)), Math.min(lines - 1, Math.floor((center + radius - min) / step))]
+          : [0, 0];
+
+      const [firstRow, lastRow] = toRange(coordinate.lat, latRadius, grid.bbox.minLat, grid.latStep, grid.rows);
+      const [firstColumn, lastColumn] = toRange(coordinate.lng, lngRadius, grid.bbox.minLng, grid.lngStep, grid.columns);
+
+      const samples: Coordinate[] = [];
+      for (let row = firstRow; row <= lastRow; row++) {
+        for (let column = firstColumn; column <= lastColumn; column++) {
+          const node = getLatticeCoordinate(grid, row, column);
+          if (calculateDistance(coordinate, node) < radiusKm) {
+            samples.push({ ...node, elevation: grid.elevations[row * grid.columns + column] });
+          }
+        }
+      }
+      return samples;
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import { Coordinate } from '@/types/route';
+import { TrailSegment } from '@/lib/api/trails';
+import { isAlongTrail } from './trail-detection';
+
+/**
+ * Constants for trail access
+ */
+export const TRAIL_ACCESS_CONSTANTS = {
+  /** Cost multiplier for trails that may be closed on the planned date */
+  UNCERTAIN_PENALTY: 1.5
+} as const;
+
+/**
+ * Whether a trail can be used on the planned date
+ */
+export type TrailAccessStatus = 'open' | 'uncertain' | 'closed';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Meteorological seasons by month (0-11) in the northern hemisphere
+const NORTHERN_SEASONS = ['winter', 'winter', 'spring', 'spring', 'spring', 'summer', 'summer', 'summer', 'autumn', 'autumn', 'autumn', 'winter'];
+
+const STATUS_RANK: Record<TrailAccessStatus, number> = {
+  open: 0,
+  uncertain: 1,
+  closed: 2,
+};
+
+const MONTH_RANGE = new RegExp(
+  `\\b(${MONTHS.join('|')})(?:\\s+(\\d{1,2}))?(?:\\s*-\\s*(${MONTHS.join('|')})(?:\\s+(\\d{1,2}))?)?\\b`,
+  'g'
+);
+
+interface PlannedDay {
+  month: number; // 0-11
+  day: number;   // 1-31
+}
+
+/**
+ * Read a YYYY-MM-DD date without going through time zones
+ */
+function parsePlannedDate(plannedDate?: string): PlannedDay | null {
+  const match = plannedDate?.match(/^\d{4}-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return { month: Number(match[1]) - 1, day: Number(match[2]) };
+}
+
+/**
+ * Check a date against the month ranges in an OSM opening_hours rule or condition,
+ * such as "May-Oct", "Nov 15-Apr 30" or "Jul"; ranges may wrap around the new year
+ * @returns Whether the date falls in a range, or null when the text has none
+ */
+function isInMonthRanges(text: string, date: PlannedDay): boolean | null {
+  const ranges = [...text.matchAll(MONTH_RANGE)];
+  if (ranges.length === 0) return null;
+
+  const dayOfYear = (month: number, day: number) => month * 31 + day;
+  const today = dayOfYear(date.month, date.day);
+  return ranges.some(([, fromMonth, fromDay, toMonth, toDay]) => {
+    const from = dayOfYear(MONTHS.indexOf(fromMonth), Number(fromDay ?? 1));
+    const to = dayOfYear(MONTHS.indexOf(toMonth ?? fromMonth), Number(toDay ?? 31));
+    return from <= to ? today >= from && today <= to : today >= from || today <= to;
+  });
+}
+
+/**
+ * Status from the OSM seasonal tag, on the hemisphere of the trail
+ */
+function getSeasonalStatus(seasonal: string, date: PlannedDay | null, latitude: number): TrailAccessStatus {
+  if (!date || seasonal === 'yes') return 'uncertain';
+  const season = NORTHERN_SEASONS[latitude < 0 ? (date.month + 6) % 12 : date.month];
+  return seasonal.split(';').map(value => value.trim()).includes(season) ? 'open' : 'closed';
+}
+
+/**
+ * Status from the month ranges of an OSM opening_hours tag; the last rule matching
+ * the date applies, and times of day or weekdays leave the status uncertain
+ */
+function getOpeningHoursStatus(openingHours: string, date: PlannedDay | null): TrailAccessStatus {
+  if (openingHours.trim() === '24/7') return 'open';
+  if (!date) return 'uncertain';
+
+  let status: TrailAccessStatus | null = null;
+  let hasMonthRanges = false;
+  for (const rule of openingHours.split(';')) {
+    const inRange = isInMonthRanges(rule, date);
+    hasMonthRanges ||= inRange !== null;
+    if (inRange === false) continue;
+
+    const rest = rule.replace(MONTH_RANGE, '').trim();
+    if (/\b(off|closed)\b/.test(rest)) status = 'closed';
+    else status = rest === '' || rest === '24/7' ? 'open' : 'uncertain';
+  }
+  // Outside every month range of a seasonal schedule the way is closed
+  return status ?? (hasMonthRanges ? 'closed' : 'uncertain');
+}
+
+/**
+ * Status from an OSM conditional access tag such as "no @ (Nov-Apr); yes @ (May-Oct)"
+ */
+function getConditionalStatus(conditional: string, date: PlannedDay | null): TrailAccessStatus {
+  let status: TrailAccessStatus = 'open';
+  for (const restriction of conditional.split(/;(?![^(]*\))/)) {
+    const [value, condition = ''] = restriction.split('@').map(part => part.trim().replace(/^\(|\)$/g, ''));
+    if (!['no', 'private'].includes(value)) continue;
+
+    const inRange = date ? isInMonthRanges(condition, date) : null;
+    const restrictionStatus: TrailAccessStatus = inRange === null ? 'uncertain' : inRange ? 'closed' : 'open';
+    if (STATUS_RANK[restrictionStatus] > STATUS_RANK[status]) status = restrictionStatus;
+  }
+  return status;
+}
+
+/**
+ * Check whether a trail can be used on the planned date
+ * @param trail Trail segment
+ * @param plannedDate Day the route is travelled (YYYY-MM-DD)
+ * @returns Closed for closed ways and outside their season or opening months; uncertain
+ * when the access depends on a date that is not set or on rules that are not understood
+ */
+export function getTrailAccessStatus(trail: TrailSegment, plannedDate?: string): TrailAccessStatus {
+  const { access } = trail;
+  if (!access) return 'open';
+  if (access.closed) return 'closed';
+
+  const date = parsePlannedDate(plannedDate);
+  const statuses: TrailAccessStatus[] = [];
+  if (access.seasonal) statuses.push(getSeasonalStatus(access.seasonal, date, trail.coordinates[0]?.lat ?? 0));
+  if (access.openingHours) statuses.push(getOpeningHoursStatus(access.openingHours, date));
+  if (access.conditional) statuses.push(getConditionalStatus(access.conditional, date));
+
+  return statuses.reduce<TrailAccessStatus>((worst, status) => STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst, 'open');
+}
+
+/**
+ * Cost multiplier for following a trail on the planned date
+ * @param trail Trail segment
+ * @param plannedDate Day the route is travelled (YYYY-MM-DD)
+ * @returns Infinity for closed trails, UNCERTAIN_PENALTY when they may be closed, otherwise 1
+ */
+export function getAccessCostFactor(trail: TrailSegment, plannedDate?: string): number {
+  const status = getTrailAccessStatus(trail, plannedDate);
+  if (status === 'closed') return Infinity;
+  return status === 'uncertain' ? TRAIL_ACCESS_CONSTANTS.UNCERTAIN_PENALTY : 1;
+}
+
+/**
+ * Name of a trail for route warnings
+ */
+export function describeTrail(trail: TrailSegment): string {
+  return trail.name || `Way ${trail.id}`;
+}
+
+/**
+ * Find the closed and conditionally open trails a finished route relies on: those it
+ * follows where no open trail runs alongside
+ * @param points Route points
+ * @param trails Trail segments
+ * @param plannedDate Day the route is travelled (YYYY-MM-DD)
+ * @returns Closed and uncertain trails along the route, each listed once
+ */
+export function findRestrictedTrails(
+  points: Coordinate[],
+  trails: TrailSegment[],
+  plannedDate?: string
+): { closed: TrailSegment[]; uncertain: TrailSegment[] } {
+  const restricted = { closed: new Set<TrailSegment>(), uncertain: new Set<TrailSegment>() };
+  const statuses = trails
+    .filter(trail => trail.access && !trail.isWater)
+    .map(trail => ({ trail, status: getTrailAccessStatus(trail, plannedDate) }))
+    .filter(entry => entry.status !== 'open');
+  if (statuses.length === 0) return { closed: [], uncertain: [] };
+  const isOpen = (trail: TrailSegment) => !trail.isWater && !statuses.some(entry => entry.trail === trail);
+
+  for (let i = 1; i < points.length; i++) {
+    const along = statuses.filter(entry => isAlongTrail(points[i - 1], points[i], entry.trail));
+    if (along.length === 0 || trails.some(trail => isOpen(trail) && isAlongTrail(points[i - 1], points[i], trail))) continue;
+
+    // The route takes the least restricted of the trails it follows
+    const best = along.some(entry => entry.status === 'uncertain') ? 'uncertain' : 'closed';
+    along.filter(entry => entry.status === best).forEach(entry => restricted[best].add(entry.trail));
+  }
+
+  return { closed: [...restricted.closed], uncertain: [...restricted.uncertain] };
+}
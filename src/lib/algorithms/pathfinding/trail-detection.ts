@@ -1,7 +1,8 @@
 import { Coordinate } from '@/types/route';
-import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
-import { calculateDistance } from '@/lib/utils';
+import { AvoidArea, PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDistance, calculateDistanceToPath } from '@/lib/utils';
 import { TrailSegment } from '@/lib/api/trails';
+import { findEnteredAvoidAreas } from './avoid-areas';
 
 /**
  * Constants for trail analysis and optimization
@@ -248,9 +249,21 @@ export function createSimpleTrailGuidedWaypoints(start: Coordinate, end: Coordin
 }
 
 /**
- * Check if start and end points can be connected by a linear trail path
+ * Check if start and end points can be connected by a linear trail path.
+ * Paths entering any avoid area are rejected, so the full search can weigh them.
  */
-export function findDirectTrailPath(start: Coordinate, end: Coordinate, trails: TrailSegment[]): Coordinate[] | null {
+export function findDirectTrailPath(start: Coordinate, end: Coordinate, trails: TrailSegment[], avoidAreas: AvoidArea[] = []): Coordinate[] | null {
+  const path = findLinearTrailPath(start, end, trails);
+  if (path && findEnteredAvoidAreas(path, avoidAreas, ['barrier', 'penalty']).length > 0) {
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Connect start and end along a single trail, a chain of trails or a snapped straight line
+ */
+function findLinearTrailPath(start: Coordinate, end: Coordinate, trails: TrailSegment[]): Coordinate[] | null {
   const maxSnapDistance = 0.08; // Increased to 80m snap distance
   
   // Find trails near start and end points
@@ -457,6 +470,40 @@ export function createLinearTrailPath(start: Coordinate, end: Coordinate, trails
   return path;
 }
 
+/**
+ * Check whether both ends of a segment lie within TRAIL_DETECTION_RADIUS of a trail
+ */
+export function isAlongTrail(from: Coordinate, to: Coordinate, trail: TrailSegment): boolean {
+  const radius = TRAIL_CONSTANTS.TRAIL_DETECTION_RADIUS;
+  return calculateDistanceToPath(from, trail.coordinates) <= radius && calculateDistanceToPath(to, trail.coordinates) <= radius;
+}
+
+/**
+ * Cost multiplier for a move along trails, from the cheapest trail it follows
+ * @param from Start of the move
+ * @param to End of the move
+ * @param trails Nearby trail segments
+ * @param factorOf Cost multiplier of following a trail, Infinity when it may not be followed
+ * @returns Smallest factor of the trails both ends lie on, or 1 when the move follows none
+ */
+export function getMoveTrailCostFactor(
+  from: Coordinate,
+  to: Coordinate,
+  trails: TrailSegment[],
+  factorOf: (trail: TrailSegment) => number
+): number {
+  const factors = trails.map(trail => trail.isWater ? 1 : factorOf(trail));
+  // Skips the distance checks when no nearby trail changes the cost
+  if (factors.every(factor => factor === 1)) return 1;
+
+  let smallest: number | undefined;
+  trails.forEach((trail, index) => {
+    if (trail.isWater || !isAlongTrail(from, to, trail)) return;
+    smallest = Math.min(smallest ?? Infinity, factors[index]);
+  });
+  return smallest ?? 1;
+}
+
 /**
  * Helper functions for trail analysis
  */
@@ -0,0 +1,263 @@
+import { Coordinate, PathfindingNode } from '@/types/route';
+import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+import { calculateDistance, toRadians } from '@/lib/utils';
+import { LandcoverArea, TrailSegment } from '@/lib/api/trails';
+import PriorityQueue from './data-structures/priority-queue';
+import { getAvoidAreaCostFactor } from './avoid-areas';
+import { checkWaterCrossing } from './water-barriers';
+import { parseSacScale, isHarderSacScale } from './sac-scale';
+import { getTrailAccessStatus } from './trail-access';
+import { isMoveOnGlacier } from './terrain/landcover';
+
+/**
+ * Constants for routing over the trail network graph
+ */
+export const TRAIL_GRAPH_CONSTANTS = {
+  /** Decimal places used to key graph nodes (~1m), so ways sharing an OSM node share a graph node */
+  NODE_KEY_PRECISION: 5,
+  /** Maximum distance in km to snap a coordinate onto the graph */
+  MAX_SNAP_DISTANCE: 0.5,
+  /** Vertices of different ways closer than this (km) are joined into one junction */
+  JUNCTION_MERGE_DISTANCE: 0.01
+} as const;
+
+/**
+ * Node of the trail graph, located at a trail vertex
+ */
+export interface TrailGraphNode {
+  key: string;
+  coordinate: Coordinate;
+}
+
+/**
+ * Undirected edge between two consecutive trail vertices
+ */
+export interface TrailGraphEdge {
+  /** Direction-independent edge identifier */
+  id: string;
+  from: string;
+  to: string;
+  trail: TrailSegment;
+  distance: number; // km
+  avoidPenalty?: number; // Cost multiplier from penalty avoid areas the edge enters
+}
+
+/**
+ * Routing graph built from trail segment geometry
+ */
+export interface TrailGraph {
+  nodes: Map<string, TrailGraphNode>;
+  adjacency: Map<string, TrailGraphEdge[]>;
+}
+
+/**
+ * Path found on the trail graph
+ */
+export interface TrailGraphPath {
+  nodeKeys: string[];
+  edges: TrailGraphEdge[];
+  coordinates: Coordinate[];
+  cost: number;
+  nodesExpanded: number;
+}
+
+/**
+ * Key a coordinate to its graph node
+ */
+export function getNodeKey(coordinate: Coordinate): string {
+  const precision = TRAIL_GRAPH_CONSTANTS.NODE_KEY_PRECISION;
+  return `${coordinate.lat.toFixed(precision)}_${coordinate.lng.toFixed(precision)}`;
+}
+
+/**
+ * Direction-independent key for the edge between two nodes
+ */
+export function getEdgeId(fromKey: string, toKey: string): string {
+  return fromKey < toKey ? `${fromKey}|${toKey}` : `${toKey}|${fromKey}`;
+}
+
+/**
+ * Build a routing graph from trail segments.
+ * Ways meet where they share a vertex, or where their vertices lie within
+ * JUNCTION_MERGE_DISTANCE of each other, as OSM junctions are not always joined.
+ * Water bodies, trails graded above the maximum SAC grade or closed on the planned date,
+ * edges entering barrier avoid areas, edges crossing water away from a bridge, ford or
+ * stepping stones and, unless allowed, edges over glaciers are never added; in roads-only
+ * mode only roads are used.
+ * @param trails Trail segments from the trail network
+ * @param options Pathfinding options (roadsOnly, avoidAreas, maxSacScale, plannedDate, allowGlaciers)
+ * @param landcover Land cover areas of the trail network, for glaciers
+ * @returns Graph with one node per distinct trail vertex or junction
+ */
+export function buildTrailGraph(
+  trails: TrailSegment[],
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  landcover?: LandcoverArea[]
+): TrailGraph {
+  const nodes = new Map<string, TrailGraphNode>();
+  const adjacency = new Map<string, TrailGraphEdge[]>();
+
+  // Bucket nodes into cells of roughly the merge distance to find near neighbours quickly
+  const mergeDistance = TRAIL_GRAPH_CONSTANTS.JUNCTION_MERGE_DISTANCE;
+  const cellSize = mergeDistance / toRadians(6371); // degrees of latitude
+  const cells = new Map<string, string[]>();
+  const getCell = (lat: number, lng: number) => `${lat}_${lng}`;
+
+  const findMergeableNode = (coordinate: Coordinate): string | undefined => {
+    const cellLat = Math.floor(coordinate.lat / cellSize);
+    const cellLng = Math.floor(coordinate.lng / cellSize);
+    // Longitude degrees shrink towards the poles, so look further east and west
+    const lngReach = Math.ceil(1 / Math.max(Math.cos(toRadians(coordinate.lat)), 0.01));
+
+    for (let dLat = -1; dLat <= 1; dLat++) {
+      for (let dLng = -lngReach; dLng <= lngReach; dLng++) {
+        for (const key of cells.get(getCell(cellLat + dLat, cellLng + dLng)) || []) {
+          if (calculateDistance(coordinate, nodes.get(key)!.coordinate) <= mergeDistance) return key;
+        }
+      }
+    }
+    return undefined;
+  };
+
+  const addNode = (coordinate: Coordinate): string => {
+    const key = getNodeKey(coordinate);
+    if (nodes.has(key)) return key;
+
+    const mergedKey = findMergeableNode(coordinate);
+    if (mergedKey) return mergedKey;
+
+    nodes.set(key, { key, coordinate: { lat: coordinate.lat, lng: coordinate.lng } });
+    adjacency.set(key, []);
+    const cell = getCell(Math.floor(coordinate.lat / cellSize), Math.floor(coordinate.lng / cellSize));
+    cells.set(cell, [...(cells.get(cell) || []), key]);
+    return key;
+  };
+
+  for (const trail of trails) {
+    if (trail.isWater) continue;
+    if (options.roadsOnly && !trail.isRoad) continue;
+    const grade = parseSacScale(trail.sac_scale);
+    if (grade && options.maxSacScale && isHarderSacScale(grade, options.maxSacScale)) continue;
+    if (getTrailAccessStatus(trail, options.plannedDate) === 'closed') continue;
+
+    for (let i = 0; i < trail.coordinates.length - 1; i++) {
+      const avoidPenalty = getAvoidAreaCostFactor(trail.coordinates[i], trail.coordinates[i + 1], options.avoidAreas);
+      if (avoidPenalty === Infinity) continue;
+      if (checkWaterCrossing(trail.coordinates[i], trail.coordinates[i + 1], trails).blocked) continue;
+      if (!options.allowGlaciers && isMoveOnGlacier(trail.coordinates[i], trail.coordinates[i + 1], landcover)) continue;
+
+      const from = addNode(trail.coordinates[i]);
+      const to = addNode(trail.coordinates[i + 1]);
+      if (from === to) continue;
+
+      const edge: TrailGraphEdge = {
+        id: getEdgeId(from, to),
+        from,
+        to,
+        trail,
+        distance: calculateDistance(nodes.get(from)!.coordinate, nodes.get(to)!.coordinate),
+      };
+      if (avoidPenalty > 1) edge.avoidPenalty = avoidPenalty;
+      adjacency.get(from)!.push(edge);
+      adjacency.get(to)!.push(edge);
+    }
+  }
+
+  return { nodes, adjacency };
+}
+
+/**
+ * Find the graph node nearest to a coordinate
+ * @param graph Trail graph
+ * @param coordinate Coordinate to snap
+ * @param maxDistance Maximum snap distance in km
+ * @returns Nearest node, or null if none lies within maxDistance
+ */
+export function findNearestGraphNode(
+  graph: TrailGraph,
+  coordinate: Coordinate,
+  maxDistance: number = TRAIL_GRAPH_CONSTANTS.MAX_SNAP_DISTANCE
+): TrailGraphNode | null {
+  let nearest: TrailGraphNode | null = null;
+  let nearestDistance = maxDistance;
+
+  for (const node of graph.nodes.values()) {
+    const distance = calculateDistance(coordinate, node.coordinate);
+    if (distance <= nearestDistance) {
+      nearestDistance = distance;
+      nearest = node;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Find the cheapest path between two graph nodes using Dijkstra's algorithm,
+ * or A* when a heuristic is given
+ * @param graph Trail graph
+ * @param fromKey Key of the start node
+ * @param toKey Key of the goal node
+ * @param edgeCost Cost of traversing an edge from the given node (defaults to its length)
+ * @param heuristic Lower bound of the remaining cost from a node to the goal
+ * @returns Cheapest path, or null if the nodes are not connected
+ */
+export function findGraphPath(
+  graph: TrailGraph,
+  fromKey: string,
+  toKey: string,
+  edgeCost: (edge: TrailGraphEdge, fromKey: string) => number = edge => edge.distance,
+  heuristic: (nodeKey: string) => number = () => 0
+): TrailGraphPath | null {
+  if (!graph.nodes.has(fromKey) || !graph.nodes.has(toKey)) return null;
+
+  const bestCost = new Map<string, number>([[fromKey, 0]]);
+  const previous = new Map<string, TrailGraphEdge>();
+  const settled = new Set<string>();
+  const openSet = new PriorityQueue();
+
+  const startHeuristic = heuristic(fromKey);
+  openSet.enqueue({ coordinate: graph.nodes.get(fromKey)!.coordinate, gCost: 0, hCost: startHeuristic, fCost: startHeuristic });
+
+  while (!openSet.isEmpty()) {
+    const current = openSet.dequeue() as PathfindingNode;
+    const currentKey = getNodeKey(current.coordinate);
+    if (settled.has(currentKey)) continue;
+    settled.add(currentKey);
+
+    if (currentKey === toKey) break;
+
+    for (const edge of graph.adjacency.get(currentKey) || []) {
+      const neighborKey = edge.from === currentKey ? edge.to : edge.from;
+      if (settled.has(neighborKey)) continue;
+
+      const cost = current.gCost + edgeCost(edge, currentKey);
+      if (cost < (bestCost.get(neighborKey) ?? Infinity)) {
+        bestCost.set(neighborKey, cost);
+        previous.set(neighborKey, edge);
+        const hCost = heuristic(neighborKey);
+        openSet.enqueue({ coordinate: graph.nodes.get(neighborKey)!.coordinate, gCost: cost, hCost, fCost: cost + hCost });
+      }
+    }
+  }
+
+  if (!settled.has(toKey)) return null;
+
+  const nodeKeys = [toKey];
+  const edges: TrailGraphEdge[] = [];
+  let key = toKey;
+  while (key !== fromKey) {
+    const edge = previous.get(key)!;
+    edges.unshift(edge);
+    key = edge.from === key ? edge.to : edge.from;
+    nodeKeys.unshift(key);
+  }
+
+  return {
+    nodeKeys,
+    edges,
+    coordinates: nodeKeys.map(nodeKey => graph.nodes.get(nodeKey)!.coordinate),
+    cost: bestCost.get(toKey)!,
+    nodesExpanded: settled.size,
+  };
+}
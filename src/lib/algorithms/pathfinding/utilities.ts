@@ -2,17 +2,27 @@ import { Coordinate, RoutePoint, PathfindingNode } from '@/types/route';
 import { PathfindingOptions, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
 import { calculateDistance } from '@/lib/utils';
 import { isOnTrail, findNearestTrailPoint, getTrailsNearCoordinate, TrailSegment, TrailNetwork } from '@/lib/api/trails';
+import type { ElevationCacheStats } from '@/lib/api/elevation';
 import { 
-  TERRAIN_MULTIPLIERS, 
   calculateSlope, 
-  calculateHikingSpeed, 
   calculateSlopeVariability, 
+  calculateRoughnessVariability,
+  calculateCrossSlope,
   detectTerrainType,
   calculateTerrainComplexity,
   CONVERSION_CONSTANTS,
-  SLOPE_THRESHOLDS
+  SLOPE_THRESHOLDS,
+  TerrainSurface
 } from '@/lib/algorithms/pathfinding/terrain/terrain-analyzer';
-import { TRAIL_CONSTANTS } from './trail-detection';
+import { TRAIL_CONSTANTS, getMoveTrailCostFactor } from './trail-detection';
+import { getAvoidAreaCostFactor } from './avoid-areas';
+import { checkWaterCrossing } from './water-barriers';
+import { getSacScaleCostFactor } from './sac-scale';
+import { getWaymarkedRouteCostFactor } from './waymarked-routes';
+import { getAccessCostFactor } from './trail-access';
+import { getCostModel } from './cost-models';
+import { crossesCliff, getLandcoverAt, LANDCOVER_TERRAIN_TYPES } from './terrain/landcover';
+import { getActivityProfile } from './activity-profiles';
 
 /**
  * Constants for A* pathfinding algorithm
@@ -29,7 +39,9 @@ export const PATHFINDING_CONSTANTS = {
   /** Danger slope penalty exponent divisor */
   DANGER_SLOPE_DIVISOR: 50,
   /** Very steep terrain penalty multiplier */
-  STEEP_TERRAIN_PENALTY: 1.5
+  STEEP_TERRAIN_PENALTY: 1.5,
+  /** Extra off-trail cost per unit of cross slope, for traversing sideways across the fall line */
+  CROSS_SLOPE_PENALTY: 1.0
 } as const;
 
 /**
@@ -54,28 +66,42 @@ export function calculateHeuristic(current: Coordinate, goal: Coordinate): numbe
 }
 
 /**
- * Enhanced movement cost calculation using Tobler's hiking function and terrain analysis
+ * Enhanced movement cost calculation using the options' cost model and activity profile (Tobler's hiking function by default) and terrain analysis
  * @param from Starting coordinate
  * @param to Destination coordinate  
  * @param trailNetwork Available trail network with spatial index
  * @param options Pathfinding options for cost adjustments
+ * @param surface Slope, aspect and roughness of the ground the move crosses, when known
  * @returns Movement cost considering terrain, slope, and trail availability
  */
-export function calculateMovementCost(from: Coordinate, to: Coordinate, trailNetwork?: TrailNetwork, options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS): number {
+export function calculateMovementCost(
+  from: Coordinate,
+  to: Coordinate,
+  trailNetwork?: TrailNetwork,
+  options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS,
+  surface?: TerrainSurface | null
+): number {
   const distance = calculateDistance(from, to); // in km
   const elevationDiff = (to.elevation || 0) - (from.elevation || 0); // in meters
   
   if (distance === 0) return 0;
+
+  // Barriers rule the move out; penalty areas multiply its cost
+  const avoidFactor = getAvoidAreaCostFactor(from, to, options.avoidAreas);
+  if (avoidFactor === Infinity) return Infinity;
+
+  // Water is only crossed at bridges, fords and stepping stones
+  if (trailNetwork && checkWaterCrossing(from, to, trailNetwork.trails).blocked) return Infinity;
+
+  // Glaciers are only entered when the options allow them
+  const landcover = getLandcoverAt({ lat: (from.lat + to.lat) / 2, lng: (from.lng + to.lng) / 2 }, trailNetwork?.landcover);
+  if (landcover === 'glacier' && !options.allowGlaciers) return Infinity;
   
   const slope = calculateSlope(elevationDiff, distance);
   const slopePercentage = Math.abs(slope * 100);
   
-  // Calculate time cost using Tobler's function
-  const hikingSpeed = calculateHikingSpeed(slope);
-  const timeCost = distance / hikingSpeed; // hours
-  
-  // Base cost is time in hours converted to cost units
-  let cost = timeCost * PATHFINDING_CONSTANTS.TIME_COST_SCALE_FACTOR;
+  // Base cost from the cost model, in hours on flat ground, converted to cost units
+  let cost = getCostModel(options.costModel, options.activity).segmentCost(distance, slope) * PATHFINDING_CONSTANTS.TIME_COST_SCALE_FACTOR;
   
   // PERFORMANCE FIX: Use spatial index for fast nearby trail lookup
   let nearbyTrails: TrailSegment[] = [];
@@ -91,10 +117,14 @@ export function calculateMovementCost(from: Coordinate, to: Coordinate, trailNet
   const toOnTrail = nearbyTrails.length > 0 ? isOnTrail(to, nearbyTrails, TRAIL_CONSTANTS.TRAIL_DETECTION_RADIUS) : false;
   const onTrailMovement = fromOnTrail && toOnTrail;
   
-  // Apply terrain-based cost multiplier
-  const slopeVariability = calculateSlopeVariability(slope);
-  const terrainType = detectTerrainType(slope, slopeVariability);
-  const terrainMultiplier = TERRAIN_MULTIPLIERS[terrainType];
+  // Apply terrain-based cost multiplier, from the land cover where it is mapped, otherwise
+  // from the steepness and roughness of the ground where it is known
+  const terrainType = landcover
+    ? LANDCOVER_TERRAIN_TYPES[landcover]
+    : surface
+      ? detectTerrainType(Math.max(Math.abs(slope), surface.slope), calculateRoughnessVariability(surface.roughness))
+      : detectTerrainType(slope, calculateSlopeVariability(slope));
+  const terrainMultiplier = getActivityProfile(options.activity).terrainMultipliers[terrainType];
   
   // Apply configurable trail/road benefits
   if (onTrailMovement) {
@@ -107,24 +137,41 @@ export function calculateMovementCost(from: Coordinate, to: Coordinate, trailNet
       cost *= options.roadBonus; // Configurable road cost reduction
     } else {
       cost *= options.trailBonus; // Configurable trail cost reduction
+      // Harder SAC grades and uncertain access cost more and waymarked routes less; trails above the maximum grade or closed on the planned date are not followed
+      cost *= getMoveTrailCostFactor(from, to, nearbyTrails, trail =>
+        getSacScaleCostFactor(trail, options) * getAccessCostFactor(trail, options.plannedDate) * getWaymarkedRouteCostFactor(trail, options));
     }
   } else {
+    // Cliffs are only passed where a trail leads through them
+    if (crossesCliff(from, to, trailNetwork?.cliffs)) return Infinity;
     cost *= terrainMultiplier;
     cost *= options.offTrailPenalty; // Configurable off-trail penalty
+    // Traversing across a slope is slower and less sure-footed than climbing straight up it
+    if (surface) cost *= 1 + PATHFINDING_CONSTANTS.CROSS_SLOPE_PENALTY * calculateCrossSlope(from, to, surface);
   }
   
+  return cost * calculateSteepSlopePenalty(slopePercentage) * avoidFactor;
+}
+
+/**
+ * Cost multiplier for dangerous and very steep slopes
+ * @param slopePercentage Slope as percentage
+ * @returns Multiplier of 1 or more
+ */
+export function calculateSteepSlopePenalty(slopePercentage: number): number {
+  let penalty = 1;
+
   // Add exponential penalty for dangerous slopes
   if (slopePercentage > SLOPE_THRESHOLDS.DANGEROUS) {
-    const dangerMultiplier = Math.exp((slopePercentage - SLOPE_THRESHOLDS.DANGEROUS) / PATHFINDING_CONSTANTS.DANGER_SLOPE_DIVISOR);
-    cost *= dangerMultiplier;
+    penalty *= Math.exp((slopePercentage - SLOPE_THRESHOLDS.DANGEROUS) / PATHFINDING_CONSTANTS.DANGER_SLOPE_DIVISOR);
   }
-  
+
   // Additional penalty for very steep terrain
   if (slopePercentage > SLOPE_THRESHOLDS.VERY_STEEP_GRADE) {
-    cost *= PATHFINDING_CONSTANTS.STEEP_TERRAIN_PENALTY;
+    penalty *= PATHFINDING_CONSTANTS.STEEP_TERRAIN_PENALTY;
   }
-  
-  return cost;
+
+  return penalty;
 }
 
 /**
@@ -209,12 +256,14 @@ export function reconstructPath(node: PathfindingNode): RoutePoint[] {
  * Optimize a route by snapping points to nearby trails when beneficial
  * @param points Original route points
  * @param trails Available trail segments
+ * @param signal Aborts the elevation lookup
+ * @param stats Counts how the elevation lookups were answered
  * @returns Optimized route points with trail snapping
  */
-export async function optimizeRouteWithTrails(points: Coordinate[], trails: TrailSegment[], options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS): Promise<RoutePoint[]> {
+export async function optimizeRouteWithTrails(points: Coordinate[], trails: TrailSegment[], options: PathfindingOptions = DEFAULT_PATHFINDING_OPTIONS, signal?: AbortSignal, stats?: ElevationCacheStats): Promise<RoutePoint[]> {
   // Get elevation data for all points to ensure accurate elevation chart
   const { getElevationForRoute } = await import('@/lib/api/elevation');
-  const elevationPoints = await getElevationForRoute(points[0], points[points.length - 1], 0.005);
+  const elevationPoints = await getElevationForRoute(points[0], points[points.length - 1], 0.005, signal, stats);
   
   const optimizedPoints: RoutePoint[] = [];
   const maxSnapDistance = 1.0; // Increased to 1km maximum snap distance
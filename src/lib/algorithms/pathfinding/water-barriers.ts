@@ -0,0 +1,145 @@
+import { Coordinate, RoutePoint, WaterCrossingType } from '@/types/route';
+import { calculateDistanceToPath } from '@/lib/utils';
+import { TrailSegment } from '@/lib/api/trails';
+import { isPointInPolygon } from './avoid-areas';
+
+/**
+ * Constants for water barriers
+ */
+export const WATER_BARRIER_CONSTANTS = {
+  /** Distance in km from a bridge, ford or stepping stones within which water may be crossed */
+  CROSSING_RADIUS_KM: 0.05
+} as const;
+
+/**
+ * Whether a move gets over the water it meets
+ */
+export interface WaterCrossingCheck {
+  /** True when the move enters water or crosses a river away from any crossing */
+  blocked: boolean;
+  /** Crossing the move uses, when it meets water */
+  crossing?: WaterCrossingType;
+}
+
+interface Bounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+interface WaterBarriers {
+  water: { trail: TrailSegment; bounds: Bounds }[];
+  crossings: { path: Coordinate[]; type: WaterCrossingType }[];
+}
+
+// Water and crossings are collected once per trail list
+const barriersCache = new WeakMap<TrailSegment[], WaterBarriers>();
+
+function getWaterBarriers(trails: TrailSegment[]): WaterBarriers {
+  let barriers = barriersCache.get(trails);
+  if (!barriers) {
+    barriers = { water: [], crossings: [] };
+    for (const trail of trails) {
+      if (trail.isWater) {
+        const lats = trail.coordinates.map(coord => coord.lat);
+        const lngs = trail.coordinates.map(coord => coord.lng);
+        barriers.water.push({
+          trail,
+          bounds: { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) },
+        });
+        continue;
+      }
+      if (trail.crossing) barriers.crossings.push({ path: trail.coordinates, type: trail.crossing });
+      trail.crossingPoints?.forEach(point => barriers!.crossings.push({ path: [point.coordinate], type: point.type }));
+    }
+    barriersCache.set(trails, barriers);
+  }
+  return barriers;
+}
+
+/**
+ * Point where segment a1-a2 crosses segment b1-b2 in lat/lng. Segments that only
+ * touch or run along each other do not cross, so ways sharing a shoreline stay usable.
+ */
+function findCrossingPoint(a1: Coordinate, a2: Coordinate, b1: Coordinate, b2: Coordinate): Coordinate | null {
+  const denominator = (a2.lng - a1.lng) * (b2.lat - b1.lat) - (a2.lat - a1.lat) * (b2.lng - b1.lng);
+  if (denominator === 0) return null;
+  const t = ((b1.lng - a1.lng) * (b2.lat - b1.lat) - (b1.lat - a1.lat) * (b2.lng - b1.lng)) / denominator;
+  const u = ((b1.lng - a1.lng) * (a2.lat - a1.lat) - (b1.lat - a1.lat) * (a2.lng - a1.lng)) / denominator;
+  if (t <= 0 || t >= 1 || u <= 0 || u >= 1) return null;
+  return { lat: a1.lat + t * (a2.lat - a1.lat), lng: a1.lng + t * (a2.lng - a1.lng) };
+}
+
+/**
+ * Check whether a coordinate lies in a water area and not on one of its islands
+ */
+function isInWaterArea(point: Coordinate, water: TrailSegment): boolean {
+  return isPointInPolygon(point, water.coordinates)
+    && !(water.innerRings ?? []).some(island => isPointInPolygon(point, island));
+}
+
+/**
+ * Check the straight move between two coordinates against the water in a trail list.
+ * Water areas may not be entered and rivers may not be crossed, except within
+ * CROSSING_RADIUS_KM of a bridge, ford or stepping stones. A move counts as inside
+ * a water area when its midpoint is, so moves ending on a shoreline stay usable.
+ * @param from Start of the move
+ * @param to End of the move
+ * @param trails Trail segments with water bodies, waterways and crossings
+ * @returns Whether the move is blocked, and the crossing it uses
+ */
+export function checkWaterCrossing(from: Coordinate, to: Coordinate, trails: TrailSegment[] = []): WaterCrossingCheck {
+  const { water, crossings } = getWaterBarriers(trails);
+
+  // Where the move meets water: crossings of water edges, and its midpoint when inside a water area
+  const wetPoints: Coordinate[] = [];
+  for (const { trail, bounds } of water) {
+    if (Math.max(from.lat, to.lat) < bounds.minLat || Math.min(from.lat, to.lat) > bounds.maxLat
+      || Math.max(from.lng, to.lng) < bounds.minLng || Math.min(from.lng, to.lng) > bounds.maxLng) {
+      continue;
+    }
+
+    const lines = trail.waterway ? [trail.coordinates] : [trail.coordinates, ...(trail.innerRings ?? [])];
+    for (const line of lines) {
+      for (let i = 1; i < line.length; i++) {
+        const crossingPoint = findCrossingPoint(from, to, line[i - 1], line[i]);
+        if (crossingPoint) wetPoints.push(crossingPoint);
+      }
+    }
+    const midpoint = { lat: (from.lat + to.lat) / 2, lng: (from.lng + to.lng) / 2 };
+    if (!trail.waterway && isInWaterArea(midpoint, trail)) wetPoints.push(midpoint);
+  }
+  if (wetPoints.length === 0) return { blocked: false };
+
+  let crossing: WaterCrossingType | undefined;
+  for (const point of wetPoints) {
+    const nearby = crossings.find(candidate => calculateDistanceToPath(point, candidate.path) <= WATER_BARRIER_CONSTANTS.CROSSING_RADIUS_KM);
+    if (!nearby) return { blocked: true };
+    crossing ??= nearby.type;
+  }
+  return { blocked: false, crossing };
+}
+
+/**
+ * Record where a finished route crosses water
+ * @param points Route points
+ * @param trails Trail segments with water bodies, waterways and crossings
+ * @returns Points with the crossing type set on the point after each crossing (the same
+ * array when the route meets no water), and the number of moves through water without a crossing
+ */
+export function markWaterCrossings(
+  points: RoutePoint[],
+  trails: TrailSegment[]
+): { points: RoutePoint[]; uncrossed: number } {
+  let marked = points;
+  let uncrossed = 0;
+  for (let i = 1; i < points.length; i++) {
+    const { blocked, crossing } = checkWaterCrossing(points[i - 1], points[i], trails);
+    if (blocked) uncrossed++;
+    if (!crossing) continue;
+    if (marked === points) marked = [...points];
+    marked[i] = { ...points[i], crossing };
+  }
+  return { points: marked, uncrossed };
+}
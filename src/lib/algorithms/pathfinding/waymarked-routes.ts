@@ -0,0 +1,132 @@
+import { Coordinate } from '@/types/route';
+import { HikingNetwork, PathfindingOptions, WaymarkedRouteSection } from '@/types/pathfinding';
+import { calculateDistance } from '@/lib/utils';
+import { HikingRoute, TrailSegment } from '@/lib/api/trails';
+import { isAlongTrail } from './trail-detection';
+
+/**
+ * Constants for waymarked hiking routes
+ */
+export const WAYMARKED_ROUTE_CONSTANTS = {
+  /** Cost multiplier for trails on a waymarked hiking route */
+  DEFAULT_BONUS: 0.85,
+  /** Shortest stretch in km listed as following a route; shorter ones only touch or cross it */
+  MIN_SECTION_KM: 0.1
+} as const;
+
+// Where routes share a way, the route of the widest network is the one followed
+const NETWORK_RANK: Record<HikingNetwork, number> = {
+  iwn: 0,
+  nwn: 1,
+  rwn: 2,
+  lwn: 3,
+};
+
+/**
+ * Waymark colour of a hiking route: its colour tag, or the way colour that opens its osmc:symbol
+ */
+export function getWaymarkColour(route: HikingRoute): string | undefined {
+  return route.colour || route.symbol?.split(':')[0] || undefined;
+}
+
+/**
+ * Cost multiplier for trails on waymarked hiking routes
+ */
+export function getWaymarkedRouteBonus(options: Pick<PathfindingOptions, 'waymarkedRouteBonus'>): number {
+  return options.waymarkedRouteBonus ?? WAYMARKED_ROUTE_CONSTANTS.DEFAULT_BONUS;
+}
+
+/**
+ * Cost multiplier for following a trail, from the hiking routes it is part of
+ * @param trail Trail segment
+ * @param options Pathfinding options with the waymarked route bonus
+ * @returns The waymarked route bonus for trails on a hiking route, otherwise 1
+ */
+export function getWaymarkedRouteCostFactor(trail: TrailSegment, options: Pick<PathfindingOptions, 'waymarkedRouteBonus'>): number {
+  return trail.hikingRoutes?.length ? getWaymarkedRouteBonus(options) : 1;
+}
+
+const routeName = (route: HikingRoute) => route.name || route.ref;
+
+const compareRoutes = (a: HikingRoute, b: HikingRoute) =>
+  (a.network ? NETWORK_RANK[a.network] : Infinity) - (b.network ? NETWORK_RANK[b.network] : Infinity);
+
+/**
+ * Find the named hiking routes a finished route follows
+ * @param points Route points
+ * @param trails Trail segments with their hiking routes
+ * @returns Sections along one hiking route each, in route order, leaving out those shorter than MIN_SECTION_KM
+ */
+export function createWaymarkedRouteSections(points: Coordinate[], trails: TrailSegment[]): WaymarkedRouteSection[] {
+  const waymarked = trails.filter(trail => !trail.isWater && trail.hikingRoutes?.some(routeName));
+  if (waymarked.length === 0) return [];
+
+  const sections: { route: HikingRoute; startDistance: number; endDistance: number }[] = [];
+  let distance = 0;
+  let previous: (typeof sections)[number] | undefined;
+  for (let i = 1; i < points.length; i++) {
+    const length = calculateDistance(points[i - 1], points[i]);
+    const routes = waymarked
+      .filter(trail => isAlongTrail(points[i - 1], points[i], trail))
+      .flatMap(trail => trail.hikingRoutes!.filter(routeName));
+
+    // A route is followed for as long as it lasts, even where a wider network joins it
+    const route = previous && routes.some(candidate => candidate.id === previous!.route.id)
+      ? previous.route
+      : [...routes].sort(compareRoutes)[0];
+    if (!route) {
+      previous = undefined;
+    } else if (previous && previous.route.id === route.id) {
+      previous.endDistance = distance + length;
+    } else {
+      previous = { route, startDistance: distance, endDistance: distance + length };
+      sections.push(previous);
+    }
+    distance += length;
+  }
+
+  return sections
+    .filter(section => section.endDistance - section.startDistance >= WAYMARKED_ROUTE_CONSTANTS.MIN_SECTION_KM)
+    .map(({ route, startDistance, endDistance }) => {
+      const section: WaymarkedRouteSection = { startDistance, endDistance, name: routeName(route)! };
+      const colour = getWaymarkColour(route);
+      if (colour) section.colour = colour;
+      if (route.network) section.network = route.network;
+      return section;
+    });
+}
+
+/**
+ * Combine the waymarked route sections of consecutive route legs into those of the whole route
+ * @param legSections Sections of each leg, undefined for legs on no waymarked route
+ * @param legDistances Length of each leg in km, to shift distance markers onto the whole route
+ * @returns Sections along the whole route; a route followed across a waypoint stays one section
+ */
+export function combineWaymarkedRouteSections(
+  legSections: (WaymarkedRouteSection[] | undefined)[],
+  legDistances: number[]
+): WaymarkedRouteSection[] {
+  const combined: WaymarkedRouteSection[] = [];
+  let offset = 0;
+  legSections.forEach((sections, index) => {
+    for (const section of sections ?? []) {
+      const shifted = { ...section, startDistance: section.startDistance + offset, endDistance: section.endDistance + offset };
+      const previous = combined[combined.length - 1];
+      if (previous && previous.name === shifted.name && Math.abs(previous.endDistance - shifted.startDistance) < 1e-6) {
+        previous.endDistance = shifted.endDistance;
+      } else {
+        combined.push(shifted);
+      }
+    }
+    offset += legDistances[index] ?? 0;
+  });
+  return combined;
+}
+
+/**
+ * Describe a waymarked route section for the route summary, e.g. "Via Alpina (red) for 6.2 km"
+ */
+export function describeWaymarkedRouteSection(section: WaymarkedRouteSection): string {
+  const colour = section.colour ? ` (${section.colour})` : '';
+  return `${section.name}${colour} for ${(section.endDistance - section.startDistance).toFixed(1)} km`;
+}
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the pathfinding worker client
+ */
+
+import { createPathfindingClient } from '../pathfinding-client';
+import { createPathfindingWorker } from '../create-worker';
+import { runPathfindingRequest, PathfindingRequest, WorkerRequestMessage, WorkerResponseMessage } from '../protocol';
+import { DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+
+jest.mock('../create-worker', () => ({
+  createPathfindingWorker: jest.fn(),
+}));
+jest.mock('../protocol', () => ({
+  runPathfindingRequest: jest.fn(),
+}));
+
+const mockCreatePathfindingWorker = createPathfindingWorker as jest.MockedFunction<typeof createPathfindingWorker>;
+const mockRunPathfindingRequest = runPathfindingRequest as jest.MockedFunction<typeof runPathfindingRequest>;
+
+/**
+ * Stand-in for a dedicated worker that records posted messages
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<WorkerResponseMessage>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: WorkerRequestMessage[] = [];
+  terminate = jest.fn();
+
+  postMessage(message: WorkerRequestMessage) {
+    this.posted.push(message);
+  }
+
+  respond(message: WorkerResponseMessage) {
+    this.onmessage?.({ data: message } as MessageEvent<WorkerResponseMessage>);
+  }
+}
+
+describe('createPathfindingClient', () => {
+  const request: PathfindingRequest = {
+    type: 'waypoints',
+    waypoints: [{ lat: 46.0, lng: 8.0 }, { lat: 46.1, lng: 8.1 }],
+    options: DEFAULT_PATHFINDING_OPTIONS,
+  };
+  const route = { points: [], legs: [], diagnostics: [] };
+
+  describe('without worker support', () => {
+    it('should run requests on the main thread', async () => {
+      mockRunPathfindingRequest.mockResolvedValue(route);
+      const control = { onProgress: jest.fn() };
+
+      const client = createPathfindingClient();
+
+      expect(client.usesWorker).toBe(false);
+      await expect(client.run(request, control)).resolves.toBe(route);
+      expect(mockRunPathfindingRequest).toHaveBeenCalledWith(request, control);
+      expect(mockCreatePathfindingWorker).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with worker support', () => {
+    const originalWorker = global.Worker;
+    let worker: FakeWorker;
+
+    beforeEach(() => {
+      global.Worker = FakeWorker as unknown as typeof Worker;
+      worker = new FakeWorker();
+      mockCreatePathfindingWorker.mockReturnValue(worker as unknown as Worker);
+    });
+
+    afterEach(() => {
+      global.Worker = originalWorker;
+    });
+
+    it('should run requests in the worker', async () => {
+      const onProgress = jest.fn();
+      const client = createPathfindingClient();
+
+      const result = client.run(request, { onProgress });
+      const { id } = worker.posted[0];
+      worker.respond({ kind: 'progress', id, progress: { stage: 'searching', iterations: 50 } });
+      worker.respond({ kind: 'result', id, result: route });
+
+      expect(client.usesWorker).toBe(true);
+      expect(worker.posted[0]).toEqual({ kind: 'run', id, request });
+      await expect(result).resolves.toEqual(route);
+      expect(onProgress).toHaveBeenCalledWith({ stage: 'searching', iterations: 50 });
+      expect(mockRunPathfindingRequest).not.toHaveBeenCalled();
+    });
+
+    it('should reject with the worker error message', async () => {
+      const client = createPathfindingClient();
+
+      const result = client.run(request);
+      worker.respond({ kind: 'error', id: worker.posted[0].id, message: 'No route' });
+
+      await expect(result).rejects.toThrow('No route');
+    });
+
+    it('should keep the name of the worker error', async () => {
+      const client = createPathfindingClient();
+
+      const result = client.run(request);
+      worker.respond({ kind: 'error', id: worker.posted[0].id, message: 'Trail data servers failed', name: 'OverpassError' });
+
+      await expect(result).rejects.toMatchObject({ name: 'OverpassError', message: 'Trail data servers failed' });
+    });
+
+    it('should cancel the request in the worker when aborted', async () => {
+      const controller = new AbortController();
+      const client = createPathfindingClient();
+
+      const result = client.run(request, { signal: controller.signal });
+      const { id } = worker.posted[0];
+      controller.abort();
+
+      await expect(result).rejects.toBe(controller.signal.reason);
+      expect(worker.posted[1]).toEqual({ kind: 'cancel', id });
+
+      // A late response is ignored
+      worker.respond({ kind: 'result', id, result: route });
+    });
+
+    it('should not post requests that are already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(createPathfindingClient().run(request, { signal: controller.signal })).rejects.toBe(controller.signal.reason);
+      expect(worker.posted).toHaveLength(0);
+    });
+
+    it('should reject pending requests when disposed', async () => {
+      const client = createPathfindingClient();
+
+      const result = client.run(request);
+      client.dispose();
+
+      await expect(result).rejects.toThrow('Pathfinding client disposed');
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should retry pending requests on the main thread when the worker crashes', async () => {
+      mockRunPathfindingRequest.mockResolvedValue(route);
+      const control = { onProgress: jest.fn() };
+      const client = createPathfindingClient();
+
+      const result = client.run(request, control);
+      worker.onerror?.({ message: 'Script failed to load' } as ErrorEvent);
+
+      await expect(result).resolves.toBe(route);
+      expect(mockRunPathfindingRequest).toHaveBeenCalledWith(request, control);
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(client.usesWorker).toBe(false);
+    });
+
+    it('should run later requests on the main thread after the worker crashed', async () => {
+      mockRunPathfindingRequest.mockResolvedValue(route);
+      const client = createPathfindingClient();
+      worker.onerror?.({ message: 'Uncaught error' } as ErrorEvent);
+
+      await expect(client.run(request)).resolves.toBe(route);
+      expect(worker.posted).toHaveLength(0);
+    });
+
+    it('should leave aborting a retried request to the main thread', async () => {
+      const controller = new AbortController();
+      mockRunPathfindingRequest.mockImplementation((_, control) => new Promise((_resolve, reject) => {
+        control?.signal?.addEventListener('abort', () => reject(control.signal!.reason));
+      }));
+      const client = createPathfindingClient();
+
+      const result = client.run(request, { signal: controller.signal });
+      worker.onerror?.({ message: 'Uncaught error' } as ErrorEvent);
+      controller.abort();
+
+      await expect(result).rejects.toBe(controller.signal.reason);
+      expect(worker.posted).toHaveLength(1);
+    });
+
+    it('should fall back to the main thread when the worker cannot start', async () => {
+      mockCreatePathfindingWorker.mockImplementation(() => {
+        throw new Error('Workers disabled');
+      });
+
+      expect(createPathfindingClient().usesWorker).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the pathfinding worker protocol
+ */
+
+import { runPathfindingRequest } from '../protocol';
+import { findAlternativeRoutes, findRouteThroughWaypoints, findLoopRoutes } from '@/lib/algorithms/pathfinding';
+import { DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+
+jest.mock('@/lib/algorithms/pathfinding', () => ({
+  findAlternativeRoutes: jest.fn(),
+  findRouteThroughWaypoints: jest.fn(),
+  findLoopRoutes: jest.fn(),
+}));
+
+const mockFindAlternativeRoutes = findAlternativeRoutes as jest.MockedFunction<typeof findAlternativeRoutes>;
+const mockFindRouteThroughWaypoints = findRouteThroughWaypoints as jest.MockedFunction<typeof findRouteThroughWaypoints>;
+const mockFindLoopRoutes = findLoopRoutes as jest.MockedFunction<typeof findLoopRoutes>;
+
+describe('runPathfindingRequest', () => {
+  const start = { lat: 46.0, lng: 8.0 };
+  const end = { lat: 46.1, lng: 8.1 };
+  const control = { signal: new AbortController().signal, onProgress: jest.fn() };
+
+  it('should plan alternatives', async () => {
+    mockFindAlternativeRoutes.mockResolvedValue([]);
+
+    const result = await runPathfindingRequest(
+      { type: 'alternatives', start, end, options: DEFAULT_PATHFINDING_OPTIONS, maxAlternatives: 2 },
+      control
+    );
+
+    expect(result).toEqual([]);
+    expect(mockFindAlternativeRoutes).toHaveBeenCalledWith(start, end, DEFAULT_PATHFINDING_OPTIONS, 2, control);
+  });
+
+  it('should plan through waypoints', async () => {
+    const route = { points: [], legs: [], diagnostics: [] };
+    mockFindRouteThroughWaypoints.mockResolvedValue(route);
+
+    const result = await runPathfindingRequest({ type: 'waypoints', waypoints: [start, end], options: DEFAULT_PATHFINDING_OPTIONS }, control);
+
+    expect(result).toBe(route);
+    expect(mockFindRouteThroughWaypoints).toHaveBeenCalledWith([start, end], DEFAULT_PATHFINDING_OPTIONS, control);
+  });
+
+  it('should plan loops', async () => {
+    mockFindLoopRoutes.mockResolvedValue([]);
+    const target = { distance: 10 };
+
+    await runPathfindingRequest({ type: 'loops', start, target, options: DEFAULT_PATHFINDING_OPTIONS, maxResults: 3 }, control);
+
+    expect(mockFindLoopRoutes).toHaveBeenCalledWith(start, target, DEFAULT_PATHFINDING_OPTIONS, 3, control);
+  });
+});
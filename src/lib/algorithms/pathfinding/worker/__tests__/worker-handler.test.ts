@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the pathfinding worker message handler
+ */
+
+import { createWorkerMessageHandler } from '../worker-handler';
+import { runPathfindingRequest, PathfindingRequest } from '../protocol';
+import { PathfindingControl, DEFAULT_PATHFINDING_OPTIONS } from '@/types/pathfinding';
+
+jest.mock('../protocol', () => ({
+  runPathfindingRequest: jest.fn(),
+}));
+
+const mockRunPathfindingRequest = runPathfindingRequest as jest.MockedFunction<typeof runPathfindingRequest>;
+
+describe('createWorkerMessageHandler', () => {
+  const request: PathfindingRequest = {
+    type: 'waypoints',
+    waypoints: [{ lat: 46.0, lng: 8.0 }, { lat: 46.1, lng: 8.1 }],
+    options: DEFAULT_PATHFINDING_OPTIONS,
+  };
+  const route = { points: [], legs: [], diagnostics: [] };
+
+  it('should post progress and then the result', async () => {
+    mockRunPathfindingRequest.mockImplementation(async (_request, control?: PathfindingControl) => {
+      control?.onProgress?.({ stage: 'searching' });
+      return route;
+    });
+    const postMessage = jest.fn();
+
+    await createWorkerMessageHandler(postMessage)({ kind: 'run', id: 1, request });
+
+    expect(mockRunPathfindingRequest).toHaveBeenCalledWith(request, expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    expect(postMessage.mock.calls).toEqual([
+      [{ kind: 'progress', id: 1, progress: { stage: 'searching' } }],
+      [{ kind: 'result', id: 1, result: route }],
+    ]);
+  });
+
+  it('should post the error message of a failed request', async () => {
+    mockRunPathfindingRequest.mockRejectedValue(new Error('No route'));
+    const postMessage = jest.fn();
+
+    await createWorkerMessageHandler(postMessage)({ kind: 'run', id: 2, request });
+
+    expect(postMessage).toHaveBeenCalledWith({ kind: 'error', id: 2, message: 'No route' });
+  });
+
+  it('should post the name of errors of other classes', async () => {
+    const error = new Error('Trail data servers could not be reached');
+    error.name = 'OverpassError';
+    mockRunPathfindingRequest.mockRejectedValue(error);
+    const postMessage = jest.fn();
+
+    await createWorkerMessageHandler(postMessage)({ kind: 'run', id: 3, request });
+
+    expect(postMessage).toHaveBeenCalledWith({ kind: 'error', id: 3, message: error.message, name: 'OverpassError' });
+  });
+
+  it('should abort a cancelled request without posting a response', async () => {
+    let signal: AbortSignal | undefined;
+    mockRunPathfindingRequest.mockImplementation((_request, control?: PathfindingControl) => {
+      signal = control?.signal;
+      return new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(signal?.reason));
+      });
+    });
+    const postMessage = jest.fn();
+    const handleMessage = createWorkerMessageHandler(postMessage);
+
+    const running = handleMessage({ kind: 'run', id: 3, request });
+    await handleMessage({ kind: 'cancel', id: 3 });
+    await running;
+
+    expect(signal?.aborted).toBe(true);
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Start the pathfinding worker. Kept in its own module because the bundler
+ * resolves the worker from `import.meta.url`, which tests cannot load.
+ */
+export function createPathfindingWorker(): Worker {
+  return new Worker(new URL('./pathfinding.worker.ts', import.meta.url));
+}
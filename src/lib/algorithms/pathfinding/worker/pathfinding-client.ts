@@ -0,0 +1,150 @@
+import { PathfindingControl } from '@/types/pathfinding';
+import {
+  PathfindingRequest,
+  PathfindingResponse,
+  WorkerRequestMessage,
+  WorkerResponseMessage,
+  runPathfindingRequest
+} from './protocol';
+import { createPathfindingWorker } from './create-worker';
+
+/**
+ * Runs route computations off the main thread where possible
+ */
+export interface PathfindingClient {
+  /** Run a request; rejects with the abort reason when the signal aborts */
+  run: <R extends PathfindingRequest>(request: R, control?: PathfindingControl) => Promise<PathfindingResponse<R>>;
+  /** True when requests run in a worker rather than on the main thread, until the worker crashes */
+  readonly usesWorker: boolean;
+  /** Stop the worker; pending requests are rejected */
+  dispose: () => void;
+}
+
+interface PendingRequest {
+  request: PathfindingRequest;
+  control: PathfindingControl;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Start a worker, or answer null where workers are unavailable (server rendering, tests, old browsers)
+ */
+function startWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return createPathfindingWorker();
+  } catch (error) {
+    console.error('Error starting pathfinding worker:', error);
+    return null;
+  }
+}
+
+/**
+ * Client that runs requests on the main thread
+ */
+function createMainThreadClient(): PathfindingClient {
+  return {
+    run: (request, control = {}) => runPathfindingRequest(request, control),
+    usesWorker: false,
+    dispose: () => {},
+  };
+}
+
+/**
+ * Create a pathfinding client backed by a dedicated worker, falling back to the
+ * main thread where workers are unavailable or the worker crashes
+ * @returns Pathfinding client
+ */
+export function createPathfindingClient(): PathfindingClient {
+  const worker = startWorker();
+  if (!worker) return createMainThreadClient();
+
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 1;
+  // Takes over from a crashed worker
+  let fallback: PathfindingClient | null = null;
+
+  const rejectAll = (error: unknown) => {
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<WorkerResponseMessage>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    if (message.kind === 'progress') {
+      request.control.onProgress?.(message.progress);
+      return;
+    }
+
+    pending.delete(message.id);
+    if (message.kind === 'result') {
+      request.resolve(message.result);
+    } else {
+      // Error classes do not survive postMessage; keep the name for checks like isOverpassError
+      const error = new Error(message.message);
+      if (message.name) error.name = message.name;
+      request.reject(error);
+    }
+  };
+
+  // A crashed worker, such as one whose script failed to load, answers nothing more:
+  // stop it and run its pending requests again on the main thread
+  worker.onerror = (event: ErrorEvent) => {
+    console.error('Pathfinding worker error, continuing on the main thread:', event.message);
+    worker.terminate();
+    const mainThread = createMainThreadClient();
+    fallback = mainThread;
+    const retried = [...pending.values()];
+    pending.clear();
+    retried.forEach(({ request, control, resolve, reject }) => {
+      mainThread.run(request, control).then(resolve, reject);
+    });
+  };
+
+  const post = (message: WorkerRequestMessage) => worker.postMessage(message);
+
+  return {
+    run: <R extends PathfindingRequest>(request: R, control: PathfindingControl = {}) => {
+      if (fallback) return fallback.run(request, control);
+      const { signal } = control;
+      if (signal?.aborted) return Promise.reject(signal.reason);
+
+      const id = nextId++;
+      return new Promise<PathfindingResponse<R>>((resolve, reject) => {
+        const onAbort = () => {
+          // Requests retried on the main thread stop through the signal themselves
+          if (!pending.delete(id)) return;
+          post({ kind: 'cancel', id });
+          reject(signal!.reason);
+        };
+        const settle = () => signal?.removeEventListener('abort', onAbort);
+
+        pending.set(id, {
+          request,
+          control,
+          resolve: result => {
+            settle();
+            resolve(result as PathfindingResponse<R>);
+          },
+          reject: error => {
+            settle();
+            reject(error);
+          },
+        });
+        signal?.addEventListener('abort', onAbort, { once: true });
+        post({ kind: 'run', id, request });
+      });
+    },
+    get usesWorker() {
+      return !fallback;
+    },
+    dispose: () => {
+      worker.terminate();
+      rejectAll(new Error('Pathfinding client disposed'));
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import { WorkerRequestMessage, WorkerResponseMessage } from './protocol';
+import { createWorkerMessageHandler } from './worker-handler';
+
+/**
+ * The parts of the dedicated worker scope used here
+ */
+interface PathfindingWorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequestMessage>) => void) | null;
+  postMessage: (message: WorkerResponseMessage) => void;
+}
+
+const workerScope = self as unknown as PathfindingWorkerScope;
+const handleMessage = createWorkerMessageHandler(message => workerScope.postMessage(message));
+
+workerScope.onmessage = event => {
+  void handleMessage(event.data);
+};
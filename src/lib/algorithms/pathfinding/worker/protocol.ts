@@ -0,0 +1,68 @@
+import { Coordinate, RoutePoint, RouteLeg, LoopRoute, RouteAlternative } from '@/types/route';
+import {
+  PathfindingOptions,
+  PathfindingControl,
+  PathfindingDiagnostics,
+  PathfindingProgress,
+  LoopTarget
+} from '@/types/pathfinding';
+import { findAlternativeRoutes, findRouteThroughWaypoints, findLoopRoutes } from '@/lib/algorithms/pathfinding';
+
+/**
+ * Route computation that can run in the pathfinding worker
+ */
+export type PathfindingRequest =
+  | { type: 'alternatives'; start: Coordinate; end: Coordinate; options: PathfindingOptions; maxAlternatives: number }
+  | { type: 'waypoints'; waypoints: Coordinate[]; options: PathfindingOptions }
+  | { type: 'loops'; start: Coordinate; target: LoopTarget; options: PathfindingOptions; maxResults: number };
+
+/**
+ * Result of each request type
+ */
+export interface PathfindingResponseMap {
+  alternatives: RouteAlternative[];
+  waypoints: { points: RoutePoint[]; legs: RouteLeg[]; diagnostics: PathfindingDiagnostics[] };
+  loops: LoopRoute[];
+}
+
+/**
+ * Result of a given request
+ */
+export type PathfindingResponse<R extends PathfindingRequest> = PathfindingResponseMap[R['type']];
+
+/**
+ * Message from the main thread to the worker
+ */
+export type WorkerRequestMessage =
+  | { kind: 'run'; id: number; request: PathfindingRequest }
+  | { kind: 'cancel'; id: number };
+
+/**
+ * Message from the worker to the main thread
+ */
+export type WorkerResponseMessage =
+  | { kind: 'progress'; id: number; progress: PathfindingProgress }
+  | { kind: 'result'; id: number; result: PathfindingResponseMap[PathfindingRequest['type']] }
+  /** name is set for error classes other than Error, such as OverpassError */
+  | { kind: 'error'; id: number; message: string; name?: string };
+
+/**
+ * Run a request with the pathfinding engine, in the worker or on the main thread
+ * @param request Route computation to run
+ * @param control Abort signal and progress callback
+ * @returns Result of the request
+ */
+export async function runPathfindingRequest<R extends PathfindingRequest>(
+  request: R,
+  control: PathfindingControl = {}
+): Promise<PathfindingResponse<R>> {
+  // Narrowing a generic request does not narrow its response type, hence the casts
+  switch (request.type) {
+    case 'alternatives':
+      return await findAlternativeRoutes(request.start, request.end, request.options, request.maxAlternatives, control) as PathfindingResponse<R>;
+    case 'waypoints':
+      return await findRouteThroughWaypoints(request.waypoints, request.options, control) as PathfindingResponse<R>;
+    case 'loops':
+      return await findLoopRoutes(request.start, request.target, request.options, request.maxResults, control) as PathfindingResponse<R>;
+  }
+}
@@ -0,0 +1,44 @@
+import { WorkerRequestMessage, WorkerResponseMessage, runPathfindingRequest } from './protocol';
+
+/**
+ * Create the message handler of the pathfinding worker.
+ * Requests run concurrently and each can be cancelled by id.
+ * @param postMessage Sends a response to the main thread
+ * @returns Handler for messages from the main thread
+ */
+export function createWorkerMessageHandler(
+  postMessage: (message: WorkerResponseMessage) => void
+): (message: WorkerRequestMessage) => Promise<void> {
+  const running = new Map<number, AbortController>();
+
+  return async (message: WorkerRequestMessage) => {
+    if (message.kind === 'cancel') {
+      running.get(message.id)?.abort();
+      running.delete(message.id);
+      return;
+    }
+
+    const { id, request } = message;
+    const controller = new AbortController();
+    running.set(id, controller);
+
+    try {
+      const result = await runPathfindingRequest(request, {
+        signal: controller.signal,
+        onProgress: progress => postMessage({ kind: 'progress', id, progress }),
+      });
+      if (!controller.signal.aborted) {
+        postMessage({ kind: 'result', id, result });
+      }
+    } catch (error) {
+      // The main thread has already settled cancelled requests
+      if (!controller.signal.aborted) {
+        const message = error instanceof Error ? error.message : String(error);
+        const name = error instanceof Error && error.name !== 'Error' ? error.name : undefined;
+        postMessage({ kind: 'error', id, message, ...(name && { name }) });
+      }
+    } finally {
+      running.delete(id);
+    }
+  };
+}
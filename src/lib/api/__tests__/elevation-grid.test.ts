@@ -0,0 +1,106 @@
+import {
+  fetchElevationGrid,
+  planElevationGrid,
+  sampleElevationGrid,
+  getLatticeCoordinate,
+  ElevationGrid,
+  ELEVATION_GRID_CONSTANTS
+} from '../elevation-grid';
+import { getElevation } from '../elevation';
+import { Coordinate } from '@/types/route';
+
+jest.mock('../elevation');
+
+const mockGetElevation = getElevation as jest.Mock;
+
+describe('elevation grid', () => {
+  // A tilted plane rising 1000 m per degree north and 500 m per degree east
+  const plane = (coord: Coordinate) => 1000 + 1000 * (coord.lat - 46) + 500 * (coord.lng - 8);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetElevation.mockImplementation(async (coordinates: Coordinate[]) => coordinates.map(plane));
+  });
+
+  describe('planElevationGrid', () => {
+    it('should space lattice lines evenly across the bounding box', () => {
+      const layout = planElevationGrid({ minLat: 46, maxLat: 46.02, minLng: 8, maxLng: 8.01 });
+
+      expect(layout.rows).toBe(5);
+      expect(layout.columns).toBe(3);
+      expect(getLatticeCoordinate(layout, layout.rows - 1, layout.columns - 1).lat).toBeCloseTo(46.02);
+      expect(getLatticeCoordinate(layout, layout.rows - 1, layout.columns - 1).lng).toBeCloseTo(8.01);
+    });
+
+    it('should widen the spacing to stay within the lattice limit', () => {
+      const layout = planElevationGrid({ minLat: 46, maxLat: 47, minLng: 8, maxLng: 9 });
+
+      expect(layout.rows * layout.columns).toBeLessThanOrEqual(ELEVATION_GRID_CONSTANTS.MAX_LATTICE_POINTS);
+      expect(layout.latStep).toBeGreaterThan(ELEVATION_GRID_CONSTANTS.DEFAULT_SPACING);
+    });
+  });
+
+  describe('sampleElevationGrid', () => {
+    const layout = planElevationGrid({ minLat: 46, maxLat: 46.02, minLng: 8, maxLng: 8.02 });
+    const elevations: number[] = [];
+    for (let row = 0; row < layout.rows; row++) {
+      for (let column = 0; column < layout.columns; column++) {
+        elevations.push(plane(getLatticeCoordinate(layout, row, column)));
+      }
+    }
+    const grid: ElevationGrid = { ...layout, elevations, cacheTime: 0 };
+
+    it('should reproduce a plane exactly between lattice nodes', () => {
+      const coord = { lat: 46.0123, lng: 8.0071 };
+
+      expect(sampleElevationGrid(grid, coord)).toBeCloseTo(plane(coord));
+    });
+
+    it('should answer lattice nodes with their own elevation', () => {
+      expect(sampleElevationGrid(grid, { lat: 46.01, lng: 8.015 })).toBeCloseTo(plane({ lat: 46.01, lng: 8.015 }));
+    });
+
+    it('should clamp coordinates outside the grid to the nearest edge', () => {
+      expect(sampleElevationGrid(grid, { lat: 45.9, lng: 8.01 })).toBeCloseTo(plane({ lat: 46, lng: 8.01 }));
+      expect(sampleElevationGrid(grid, { lat: 46.5, lng: 8.5 })).toBeCloseTo(plane({ lat: 46.02, lng: 8.02 }));
+    });
+  });
+
+  describe('fetchElevationGrid', () => {
+    it('should look up the whole lattice in one elevation lookup', async () => {
+      const bbox = { minLat: 46, maxLat: 46.1, minLng: 8, maxLng: 8.1 };
+
+      const grid = await fetchElevationGrid(bbox);
+
+      expect(grid.elevations).toHaveLength(grid.rows * grid.columns);
+      expect(mockGetElevation).toHaveBeenCalledTimes(1);
+      expect(mockGetElevation.mock.calls[0][0]).toHaveLength(grid.rows * grid.columns);
+      expect(sampleElevationGrid(grid, { lat: 46.05, lng: 8.05 })).toBeCloseTo(plane({ lat: 46.05, lng: 8.05 }));
+    });
+
+    it('should reuse a cached grid for the same area', async () => {
+      const bbox = { minLat: 46.2, maxLat: 46.21, minLng: 8, maxLng: 8.01 };
+
+      const first = await fetchElevationGrid(bbox);
+      const second = await fetchElevationGrid(bbox);
+
+      expect(second).toBe(first);
+      expect(mockGetElevation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when the elevation lookup fails', async () => {
+      mockGetElevation.mockRejectedValue(new Error('Failed to fetch elevation data'));
+
+      await expect(fetchElevationGrid({ minLat: 46.3, maxLat: 46.31, minLng: 8, maxLng: 8.01 }))
+        .rejects.toThrow('Failed to fetch elevation data');
+    });
+
+    it('should pass the abort signal to every lookup', async () => {
+      const controller = new AbortController();
+
+      await fetchElevationGrid({ minLat: 46.4, maxLat: 46.41, minLng: 8, maxLng: 8.01 }, undefined, controller.signal);
+
+      expect(mockGetElevation).toHaveBeenCalledWith(expect.any(Array), controller.signal, undefined);
+    });
+  });
+});
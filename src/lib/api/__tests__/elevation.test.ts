@@ -1,12 +1,51 @@
-import { getElevation, getElevationForRoute } from '../elevation';
+import {
+  clearElevationCache,
+  createElevationCacheReport,
+  createElevationCacheStats,
+  createElevationProvider,
+  ELEVATION_CONSTANTS,
+  getElevation,
+  getElevationConfig,
+  getElevationForRoute,
+  getElevationProvider,
+  setElevationProvider,
+  ElevationProvider
+} from '../elevation';
 import { Coordinate } from '@/types/route';
+import { RETRY_CONSTANTS } from '@/lib/utils/fetch-retry';
 
 // Mock fetch globally
 global.fetch = jest.fn();
 
+/**
+ * Answer every attempt of a retried request with an HTTP error
+ */
+function mockHttpError(status: number, statusText?: string) {
+  for (let attempt = 0; attempt <= RETRY_CONSTANTS.MAX_RETRIES; attempt++) {
+    (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status, statusText });
+  }
+}
+
+/**
+ * Run a lookup with fake timers, skipping the waits between retries
+ */
+async function withoutRetryWaits<T>(lookup: () => Promise<T>): Promise<T> {
+  jest.useFakeTimers();
+  try {
+    const result = lookup();
+    result.catch(() => {});
+    await jest.runAllTimersAsync();
+    return await result;
+  } finally {
+    jest.useRealTimers();
+  }
+}
+
 describe('elevation API', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (fetch as jest.Mock).mockReset();
+    clearElevationCache();
     // Clear console.error mock if it exists
     jest.spyOn(console, 'error').mockImplementation(() => {});
   });
@@ -67,29 +106,17 @@ describe('elevation API', () => {
 
     it('should handle empty coordinates array', async () => {
       const emptyCoords: Coordinate[] = [];
-      const emptyResponse = { elevation: [] };
-
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: true,
-        json: async () => emptyResponse,
-      });
 
       const result = await getElevation(emptyCoords);
 
-      expect(fetch).toHaveBeenCalledWith(
-        'https://api.open-meteo.com/v1/elevation?latitude=&longitude=',
-        expect.any(Object)
-      );
+      expect(fetch).not.toHaveBeenCalled();
       expect(result).toEqual([]);
     });
 
     it('should handle HTTP error responses', async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: false,
-        status: 429,
-      });
+      mockHttpError(429);
 
-      await expect(getElevation(mockCoordinates)).rejects.toThrow('Failed to fetch elevation data');
+      await expect(withoutRetryWaits(() => getElevation(mockCoordinates))).rejects.toThrow('Failed to fetch elevation data');
       expect(console.error).toHaveBeenCalledWith(
         'Error fetching elevation data:',
         expect.any(Error)
@@ -106,6 +133,18 @@ describe('elevation API', () => {
       );
     });
 
+    it('should pass the abort signal to fetch and rethrow the abort reason', async () => {
+      const controller = new AbortController();
+      (fetch as jest.Mock).mockImplementationOnce(async () => {
+        controller.abort();
+        throw controller.signal.reason;
+      });
+
+      await expect(getElevation(mockCoordinates, controller.signal)).rejects.toBe(controller.signal.reason);
+      expect(fetch).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ signal: controller.signal }));
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
     it('should handle invalid JSON response', async () => {
       (fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
@@ -182,21 +221,15 @@ describe('elevation API', () => {
     });
 
     it('should handle API rate limiting', async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: false,
-        status: 429,
-      });
+      mockHttpError(429);
 
-      await expect(getElevation(mockCoordinates)).rejects.toThrow('Failed to fetch elevation data');
+      await expect(withoutRetryWaits(() => getElevation(mockCoordinates))).rejects.toThrow('Failed to fetch elevation data');
     });
 
     it('should handle server errors', async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-      });
+      mockHttpError(500);
 
-      await expect(getElevation(mockCoordinates)).rejects.toThrow('Failed to fetch elevation data');
+      await expect(withoutRetryWaits(() => getElevation(mockCoordinates))).rejects.toThrow('Failed to fetch elevation data');
     });
   });
 
@@ -251,9 +284,10 @@ describe('elevation API', () => {
 
     it('should handle custom resolution values', async () => {
       const highResolution = 0.0001; // Very fine resolution
-      const mockElevations = Array.from({ length: 50 }, (_, i) => 4478 - (i * 60));
+      const mockElevations = Array.from({ length: ELEVATION_CONSTANTS.OPEN_METEO_MAX_COORDINATES }, (_, i) => 4478 - (i * 60));
 
-      (fetch as jest.Mock).mockResolvedValueOnce({
+      // The fine resolution takes several requests
+      (fetch as jest.Mock).mockResolvedValue({
         ok: true,
         json: async () => ({ elevation: mockElevations }),
       });
@@ -297,6 +331,16 @@ describe('elevation API', () => {
       );
     });
 
+    it('should not fall back to zero elevation when aborted', async () => {
+      const controller = new AbortController();
+      (fetch as jest.Mock).mockImplementationOnce(async () => {
+        controller.abort();
+        throw controller.signal.reason;
+      });
+
+      await expect(getElevationForRoute(start, end, 0.001, controller.signal)).rejects.toBe(controller.signal.reason);
+    });
+
     it('should interpolate points correctly with different coordinate scales', async () => {
       const longRoute: Coordinate = { lat: 46.0, lng: 7.0 }; // Much farther point
       const expectedPoints = 50; // Based on distance calculation
@@ -337,12 +381,9 @@ describe('elevation API', () => {
     });
 
     it('should handle HTTP errors in elevation API', async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: false,
-        status: 503,
-      });
+      mockHttpError(503);
 
-      const result = await getElevationForRoute(start, end);
+      const result = await withoutRetryWaits(() => getElevationForRoute(start, end));
 
       // Should fallback to zero elevations
       result.forEach(point => {
@@ -420,13 +461,9 @@ describe('elevation API', () => {
     });
 
     it('should handle API rate limiting with specific error code', async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: false,
-        status: 429,
-        statusText: 'Too Many Requests',
-      });
+      mockHttpError(429, 'Too Many Requests');
 
-      await expect(getElevation([{ lat: 46.5503, lng: 7.9822 }])).rejects.toThrow('Failed to fetch elevation data');
+      await expect(withoutRetryWaits(() => getElevation([{ lat: 46.5503, lng: 7.9822 }]))).rejects.toThrow('Failed to fetch elevation data');
       expect(console.error).toHaveBeenCalledWith(
         'Error fetching elevation data:',
         expect.objectContaining({
@@ -503,13 +540,9 @@ describe('elevation API', () => {
     });
 
     it('should handle API returning status 503 Service Unavailable', async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
-        ok: false,
-        status: 503,
-        statusText: 'Service Unavailable',
-      });
+      mockHttpError(503, 'Service Unavailable');
 
-      await expect(getElevation([{ lat: 46.5503, lng: 7.9822 }])).rejects.toThrow('Failed to fetch elevation data');
+      await expect(withoutRetryWaits(() => getElevation([{ lat: 46.5503, lng: 7.9822 }]))).rejects.toThrow('Failed to fetch elevation data');
     });
 
     it('should handle fetch being undefined/unavailable', async () => {
@@ -636,4 +669,164 @@ describe('elevation API', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('batching, retries and caching', () => {
+    const line = (count: number, lat: number = 46): Coordinate[] =>
+      Array.from({ length: count }, (_, i) => ({ lat, lng: 8 + i * 0.001 }));
+    const respondWithLongitudes = () => (fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () => ({ elevation: new URL(url).searchParams.get('longitude')!.split(',').map(lng => Math.round(Number(lng) * 1000)) }),
+    }));
+
+    afterEach(() => {
+      setElevationProvider(null);
+    });
+
+    it('should split long lookups into requests within the coordinate limit', async () => {
+      respondWithLongitudes();
+
+      const result = await getElevation(line(250));
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      (fetch as jest.Mock).mock.calls.forEach(([url]) => {
+        expect(new URL(url).searchParams.get('latitude')!.split(',').length).toBeLessThanOrEqual(ELEVATION_CONSTANTS.OPEN_METEO_MAX_COORDINATES);
+      });
+      expect(result).toEqual(line(250).map(coord => Math.round(coord.lng * 1000)));
+    });
+
+    it('should retry rate limited and failed requests', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 429 })
+        .mockResolvedValueOnce({ ok: false, status: 502 })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ elevation: [1200] }) });
+
+      await expect(withoutRetryWaits(() => getElevation([{ lat: 46.5, lng: 8 }]))).resolves.toEqual([1200]);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep at most CONCURRENT_REQUESTS requests in flight', async () => {
+      let inFlight = 0;
+      let mostInFlight = 0;
+      setElevationProvider({
+        name: 'slow',
+        maxCoordinatesPerRequest: 1,
+        getElevations: async coordinates => {
+          mostInFlight = Math.max(mostInFlight, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 1));
+          inFlight--;
+          return coordinates.map(() => 500);
+        },
+      });
+
+      await expect(getElevation(line(10))).resolves.toEqual(new Array(10).fill(500));
+      expect(mostInFlight).toBe(ELEVATION_CONSTANTS.CONCURRENT_REQUESTS);
+    });
+
+    it('should answer repeated coordinates from the cache by rounded coordinate', async () => {
+      respondWithLongitudes();
+      const stats = createElevationCacheStats();
+
+      await getElevation(line(3), undefined, stats);
+      const again = await getElevation([...line(3).map(coord => ({ ...coord, lng: coord.lng + 0.00001 })), { lat: 46.1, lng: 8 }], undefined, stats);
+
+      expect(again).toEqual([8000, 8001, 8002, 8000]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(new URL((fetch as jest.Mock).mock.calls[1][0]).searchParams.get('latitude')).toBe('46.1');
+      expect(createElevationCacheReport(stats)).toEqual({
+        lookups: 7,
+        memoryHits: 3,
+        persistentHits: 0,
+        fetched: 4,
+        hitRate: 3 / 7,
+      });
+    });
+
+    it('should not cache coordinates the provider has no data for', async () => {
+      (fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({ elevation: [null] }) });
+
+      await getElevation([{ lat: 46.5, lng: 8 }]);
+      await getElevation([{ lat: 46.5, lng: 8 }]);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count lookups only in the stats they were given', async () => {
+      respondWithLongitudes();
+      const first = createElevationCacheStats();
+      const second = createElevationCacheStats();
+
+      await Promise.all([getElevation(line(2), undefined, first), getElevation(line(3), undefined, second)]);
+
+      expect(first.lookups).toBe(2);
+      expect(second.lookups).toBe(3);
+    });
+
+    it('should report nothing when no coordinates were looked up', () => {
+      expect(createElevationCacheReport(createElevationCacheStats())).toBeNull();
+    });
+  });
+
+  describe('elevation providers', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+      setElevationProvider(null);
+    });
+
+    it('should read the provider from the environment, Open-Meteo by default', () => {
+      delete process.env.NEXT_PUBLIC_ELEVATION_PROVIDER;
+      delete process.env.NEXT_PUBLIC_HGT_TILE_URL;
+      expect(getElevationConfig()).toEqual({ provider: 'open-meteo' });
+
+      process.env.NEXT_PUBLIC_ELEVATION_PROVIDER = 'hgt';
+      process.env.NEXT_PUBLIC_HGT_TILE_URL = '/dem';
+      expect(getElevationConfig()).toEqual({ provider: 'hgt', hgtTileUrl: '/dem' });
+    });
+
+    it('should create the configured provider', async () => {
+      expect(createElevationProvider({ provider: 'open-meteo' }).name).toBe('open-meteo');
+
+      const hgt = createElevationProvider({ provider: 'hgt', hgtTileUrl: '/dem' });
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      expect(hgt.name).toBe('hgt');
+      await expect(hgt.getElevations([{ lat: 46.5, lng: 8.5 }])).rejects.toThrow('No elevation tile N46E008');
+      expect(fetch).toHaveBeenCalledWith('/dem/N46E008.hgt', expect.any(Object));
+    });
+
+    it('should ask the elevation route when the data proxy is enabled', async () => {
+      process.env.NEXT_PUBLIC_DATA_PROXY = 'true';
+      const proxy = createElevationProvider({ provider: 'open-meteo' });
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ elevations: [1200, 1300] }) })
+        .mockResolvedValueOnce({ ok: false, status: 502, json: async () => ({ error: 'Elevation API error: 429' }) });
+
+      expect(proxy.name).toBe('proxy');
+      expect(createElevationProvider({ provider: 'hgt' }).name).toBe('hgt');
+      await expect(proxy.getElevations([{ lat: 46.5, lng: 8 }, { lat: 46.6, lng: 8 }])).resolves.toEqual([1200, 1300]);
+      expect(fetch).toHaveBeenCalledWith('/api/elevation', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ coordinates: [{ lat: 46.5, lng: 8 }, { lat: 46.6, lng: 8 }] }),
+      }));
+      await expect(proxy.getElevations([{ lat: 46.5, lng: 8 }])).rejects.toThrow('Elevation API error: 429');
+    });
+
+    it('should look elevation up with the provider in use, without the network', async () => {
+      const provider: ElevationProvider = {
+        name: 'fixed',
+        getElevations: jest.fn(async coordinates => coordinates.map(coord => Math.round(coord.lat * 100))),
+      };
+      setElevationProvider(provider);
+
+      expect(getElevationProvider()).toBe(provider);
+      await expect(getElevation([{ lat: 46.5, lng: 8 }])).resolves.toEqual([4650]);
+      const route = await getElevationForRoute({ lat: 46.0, lng: 8.0 }, { lat: 46.5, lng: 8.0 }, 0.25);
+      expect(route.map(point => point.elevation)).toEqual([4600, 4625, 4650]);
+      expect(fetch).not.toHaveBeenCalled();
+
+      setElevationProvider(null);
+      expect(getElevationProvider().name).toBe('open-meteo');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  combineHgtSources,
+  createHgtProvider,
+  createHgtUrlSource,
+  getHgtTileName,
+  HGT_CONSTANTS,
+  HgtTileSource,
+  parseHgtTile,
+  sampleHgtTile
+} from '../hgt-elevation';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+/**
+ * Build a .hgt file of the given size from a height function of the row (from the north) and column
+ */
+function buildHgt(size: number, height: (row: number, column: number) => number): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(size * size * 2));
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      view.setInt16((row * size + column) * 2, height(row, column), false);
+    }
+  }
+  return view.buffer;
+}
+
+describe('SRTM hgt elevation', () => {
+  // 11 samples per side, 0.1° apart, rising 100 m per row southward and 10 m per column eastward
+  const slope = buildHgt(11, (row, column) => 1000 + 100 * row + 10 * column);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getHgtTileName', () => {
+    it('should name tiles by their south-west corner', () => {
+      expect(getHgtTileName({ lat: 46.55, lng: 7.98 })).toBe('N46E007');
+      expect(getHgtTileName({ lat: -13.2, lng: -72.5 })).toBe('S14W073');
+      expect(getHgtTileName({ lat: 0.5, lng: 0.5 })).toBe('N00E000');
+    });
+  });
+
+  describe('parseHgtTile', () => {
+    it('should read big-endian heights and the tile position', () => {
+      const tile = parseHgtTile('S14W073', buildHgt(3, () => -20));
+
+      expect(tile).toMatchObject({ name: 'S14W073', lat: -14, lng: -73, size: 3 });
+      expect(Array.from(tile.heights)).toEqual(new Array(9).fill(-20));
+    });
+
+    it('should reject bad names and data that is not a square of samples', () => {
+      expect(() => parseHgtTile('N46E8', slope)).toThrow('Invalid elevation tile name');
+      expect(() => parseHgtTile('N46E008', new ArrayBuffer(10))).toThrow('Invalid elevation tile N46E008');
+    });
+  });
+
+  describe('sampleHgtTile', () => {
+    const tile = parseHgtTile('N46E008', slope);
+
+    it('should return sample heights at lattice points', () => {
+      expect(sampleHgtTile(tile, { lat: 47, lng: 8 })).toBeCloseTo(1000);
+      expect(sampleHgtTile(tile, { lat: 46, lng: 9 })).toBeCloseTo(2100);
+      expect(sampleHgtTile(tile, { lat: 46.5, lng: 8.3 })).toBeCloseTo(1530);
+    });
+
+    it('should interpolate between samples', () => {
+      expect(sampleHgtTile(tile, { lat: 46.95, lng: 8.05 })).toBeCloseTo(1055);
+    });
+
+    it('should leave out voids and return null where all samples are voids', () => {
+      const holed = parseHgtTile('N46E008', buildHgt(3, (row, column) => (row === 0 && column === 0 ? HGT_CONSTANTS.VOID : 500)));
+      const empty = parseHgtTile('N46E008', buildHgt(3, () => HGT_CONSTANTS.VOID));
+
+      expect(sampleHgtTile(holed, { lat: 46.75, lng: 8.25 })).toBeCloseTo(500);
+      expect(sampleHgtTile(empty, { lat: 46.75, lng: 8.25 })).toBeNull();
+    });
+  });
+
+  describe('createHgtProvider', () => {
+    it('should read elevations from the tiles of a source, loading each tile once', async () => {
+      const source = jest.fn<ReturnType<HgtTileSource>, Parameters<HgtTileSource>>(async name =>
+        name === 'N46E008' ? slope : name === 'N46E007' ? buildHgt(3, () => 400) : null);
+      const provider = createHgtProvider(source);
+
+      const first = await provider.getElevations([{ lat: 46.95, lng: 8.05 }, { lat: 46.5, lng: 7.5 }, { lat: 46.5, lng: 8.3 }]);
+      const second = await provider.getElevations([{ lat: 46.05, lng: 8.95 }]);
+
+      expect(provider.name).toBe('hgt');
+      expect(first.map(Math.round)).toEqual([1055, 400, 1530]);
+      expect(second.map(Math.round)).toEqual([2045]);
+      expect(source).toHaveBeenCalledTimes(2);
+    });
+
+    it('should answer 0 for voids and fail for missing tiles', async () => {
+      const provider = createHgtProvider(async name => (name === 'N46E008' ? buildHgt(3, () => HGT_CONSTANTS.VOID) : null));
+
+      await expect(provider.getElevations([{ lat: 46.5, lng: 8.5 }])).resolves.toEqual([0]);
+      await expect(provider.getElevations([{ lat: 45.5, lng: 8.5 }])).rejects.toThrow('No elevation tile N45E008');
+    });
+
+    it('should keep only the most recently used tiles', async () => {
+      const source = jest.fn<ReturnType<HgtTileSource>, Parameters<HgtTileSource>>(async () => buildHgt(3, () => 1));
+      const provider = createHgtProvider(source);
+      const coordinates = Array.from({ length: HGT_CONSTANTS.MAX_CACHED_TILES + 1 }, (_, i) => ({ lat: 46.5, lng: 8.5 + i }));
+
+      await provider.getElevations(coordinates);
+      await provider.getElevations([coordinates[coordinates.length - 1], coordinates[0]]);
+
+      expect(source).toHaveBeenCalledTimes(HGT_CONSTANTS.MAX_CACHED_TILES + 2);
+    });
+  });
+
+  describe('tile sources', () => {
+    it('should fetch tiles from a URL and find nothing for missing files', async () => {
+      const source = createHgtUrlSource('/dem/');
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, status: 200, arrayBuffer: async () => slope })
+        .mockResolvedValueOnce({ ok: false, status: 404 })
+        .mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await expect(source('N46E008')).resolves.toBe(slope);
+      expect(fetch).toHaveBeenCalledWith('/dem/N46E008.hgt', { signal: undefined });
+      await expect(source('N45E008')).resolves.toBeNull();
+      await expect(source('N44E008')).rejects.toThrow('Elevation tile error: 500');
+    });
+
+    it('should read each tile from the first source that has it', async () => {
+      const other = buildHgt(3, () => 7);
+      const source = combineHgtSources(async () => null, async name => (name === 'N46E008' ? slope : null), async () => other);
+
+      await expect(source('N46E008')).resolves.toBe(slope);
+      await expect(source('N45E008')).resolves.toBe(other);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  fetchOverpassArea,
+  getOverpassEndpoints,
+  isOverpassError,
+  mergeOverpassElements,
+  OVERPASS_CONSTANTS,
+  OverpassError,
+  queryOverpass,
+  splitBbox
+} from '../overpass';
+import { RETRY_CONSTANTS } from '@/lib/utils/fetch-retry';
+
+// Mock fetch globally
+const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = mockFetch;
+
+const respond = (body: unknown) => ({ ok: true, status: 200, json: async () => body }) as Response;
+const way = (id: number) => ({ type: 'way', id, geometry: [{ lat: 46.5, lon: 8.5 }, { lat: 46.51, lon: 8.51 }] });
+
+/**
+ * Settle a request while running the waits between its retries
+ */
+async function withoutWaits<T>(request: Promise<T>): Promise<T> {
+  const settled = request.then(value => ({ value }), error => ({ error }));
+  await jest.runAllTimersAsync();
+  const result = await settled;
+  if ('error' in result) throw result.error;
+  return result.value;
+}
+
+describe('Overpass client', () => {
+  const [main, mirror, lastMirror] = OVERPASS_CONSTANTS.DEFAULT_ENDPOINTS;
+  const bbox = { minLat: 46.5, maxLat: 46.6, minLng: 8.5, maxLng: 8.6 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    delete process.env.NEXT_PUBLIC_OVERPASS_ENDPOINTS;
+  });
+
+  describe('getOverpassEndpoints', () => {
+    it('should use the configured endpoints in order, or the defaults', () => {
+      expect(getOverpassEndpoints()).toEqual(OVERPASS_CONSTANTS.DEFAULT_ENDPOINTS);
+
+      process.env.NEXT_PUBLIC_OVERPASS_ENDPOINTS = 'http://localhost:12345/api/interpreter, https://overpass-api.de/api/interpreter,';
+      expect(getOverpassEndpoints()).toEqual(['http://localhost:12345/api/interpreter', 'https://overpass-api.de/api/interpreter']);
+    });
+  });
+
+  describe('queryOverpass', () => {
+    it('should retry server errors and then fail over to the next endpoint', async () => {
+      for (let i = 0; i <= RETRY_CONSTANTS.MAX_RETRIES; i++) mockFetch.mockResolvedValueOnce({ ok: false, status: 502 } as Response);
+      mockFetch.mockResolvedValueOnce(respond({ elements: [way(1)] }));
+
+      await expect(withoutWaits(queryOverpass('[out:json];'))).resolves.toEqual([way(1)]);
+
+      const urls = mockFetch.mock.calls.map(([url]) => url);
+      expect(urls).toEqual([...new Array(RETRY_CONSTANTS.MAX_RETRIES + 1).fill(main), mirror]);
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: 'POST', body: 'data=%5Bout%3Ajson%5D%3B' });
+    });
+
+    it('should throw a typed error from the last endpoint when all fail', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 400 } as Response)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(respond({ version: 0.6 }));
+
+      const error = await queryOverpass('[out:json];').catch(e => e);
+
+      expect(error).toBeInstanceOf(OverpassError);
+      expect(error).toMatchObject({ name: 'OverpassError', kind: 'invalid-response' });
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([main, mirror, lastMirror]);
+    });
+
+    it('should report rate limiting with its status', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 429 } as Response);
+
+      await expect(withoutWaits(queryOverpass('[out:json];')))
+        .rejects.toMatchObject({ kind: 'rate-limited', status: 429, message: expect.stringContaining('HTTP 429') });
+    });
+
+    it('should treat answers with a runtime error remark as truncated without trying other endpoints', async () => {
+      mockFetch.mockResolvedValue(respond({ elements: [way(1)], remark: 'runtime error: Query timed out in "query" at line 3' }));
+
+      await expect(queryOverpass('[out:json];')).rejects.toMatchObject({ kind: 'truncated' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up on an endpoint that does not answer in time', async () => {
+      mockFetch.mockImplementation((_, init) =>
+        new Promise((_, reject) => {
+          init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason));
+        })
+      );
+
+      await expect(withoutWaits(queryOverpass('[out:json];'))).rejects.toMatchObject({ kind: 'timeout' });
+      expect(mockFetch).toHaveBeenCalledTimes(OVERPASS_CONSTANTS.DEFAULT_ENDPOINTS.length);
+    });
+
+    it('should rethrow the abort reason without trying other endpoints', async () => {
+      const controller = new AbortController();
+      const reason = new DOMException('The operation was aborted.', 'AbortError');
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort(reason);
+        throw reason;
+      });
+
+      await expect(queryOverpass('[out:json];', controller.signal)).rejects.toBe(reason);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('splitBbox', () => {
+    it('should keep small areas whole', () => {
+      expect(splitBbox(bbox)).toEqual([bbox]);
+    });
+
+    it('should split large areas into parts within the area limit that cover the area', () => {
+      const large = { minLat: 46, maxLat: 46.5, minLng: 8, maxLng: 9 };
+      const parts = splitBbox(large);
+      const area = (part: typeof large) => (part.maxLat - part.minLat) * (part.maxLng - part.minLng);
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach(part => expect(area(part)).toBeLessThanOrEqual(OVERPASS_CONSTANTS.MAX_QUERY_AREA + 1e-9));
+      expect(parts.reduce((sum, part) => sum + area(part), 0)).toBeCloseTo(area(large));
+      expect(Math.min(...parts.map(part => part.minLng))).toBe(8);
+      expect(Math.max(...parts.map(part => part.maxLat))).toBe(46.5);
+    });
+  });
+
+  describe('fetchOverpassArea', () => {
+    it('should split a truncated area in four and merge the answers', async () => {
+      mockFetch
+        .mockResolvedValueOnce(respond({ elements: [way(1)], remark: 'runtime error: out of memory' }))
+        .mockResolvedValueOnce(respond({ elements: [way(1), way(2)] }))
+        .mockResolvedValueOnce(respond({ elements: [way(2)] }))
+        .mockResolvedValueOnce(respond({ elements: [] }))
+        .mockResolvedValueOnce(respond({ elements: [way(3)] }));
+      const buildQuery = jest.fn((part: typeof bbox) => `[out:json];way(${part.minLat},${part.minLng},${part.maxLat},${part.maxLng});`);
+
+      const elements = await fetchOverpassArea(bbox, buildQuery);
+
+      expect(elements.map(element => element.id)).toEqual([1, 2, 3]);
+      expect(buildQuery).toHaveBeenCalledTimes(5);
+      expect(buildQuery.mock.calls[1][0]).toEqual({ minLat: 46.5, maxLat: 46.55, minLng: 8.5, maxLng: 8.55 });
+    });
+
+    it('should stop splitting after MAX_SPLIT_DEPTH', async () => {
+      mockFetch.mockImplementation(async () => respond({ elements: [], remark: 'runtime error: out of memory' }));
+
+      await expect(fetchOverpassArea(bbox, () => '[out:json];')).rejects.toMatchObject({ kind: 'truncated' });
+      // The area, its first quarter and that quarter's first quarter, which is not split again
+      expect(mockFetch).toHaveBeenCalledTimes(1 + OVERPASS_CONSTANTS.MAX_SPLIT_DEPTH);
+    });
+
+    it('should query large areas part by part', async () => {
+      mockFetch.mockImplementation(async () => respond({ elements: [way(mockFetch.mock.calls.length)] }));
+
+      const elements = await fetchOverpassArea({ minLat: 46, maxLat: 46.5, minLng: 8, maxLng: 9 }, () => '[out:json];');
+
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(1);
+      expect(elements).toHaveLength(mockFetch.mock.calls.length);
+    });
+  });
+
+  describe('mergeOverpassElements', () => {
+    it('should keep one copy of elements found in several answers', () => {
+      expect(mergeOverpassElements([[way(1), way(2)], [way(2), { type: 'node', id: 2 }]]).map(e => `${e.type}/${e.id}`))
+        .toEqual(['way/1', 'way/2', 'node/2']);
+    });
+  });
+
+  describe('isOverpassError', () => {
+    it('should recognise Overpass errors also after they crossed the worker boundary', () => {
+      const rebuilt = new Error('Trail data servers could not be reached');
+      rebuilt.name = 'OverpassError';
+
+      expect(isOverpassError(new OverpassError('network'))).toBe(true);
+      expect(isOverpassError(rebuilt)).toBe(true);
+      expect(isOverpassError(new Error('No route'))).toBe(false);
+      expect(isOverpassError('OverpassError')).toBe(false);
+    });
+  });
+});
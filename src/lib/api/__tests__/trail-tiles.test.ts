@@ -0,0 +1,112 @@
+import {
+  clearTrailTileCache,
+  getElementBounds,
+  getTileAt,
+  getTileBounds,
+  getTrailCacheTtl,
+  getTrailTileKey,
+  getTrailTiles,
+  mergeTileElements,
+  readTrailTiles,
+  splitElementsIntoTiles,
+  storeTrailTiles,
+  TRAIL_TILE_CONSTANTS
+} from '../trail-tiles';
+import { OverpassElement } from '../trails';
+
+describe('trail tiles', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    clearTrailTileCache();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  describe('tile layout', () => {
+    it('should find the slippy map tile of a coordinate', () => {
+      expect(getTileAt(46.0207, 7.7491, 13)).toEqual({ x: 4272, y: 2913, zoom: 13 });
+      expect(getTileAt(46.0207, 7.7491, 12)).toEqual({ x: 2136, y: 1456, zoom: 12 });
+      expect(getTileAt(-33.86, 151.21, 13)).toEqual({ x: 7536, y: 4915, zoom: 13 });
+    });
+
+    it('should give tile bounds containing the coordinates of the tile', () => {
+      const bounds = getTileBounds({ x: 4272, y: 2913, zoom: 13 });
+
+      expect(bounds.minLat).toBeLessThan(46.0207);
+      expect(bounds.maxLat).toBeGreaterThan(46.0207);
+      expect(bounds.minLng).toBeLessThan(7.7491);
+      expect(bounds.maxLng).toBeGreaterThan(7.7491);
+      expect(getTileAt(bounds.minLat + 1e-6, bounds.maxLng - 1e-6, 13)).toEqual({ x: 4272, y: 2913, zoom: 13 });
+    });
+
+    it('should cover a bounding box with tiles, coarser for large areas', () => {
+      const small = getTrailTiles({ minLat: 46.0, maxLat: 46.05, minLng: 7.7, maxLng: 7.8 });
+      const large = getTrailTiles({ minLat: 45.5, maxLat: 46.5, minLng: 7.0, maxLng: 8.0 });
+
+      expect(small.every(tile => tile.zoom === TRAIL_TILE_CONSTANTS.ZOOM)).toBe(true);
+      expect(small).toHaveLength(3 * 3);
+      expect(large.every(tile => tile.zoom === TRAIL_TILE_CONSTANTS.COARSE_ZOOM)).toBe(true);
+      expect(getTrailTileKey(small[0], 'walking')).toBe(`walking/13/${small[0].x}/${small[0].y}`);
+    });
+  });
+
+  describe('splitting and merging elements', () => {
+    const tiles = [{ x: 4272, y: 2913, zoom: 13 }, { x: 4273, y: 2913, zoom: 13 }];
+    const [west, east] = tiles.map(getTileBounds);
+    const way = (id: number, lngs: number[]): OverpassElement => ({
+      type: 'way',
+      id,
+      geometry: lngs.map(lon => ({ lat: (west.minLat + west.maxLat) / 2, lon })),
+    });
+    const inWest = way(1, [west.minLng + 0.001, west.minLng + 0.002]);
+    const acrossBoth = way(2, [west.maxLng - 0.001, east.minLng + 0.001]);
+    const route: OverpassElement = { type: 'relation', id: 3, tags: { route: 'hiking' }, members: [{ type: 'way', ref: 1 }] };
+
+    it('should find element bounds from bounds, geometry or position', () => {
+      expect(getElementBounds({ type: 'way', id: 1, bounds: { minlat: 1, minlon: 2, maxlat: 3, maxlon: 4 } }))
+        .toEqual({ minLat: 1, minLng: 2, maxLat: 3, maxLng: 4 });
+      expect(getElementBounds({ type: 'node', id: 1, lat: 46, lon: 8 })).toEqual({ minLat: 46, minLng: 8, maxLat: 46, maxLng: 8 });
+      expect(getElementBounds(route)).toBeNull();
+    });
+
+    it('should share elements between the tiles they overlap, and route relations with all', () => {
+      const [westElements, eastElements] = splitElementsIntoTiles([inWest, acrossBoth, route], tiles);
+
+      expect(westElements).toEqual([inWest, acrossBoth, route]);
+      expect(eastElements).toEqual([acrossBoth, route]);
+    });
+
+    it('should keep one copy of elements shared between tiles', () => {
+      const merged = mergeTileElements([
+        { elements: [inWest, acrossBoth, route], cacheTime: 0 },
+        { elements: [acrossBoth, route], cacheTime: 0 },
+      ]);
+
+      expect(merged).toEqual([inWest, acrossBoth, route]);
+    });
+  });
+
+  describe('tile cache', () => {
+    it('should read the TTL from the environment', () => {
+      delete process.env.NEXT_PUBLIC_TRAIL_CACHE_TTL_HOURS;
+      expect(getTrailCacheTtl()).toBe(TRAIL_TILE_CONSTANTS.DEFAULT_TTL);
+
+      process.env.NEXT_PUBLIC_TRAIL_CACHE_TTL_HOURS = '2';
+      expect(getTrailCacheTtl()).toBe(2 * 60 * 60 * 1000);
+    });
+
+    it('should return stored tiles until they expire', async () => {
+      const record = { elements: [], cacheTime: Date.now() };
+      storeTrailTiles([['walking/13/1/2', record]]);
+
+      await expect(readTrailTiles(['walking/13/1/2', 'walking/13/1/3'])).resolves.toEqual([record, undefined]);
+
+      jest.spyOn(Date, 'now').mockReturnValue(record.cacheTime + TRAIL_TILE_CONSTANTS.DEFAULT_TTL);
+      await expect(readTrailTiles(['walking/13/1/2'])).resolves.toEqual([undefined]);
+    });
+  });
+});
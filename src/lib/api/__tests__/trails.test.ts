@@ -9,11 +9,19 @@ import {
   isCacheValid,
   parseTrailDifficulty,
   buildSpatialIndex,
+  assembleRings,
+  parseTrailAccess,
+  parseHikingRoute,
+  parseLandcover,
   cachedCalculateDistance,
   calculateDistance,
+  MAX_CACHED_TRAIL_NETWORKS,
   TrailSegment,
   TrailNetwork,
 } from '../trails';
+import { clearTrailTileCache, TRAIL_TILE_CONSTANTS } from '../trail-tiles';
+import { OVERPASS_CONSTANTS, OverpassError } from '../overpass';
+import { RETRY_CONSTANTS } from '@/lib/utils/fetch-retry';
 import { Coordinate } from '@/types/route';
 
 // Mock fetch - will be reset per test
@@ -51,6 +59,7 @@ describe('trails API', () => {
     // Mock console functions
     jest.spyOn(console, 'log').mockImplementation(() => {});
     jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
     
     // Reset performance timer
     mockPerformanceNow.mockReturnValue(0);
@@ -143,6 +152,7 @@ describe('trails API', () => {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
           body: expect.stringContaining('data='),
+          signal: expect.any(AbortSignal),
         }
       );
 
@@ -196,6 +206,30 @@ describe('trails API', () => {
       expect(roadFeature?.isRoad).toBe(true);
     });
 
+    it('should keep bike and piste tags and cache other filters apart', async () => {
+      const bikeResponse = {
+        elements: [{
+          type: 'way',
+          id: 12349,
+          tags: { highway: 'path', 'mtb:scale': '2', bicycle: 'yes', 'piste:type': 'skitour' },
+          geometry: [{ lat: 46.5400, lon: 7.9700 }, { lat: 46.5410, lon: 7.9710 }],
+        }],
+      };
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => mockOSMResponse } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => bikeResponse } as Response);
+
+      // Use unique coordinates to avoid cache conflicts
+      const uniqueStart: Coordinate = { lat: 47.5000, lng: 8.5000 };
+      const uniqueEnd: Coordinate = { lat: 47.5100, lng: 8.5100 };
+
+      await fetchTrailData(uniqueStart, uniqueEnd);
+      const result = await fetchTrailData(uniqueStart, uniqueEnd, undefined, undefined, { highways: ['path', 'track'] });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.trails[0]).toMatchObject({ mtbScale: '2', bicycle: 'yes', pisteType: 'skitour' });
+    });
+
     it('should use cached data when available and valid', async () => {
       // Use unique coordinates to avoid cache conflicts
       const uniqueStart: Coordinate = { lat: 47.0000, lng: 8.5000 };
@@ -219,6 +253,25 @@ describe('trails API', () => {
       expect(result1.trails).toEqual(result2.trails);
     });
 
+    it('should keep a bounded number of trail networks in memory', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => ({ elements: [] }) } as Response);
+      const areaStart = (i: number): Coordinate => ({ lat: 40 + i * 0.1, lng: 5.0 });
+      const areaEnd = (i: number): Coordinate => ({ lat: 40.01 + i * 0.1, lng: 5.01 });
+
+      for (let i = 0; i <= MAX_CACHED_TRAIL_NETWORKS; i++) {
+        await fetchTrailData(areaStart(i), areaEnd(i));
+      }
+      // Networks are assembled from tiles, so drop those to see which networks are still cached
+      clearTrailTileCache();
+      mockFetch.mockClear();
+
+      await fetchTrailData(areaStart(MAX_CACHED_TRAIL_NETWORKS), areaEnd(MAX_CACHED_TRAIL_NETWORKS));
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await fetchTrailData(areaStart(0), areaEnd(0));
+      expect(mockFetch).toHaveBeenCalled();
+    });
+
     it('should handle empty OSM response', async () => {
       const uniqueCoords = { lat: 48.0000, lng: 9.0000 };
       
@@ -233,44 +286,99 @@ describe('trails API', () => {
       expect(result.bbox).toBeDefined();
     });
 
-    it('should handle OSM API errors gracefully', async () => {
+    it('should surface OSM API errors as a typed error once every endpoint fails', async () => {
       const uniqueCoords = { lat: 49.0000, lng: 10.0000 };
       
-      mockFetch.mockResolvedValueOnce({
+      mockFetch.mockResolvedValue({
         ok: false,
         status: 429, // Rate limited
-      });
-
-      const result = await fetchTrailData(uniqueCoords, { lat: 49.0100, lng: 10.0100 });
+      } as Response);
+
+      jest.useFakeTimers();
+      try {
+        const assertion = expect(fetchTrailData(uniqueCoords, { lat: 49.0100, lng: 10.0100 }))
+          .rejects.toMatchObject({ name: 'OverpassError', kind: 'rate-limited', status: 429 });
+        await jest.runAllTimersAsync();
+        await assertion;
+      } finally {
+        jest.useRealTimers();
+      }
 
-      expect(result.trails).toHaveLength(0);
+      expect(mockFetch).toHaveBeenCalledTimes(OVERPASS_CONSTANTS.DEFAULT_ENDPOINTS.length * (RETRY_CONSTANTS.MAX_RETRIES + 1));
       expect(console.error).toHaveBeenCalledWith(
         expect.stringContaining('❌ Error fetching trail data'),
-        expect.any(Error)
+        expect.any(OverpassError)
       );
     });
 
     it('should handle network errors', async () => {
       const uniqueCoords = { lat: 52.0000, lng: 13.0000 };
       
-      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+      mockFetch.mockRejectedValue(new Error('Network error'));
 
-      const result = await fetchTrailData(uniqueCoords, { lat: 52.0100, lng: 13.0100 });
+      await expect(fetchTrailData(uniqueCoords, { lat: 52.0100, lng: 13.0100 }))
+        .rejects.toMatchObject({ kind: 'network' });
+    });
 
-      expect(result.trails).toHaveLength(0);
+    it('should rethrow the abort reason instead of returning an empty network', async () => {
+      const uniqueCoords = { lat: 52.1000, lng: 13.1000 };
+      const controller = new AbortController();
+      const reason = new DOMException('The operation was aborted.', 'AbortError');
+
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort(reason);
+        throw controller.signal.reason;
+      });
+
+      await expect(fetchTrailData(uniqueCoords, { lat: 52.1100, lng: 13.1100 }, 2, controller.signal))
+        .rejects.toBe(reason);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    });
+
+    it('should fetch networks from the trails route when the data proxy is enabled', async () => {
+      process.env.NEXT_PUBLIC_DATA_PROXY = 'true';
+      const uniqueStart: Coordinate = { lat: 52.2000, lng: 13.2000 };
+      const uniqueEnd: Coordinate = { lat: 52.2100, lng: 13.2100 };
+      const bbox = calculateBoundingBox(uniqueStart, uniqueEnd, 2);
+      const trail = { id: '1', coordinates: [uniqueStart, uniqueEnd], isWater: false, isRoad: false };
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ trails: [trail], bbox, cacheTime: 1000 }) } as Response)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 502,
+          json: async () => ({ error: 'Trail data servers are busy', kind: 'rate-limited', status: 429 }),
+        } as Response);
+
+      try {
+        const result = await fetchTrailData(uniqueStart, uniqueEnd, 2);
+
+        expect(result).toMatchObject({ trails: [trail], bbox, cacheTime: 1000 });
+        expect(result.spatialIndex!.size).toBeGreaterThan(0);
+        expect(mockFetch).toHaveBeenCalledWith('/api/trails', expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ start: uniqueStart, end: uniqueEnd, paddingKm: 2 }),
+        }));
+
+        await expect(fetchTrailData(uniqueStart, uniqueEnd, 2, undefined, { highways: ['path'] }))
+          .rejects.toMatchObject({ name: 'OverpassError', kind: 'rate-limited', status: 429 });
+        expect(JSON.parse(mockFetch.mock.calls[1][1]!.body as string).filter).toEqual({ highways: ['path'] });
+      } finally {
+        delete process.env.NEXT_PUBLIC_DATA_PROXY;
+      }
     });
 
     it('should handle malformed JSON response', async () => {
       const uniqueCoords = { lat: 53.0000, lng: 14.0000 };
       
-      mockFetch.mockResolvedValueOnce({
+      mockFetch.mockResolvedValue({
         ok: true,
         json: async () => { throw new Error('Invalid JSON'); },
-      });
+      } as unknown as Response);
 
-      const result = await fetchTrailData(uniqueCoords, { lat: 53.0100, lng: 14.0100 });
-
-      expect(result.trails).toHaveLength(0);
+      await expect(fetchTrailData(uniqueCoords, { lat: 53.0100, lng: 14.0100 }))
+        .rejects.toMatchObject({ kind: 'invalid-response' });
     });
 
     it('should skip ways with insufficient coordinates', async () => {
@@ -819,6 +927,27 @@ describe('trails API', () => {
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
+    it('should assemble nearby areas from cached tiles and fetch only the missing tiles', async () => {
+      const start: Coordinate = { lat: 45.3000, lng: 6.3000 };
+      const queriedBbox = (call: number) => {
+        const query = decodeURIComponent(String(mockFetch.mock.calls[call][1]!.body));
+        const [minLat, minLng, maxLat, maxLng] = query.match(/\(([-\d.]+),([-\d.]+),([-\d.]+),([-\d.]+)\)/)!.slice(1).map(Number);
+        return { minLat, minLng, maxLat, maxLng };
+      };
+      mockFetch.mockImplementation(async () => ({ ok: true, json: async () => ({ elements: [] }) }) as unknown as Response);
+
+      await fetchTrailData(start, { lat: 45.3100, lng: 6.3100 });
+      // Moving the end slightly stays within the cached tiles
+      await fetchTrailData(start, { lat: 45.3101, lng: 6.3102 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      // Moving it further east fetches only the tiles east of the cached ones
+      await fetchTrailData(start, { lat: 45.3100, lng: 6.4000 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(queriedBbox(1).minLng).toBeCloseTo(queriedBbox(0).maxLng, 9);
+      expect(queriedBbox(1).maxLng).toBeGreaterThan(6.4);
+    });
+
     it('should invalidate expired cache', async () => {
       // Use different coordinates to avoid cache conflicts with other tests
       const start: Coordinate = { lat: 46.6000, lng: 8.0000 };
@@ -827,9 +956,9 @@ describe('trails API', () => {
       jest.clearAllMocks();
       
       // Mock old timestamp for first call
-      const oldTime = Date.now() - (35 * 60 * 1000); // 35 minutes ago
+      const oldTime = Date.now() - TRAIL_TILE_CONSTANTS.DEFAULT_TTL - (5 * 60 * 1000); // 5 minutes past the TTL
       const dateSpy = jest.spyOn(Date, 'now');
-      dateSpy.mockReturnValueOnce(oldTime); // For cache timestamp
+      dateSpy.mockReturnValue(oldTime); // For cache timestamps
       
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -910,6 +1039,7 @@ describe('trails API', () => {
         expect(query).toContain('sac_scale');
         expect(query).toContain('natural');
         expect(query).toContain('waterway');
+        expect(query).toContain('node["ford"~"^(yes|stepping_stones)$"]');
         expect(query).toContain('46.5,7.9,46.6,8'); // Bounding box coordinates
         expect(query).toContain('out geom');
       });
@@ -926,6 +1056,32 @@ describe('trails API', () => {
         expect(query).toContain('steps');
         expect(query).toContain('route"="hiking');
       });
+
+      it('should fetch hiking route relations with their member ways in the area', () => {
+        const query = buildOverpassQuery({ minLat: 46.5, maxLat: 46.6, minLng: 7.9, maxLng: 8.0 });
+
+        expect(query).toContain('relation["route"="hiking"](46.5,7.9,46.6,8)->.routes;');
+        expect(query).toContain('way(r.routes)(46.5,7.9,46.6,8);');
+        expect(query).toContain('.routes out body;');
+      });
+
+      it('should fetch land cover areas and cliffs', () => {
+        const query = buildOverpassQuery({ minLat: 46.5, maxLat: 46.6, minLng: 7.9, maxLng: 8.0 });
+
+        expect(query).toContain('way["natural"~"^(glacier|scree|shingle|bare_rock|wood|scrub|heath|grassland|cliff)$"](46.5,7.9,46.6,8);');
+        expect(query).toContain('way["landuse"~"^(forest|meadow|grass)$"](46.5,7.9,46.6,8);');
+        expect(query).toContain('relation["natural"~"^(glacier|scree|bare_rock|wood|scrub)$"](46.5,7.9,46.6,8);');
+        expect(query).toContain('relation["landuse"="forest"](46.5,7.9,46.6,8);');
+      });
+
+      it('should fetch the highway and piste types of a filter', () => {
+        const bbox = { minLat: 46.5, maxLat: 46.6, minLng: 7.9, maxLng: 8.0 };
+        const query = buildOverpassQuery(bbox, { highways: ['path', 'track'], pisteTypes: ['skitour'] });
+        
+        expect(query).toContain('way["highway"~"^(path|track)$"]');
+        expect(query).toContain('way["piste:type"~"^(skitour)$"]');
+        expect(query).not.toContain('steps');
+      });
     });
 
     describe('getCacheKey', () => {
@@ -984,7 +1140,7 @@ describe('trails API', () => {
         const network: TrailNetwork = {
           trails: [],
           bbox: { minLat: 46.5, maxLat: 46.6, minLng: 7.9, maxLng: 8.0 },
-          cacheTime: Date.now() - (35 * 60 * 1000), // 35 minutes ago
+          cacheTime: Date.now() - TRAIL_TILE_CONSTANTS.DEFAULT_TTL - (5 * 60 * 1000), // 5 minutes past the TTL
         };
         
         expect(isCacheValid(network)).toBe(false);
@@ -994,7 +1150,7 @@ describe('trails API', () => {
         const network: TrailNetwork = {
           trails: [],
           bbox: { minLat: 46.5, maxLat: 46.6, minLng: 7.9, maxLng: 8.0 },
-          cacheTime: Date.now() - (29 * 60 * 1000), // 29 minutes ago
+          cacheTime: Date.now() - TRAIL_TILE_CONSTANTS.DEFAULT_TTL + (60 * 1000), // 1 minute before the TTL
         };
         
         expect(isCacheValid(network)).toBe(true);
@@ -1016,6 +1172,8 @@ describe('trails API', () => {
         expect(parseTrailDifficulty({ sac_scale: 'mountain_hiking' })).toBe('moderate');
         expect(parseTrailDifficulty({ sac_scale: 'demanding_mountain_hiking' })).toBe('difficult');
         expect(parseTrailDifficulty({ sac_scale: 'alpine_hiking' })).toBe('expert');
+        expect(parseTrailDifficulty({ sac_scale: 'demanding_alpine_hiking' })).toBe('expert');
+        expect(parseTrailDifficulty({ sac_scale: 'difficult_alpine_hiking' })).toBe('expert');
       });
 
       it('should parse trail visibility as fallback', () => {
@@ -1214,18 +1372,26 @@ describe('trails API', () => {
     it('should handle API timeout errors', async () => {
       const uniqueCoords = { lat: 59.0000, lng: 20.0000 };
       
-      mockFetch.mockImplementationOnce(() => 
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Request timeout')), 100)
-        )
+      // Requests hang until the client gives up on them
+      mockFetch.mockImplementation((_, init) =>
+        new Promise((_, reject) => {
+          init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason));
+        })
       );
 
-      const result = await fetchTrailData(uniqueCoords, { lat: 59.0100, lng: 20.0100 });
+      jest.useFakeTimers();
+      try {
+        const assertion = expect(fetchTrailData(uniqueCoords, { lat: 59.0100, lng: 20.0100 }))
+          .rejects.toMatchObject({ kind: 'timeout' });
+        await jest.runAllTimersAsync();
+        await assertion;
+      } finally {
+        jest.useRealTimers();
+      }
 
-      expect(result.trails).toHaveLength(0);
       expect(console.error).toHaveBeenCalledWith(
         expect.stringContaining('❌ Error fetching trail data'),
-        expect.any(Error)
+        expect.any(OverpassError)
       );
     });
 
@@ -1263,19 +1429,37 @@ describe('trails API', () => {
       const uniqueCoords = { lat: 61.0000, lng: 22.0000 };
       
       // First call returns rate limit error
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 429,
-        statusText: 'Too Many Requests',
-      });
-
-      const result = await fetchTrailData(uniqueCoords, { lat: 61.0100, lng: 22.0100 });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            elements: [{
+              type: 'way',
+              id: 1,
+              tags: { highway: 'path' },
+              geometry: [{ lat: 61.0000, lon: 22.0000 }, { lat: 61.0010, lon: 22.0010 }],
+            }],
+          }),
+        } as Response);
+
+      jest.useFakeTimers();
+      let result: TrailNetwork;
+      try {
+        const pending = fetchTrailData(uniqueCoords, { lat: 61.0100, lng: 22.0100 });
+        await jest.runAllTimersAsync();
+        result = await pending;
+      } finally {
+        jest.useRealTimers();
+      }
 
-      expect(result.trails).toHaveLength(0);
-      expect(console.error).toHaveBeenCalledWith(
-        expect.stringContaining('❌ Error fetching trail data'),
-        expect.any(Error)
-      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.trails).toHaveLength(1);
+      expect(console.error).not.toHaveBeenCalled();
     });
 
     it('should handle coordinates at international date line', () => {
@@ -1366,5 +1550,170 @@ describe('trails API', () => {
       expect(pathFeature?.isWater).toBeFalsy();
       expect(pathFeature?.isRoad).toBeFalsy();
     });
+
+    it('should parse water multipolygons, culverts, bridges and fords', async () => {
+      const ring = (minLat: number, minLng: number, size: number) => [
+        { lat: minLat, lon: minLng },
+        { lat: minLat, lon: minLng + size },
+        { lat: minLat + size, lon: minLng + size },
+        { lat: minLat + size, lon: minLng },
+        { lat: minLat, lon: minLng },
+      ];
+      const lakeRing = ring(52.0, 13.0, 0.01);
+      const waterResponse = {
+        elements: [
+          {
+            type: 'relation',
+            id: 10,
+            tags: { natural: 'water', type: 'multipolygon', name: 'Lake' },
+            members: [
+              // The outer ring split across two ways, the second one reversed
+              { type: 'way', role: 'outer', geometry: lakeRing.slice(0, 3) },
+              { type: 'way', role: 'outer', geometry: lakeRing.slice(2).reverse() },
+              { type: 'way', role: 'inner', geometry: ring(52.004, 13.004, 0.002) },
+            ],
+          },
+          { type: 'way', id: 11, tags: { waterway: 'stream', tunnel: 'culvert' }, geometry: [{ lat: 52.02, lon: 13.0 }, { lat: 52.03, lon: 13.0 }] },
+          { type: 'way', id: 12, tags: { waterway: 'river' }, geometry: [{ lat: 52.04, lon: 13.0 }, { lat: 52.04, lon: 13.01 }] },
+          { type: 'way', id: 13, tags: { highway: 'footway', bridge: 'yes' }, geometry: [{ lat: 52.039, lon: 13.002 }, { lat: 52.041, lon: 13.002 }] },
+          { type: 'way', id: 14, tags: { highway: 'path' }, geometry: [{ lat: 52.039, lon: 13.008 }, { lat: 52.04, lon: 13.008 }, { lat: 52.041, lon: 13.008 }] },
+          { type: 'node', id: 15, lat: 52.04, lon: 13.008, tags: { ford: 'stepping_stones' } },
+        ],
+      };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => waterResponse } as Response);
+
+      const result = await fetchTrailData({ lat: 52.0, lng: 13.0 }, { lat: 52.04, lng: 13.01 });
+      const byId = (id: string) => result.trails.find(t => t.id === id);
+
+      expect(byId('10-0')).toMatchObject({ isWater: true, name: 'Lake' });
+      expect(byId('10-0')?.coordinates).toHaveLength(5);
+      expect(byId('10-0')?.innerRings).toHaveLength(1);
+      expect(byId('11')?.isWater).toBe(false);
+      expect(byId('12')).toMatchObject({ isWater: true, waterway: 'river' });
+      expect(byId('13')?.crossing).toBe('bridge');
+      expect(byId('14')?.crossingPoints).toEqual([{ coordinate: { lat: 52.04, lng: 13.008 }, type: 'stepping-stones' }]);
+    });
+
+    it('should attach hiking route relations to their member ways', async () => {
+      const routeResponse = {
+        elements: [
+          { type: 'way', id: 21, tags: { highway: 'path' }, geometry: [{ lat: 53.0, lon: 14.0 }, { lat: 53.01, lon: 14.0 }] },
+          { type: 'way', id: 22, tags: { highway: 'track' }, geometry: [{ lat: 53.01, lon: 14.0 }, { lat: 53.02, lon: 14.0 }] },
+          {
+            type: 'relation',
+            id: 20,
+            tags: { type: 'route', route: 'hiking', name: 'Via Alpina', network: 'iwn', 'osmc:symbol': 'red:white:red_bar' },
+            members: [{ type: 'way', ref: 21, role: '' }, { type: 'node', ref: 23, role: 'guidepost' }],
+          },
+        ],
+      };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => routeResponse } as Response);
+
+      const result = await fetchTrailData({ lat: 53.0, lng: 14.0 }, { lat: 53.02, lng: 14.01 });
+
+      expect(result.trails.find(t => t.id === '21')?.hikingRoutes).toEqual([
+        { id: '20', name: 'Via Alpina', network: 'iwn', symbol: 'red:white:red_bar' },
+      ]);
+      expect(result.trails.find(t => t.id === '22')?.hikingRoutes).toBeUndefined();
+      expect(result.trails.find(t => t.id === '20')).toBeUndefined();
+    });
+
+    it('should keep land cover areas and cliffs apart from the trails', async () => {
+      const ring = (minLat: number, minLng: number, size: number) => [
+        { lat: minLat, lon: minLng },
+        { lat: minLat, lon: minLng + size },
+        { lat: minLat + size, lon: minLng + size },
+        { lat: minLat + size, lon: minLng },
+        { lat: minLat, lon: minLng },
+      ];
+      const terrainResponse = {
+        elements: [
+          { type: 'way', id: 31, tags: { natural: 'glacier', name: 'Gletscher' }, geometry: ring(54.0, 15.0, 0.01) },
+          { type: 'way', id: 32, tags: { natural: 'scree' }, geometry: ring(54.02, 15.0, 0.01).slice(0, 3) },
+          { type: 'way', id: 33, tags: { natural: 'cliff' }, geometry: [{ lat: 54.015, lon: 15.0 }, { lat: 54.015, lon: 15.01 }] },
+          {
+            type: 'relation',
+            id: 34,
+            tags: { landuse: 'forest', type: 'multipolygon' },
+            members: [
+              { type: 'way', role: 'outer', geometry: ring(54.03, 15.0, 0.01) },
+              { type: 'way', role: 'inner', geometry: ring(54.034, 15.004, 0.002) },
+            ],
+          },
+          { type: 'way', id: 35, tags: { highway: 'path' }, geometry: [{ lat: 54.0, lon: 15.02 }, { lat: 54.04, lon: 15.02 }] },
+        ],
+      };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => terrainResponse } as Response);
+
+      const result = await fetchTrailData({ lat: 54.0, lng: 15.0 }, { lat: 54.04, lng: 15.02 });
+
+      expect(result.trails.map(t => t.id)).toEqual(['35']);
+      expect(result.landcover?.map(area => [area.id, area.cover])).toEqual([['31', 'glacier'], ['34-0', 'wood']]);
+      expect(result.landcover?.[0].coordinates).toHaveLength(5);
+      expect(result.landcover?.[1].innerRings).toHaveLength(1);
+      expect(result.cliffs).toEqual([[{ lat: 54.015, lng: 15.0 }, { lat: 54.015, lng: 15.01 }]]);
+    });
+  });
+
+  describe('assembleRings', () => {
+    it('should drop chains that never close', () => {
+      expect(assembleRings([[{ lat: 0, lng: 0 }, { lat: 0, lng: 1 }, { lat: 1, lng: 1 }]])).toEqual([]);
+    });
+  });
+
+  describe('parseHikingRoute', () => {
+    it('should read the name, ref, network and waymarks', () => {
+      expect(parseHikingRoute(5, { name: 'Haute Route', ref: 'HR', network: 'iwn', 'osmc:symbol': 'white:red:white_bar', colour: 'red' }))
+        .toEqual({ id: '5', name: 'Haute Route', ref: 'HR', network: 'iwn', symbol: 'white:red:white_bar', colour: 'red' });
+    });
+
+    it('should ignore networks other than hiking ones', () => {
+      expect(parseHikingRoute(6, { ref: '12', network: 'rcn' })).toEqual({ id: '6', ref: '12' });
+    });
+  });
+
+  describe('parseLandcover', () => {
+    it('should read the cover from natural and landuse tags', () => {
+      expect(parseLandcover({ natural: 'glacier' })).toBe('glacier');
+      expect(parseLandcover({ natural: 'shingle' })).toBe('scree');
+      expect(parseLandcover({ natural: 'bare_rock' })).toBe('bare-rock');
+      expect(parseLandcover({ landuse: 'forest' })).toBe('wood');
+      expect(parseLandcover({ natural: 'heath' })).toBe('scrub');
+      expect(parseLandcover({ landuse: 'meadow' })).toBe('grass');
+    });
+
+    it('should ignore other features', () => {
+      expect(parseLandcover({ natural: 'cliff' })).toBeUndefined();
+      expect(parseLandcover({ natural: 'water' })).toBeUndefined();
+      expect(parseLandcover({ highway: 'path' })).toBeUndefined();
+    });
+  });
+
+  describe('parseTrailAccess', () => {
+    it('should close ways walkers may not use', () => {
+      expect(parseTrailAccess({ highway: 'path', access: 'no' })).toEqual({ closed: true });
+      expect(parseTrailAccess({ highway: 'path', foot: 'private' })).toEqual({ closed: true });
+      expect(parseTrailAccess({ highway: 'path', disused: 'yes' })).toEqual({ closed: true });
+      expect(parseTrailAccess({ 'abandoned:highway': 'path' })).toEqual({ closed: true });
+      expect(parseTrailAccess({ highway: 'disused' })).toEqual({ closed: true });
+    });
+
+    it('should keep paths on disused railways open', () => {
+      expect(parseTrailAccess({ highway: 'path', 'disused:railway': 'rail' })).toBeUndefined();
+      expect(parseTrailAccess({ highway: 'cycleway', 'abandoned:railway': 'rail' })).toBeUndefined();
+    });
+
+    it('should let foot access override general access', () => {
+      expect(parseTrailAccess({ highway: 'path', access: 'no', foot: 'yes' })).toBeUndefined();
+    });
+
+    it('should keep seasonal, opening hours and conditional tags', () => {
+      expect(parseTrailAccess({ seasonal: 'summer', opening_hours: 'May-Oct', 'foot:conditional': 'no @ (Nov-Apr)' })).toEqual({
+        seasonal: 'summer',
+        openingHours: 'May-Oct',
+        conditional: 'no @ (Nov-Apr)',
+      });
+      expect(parseTrailAccess({ highway: 'path', seasonal: 'no' })).toBeUndefined();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { Coordinate } from '@/types/route';
+import { ElevationCacheStats, getElevation } from './elevation';
+import { getCacheKey } from './trails';
+
+/**
+ * Constants for the elevation grid service
+ */
+export const ELEVATION_GRID_CONSTANTS = {
+  /** Lattice spacing in degrees (~500 m) */
+  DEFAULT_SPACING: 0.005,
+  /** Largest lattice fetched for one grid; the spacing widens to stay within it */
+  MAX_LATTICE_POINTS: 1600,
+  /** Factor the spacing widens by until the lattice fits */
+  SPACING_GROWTH: 1.1,
+  /** Padding in km around the start/end bounding box */
+  BBOX_PADDING_KM: 1,
+  /** How long a fetched grid is reused (ms) */
+  CACHE_DURATION: 30 * 60 * 1000,
+} as const;
+
+/**
+ * Regular lattice of elevation samples covering a bounding box
+ */
+export interface ElevationGrid {
+  bbox: {
+    minLat: number;
+    maxLat: number;
+    minLng: number;
+    maxLng: number;
+  };
+  /** Lattice lines from south to north */
+  rows: number;
+  /** Lattice lines from west to east */
+  columns: number;
+  /** Degrees between rows */
+  latStep: number;
+  /** Degrees between columns */
+  lngStep: number;
+  /** Elevations in m, row by row from the south-west corner */
+  elevations: number[];
+  cacheTime: number;
+}
+
+/**
+ * Dimensions of an elevation grid, before its elevations are fetched
+ */
+export type ElevationGridLayout = Omit<ElevationGrid, 'elevations' | 'cacheTime'>;
+
+/**
+ * Cache for elevation grids to avoid refetching the same area
+ */
+const gridCache = new Map<string, ElevationGrid>();
+
+/**
+ * Lay out the lattice for a bounding box, widening the spacing so it stays
+ * within MAX_LATTICE_POINTS
+ * @param bbox Area to cover
+ * @param spacing Preferred lattice spacing in degrees
+ * @returns Grid dimensions, without elevations
+ */
+export function planElevationGrid(
+  bbox: ElevationGrid['bbox'],
+  spacing: number = ELEVATION_GRID_CONSTANTS.DEFAULT_SPACING
+): ElevationGridLayout {
+  const latSpan = bbox.maxLat - bbox.minLat;
+  const lngSpan = bbox.maxLng - bbox.minLng;
+  // Spans that are a whole number of steps should not gain a line from rounding error
+  const linesFor = (span: number, step: number) => Math.max(2, Math.ceil(span / step - 1e-9) + 1);
+
+  let step = spacing;
+  while (linesFor(latSpan, step) * linesFor(lngSpan, step) > ELEVATION_GRID_CONSTANTS.MAX_LATTICE_POINTS) {
+    step *= ELEVATION_GRID_CONSTANTS.SPACING_GROWTH;
+  }
+
+  const rows = linesFor(latSpan, step);
+  const columns = linesFor(lngSpan, step);
+  return {
+    bbox,
+    rows,
+    columns,
+    latStep: latSpan / (rows - 1),
+    lngStep: lngSpan / (columns - 1),
+  };
+}
+
+/**
+ * Coordinate of a lattice node
+ */
+export function getLatticeCoordinate(grid: ElevationGridLayout, row: number, column: number): Coordinate {
+  return {
+    lat: grid.bbox.minLat + row * grid.latStep,
+    lng: grid.bbox.minLng + column * grid.lngStep,
+  };
+}
+
+/**
+ * Elevation at any coordinate by bilinear interpolation between the four
+ * surrounding lattice nodes; coordinates outside the grid take the nearest edge
+ * @param grid Elevation grid
+ * @param coordinate Coordinate to sample
+ * @returns Elevation in m
+ */
+export function sampleElevationGrid(grid: ElevationGrid, coordinate: Coordinate): number {
+  const toIndex = (offset: number, step: number, lines: number) =>
+    step > 0 ? Math.min(lines - 1, Math.max(0, offset / step)) : 0;
+
+  const row = toIndex(coordinate.lat - grid.bbox.minLat, grid.latStep, grid.rows);
+  const column = toIndex(coordinate.lng - grid.bbox.minLng, grid.lngStep, grid.columns);
+  const row0 = Math.floor(row);
+  const column0 = Math.floor(column);
+  const row1 = Math.min(row0 + 1, grid.rows - 1);
+  const column1 = Math.min(column0 + 1, grid.columns - 1);
+  const rowFraction = row - row0;
+  const columnFraction = column - column0;
+
+  const at = (r: number, c: number) => grid.elevations[r * grid.columns + c];
+  const south = at(row0, column0) * (1 - columnFraction) + at(row0, column1) * columnFraction;
+  const north = at(row1, column0) * (1 - columnFraction) + at(row1, column1) * columnFraction;
+
+  return south * (1 - rowFraction) + north * rowFraction;
+}
+
+/**
+ * Fetch the elevation grid covering a bounding box.
+ * Lattice coordinates are looked up together, which getElevation splits into
+ * requests; grids are cached by area and spacing.
+ * @param bbox Area to cover
+ * @param spacing Preferred lattice spacing in degrees
+ * @param signal Aborts the requests; the abort reason is rethrown
+ * @param stats Counts how the lattice lookups were answered, from createElevationCacheStats
+ * @returns Elevation grid
+ */
+export async function fetchElevationGrid(
+  bbox: ElevationGrid['bbox'],
+  spacing: number = ELEVATION_GRID_CONSTANTS.DEFAULT_SPACING,
+  signal?: AbortSignal,
+  stats?: ElevationCacheStats
+): Promise<ElevationGrid> {
+  const cacheKey = `${getCacheKey(bbox)}_${spacing}`;
+  const cached = gridCache.get(cacheKey);
+  if (cached && Date.now() - cached.cacheTime < ELEVATION_GRID_CONSTANTS.CACHE_DURATION) {
+    return cached;
+  }
+
+  const plan = planElevationGrid(bbox, spacing);
+  const coordinates: Coordinate[] = [];
+  for (let row = 0; row < plan.rows; row++) {
+    for (let column = 0; column < plan.columns; column++) {
+      coordinates.push(getLatticeCoordinate(plan, row, column));
+    }
+  }
+
+  const elevations = await getElevation(coordinates, signal, stats);
+
+  if (elevations.length !== coordinates.length) {
+    throw new Error('Incomplete elevation grid');
+  }
+
+  const grid: ElevationGrid = {
+    ...plan,
+    // Open-Meteo answers null where it has no data
+    elevations: elevations.map(elevation => elevation ?? 0),
+    cacheTime: Date.now(),
+  };
+  gridCache.set(cacheKey, grid);
+  return grid;
+}
@@ -1,42 +1,342 @@
 import { Coordinate } from '@/types/route';
+import { ElevationCacheReport } from '@/types/pathfinding';
+import { fetchWithRetry } from '@/lib/utils/fetch-retry';
+import { INDEXED_DB_CONSTANTS, isIndexedDbAvailable, readRecords, writeRecords } from '@/lib/utils/indexed-db';
+import { DATA_PROXY_ROUTES, isDataProxyEnabled, postToDataProxy } from '@/lib/utils/data-proxy';
+import { combineHgtSources, createHgtIndexedDbSource, createHgtProvider, createHgtUrlSource } from './hgt-elevation';
 
 const OPEN_METEO_ELEVATION_URL = 'https://api.open-meteo.com/v1/elevation';
 
-export async function getElevation(coordinates: Coordinate[]): Promise<number[]> {
+/**
+ * Constants for elevation lookups
+ */
+export const ELEVATION_CONSTANTS = {
+  /** Coordinates per Open-Meteo request */
+  OPEN_METEO_MAX_COORDINATES: 100,
+  /** Coordinates per request to the app's elevation route */
+  PROXY_MAX_COORDINATES: 500,
+  /** Provider requests in flight at once, across all lookups */
+  CONCURRENT_REQUESTS: 4,
+  /** Decimal places coordinates are rounded to for caching (~10 m) */
+  CACHE_PRECISION: 4,
+  /** Elevations kept in memory; the oldest are dropped first */
+  MAX_CACHED_ELEVATIONS: 100000,
+} as const;
+
+/**
+ * Source of elevation data
+ */
+export interface ElevationProvider {
+  /** Provider name, for logs and diagnostics */
+  name: string;
+  /**
+   * Look up the elevation of coordinates
+   * @param coordinates Coordinates to look up
+   * @param signal Aborts the lookup; the abort reason is rethrown
+   * @returns Elevations in m, in coordinate order
+   */
+  getElevations: (coordinates: Coordinate[], signal?: AbortSignal) => Promise<number[]>;
+  /** Most coordinates per request; longer lookups are split into chunks of this size */
+  maxCoordinatesPerRequest?: number;
+}
+
+/**
+ * Elevation providers that can be configured
+ */
+export type ElevationProviderType = 'open-meteo' | 'hgt';
+
+/**
+ * Elevation provider configuration
+ */
+export interface ElevationConfig {
+  provider: ElevationProviderType;
+  /** Directory URL .hgt tiles are also read from, besides those stored in IndexedDB */
+  hgtTileUrl?: string;
+}
+
+/**
+ * Counts of how elevation lookups were answered, collected per route computation
+ */
+export type ElevationCacheStats = Omit<ElevationCacheReport, 'hitRate'>;
+
+let configuredProvider: ElevationProvider | null = null;
+
+// Elevations by cache key, oldest first
+const elevationCache = new Map<string, number>();
+
+let activeRequests = 0;
+const queuedRequests: (() => void)[] = [];
+
+/**
+ * Get the elevation provider configuration from environment variables:
+ * NEXT_PUBLIC_ELEVATION_PROVIDER ('open-meteo' by default, or 'hgt') and NEXT_PUBLIC_HGT_TILE_URL
+ * @returns Elevation provider configuration
+ */
+export function getElevationConfig(): ElevationConfig {
+  const config: ElevationConfig = {
+    provider: process.env.NEXT_PUBLIC_ELEVATION_PROVIDER === 'hgt' ? 'hgt' : 'open-meteo',
+  };
+  if (process.env.NEXT_PUBLIC_HGT_TILE_URL) config.hgtTileUrl = process.env.NEXT_PUBLIC_HGT_TILE_URL;
+  return config;
+}
+
+/**
+ * Elevation provider backed by the Open-Meteo elevation API
+ * @param url Elevation API URL
+ */
+export function createOpenMeteoProvider(url: string = OPEN_METEO_ELEVATION_URL): ElevationProvider {
+  return {
+    name: 'open-meteo',
+    maxCoordinatesPerRequest: ELEVATION_CONSTANTS.OPEN_METEO_MAX_COORDINATES,
+    getElevations: async (coordinates, signal) => {
+      const latitudes = coordinates.map(coord => coord.lat).join(',');
+      const longitudes = coordinates.map(coord => coord.lng).join(',');
+
+      // Rate limiting and server errors are retried with backoff
+      const response = await fetchWithRetry(`${url}?latitude=${latitudes}&longitude=${longitudes}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Elevation API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (!data.elevation || !Array.isArray(data.elevation)) {
+        throw new Error('Invalid elevation data format');
+      }
+
+      return data.elevation;
+    },
+  };
+}
+
+/**
+ * Elevation provider asking the app's elevation route, which looks up elevations with
+ * the server's provider and caches them for all users
+ * @param route Elevation route path
+ */
+export function createProxyElevationProvider(route: string = DATA_PROXY_ROUTES.ELEVATION): ElevationProvider {
+  return {
+    name: 'proxy',
+    maxCoordinatesPerRequest: ELEVATION_CONSTANTS.PROXY_MAX_COORDINATES,
+    getElevations: async (coordinates, signal) => {
+      const response = await postToDataProxy(route, { coordinates }, signal);
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error ?? `Elevation API error: ${response.status}`);
+      }
+      if (!Array.isArray(data.elevations)) {
+        throw new Error('Invalid elevation data format');
+      }
+
+      return data.elevations;
+    },
+  };
+}
+
+/**
+ * Create the elevation provider a configuration selects. The hgt provider reads tiles
+ * stored in IndexedDB, then those at the tile URL when one is set. Open-Meteo is asked
+ * through the elevation route when the data proxy is enabled.
+ * @param config Elevation provider configuration
+ */
+export function createElevationProvider(config: ElevationConfig = getElevationConfig()): ElevationProvider {
+  if (config.provider === 'hgt') {
+    const sources = [createHgtIndexedDbSource()];
+    if (config.hgtTileUrl) sources.push(createHgtUrlSource(config.hgtTileUrl));
+    return createHgtProvider(combineHgtSources(...sources));
+  }
+  return isDataProxyEnabled() ? createProxyElevationProvider() : createOpenMeteoProvider();
+}
+
+/**
+ * Get the elevation provider in use, created from the configuration on first use
+ */
+export function getElevationProvider(): ElevationProvider {
+  configuredProvider ??= createElevationProvider();
+  return configuredProvider;
+}
+
+/**
+ * Replace the elevation provider in use, e.g. with local tiles for offline planning or tests
+ * @param provider Provider to use, or null to go back to the configured one
+ */
+export function setElevationProvider(provider: ElevationProvider | null): void {
+  configuredProvider = provider;
+}
+
+/**
+ * Cache key of a coordinate: the provider and the coordinate rounded to CACHE_PRECISION
+ */
+export function getElevationCacheKey(provider: Pick<ElevationProvider, 'name'>, coordinate: Coordinate): string {
+  const precision = ELEVATION_CONSTANTS.CACHE_PRECISION;
+  return `${provider.name}:${coordinate.lat.toFixed(precision)},${coordinate.lng.toFixed(precision)}`;
+}
+
+/**
+ * Empty counts for getElevation to collect one computation's lookups in, so
+ * computations running at the same time are counted apart
+ */
+export function createElevationCacheStats(): ElevationCacheStats {
+  return { lookups: 0, memoryHits: 0, persistentHits: 0, fetched: 0 };
+}
+
+/**
+ * Report how the elevation lookups collected in stats were answered
+ * @returns Report, or null when no coordinates were looked up
+ */
+export function createElevationCacheReport(stats: ElevationCacheStats): ElevationCacheReport | null {
+  if (stats.lookups <= 0) return null;
+  return { ...stats, hitRate: (stats.memoryHits + stats.persistentHits) / stats.lookups };
+}
+
+/**
+ * Empty the in-memory elevation cache; the IndexedDB cache is kept
+ */
+export function clearElevationCache(): void {
+  elevationCache.clear();
+}
+
+function cacheElevation(key: string, elevation: number): void {
+  elevationCache.delete(key);
+  elevationCache.set(key, elevation);
+  if (elevationCache.size > ELEVATION_CONSTANTS.MAX_CACHED_ELEVATIONS) {
+    elevationCache.delete(elevationCache.keys().next().value!);
+  }
+}
+
+/**
+ * Run a provider request once fewer than CONCURRENT_REQUESTS are in flight
+ */
+async function runLimited<T>(request: () => Promise<T>): Promise<T> {
+  while (activeRequests >= ELEVATION_CONSTANTS.CONCURRENT_REQUESTS) {
+    await new Promise<void>(resolve => queuedRequests.push(resolve));
+  }
+  activeRequests++;
   try {
-    const latitudes = coordinates.map(coord => coord.lat).join(',');
-    const longitudes = coordinates.map(coord => coord.lng).join(',');
-
-    const url = `${OPEN_METEO_ELEVATION_URL}?latitude=${latitudes}&longitude=${longitudes}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
+    return await request();
+  } finally {
+    activeRequests--;
+    queuedRequests.shift()?.();
+  }
+}
+
+/**
+ * Look up elevations missing from both caches, in chunks the provider accepts
+ * @returns Elevations by cache key; values the provider has no data for are passed on uncached
+ */
+async function fetchMissingElevations(
+  provider: ElevationProvider,
+  missing: Map<string, Coordinate>,
+  signal?: AbortSignal
+): Promise<Map<string, number>> {
+  const entries = [...missing];
+  const chunkSize = provider.maxCoordinatesPerRequest ?? Math.max(1, entries.length);
+  const chunks: [string, Coordinate][][] = [];
+  for (let i = 0; i < entries.length; i += chunkSize) chunks.push(entries.slice(i, i + chunkSize));
 
-    if (!response.ok) {
-      throw new Error(`Elevation API error: ${response.status}`);
+  const fetched = new Map<string, number>();
+  await Promise.all(chunks.map(chunk => runLimited(async () => {
+    signal?.throwIfAborted();
+    const elevations = await provider.getElevations(chunk.map(([, coordinate]) => coordinate), signal);
+    const persist: [string, number][] = [];
+    chunk.forEach(([key], index) => {
+      const elevation = elevations[index];
+      fetched.set(key, elevation);
+      if (typeof elevation !== 'number') return;
+      cacheElevation(key, elevation);
+      persist.push([key, elevation]);
+    });
+    if (isIndexedDbAvailable() && persist.length > 0) {
+      writeRecords(INDEXED_DB_CONSTANTS.STORES.ELEVATIONS, persist).catch(error => {
+        console.warn('Failed to cache elevation data:', error);
+      });
     }
+  })));
+  return fetched;
+}
 
-    const data = await response.json();
-    
-    if (!data.elevation || !Array.isArray(data.elevation)) {
-      throw new Error('Invalid elevation data format');
+/**
+ * Fetch the elevation of coordinates from the elevation provider in use.
+ * Coordinates are answered from the in-memory cache, then the IndexedDB cache, by
+ * coordinate rounded to CACHE_PRECISION; the rest are fetched in chunks the provider
+ * accepts, with at most CONCURRENT_REQUESTS requests in flight.
+ * @param coordinates Coordinates to look up
+ * @param signal Aborts the request; the abort reason is rethrown
+ * @param stats Counts how the lookups were answered, from createElevationCacheStats
+ * @returns Elevations in m, in coordinate order
+ */
+export async function getElevation(coordinates: Coordinate[], signal?: AbortSignal, stats?: ElevationCacheStats): Promise<number[]> {
+  const cacheStats = stats ?? createElevationCacheStats();
+  try {
+    const provider = getElevationProvider();
+    const keys = coordinates.map(coordinate => getElevationCacheKey(provider, coordinate));
+    const found = new Map<string, number>();
+    const stored = new Set<string>();
+    const missing = new Map<string, Coordinate>();
+    cacheStats.lookups += keys.length;
+
+    keys.forEach((key, index) => {
+      const cached = elevationCache.get(key);
+      if (cached !== undefined) {
+        found.set(key, cached);
+        cacheStats.memoryHits++;
+      } else if (!missing.has(key)) {
+        missing.set(key, coordinates[index]);
+      }
+    });
+
+    if (missing.size > 0 && isIndexedDbAvailable()) {
+      const missingKeys = [...missing.keys()];
+      const records = await readRecords<number>(INDEXED_DB_CONSTANTS.STORES.ELEVATIONS, missingKeys).catch(error => {
+        console.warn('Failed to read cached elevation data:', error);
+        return [];
+      });
+      missingKeys.forEach((key, index) => {
+        const elevation = records[index];
+        if (elevation === undefined) return;
+        found.set(key, elevation);
+        stored.add(key);
+        cacheElevation(key, elevation);
+        missing.delete(key);
+      });
     }
 
-    return data.elevation;
+    const fetched = missing.size > 0 ? await fetchMissingElevations(provider, missing, signal) : new Map<string, number>();
+    keys.forEach(key => {
+      if (stored.has(key)) cacheStats.persistentHits++;
+      else if (fetched.has(key)) cacheStats.fetched++;
+    });
+    return keys.map(key => (found.has(key) ? found.get(key)! : fetched.get(key)!));
   } catch (error) {
+    if (signal?.aborted) throw signal.reason;
     console.error('Error fetching elevation data:', error);
     throw new Error('Failed to fetch elevation data');
   }
 }
 
+/**
+ * Sample the straight line between two coordinates with elevation.
+ * Elevation falls back to 0 when the lookup fails, unless it was aborted.
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param resolution Sample spacing in degrees
+ * @param signal Aborts the request; the abort reason is rethrown
+ * @param stats Counts how the lookups were answered, from createElevationCacheStats
+ */
 export async function getElevationForRoute(
   start: Coordinate, 
   end: Coordinate, 
-  resolution: number = 0.001
+  resolution: number = 0.001,
+  signal?: AbortSignal,
+  stats?: ElevationCacheStats
 ): Promise<Coordinate[]> {
   const points: Coordinate[] = [];
   
@@ -59,12 +359,13 @@ export async function getElevationForRoute(
   }
 
   try {
-    const elevations = await getElevation(points);
+    const elevations = await getElevation(points, signal, stats);
     return points.map((point, index) => ({
       ...point,
       elevation: elevations[index],
     }));
   } catch (error) {
+    if (signal?.aborted) throw signal.reason;
     console.error('Error getting elevation for route:', error);
     return points.map(point => ({ ...point, elevation: 0 }));
   }
@@ -0,0 +1,188 @@
+import { Coordinate } from '@/types/route';
+import { INDEXED_DB_CONSTANTS, readRecord, writeRecord } from '@/lib/utils/indexed-db';
+import type { ElevationProvider } from './elevation';
+
+/**
+ * Constants for SRTM .hgt elevation tiles
+ */
+export const HGT_CONSTANTS = {
+  /** Height marking a void, where the survey has no data */
+  VOID: -32768,
+  /** Parsed tiles kept in memory per provider; a 1 arc-second tile takes 26 MB */
+  MAX_CACHED_TILES: 4,
+} as const;
+
+/**
+ * A parsed one-degree SRTM tile
+ */
+export interface HgtTile {
+  /** Tile name from its south-west corner, e.g. N46E008 */
+  name: string;
+  /** Latitude of the southern edge */
+  lat: number;
+  /** Longitude of the western edge */
+  lng: number;
+  /** Samples per side: 1201 for 3 arc-second tiles, 3601 for 1 arc-second tiles */
+  size: number;
+  /** Heights in m, row by row from the north-west corner */
+  heights: Int16Array;
+}
+
+/**
+ * Where .hgt tiles are read from
+ * @param name Tile name, e.g. N46E008
+ * @returns Raw tile file contents, or null when the source has no such tile
+ */
+export type HgtTileSource = (name: string, signal?: AbortSignal) => Promise<ArrayBuffer | null>;
+
+/**
+ * Name of the tile covering a coordinate, from the tile's south-west corner
+ * @example getHgtTileName({ lat: 46.55, lng: 7.98 }) // 'N46E007'
+ */
+export function getHgtTileName(coordinate: Coordinate): string {
+  const lat = Math.floor(coordinate.lat);
+  const lng = Math.floor(coordinate.lng);
+  return `${lat < 0 ? 'S' : 'N'}${String(Math.abs(lat)).padStart(2, '0')}`
+    + `${lng < 0 ? 'W' : 'E'}${String(Math.abs(lng)).padStart(3, '0')}`;
+}
+
+/**
+ * Parse a .hgt file: a square of big-endian 16-bit heights, north row first
+ * @param name Tile name, which gives the tile's position
+ * @param data File contents
+ * @returns Parsed tile
+ * @throws Error for unknown names or data that is not a square of samples
+ */
+export function parseHgtTile(name: string, data: ArrayBuffer): HgtTile {
+  const match = name.match(/^([NS])(\d{2})([EW])(\d{3})$/i);
+  if (!match) throw new Error(`Invalid elevation tile name: ${name}`);
+  const size = Math.sqrt(data.byteLength / 2);
+  if (!Number.isInteger(size) || size < 2) throw new Error(`Invalid elevation tile ${name}: ${data.byteLength} bytes`);
+
+  const view = new DataView(data);
+  const heights = new Int16Array(size * size);
+  for (let i = 0; i < heights.length; i++) heights[i] = view.getInt16(i * 2, false);
+
+  return {
+    name: name.toUpperCase(),
+    lat: Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1),
+    lng: Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1),
+    size,
+    heights,
+  };
+}
+
+/**
+ * Height at a coordinate by bilinear interpolation between the four surrounding
+ * samples; voids are left out and the remaining samples reweighted
+ * @param tile Parsed tile covering the coordinate
+ * @param coordinate Coordinate to sample
+ * @returns Height in m, or null where all four samples are voids
+ */
+export function sampleHgtTile(tile: HgtTile, coordinate: Coordinate): number | null {
+  const last = tile.size - 1;
+  const clamp = (value: number) => Math.min(last, Math.max(0, value));
+  const row = clamp((tile.lat + 1 - coordinate.lat) * last);
+  const column = clamp((coordinate.lng - tile.lng) * last);
+  const row0 = Math.floor(row);
+  const column0 = Math.floor(column);
+  const rowFraction = row - row0;
+  const columnFraction = column - column0;
+
+  let height = 0;
+  let weight = 0;
+  for (const [r, c, w] of [
+    [row0, column0, (1 - rowFraction) * (1 - columnFraction)],
+    [row0, Math.min(last, column0 + 1), (1 - rowFraction) * columnFraction],
+    [Math.min(last, row0 + 1), column0, rowFraction * (1 - columnFraction)],
+    [Math.min(last, row0 + 1), Math.min(last, column0 + 1), rowFraction * columnFraction],
+  ]) {
+    const sample = tile.heights[r * tile.size + c];
+    if (sample === HGT_CONSTANTS.VOID || w === 0) continue;
+    height += sample * w;
+    weight += w;
+  }
+  return weight > 0 ? height / weight : null;
+}
+
+/**
+ * Read tiles served over HTTP as `<baseUrl>/<name>.hgt`, such as files placed in public/
+ * @param baseUrl URL of the tile directory
+ */
+export function createHgtUrlSource(baseUrl: string): HgtTileSource {
+  return async (name, signal) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/${name}.hgt`, { signal });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Elevation tile error: ${response.status}`);
+    return response.arrayBuffer();
+  };
+}
+
+/**
+ * Read tiles stored in IndexedDB with storeHgtTile; finds nothing where IndexedDB is unavailable
+ */
+export function createHgtIndexedDbSource(): HgtTileSource {
+  return async name => (await readRecord<ArrayBuffer>(INDEXED_DB_CONSTANTS.STORES.HGT_TILES, name.toUpperCase())) ?? null;
+}
+
+/**
+ * Store a .hgt tile in IndexedDB, for planning without the network
+ * @param name Tile name, e.g. N46E008
+ * @param data File contents
+ * @throws Error for invalid tiles or when IndexedDB is unavailable
+ */
+export async function storeHgtTile(name: string, data: ArrayBuffer): Promise<void> {
+  parseHgtTile(name, data);
+  await writeRecord(INDEXED_DB_CONSTANTS.STORES.HGT_TILES, name.toUpperCase(), data);
+}
+
+/**
+ * Read each tile from the first source that has it
+ */
+export function combineHgtSources(...sources: HgtTileSource[]): HgtTileSource {
+  return async (name, signal) => {
+    for (const source of sources) {
+      const data = await source(name, signal);
+      if (data) return data;
+    }
+    return null;
+  };
+}
+
+/**
+ * Elevation provider reading local SRTM .hgt tiles. Voids answer 0, like
+ * Open-Meteo where it has no data.
+ * @param source Where tiles are read from
+ * @returns Provider that fails when a coordinate's tile is in no source
+ */
+export function createHgtProvider(source: HgtTileSource): ElevationProvider {
+  // Most recently used tiles last
+  const tiles = new Map<string, HgtTile>();
+
+  const loadTile = async (name: string, signal?: AbortSignal): Promise<HgtTile> => {
+    const cached = tiles.get(name);
+    if (cached) {
+      tiles.delete(name);
+      tiles.set(name, cached);
+      return cached;
+    }
+    const data = await source(name, signal);
+    if (!data) throw new Error(`No elevation tile ${name}`);
+    const tile = parseHgtTile(name, data);
+    tiles.set(name, tile);
+    if (tiles.size > HGT_CONSTANTS.MAX_CACHED_TILES) tiles.delete(tiles.keys().next().value!);
+    return tile;
+  };
+
+  return {
+    name: 'hgt',
+    getElevations: async (coordinates, signal) => {
+      const elevations: number[] = [];
+      for (const coordinate of coordinates) {
+        const tile = await loadTile(getHgtTileName(coordinate), signal);
+        elevations.push(sampleHgtTile(tile, coordinate) ?? 0);
+      }
+      return elevations;
+    },
+  };
+}
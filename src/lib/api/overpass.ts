@@ -0,0 +1,232 @@
+import { fetchWithRetry } from '@/lib/utils/fetch-retry';
+import type { OverpassElement, TrailNetwork } from './trails';
+
+/**
+ * Constants for the Overpass API client
+ */
+export const OVERPASS_CONSTANTS = {
+  /** Endpoints tried in order, unless NEXT_PUBLIC_OVERPASS_ENDPOINTS is set */
+  DEFAULT_ENDPOINTS: [
+    'https://overpass-api.de/api/interpreter',
+    'https://overpass.kumi.systems/api/interpreter',
+    'https://overpass.private.coffee/api/interpreter',
+  ],
+  /** Time allowed per endpoint, retries included (ms); queries ask the server for 25 s */
+  REQUEST_TIMEOUT_MS: 30000,
+  /** Largest area in square degrees queried at once; larger areas are split */
+  MAX_QUERY_AREA: 0.1,
+  /** Times an area is split in four again after a truncated or timed out response */
+  MAX_SPLIT_DEPTH: 2,
+} as const;
+
+type Bbox = TrailNetwork['bbox'];
+
+/**
+ * Why trail data could not be fetched
+ */
+export type OverpassErrorKind =
+  | 'rate-limited'      // Every endpoint answered 429
+  | 'timeout'           // No answer in time, or a gateway timeout
+  | 'server'            // Other HTTP errors
+  | 'truncated'         // A runtime error remark: the answer is partial
+  | 'invalid-response'  // Not Overpass JSON
+  | 'network';          // No endpoint could be reached
+
+const ERROR_MESSAGES: Record<OverpassErrorKind, string> = {
+  'rate-limited': 'Trail data servers are busy; try again in a minute',
+  timeout: 'Trail data servers did not answer in time',
+  server: 'Trail data servers failed',
+  truncated: 'Trail data servers sent incomplete data for this area',
+  'invalid-response': 'Trail data servers sent an invalid response',
+  network: 'Trail data servers could not be reached',
+};
+
+/**
+ * Failure to fetch trail data from every Overpass endpoint, with a message fit for the user
+ */
+export class OverpassError extends Error {
+  readonly kind: OverpassErrorKind;
+  /** HTTP status of the last response, for HTTP errors */
+  readonly status?: number;
+
+  constructor(kind: OverpassErrorKind, status?: number) {
+    super(status ? `${ERROR_MESSAGES[kind]} (HTTP ${status})` : ERROR_MESSAGES[kind]);
+    this.name = 'OverpassError';
+    this.kind = kind;
+    if (status) this.status = status;
+  }
+}
+
+/**
+ * Whether an error is an OverpassError, also after crossing the worker boundary
+ * where only its name and message survive
+ */
+export function isOverpassError(error: unknown): error is Error {
+  return error instanceof Error && error.name === 'OverpassError';
+}
+
+/**
+ * Overpass endpoints to try in order: NEXT_PUBLIC_OVERPASS_ENDPOINTS, a comma-separated
+ * list such as a self-hosted instance followed by public mirrors, or DEFAULT_ENDPOINTS
+ */
+export function getOverpassEndpoints(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_OVERPASS_ENDPOINTS ?? '')
+    .split(',')
+    .map(endpoint => endpoint.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : [...OVERPASS_CONSTANTS.DEFAULT_ENDPOINTS];
+}
+
+/**
+ * Post a query to one endpoint, retrying rate limiting and server errors with backoff
+ * @throws OverpassError for failed, partial or invalid answers
+ */
+async function postQuery(endpoint: string, query: string, signal?: AbortSignal): Promise<OverpassElement[]> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, OVERPASS_CONSTANTS.REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetchWithRetry(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: `data=${encodeURIComponent(query)}`,
+        signal: controller.signal,
+      });
+    } catch {
+      if (signal?.aborted) throw signal.reason;
+      throw new OverpassError(timedOut ? 'timeout' : 'network');
+    }
+
+    if (!response.ok) {
+      if (response.status === 429) throw new OverpassError('rate-limited', 429);
+      throw new OverpassError(response.status === 504 ? 'timeout' : 'server', response.status);
+    }
+
+    let data: { elements?: unknown; remark?: unknown };
+    try {
+      data = await response.json();
+    } catch {
+      if (signal?.aborted) throw signal.reason;
+      throw new OverpassError(timedOut ? 'timeout' : 'invalid-response');
+    }
+    if (!data || !Array.isArray(data.elements)) throw new OverpassError('invalid-response');
+    // Overpass answers runtime errors such as timeouts and memory limits with what it had so far and a remark
+    if (typeof data.remark === 'string' && data.remark.trim()) {
+      console.warn('Overpass remark:', data.remark);
+      throw new OverpassError('truncated');
+    }
+    return data.elements as OverpassElement[];
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Run a query against each endpoint in turn until one answers in full.
+ * Truncated answers are not retried elsewhere, since the query is too heavy for any server.
+ * @param query Overpass QL query
+ * @param signal Aborts the requests; the abort reason is rethrown
+ * @returns Elements of the answer
+ * @throws OverpassError from the last endpoint tried
+ */
+export async function queryOverpass(query: string, signal?: AbortSignal): Promise<OverpassElement[]> {
+  let lastError: OverpassError | undefined;
+  for (const endpoint of getOverpassEndpoints()) {
+    try {
+      return await postQuery(endpoint, query, signal);
+    } catch (error) {
+      if (signal?.aborted || !(error instanceof OverpassError)) throw error;
+      console.warn(`Overpass endpoint ${endpoint} failed:`, error.message);
+      lastError = error;
+      if (error.kind === 'truncated') break;
+    }
+  }
+  throw lastError ?? new OverpassError('network');
+}
+
+/**
+ * Split an area into a grid of parts no larger than an area limit
+ * @param bbox Area to split
+ * @param maxArea Largest part in square degrees
+ * @returns Parts row by row from the south-west corner; the area itself when it is small enough
+ */
+export function splitBbox(bbox: Bbox, maxArea: number = OVERPASS_CONSTANTS.MAX_QUERY_AREA): Bbox[] {
+  const latSpan = bbox.maxLat - bbox.minLat;
+  const lngSpan = bbox.maxLng - bbox.minLng;
+  const parts = Math.ceil(latSpan * lngSpan / maxArea);
+  if (parts <= 1) return [bbox];
+
+  // Cut the longer side more often, keeping parts roughly square
+  const rows = Math.max(1, Math.round(Math.sqrt(parts * latSpan / lngSpan)));
+  const columns = Math.ceil(parts / rows);
+  const result: Bbox[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      result.push({
+        minLat: bbox.minLat + latSpan * row / rows,
+        maxLat: bbox.minLat + latSpan * (row + 1) / rows,
+        minLng: bbox.minLng + lngSpan * column / columns,
+        maxLng: bbox.minLng + lngSpan * (column + 1) / columns,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Combine the elements of several answers, keeping one copy of elements found in more than one
+ */
+export function mergeOverpassElements(answers: OverpassElement[][]): OverpassElement[] {
+  const elements = new Map<string, OverpassElement>();
+  for (const answer of answers) {
+    for (const element of answer) {
+      const key = `${element.type}/${element.id}`;
+      if (!elements.has(key)) elements.set(key, element);
+    }
+  }
+  return [...elements.values()];
+}
+
+/**
+ * Fetch the elements of an area, split into parts within MAX_QUERY_AREA that are queried
+ * one after another. Parts answered with truncated data or a timeout are split in four
+ * and queried again, up to MAX_SPLIT_DEPTH times.
+ * @param bbox Area to fetch
+ * @param buildQuery Query for a part of the area
+ * @param signal Aborts the requests; the abort reason is rethrown
+ * @throws OverpassError when a part cannot be fetched
+ */
+export async function fetchOverpassArea(
+  bbox: Bbox,
+  buildQuery: (part: Bbox) => string,
+  signal?: AbortSignal
+): Promise<OverpassElement[]> {
+  const fetchPart = async (part: Bbox, depth: number): Promise<OverpassElement[]> => {
+    try {
+      return await queryOverpass(buildQuery(part), signal);
+    } catch (error) {
+      const tooHeavy = error instanceof OverpassError && (error.kind === 'truncated' || error.kind === 'timeout');
+      if (!tooHeavy || depth >= OVERPASS_CONSTANTS.MAX_SPLIT_DEPTH) throw error;
+      const quarters = splitBbox(part, (part.maxLat - part.minLat) * (part.maxLng - part.minLng) / 4);
+      const answers: OverpassElement[][] = [];
+      for (const quarter of quarters) answers.push(await fetchPart(quarter, depth + 1));
+      return mergeOverpassElements(answers);
+    }
+  };
+
+  const answers: OverpassElement[][] = [];
+  for (const part of splitBbox(bbox)) answers.push(await fetchPart(part, 0));
+  return mergeOverpassElements(answers);
+}
@@ -0,0 +1,228 @@
+import { INDEXED_DB_CONSTANTS, isIndexedDbAvailable, readRecords, writeRecords } from '@/lib/utils/indexed-db';
+import { mergeOverpassElements } from './overpass';
+import type { OverpassElement, TrailNetwork } from './trails';
+
+/**
+ * Constants for the trail tile cache
+ */
+export const TRAIL_TILE_CONSTANTS = {
+  /** Slippy map zoom of trail tiles, ~4.9 km wide at the equator and ~3.4 km in the Alps */
+  ZOOM: 13,
+  /** Zoom used when an area would take more than MAX_TILES tiles at ZOOM */
+  COARSE_ZOOM: 12,
+  MAX_TILES: 64,
+  /** How long a tile is reused (ms), unless NEXT_PUBLIC_TRAIL_CACHE_TTL_HOURS is set */
+  DEFAULT_TTL: 24 * 60 * 60 * 1000,
+  /** Tiles kept in memory; the least recently used are dropped first */
+  MAX_CACHED_TILES: 256,
+} as const;
+
+type Bbox = TrailNetwork['bbox'];
+
+/**
+ * Slippy map tile
+ */
+export interface TrailTile {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * Overpass elements of one tile and when they were fetched
+ */
+export interface TrailTileRecord {
+  elements: OverpassElement[];
+  cacheTime: number;
+}
+
+// Tile records by key, least recently used first
+const tileCache = new Map<string, TrailTileRecord>();
+
+/**
+ * How long trail tiles are reused: NEXT_PUBLIC_TRAIL_CACHE_TTL_HOURS, or DEFAULT_TTL
+ * @returns Time to live in ms
+ */
+export function getTrailCacheTtl(): number {
+  const hours = Number(process.env.NEXT_PUBLIC_TRAIL_CACHE_TTL_HOURS);
+  return hours > 0 ? hours * 60 * 60 * 1000 : TRAIL_TILE_CONSTANTS.DEFAULT_TTL;
+}
+
+/**
+ * Tile containing a coordinate at a zoom level
+ */
+export function getTileAt(lat: number, lng: number, zoom: number): TrailTile {
+  const scale = 2 ** zoom;
+  const latRad = lat * Math.PI / 180;
+  const clamp = (value: number) => Math.min(scale - 1, Math.max(0, Math.floor(value)));
+  return {
+    x: clamp((lng + 180) / 360 * scale),
+    y: clamp((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * scale),
+    zoom,
+  };
+}
+
+/**
+ * Area covered by a tile
+ */
+export function getTileBounds(tile: TrailTile): Bbox {
+  const scale = 2 ** tile.zoom;
+  const latAt = (y: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * y / scale))) * 180 / Math.PI;
+  return {
+    minLat: latAt(tile.y + 1),
+    maxLat: latAt(tile.y),
+    minLng: tile.x / scale * 360 - 180,
+    maxLng: (tile.x + 1) / scale * 360 - 180,
+  };
+}
+
+/**
+ * Area covered by several tiles together
+ */
+export function getTilesBounds(tiles: TrailTile[]): Bbox {
+  const bounds = tiles.map(getTileBounds);
+  return {
+    minLat: Math.min(...bounds.map(b => b.minLat)),
+    maxLat: Math.max(...bounds.map(b => b.maxLat)),
+    minLng: Math.min(...bounds.map(b => b.minLng)),
+    maxLng: Math.max(...bounds.map(b => b.maxLng)),
+  };
+}
+
+/**
+ * Tiles covering a bounding box, at ZOOM or, for large areas, COARSE_ZOOM
+ * @param bbox Area to cover
+ * @returns Tiles row by row from the north-west corner
+ */
+export function getTrailTiles(bbox: Bbox): TrailTile[] {
+  const tilesAt = (zoom: number) => {
+    const northWest = getTileAt(bbox.maxLat, bbox.minLng, zoom);
+    const southEast = getTileAt(bbox.minLat, bbox.maxLng, zoom);
+    const tiles: TrailTile[] = [];
+    for (let y = northWest.y; y <= southEast.y; y++) {
+      for (let x = northWest.x; x <= southEast.x; x++) tiles.push({ x, y, zoom });
+    }
+    return tiles;
+  };
+
+  const tiles = tilesAt(TRAIL_TILE_CONSTANTS.ZOOM);
+  return tiles.length > TRAIL_TILE_CONSTANTS.MAX_TILES ? tilesAt(TRAIL_TILE_CONSTANTS.COARSE_ZOOM) : tiles;
+}
+
+/**
+ * Cache key of a tile fetched with a trail query
+ * @param tile Tile
+ * @param queryKey Name of the trail query, since tiles of other queries hold other ways
+ */
+export function getTrailTileKey(tile: TrailTile, queryKey: string): string {
+  return `${queryKey}/${tile.zoom}/${tile.x}/${tile.y}`;
+}
+
+/**
+ * Area an Overpass element covers, from its bounds, geometry or position
+ * @returns Bounds, or null for elements without geometry such as route relations
+ */
+export function getElementBounds(element: OverpassElement): Bbox | null {
+  if (element.bounds) {
+    const { minlat, maxlat, minlon, maxlon } = element.bounds;
+    return { minLat: minlat, maxLat: maxlat, minLng: minlon, maxLng: maxlon };
+  }
+  const points = element.geometry
+    ?? element.members?.flatMap(member => member.geometry ?? [])
+    ?? (element.lat !== undefined && element.lon !== undefined ? [{ lat: element.lat, lon: element.lon }] : []);
+  if (points.length === 0) return null;
+  return {
+    minLat: Math.min(...points.map(point => point.lat)),
+    maxLat: Math.max(...points.map(point => point.lat)),
+    minLng: Math.min(...points.map(point => point.lon)),
+    maxLng: Math.max(...points.map(point => point.lon)),
+  };
+}
+
+const overlaps = (a: Bbox, b: Bbox) =>
+  a.minLat <= b.maxLat && a.maxLat >= b.minLat && a.minLng <= b.maxLng && a.maxLng >= b.minLng;
+
+/**
+ * Share the elements fetched for an area between the tiles it is made of.
+ * Elements go to every tile they overlap; those without geometry, or overlapping
+ * none of the tiles, go to all of them.
+ * @param elements Elements fetched for the area of the tiles
+ * @param tiles Tiles making up the area
+ * @returns Elements of each tile, in tile order
+ */
+export function splitElementsIntoTiles(elements: OverpassElement[], tiles: TrailTile[]): OverpassElement[][] {
+  const bounds = tiles.map(getTileBounds);
+  const split: OverpassElement[][] = tiles.map(() => []);
+  for (const element of elements) {
+    const elementBounds = getElementBounds(element);
+    const indices = elementBounds ? bounds.flatMap((tile, index) => (overlaps(tile, elementBounds) ? [index] : [])) : [];
+    (indices.length > 0 ? indices : tiles.map((_, index) => index)).forEach(index => split[index].push(element));
+  }
+  return split;
+}
+
+/**
+ * Combine the elements of several tiles, keeping one copy of elements shared between tiles
+ */
+export function mergeTileElements(records: TrailTileRecord[]): OverpassElement[] {
+  return mergeOverpassElements(records.map(record => record.elements));
+}
+
+function cacheTile(key: string, record: TrailTileRecord): void {
+  tileCache.delete(key);
+  tileCache.set(key, record);
+  if (tileCache.size > TRAIL_TILE_CONSTANTS.MAX_CACHED_TILES) {
+    tileCache.delete(tileCache.keys().next().value!);
+  }
+}
+
+/**
+ * Read cached tiles, from memory and then IndexedDB, leaving out those older than the TTL
+ * @param keys Tile keys from getTrailTileKey
+ * @returns Records in key order, undefined for tiles to fetch
+ */
+export async function readTrailTiles(keys: string[]): Promise<(TrailTileRecord | undefined)[]> {
+  const ttl = getTrailCacheTtl();
+  const isFresh = (record?: TrailTileRecord): record is TrailTileRecord => !!record && Date.now() - record.cacheTime < ttl;
+
+  const records = keys.map(key => tileCache.get(key));
+  const missing = keys.flatMap((_, index) => (isFresh(records[index]) ? [] : [index]));
+  if (missing.length > 0 && isIndexedDbAvailable()) {
+    const stored = await readRecords<TrailTileRecord>(
+      INDEXED_DB_CONSTANTS.STORES.TRAIL_TILES,
+      missing.map(index => keys[index])
+    ).catch(error => {
+      console.warn('Failed to read cached trail tiles:', error);
+      return [];
+    });
+    missing.forEach((keyIndex, index) => {
+      if (isFresh(stored[index])) records[keyIndex] = stored[index];
+    });
+  }
+
+  return records.map((record, index) => {
+    if (!isFresh(record)) return undefined;
+    cacheTile(keys[index], record);
+    return record;
+  });
+}
+
+/**
+ * Cache fetched tiles in memory and, where available, IndexedDB
+ * @param entries Tile keys and records
+ */
+export function storeTrailTiles(entries: [string, TrailTileRecord][]): void {
+  entries.forEach(([key, record]) => cacheTile(key, record));
+  if (isIndexedDbAvailable() && entries.length > 0) {
+    writeRecords(INDEXED_DB_CONSTANTS.STORES.TRAIL_TILES, entries).catch(error => {
+      console.warn('Failed to cache trail tiles:', error);
+    });
+  }
+}
+
+/**
+ * Empty the in-memory tile cache; tiles in IndexedDB are kept
+ */
+export function clearTrailTileCache(): void {
+  tileCache.clear();
+}
@@ -1,4 +1,19 @@
-import { Coordinate } from '@/types/route';
+import { Coordinate, WaterCrossingType } from '@/types/route';
+import { HikingNetwork } from '@/types/pathfinding';
+import { DATA_PROXY_ROUTES, isDataProxyEnabled, postToDataProxy } from '@/lib/utils/data-proxy';
+import { isPointInPolygon } from '@/lib/algorithms/pathfinding/avoid-areas';
+import { fetchOverpassArea, OverpassError } from './overpass';
+import {
+  getTilesBounds,
+  getTrailCacheTtl,
+  getTrailTileKey,
+  getTrailTiles,
+  mergeTileElements,
+  readTrailTiles,
+  splitElementsIntoTiles,
+  storeTrailTiles,
+  TrailTileRecord
+} from './trail-tiles';
 
 /**
  * Trail segment from OpenStreetMap data
@@ -12,15 +27,69 @@ export interface TrailSegment {
   sac_scale?: string; // Swiss Alpine Club scale
   name?: string;
   highway?: string; // OSM highway tag (path, track, footway, etc)
+  mtbScale?: string; // OSM mtb:scale tag (0-6)
+  bicycle?: string; // OSM bicycle access tag
+  pisteType?: string; // OSM piste:type tag (skitour, downhill, nordic)
   isWater?: boolean; // Water bodies to avoid
+  waterway?: string; // OSM waterway tag of rivers, streams and canals; water without one is an area
+  innerRings?: Coordinate[][]; // Islands cut out of a water area
+  crossing?: WaterCrossingType; // Bridge, ford or stepping stones the whole way crosses water on
+  crossingPoints?: { coordinate: Coordinate; type: WaterCrossingType }[]; // Ford and stepping-stones nodes on the way
+  access?: TrailAccess; // Closures and access that depends on the date
+  hikingRoutes?: HikingRoute[]; // Waymarked hiking routes the way is part of
   isRoad?: boolean; // Roads for faster travel
 }
 
+/**
+ * Access restrictions of a way from its OSM access, lifecycle, seasonal and opening hours tags
+ */
+export interface TrailAccess {
+  closed?: boolean;      // access or foot is no or private, or the way is disused or abandoned
+  seasonal?: string;     // OSM seasonal tag (yes, summer, winter;spring, ...)
+  openingHours?: string; // OSM opening_hours tag
+  conditional?: string;  // OSM foot:conditional or access:conditional tag, e.g. "no @ (Nov-Apr)"
+}
+
+/**
+ * Waymarked hiking route from an OSM route=hiking relation
+ */
+export interface HikingRoute {
+  id: string;
+  name?: string;
+  ref?: string;
+  network?: HikingNetwork; // OSM network tag (iwn, nwn, rwn, lwn)
+  symbol?: string;         // OSM osmc:symbol tag, e.g. "red:white:red_bar"
+  colour?: string;         // OSM colour tag
+}
+
+/**
+ * Ground cover of an area from OSM natural and landuse tags
+ */
+export type LandcoverType =
+  | 'glacier'     // natural=glacier
+  | 'scree'       // natural=scree, natural=shingle
+  | 'bare-rock'   // natural=bare_rock
+  | 'wood'        // natural=wood, landuse=forest
+  | 'scrub'       // natural=scrub, natural=heath
+  | 'grass';      // natural=grassland, landuse=meadow, landuse=grass
+
+/**
+ * Land cover polygon from OpenStreetMap
+ */
+export interface LandcoverArea {
+  id: string;
+  cover: LandcoverType;
+  coordinates: Coordinate[]; // Outer ring, first vertex repeated at the end
+  innerRings?: Coordinate[][]; // Holes, such as clearings in a wood
+}
+
 /**
  * Trail network for a given bounding box
  */
 export interface TrailNetwork {
   trails: TrailSegment[];
+  landcover?: LandcoverArea[]; // Glacier, scree, rock and vegetation polygons
+  cliffs?: Coordinate[][];     // natural=cliff lines, impassable off trail
   bbox: {
     minLat: number;
     maxLat: number;
@@ -53,31 +122,84 @@ export function calculateBoundingBox(start: Coordinate, end: Coordinate, padding
 }
 
 /**
- * Build Overpass API query for hiking trails
+ * Which ways a trail query fetches besides roads, water and marked hiking routes
  */
-export function buildOverpassQuery(bbox: { minLat: number; maxLat: number; minLng: number; maxLng: number }): string {
+export interface TrailQueryFilter {
+  highways: readonly string[]; // OSM highway values fetched as trails
+  pisteTypes?: readonly string[]; // OSM piste:type values fetched as ski routes
+}
+
+/**
+ * Trail query for walkers
+ */
+export const DEFAULT_TRAIL_QUERY: TrailQueryFilter = {
+  highways: ['path', 'track', 'footway', 'cycleway', 'bridleway', 'steps'],
+};
+
+/**
+ * Build Overpass API query for trails. Hiking route relations come last, with
+ * their member ways in the area fetched as trails and their members listed without geometry.
+ * @param bbox Area to fetch
+ * @param filter Trail highway and piste types to fetch (walking trails by default)
+ */
+export function buildOverpassQuery(
+  bbox: { minLat: number; maxLat: number; minLng: number; maxLng: number },
+  filter: TrailQueryFilter = DEFAULT_TRAIL_QUERY
+): string {
   const { minLat, minLng, maxLat, maxLng } = bbox;
+  const pistes = filter.pisteTypes?.length
+    ? `\n      way["piste:type"~"^(${filter.pisteTypes.join('|')})$"](${minLat},${minLng},${maxLat},${maxLng});`
+    : '';
   
   return `
     [out:json][timeout:25];
+    relation["route"="hiking"](${minLat},${minLng},${maxLat},${maxLng})->.routes;
     (
-      way["highway"~"^(path|track|footway|cycleway|bridleway|steps)$"](${minLat},${minLng},${maxLat},${maxLng});
+      way["highway"~"^(${filter.highways.join('|')})$"](${minLat},${minLng},${maxLat},${maxLng});${pistes}
       way["highway"~"^(tertiary|secondary|primary|trunk|residential|service)$"]["access"!="private"](${minLat},${minLng},${maxLat},${maxLng});
-      way["route"="hiking"](${minLat},${minLng},${maxLat},${maxLng});
+      way(r.routes)(${minLat},${minLng},${maxLat},${maxLng});
       way["sac_scale"](${minLat},${minLng},${maxLat},${maxLng});
       way["natural"="water"](${minLat},${minLng},${maxLat},${maxLng});
+      way["natural"~"^(glacier|scree|shingle|bare_rock|wood|scrub|heath|grassland|cliff)$"](${minLat},${minLng},${maxLat},${maxLng});
+      way["landuse"~"^(forest|meadow|grass)$"](${minLat},${minLng},${maxLat},${maxLng});
+      relation["natural"~"^(glacier|scree|bare_rock|wood|scrub)$"](${minLat},${minLng},${maxLat},${maxLng});
+      relation["landuse"="forest"](${minLat},${minLng},${maxLat},${maxLng});
       way["waterway"~"^(river|stream|canal)$"](${minLat},${minLng},${maxLat},${maxLng});
       relation["natural"="water"](${minLat},${minLng},${maxLat},${maxLng});
+      node["ford"~"^(yes|stepping_stones)$"](${minLat},${minLng},${maxLat},${maxLng});
     );
     out geom;
+    .routes out body;
   `.trim();
 }
 
 /**
- * Cache for trail data to avoid repeated API calls
+ * Default padding in km around the start/end bounding box when fetching trails
+ */
+export const TRAIL_BBOX_PADDING_KM = 2;
+
+/**
+ * Assembled trail networks kept in memory; the least recently used are dropped first
+ */
+export const MAX_CACHED_TRAIL_NETWORKS = 32;
+
+/**
+ * Cache for assembled trail networks to avoid reassembling the same area,
+ * least recently used first
  */
 const trailCache = new Map<string, TrailNetwork>();
-const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
+
+function cacheTrailNetwork(key: string, network: TrailNetwork): void {
+  // Expired networks are never read again, so they go first
+  for (const [cachedKey, cached] of trailCache) {
+    if (!isCacheValid(cached)) trailCache.delete(cachedKey);
+  }
+  trailCache.delete(key);
+  trailCache.set(key, network);
+  if (trailCache.size > MAX_CACHED_TRAIL_NETWORKS) {
+    trailCache.delete(trailCache.keys().next().value!);
+  }
+}
 
 /**
  * Generate cache key for bounding box
@@ -87,10 +209,17 @@ export function getCacheKey(bbox: { minLat: number; maxLat: number; minLng: numb
 }
 
 /**
- * Check if cached data is still valid
+ * Name of a trail query for tile cache keys: 'walking' for the default query
+ */
+export function getTrailQueryKey(filter: TrailQueryFilter): string {
+  return filter === DEFAULT_TRAIL_QUERY ? 'walking' : [...filter.highways, ...(filter.pisteTypes ?? [])].join('_');
+}
+
+/**
+ * Check if cached data is still valid, within the trail cache TTL
  */
 export function isCacheValid(network: TrailNetwork): boolean {
-  return Date.now() - network.cacheTime < CACHE_DURATION;
+  return Date.now() - network.cacheTime < getTrailCacheTtl();
 }
 
 /**
@@ -113,6 +242,8 @@ export function parseTrailDifficulty(tags: Record<string, string>): 'easy' | 'mo
       case 'T3':
         return 'difficult';
       case 'alpine_hiking':
+      case 'demanding_alpine_hiking':
+      case 'difficult_alpine_hiking':
       case 'T4':
       case 'T5':
       case 'T6':
@@ -139,109 +270,402 @@ export function parseTrailDifficulty(tags: Record<string, string>): 'easy' | 'mo
   return undefined;
 }
 
+const CLOSED_ACCESS = ['no', 'private'];
+const LIFECYCLE_STATES = ['disused', 'abandoned'];
+
+/**
+ * Access restrictions from OSM access, lifecycle, seasonal and opening hours tags
+ * @returns Access restrictions, or undefined for ways open to walkers all year
+ */
+export function parseTrailAccess(tags: Record<string, string>): TrailAccess | undefined {
+  const access: TrailAccess = {};
+
+  // foot=* overrides access=* for walkers, e.g. access=no with foot=yes on a path over private land
+  const foot = tags.foot ?? tags.access;
+  // Only the way's own highway lifecycle counts: a path on a disused railway is a usable rail trail
+  const lifecycle = LIFECYCLE_STATES.some(state => tags[state] === 'yes' || tags[`${state}:highway`] !== undefined)
+    || LIFECYCLE_STATES.includes(tags.highway);
+  if (CLOSED_ACCESS.includes(foot) || lifecycle) access.closed = true;
+
+  if (tags.seasonal && tags.seasonal !== 'no') access.seasonal = tags.seasonal;
+  if (tags.opening_hours) access.openingHours = tags.opening_hours;
+  const conditional = tags['foot:conditional'] ?? tags['access:conditional'];
+  if (conditional) access.conditional = conditional;
+
+  return Object.keys(access).length > 0 ? access : undefined;
+}
+
+const HIKING_NETWORKS: readonly HikingNetwork[] = ['iwn', 'nwn', 'rwn', 'lwn'];
+
+/**
+ * Waymarked hiking route from the tags of an OSM route relation
+ */
+export function parseHikingRoute(id: number | string, tags: Record<string, string>): HikingRoute {
+  const route: HikingRoute = { id: id.toString() };
+  if (tags.name) route.name = tags.name;
+  if (tags.ref) route.ref = tags.ref;
+  if ((HIKING_NETWORKS as readonly string[]).includes(tags.network)) route.network = tags.network as HikingNetwork;
+  if (tags['osmc:symbol']) route.symbol = tags['osmc:symbol'];
+  if (tags.colour) route.colour = tags.colour;
+  return route;
+}
+
+const NATURAL_LANDCOVER: Record<string, LandcoverType> = {
+  glacier: 'glacier',
+  scree: 'scree',
+  shingle: 'scree',
+  bare_rock: 'bare-rock',
+  wood: 'wood',
+  scrub: 'scrub',
+  heath: 'scrub',
+  grassland: 'grass',
+};
+
+const LANDUSE_LANDCOVER: Record<string, LandcoverType> = {
+  forest: 'wood',
+  meadow: 'grass',
+  grass: 'grass',
+};
+
+/**
+ * Ground cover from OSM natural and landuse tags
+ * @returns Land cover, or undefined for other features
+ */
+export function parseLandcover(tags: Record<string, string>): LandcoverType | undefined {
+  return NATURAL_LANDCOVER[tags.natural] ?? LANDUSE_LANDCOVER[tags.landuse];
+}
+
+/**
+ * Water crossing type from OSM bridge and ford tags
+ */
+export function parseWaterCrossing(tags: Record<string, string>): WaterCrossingType | undefined {
+  if (tags.bridge && tags.bridge !== 'no') return 'bridge';
+  if (tags.ford === 'yes') return 'ford';
+  if (tags.ford === 'stepping_stones') return 'stepping-stones';
+  return undefined;
+}
+
+/**
+ * Join multipolygon member ways into closed rings; OSM splits long rings across
+ * several ways, in any order and direction
+ * @param ways Member way geometries of one role
+ * @returns Closed rings, first vertex repeated at the end; open chains that cannot be closed are dropped
+ */
+export function assembleRings(ways: Coordinate[][]): Coordinate[][] {
+  const same = (a: Coordinate, b: Coordinate) => a.lat === b.lat && a.lng === b.lng;
+  const remaining = ways.filter(way => way.length >= 2);
+  const rings: Coordinate[][] = [];
+
+  while (remaining.length > 0) {
+    const ring = [...remaining.shift()!];
+    while (!same(ring[0], ring[ring.length - 1])) {
+      const tail = ring[ring.length - 1];
+      const next = remaining.findIndex(way => same(way[0], tail) || same(way[way.length - 1], tail));
+      if (next === -1) break;
+      const [way] = remaining.splice(next, 1);
+      ring.push(...(same(way[0], tail) ? way : [...way].reverse()).slice(1));
+    }
+    if (ring.length >= 4 && same(ring[0], ring[ring.length - 1])) rings.push(ring);
+  }
+  return rings;
+}
+
+interface OverpassMember {
+  type: string;
+  ref?: number;
+  role?: string;
+  geometry?: { lat: number; lon: number }[];
+}
+
+/**
+ * Node, way or relation of an Overpass response
+ */
+export interface OverpassElement {
+  type: string;
+  id: number;
+  tags?: Record<string, string>;
+  lat?: number;                               // Nodes
+  lon?: number;
+  geometry?: { lat: number; lon: number }[];  // Ways with out geom
+  members?: OverpassMember[];                 // Relations
+  bounds?: { minlat: number; minlon: number; maxlat: number; maxlon: number };
+}
+
+/**
+ * Polygons of a multipolygon relation: each outer ring with the inner rings inside it
+ */
+function parseMultipolygon(members: OverpassMember[]): { ring: Coordinate[]; holes: Coordinate[][] }[] {
+  const ringsOf = (role: string) => assembleRings(members
+    .filter(member => member.type === 'way' && member.role === role && member.geometry)
+    .map(member => member.geometry!.map(node => ({ lat: node.lat, lng: node.lon }))));
+  const inner = ringsOf('inner');
+
+  return ringsOf('outer').map(ring => ({ ring, holes: inner.filter(hole => isPointInPolygon(hole[0], ring)) }));
+}
+
 /**
- * Fetch trail data from OpenStreetMap using Overpass API
+ * Water areas from a natural=water multipolygon relation: one segment per outer
+ * ring, with the inner rings inside it as islands
  */
-export async function fetchTrailData(start: Coordinate, end: Coordinate): Promise<TrailNetwork> {
-  const bbox = calculateBoundingBox(start, end);
-  const cacheKey = getCacheKey(bbox);
+function parseWaterRelation(id: number, tags: Record<string, string>, members: OverpassMember[]): TrailSegment[] {
+  return parseMultipolygon(members).map(({ ring, holes }, index) => ({
+    id: `${id}-${index}`,
+    coordinates: ring,
+    name: tags.name,
+    isWater: true,
+    ...(holes.length > 0 && { innerRings: holes }),
+  }));
+}
+
+/**
+ * Land cover areas from a multipolygon relation, one per outer ring
+ */
+function parseLandcoverRelation(id: number, cover: LandcoverType, members: OverpassMember[]): LandcoverArea[] {
+  return parseMultipolygon(members).map(({ ring, holes }, index) => ({
+    id: `${id}-${index}`,
+    cover,
+    coordinates: ring,
+    ...(holes.length > 0 && { innerRings: holes }),
+  }));
+}
+
+/**
+ * Fetch trail data from OpenStreetMap using Overpass API.
+ * The area is assembled from cached slippy map tiles, and tiles missing from the
+ * cache or older than the TTL are fetched together from the Overpass endpoints.
+ * With the data proxy enabled, the trails route does this on the server instead.
+ * @param start Start coordinate
+ * @param end End coordinate
+ * @param paddingKm Padding around the start/end bounding box in km
+ * @param signal Aborts the request; the abort reason is rethrown
+ * @param filter Trail highway and piste types to fetch (walking trails by default)
+ * @throws OverpassError when no endpoint returns complete trail data
+ */
+export async function fetchTrailData(
+  start: Coordinate,
+  end: Coordinate,
+  paddingKm: number = TRAIL_BBOX_PADDING_KM,
+  signal?: AbortSignal,
+  filter: TrailQueryFilter = DEFAULT_TRAIL_QUERY
+): Promise<TrailNetwork> {
+  const bbox = calculateBoundingBox(start, end, paddingKm);
+  const queryKey = getTrailQueryKey(filter);
+  // Walking trails keep the plain bbox key; other filters are cached apart
+  const cacheKey = filter === DEFAULT_TRAIL_QUERY ? getCacheKey(bbox) : `${getCacheKey(bbox)}_${queryKey}`;
   
   // Check cache first
   const cached = trailCache.get(cacheKey);
   if (cached && isCacheValid(cached)) {
+    cacheTrailNetwork(cacheKey, cached);
     return cached;
   }
   
   try {
-    const query = buildOverpassQuery(bbox);
-    
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `data=${encodeURIComponent(query)}`,
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Overpass API error: ${response.status}`);
+    if (isDataProxyEnabled()) {
+      const network = await fetchTrailNetworkFromProxy(start, end, paddingKm, filter, signal);
+      network.spatialIndex = buildSpatialIndex(network.trails, network.bbox);
+      cacheTrailNetwork(cacheKey, network);
+      return network;
     }
-    
-    const data = await response.json();
-    
-    const trails: TrailSegment[] = [];
-    
-    // Process OSM ways into trail segments
-    for (const element of data.elements) {
-      if (element.type === 'way' && element.geometry) {
-        const coordinates: Coordinate[] = element.geometry.map((node: { lat: number; lon: number }) => ({
-          lat: node.lat,
-          lng: node.lon,
-        }));
-        
-        if (coordinates.length < 2) continue; // Skip invalid trails
-        
-        const tags = element.tags || {};
-        
-        // Identify water bodies
-        const isWater = tags.natural === 'water' || 
-                       tags.waterway === 'river' || 
-                       tags.waterway === 'stream' || 
-                       tags.waterway === 'canal';
-        
-        // Identify roads for faster travel
-        const isRoad = tags.highway && 
-                      ['tertiary', 'secondary', 'primary', 'trunk', 'residential', 'service'].includes(tags.highway);
-        
-        const trail: TrailSegment = {
-          id: element.id.toString(),
-          coordinates,
-          difficulty: parseTrailDifficulty(tags),
-          surface: tags.surface,
-          trail_visibility: tags.trail_visibility,
-          sac_scale: tags.sac_scale,
-          name: tags.name,
-          highway: tags.highway,
-          isWater,
-          isRoad,
-        };
-        
-        trails.push(trail);
-        
-        // Limit trails for performance - prevent browser crashes
-        if (trails.length >= 5000) {
-          break;
-        }
-      }
+
+    // Assemble the area from cached tiles, fetching the missing ones together
+    const tiles = getTrailTiles(bbox);
+    const keys = tiles.map(tile => getTrailTileKey(tile, queryKey));
+    const records = await readTrailTiles(keys);
+    const missing = tiles.flatMap((_, index) => (records[index] ? [] : [index]));
+    if (missing.length > 0) {
+      const elements = await fetchOverpassArea(
+        getTilesBounds(missing.map(index => tiles[index])),
+        area => buildOverpassQuery(area, filter),
+        signal
+      );
+      const cacheTime = Date.now();
+      const fetched = splitElementsIntoTiles(elements, missing.map(index => tiles[index]))
+        .map((tileElements, index): [string, TrailTileRecord] => [keys[missing[index]], { elements: tileElements, cacheTime }]);
+      storeTrailTiles(fetched);
+      fetched.forEach(([, record], index) => {
+        records[missing[index]] = record;
+      });
     }
+    const tileRecords = records as TrailTileRecord[];
+    const { trails, landcover, cliffs } = parseOverpassElements(mergeTileElements(tileRecords));
     
     // Build spatial index for faster lookups
     const spatialIndex = buildSpatialIndex(trails, bbox);
     
+    // The network expires with its oldest tile
     const network: TrailNetwork = {
       trails,
       bbox,
-      cacheTime: Date.now(),
+      cacheTime: Math.min(...tileRecords.map(record => record.cacheTime)),
       spatialIndex,
     };
+    if (landcover) network.landcover = landcover;
+    if (cliffs) network.cliffs = cliffs;
     
     // Cache the result
-    trailCache.set(cacheKey, network);
+    cacheTrailNetwork(cacheKey, network);
     
     return network;
     
   } catch (error) {
+    if (signal?.aborted) throw signal.reason;
     console.error('❌ Error fetching trail data:', error);
-    
-    // Return empty network on error
-    return {
-      trails: [],
-      bbox,
-      cacheTime: Date.now(),
-    };
+    throw error;
   }
 }
 
+/**
+ * Fetch a trail network from the app's trails route, which caches networks for all users
+ * @returns Network without spatial index
+ * @throws OverpassError when the route could not fetch trail data
+ */
+async function fetchTrailNetworkFromProxy(
+  start: Coordinate,
+  end: Coordinate,
+  paddingKm: number,
+  filter: TrailQueryFilter,
+  signal?: AbortSignal
+): Promise<TrailNetwork> {
+  // The route falls back to walking trails without a filter
+  const body = filter === DEFAULT_TRAIL_QUERY ? { start, end, paddingKm } : { start, end, paddingKm, filter };
+  const response = await postToDataProxy(DATA_PROXY_ROUTES.TRAILS, body, signal);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    if (data.kind) throw new OverpassError(data.kind, data.status);
+    throw new Error(data.error ?? `Trails API error: ${response.status}`);
+  }
+  if (!Array.isArray(data.trails) || !data.bbox) {
+    throw new OverpassError('invalid-response');
+  }
+  return data;
+}
+
+/**
+ * Parse Overpass elements into trails, land cover and cliffs
+ * @param elements Elements of an Overpass response, in any order
+ */
+export function parseOverpassElements(elements: OverpassElement[]): Pick<TrailNetwork, 'trails' | 'landcover' | 'cliffs'> {
+  const trails: TrailSegment[] = [];
+  const landcover: LandcoverArea[] = [];
+  const cliffs: Coordinate[][] = [];
+  const fordNodes = new Map<string, { coordinate: Coordinate; type: WaterCrossingType }>();
+  const vertexKey = (coordinate: Coordinate) => `${coordinate.lat}_${coordinate.lng}`;
+  
+  // Hiking routes of each member way, read first since relations come after their ways
+  const hikingRoutes = new Map<number, HikingRoute[]>();
+  for (const element of elements) {
+    if (element.type !== 'relation' || element.tags?.route !== 'hiking' || !element.members) continue;
+    const route = parseHikingRoute(element.id, element.tags);
+    for (const member of element.members) {
+      if (member.type !== 'way' || member.ref === undefined) continue;
+      hikingRoutes.set(member.ref, [...(hikingRoutes.get(member.ref) ?? []), route]);
+    }
+  }
+  
+  // Process OSM ways into trail segments
+  for (const element of elements) {
+    if (element.type === 'node') {
+      const type = parseWaterCrossing(element.tags || {});
+      const coordinate = { lat: element.lat!, lng: element.lon! };
+      if (type) fordNodes.set(vertexKey(coordinate), { coordinate, type });
+      continue;
+    }
+
+    if (element.type === 'relation' && element.members && element.tags?.natural === 'water') {
+      trails.push(...parseWaterRelation(element.id, element.tags, element.members));
+      continue;
+    }
+
+    const relationCover = element.type === 'relation' && element.members && parseLandcover(element.tags || {});
+    if (relationCover) {
+      landcover.push(...parseLandcoverRelation(element.id, relationCover, element.members!));
+      continue;
+    }
+
+    if (element.type === 'way' && element.geometry) {
+      const coordinates: Coordinate[] = element.geometry.map((node: { lat: number; lon: number }) => ({
+        lat: node.lat,
+        lng: node.lon,
+      }));
+      
+      if (coordinates.length < 2) continue; // Skip invalid trails
+      
+      const tags = element.tags || {};
+      
+      // Land cover and cliffs are terrain rather than trails; closed ways outline land cover areas
+      if (!tags.highway) {
+        const cover = parseLandcover(tags);
+        const first = coordinates[0];
+        const last = coordinates[coordinates.length - 1];
+        if (cover) {
+          if (coordinates.length >= 4 && first.lat === last.lat && first.lng === last.lng) {
+            landcover.push({ id: element.id.toString(), cover, coordinates });
+          }
+          continue;
+        }
+        if (tags.natural === 'cliff') {
+          cliffs.push(coordinates);
+          continue;
+        }
+      }
+      
+      // Identify water bodies; waterways in culverts run under the ground
+      const isWaterway = ['river', 'stream', 'canal'].includes(tags.waterway) && !tags.tunnel;
+      const isWater = tags.natural === 'water' || isWaterway;
+      
+      // Identify roads for faster travel
+      const isRoad = !!tags.highway && 
+                    ['tertiary', 'secondary', 'primary', 'trunk', 'residential', 'service'].includes(tags.highway);
+      
+      const trail: TrailSegment = {
+        id: element.id.toString(),
+        coordinates,
+        difficulty: parseTrailDifficulty(tags),
+        surface: tags.surface,
+        trail_visibility: tags.trail_visibility,
+        sac_scale: tags.sac_scale,
+        name: tags.name,
+        highway: tags.highway,
+        mtbScale: tags['mtb:scale'],
+        bicycle: tags.bicycle,
+        pisteType: tags['piste:type'],
+        isWater,
+        isRoad,
+      };
+      if (isWaterway) trail.waterway = tags.waterway;
+      const crossing = !isWater && parseWaterCrossing(tags);
+      if (crossing) trail.crossing = crossing;
+      const access = !isWater && parseTrailAccess(tags);
+      if (access) trail.access = access;
+      const routes = !isWater && hikingRoutes.get(element.id);
+      if (routes) trail.hikingRoutes = routes;
+      
+      trails.push(trail);
+      
+      // Limit trails for performance - prevent browser crashes
+      if (trails.length >= 5000) {
+        break;
+      }
+    }
+  }
+  
+  // Fords and stepping stones are nodes on the ways that cross the water there
+  if (fordNodes.size > 0) {
+    for (const trail of trails) {
+      if (trail.isWater) continue;
+      const crossingPoints = trail.coordinates.flatMap(coord => fordNodes.get(vertexKey(coord)) ?? []);
+      if (crossingPoints.length > 0) trail.crossingPoints = crossingPoints;
+    }
+  }
+
+  const network: Pick<TrailNetwork, 'trails' | 'landcover' | 'cliffs'> = { trails };
+  if (landcover.length > 0) network.landcover = landcover;
+  if (cliffs.length > 0) network.cliffs = cliffs;
+  return network;
+}
+
 /**
  * Build a spatial index for fast trail lookups
  * Divides the area into a grid and indexes trails by grid cells
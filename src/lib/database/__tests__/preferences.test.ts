@@ -0,0 +1,145 @@
+/**
+ * Unit tests for user preference database operations
+ */
+
+// Mock Supabase client
+const mockSupabaseClient = {
+  from: jest.fn(),
+};
+
+jest.mock('../../supabase', () => ({
+  getSupabaseClient: () => mockSupabaseClient,
+}));
+
+import { getUserPreferences, updateUserPreferences, getGradeLimitPreferences } from '../preferences';
+import { createUserPreferences, DEFAULT_USER_PREFERENCES } from '../../../types/database';
+import { DEFAULT_PATHFINDING_OPTIONS } from '../../../types/pathfinding';
+
+describe('User Preferences Database Operations', () => {
+  const userId = 'user-456';
+  const storedPreferences = createUserPreferences(userId, {
+    default_pathfinding_options: { ...DEFAULT_PATHFINDING_OPTIONS, maxSustainedGrade: 30, maxPitchGrade: 60 },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getUserPreferences', () => {
+    const mockQuery = (result: { data: unknown; error: unknown }) => {
+      const mockMaybeSingle = jest.fn().mockResolvedValue(result);
+      const mockEq = jest.fn().mockReturnValue({ maybeSingle: mockMaybeSingle });
+      const mockSelect = jest.fn().mockReturnValue({ eq: mockEq });
+      mockSupabaseClient.from.mockReturnValue({ select: mockSelect });
+      return { mockEq };
+    };
+
+    it('should load the stored preferences', async () => {
+      const { mockEq } = mockQuery({ data: storedPreferences, error: null });
+
+      const result = await getUserPreferences(userId);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(storedPreferences);
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('user_preferences');
+      expect(mockEq).toHaveBeenCalledWith('user_id', userId);
+    });
+
+    it('should fall back to the defaults when none are stored', async () => {
+      mockQuery({ data: null, error: null });
+
+      const result = await getUserPreferences(userId);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ user_id: userId, ...DEFAULT_USER_PREFERENCES });
+    });
+
+    it('should return the error when the query fails', async () => {
+      const mockError = { message: 'Database connection failed', code: 'CONNECTION_ERROR' };
+      mockQuery({ data: null, error: mockError });
+
+      const result = await getUserPreferences(userId);
+
+      expect(result.success).toBe(false);
+      expect(result.data).toBeNull();
+      expect(result.error).toEqual(mockError);
+    });
+
+    it('should handle unexpected errors', async () => {
+      mockSupabaseClient.from.mockImplementation(() => {
+        throw new Error('Network error');
+      });
+
+      const result = await getUserPreferences(userId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual({ message: 'Network error', code: 'FETCH_ERROR' });
+    });
+  });
+
+  describe('updateUserPreferences', () => {
+    const mockTable = (stored: unknown, loadError: unknown = null) => {
+      const mockMaybeSingle = jest.fn().mockResolvedValue({ data: stored, error: loadError });
+      const mockEq = jest.fn().mockReturnValue({ maybeSingle: mockMaybeSingle });
+      const mockSingle = jest.fn().mockResolvedValue({ data: storedPreferences, error: null });
+      const mockUpsert = jest.fn().mockReturnValue({ select: jest.fn().mockReturnValue({ single: mockSingle }) });
+      mockSupabaseClient.from.mockReturnValue({ select: jest.fn().mockReturnValue({ eq: mockEq }), upsert: mockUpsert });
+      return { mockUpsert };
+    };
+
+    it('should upsert the changes for the user', async () => {
+      const { mockUpsert } = mockTable(storedPreferences);
+
+      const result = await updateUserPreferences(userId, { units: 'imperial' });
+
+      expect(result.success).toBe(true);
+      expect(mockUpsert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: userId,
+        units: 'imperial',
+        default_pathfinding_options: storedPreferences.default_pathfinding_options,
+      }));
+    });
+
+    it('should merge pathfinding option changes into the stored options', async () => {
+      const { mockUpsert } = mockTable(storedPreferences);
+
+      await updateUserPreferences(userId, { default_pathfinding_options: { maxPitchGrade: 45 } });
+
+      expect(mockUpsert).toHaveBeenCalledWith(expect.objectContaining({
+        default_pathfinding_options: { ...DEFAULT_PATHFINDING_OPTIONS, maxSustainedGrade: 30, maxPitchGrade: 45 },
+        trail_preference: storedPreferences.trail_preference,
+      }));
+    });
+
+    it('should write the defaults with the changes when none are stored', async () => {
+      const { mockUpsert } = mockTable(null);
+
+      await updateUserPreferences(userId, { default_pathfinding_options: { maxSustainedGrade: 25 } });
+
+      expect(mockUpsert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: userId,
+        default_pathfinding_options: { ...DEFAULT_PATHFINDING_OPTIONS, maxSustainedGrade: 25 },
+      }));
+    });
+
+    it('should not write when the stored preferences cannot be loaded', async () => {
+      const mockError = { message: 'Database connection failed', code: 'CONNECTION_ERROR' };
+      const { mockUpsert } = mockTable(null, mockError);
+
+      const result = await updateUserPreferences(userId, { units: 'imperial' });
+
+      expect(result).toEqual({ success: false, data: null, error: mockError });
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getGradeLimitPreferences', () => {
+    it('should return the grade limits the user has set', () => {
+      expect(getGradeLimitPreferences(storedPreferences)).toEqual({ maxSustainedGrade: 30, maxPitchGrade: 60 });
+    });
+
+    it('should leave out limits that are not set', () => {
+      expect(getGradeLimitPreferences(createUserPreferences(userId))).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Database operations for user preferences
+ */
+
+import { getSupabaseClient } from '../supabase';
+import { UserPreferences, createUserPreferences } from '../../types/database';
+import { PathfindingOptions } from '../../types/pathfinding';
+
+/**
+ * Result wrapper for preference operations
+ */
+export interface PreferencesResult {
+  success: boolean;
+  data: UserPreferences | null;
+  error: { message: string; code?: string } | null;
+}
+
+/**
+ * Preference fields a user can change; pathfinding options are changed one by one
+ */
+export type UserPreferencesUpdate = Partial<Omit<UserPreferences, 'user_id' | 'default_pathfinding_options' | 'created_at' | 'updated_at'>> & {
+  default_pathfinding_options?: Partial<PathfindingOptions>;
+};
+
+/**
+ * Load a user's preferences, falling back to the defaults when none are stored yet
+ * @param userId User ID to load preferences for
+ * @returns Operation result with the user's preferences or error
+ */
+export async function getUserPreferences(userId: string): Promise<PreferencesResult> {
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        data: null,
+        error
+      };
+    }
+
+    return {
+      success: true,
+      data: data ?? createUserPreferences(userId),
+      error: null
+    };
+  } catch (error) {
+    return {
+      success: false,
+      data: null,
+      error: {
+        message: error instanceof Error ? error.message : 'Failed to fetch user preferences',
+        code: 'FETCH_ERROR'
+      }
+    };
+  }
+}
+
+/**
+ * Save changes to a user's preferences, creating them if none are stored yet.
+ * The changes are merged into the stored preferences, so the whole row is written
+ * and pathfinding options that are not changed are kept.
+ * @param userId User ID who owns the preferences
+ * @param updates Preference fields to change
+ * @returns Operation result with the saved preferences or error
+ */
+export async function updateUserPreferences(
+  userId: string,
+  updates: UserPreferencesUpdate
+): Promise<PreferencesResult> {
+  const current = await getUserPreferences(userId);
+  if (!current.success || !current.data) return current;
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .upsert({
+        ...current.data,
+        ...updates,
+        user_id: userId,
+        default_pathfinding_options: {
+          ...current.data.default_pathfinding_options,
+          ...updates.default_pathfinding_options
+        },
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        data: null,
+        error
+      };
+    }
+
+    return {
+      success: true,
+      data: data,
+      error: null
+    };
+  } catch (error) {
+    return {
+      success: false,
+      data: null,
+      error: {
+        message: error instanceof Error ? error.message : 'Failed to update user preferences',
+        code: 'UPDATE_ERROR'
+      }
+    };
+  }
+}
+
+/**
+ * Grade limits from a user's saved pathfinding options
+ * @param preferences User preferences
+ * @returns Maximum sustained and pitch grades, only those the user has set
+ */
+export function getGradeLimitPreferences(
+  preferences: UserPreferences
+): Pick<PathfindingOptions, 'maxSustainedGrade' | 'maxPitchGrade'> {
+  const { maxSustainedGrade, maxPitchGrade } = preferences.default_pathfinding_options;
+  return {
+    ...(typeof maxSustainedGrade === 'number' && { maxSustainedGrade }),
+    ...(typeof maxPitchGrade === 'number' && { maxPitchGrade }),
+  };
+}
@@ -0,0 +1,39 @@
+import { DATA_PROXY_ROUTES, isCoordinate, isDataProxyEnabled, postToDataProxy } from '../data-proxy';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('data-proxy', () => {
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_DATA_PROXY;
+    jest.clearAllMocks();
+  });
+
+  it('should be enabled in browsers by NEXT_PUBLIC_DATA_PROXY', () => {
+    expect(isDataProxyEnabled()).toBe(false);
+
+    process.env.NEXT_PUBLIC_DATA_PROXY = 'true';
+    expect(isDataProxyEnabled()).toBe(true);
+  });
+
+  it('should post lookups as JSON', async () => {
+    const controller = new AbortController();
+    await postToDataProxy(DATA_PROXY_ROUTES.ELEVATION, { coordinates: [] }, controller.signal);
+
+    expect(fetch).toHaveBeenCalledWith('/api/elevation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"coordinates":[]}',
+      signal: controller.signal,
+    });
+  });
+
+  it('should accept only coordinates on the globe', () => {
+    expect(isCoordinate({ lat: 46.5, lng: 8 })).toBe(true);
+    expect(isCoordinate({ lat: -90, lng: 180 })).toBe(true);
+    expect(isCoordinate({ lat: 91, lng: 8 })).toBe(false);
+    expect(isCoordinate({ lat: '46.5', lng: 8 })).toBe(false);
+    expect(isCoordinate({ lat: NaN, lng: 8 })).toBe(false);
+    expect(isCoordinate(null)).toBe(false);
+  });
+});
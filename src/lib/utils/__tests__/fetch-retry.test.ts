@@ -0,0 +1,72 @@
+import { fetchWithRetry, getRetryDelay, isRetryableStatus, RETRY_CONSTANTS } from '../fetch-retry';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('fetch-retry', () => {
+  const response = (status: number, retryAfter?: string) => ({
+    ok: status < 400,
+    status,
+    headers: { get: (name: string) => (name === 'Retry-After' ? retryAfter ?? null : null) },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should retry rate limiting and server errors only', () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(404)).toBe(false);
+    expect(isRetryableStatus(400)).toBe(false);
+  });
+
+  it('should back off exponentially unless the server says when to retry', () => {
+    expect(getRetryDelay(0)).toBe(RETRY_CONSTANTS.BASE_DELAY_MS);
+    expect(getRetryDelay(2)).toBe(RETRY_CONSTANTS.BASE_DELAY_MS * 4);
+    expect(getRetryDelay(20)).toBe(RETRY_CONSTANTS.MAX_DELAY_MS);
+    expect(getRetryDelay(0, response(429, '2') as unknown as Response)).toBe(2000);
+  });
+
+  it('should retry until a response succeeds', async () => {
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(response(429))
+      .mockResolvedValueOnce(response(500))
+      .mockResolvedValueOnce(response(200));
+
+    const result = fetchWithRetry('/api');
+    await jest.runAllTimersAsync();
+
+    expect((await result).status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the last response once retries run out, and not retry other errors', async () => {
+    (fetch as jest.Mock).mockResolvedValue(response(503));
+    const exhausted = fetchWithRetry('/api', {}, 2);
+    await jest.runAllTimersAsync();
+    expect((await exhausted).status).toBe(503);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    (fetch as jest.Mock).mockClear().mockResolvedValue(response(404));
+    expect((await fetchWithRetry('/api')).status).toBe(404);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting with the abort reason', async () => {
+    const controller = new AbortController();
+    (fetch as jest.Mock).mockResolvedValue(response(429));
+
+    const result = fetchWithRetry('/api', { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(result).rejects.toBe(controller.signal.reason);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,7 +2,11 @@ import {
   cn,
   calculateDistance,
   toRadians,
+  calculateDestination,
   calculateElevationGain,
+  calculateElevationLoss,
+  calculatePathDistance,
+  calculateDistanceToPath,
   formatDistance,
   formatElevation
 } from '../index';
@@ -158,6 +162,27 @@ describe('toRadians', () => {
   });
 });
 
+describe('calculateDestination', () => {
+  const origin: Coordinate = { lat: 46.5, lng: 8.0 };
+
+  it('should travel the requested distance', () => {
+    const destination = calculateDestination(origin, 45, 3);
+    expect(calculateDistance(origin, destination)).toBeCloseTo(3, 3);
+  });
+
+  it('should move due north for a bearing of 0', () => {
+    const destination = calculateDestination(origin, 0, 1);
+    expect(destination.lat).toBeGreaterThan(origin.lat);
+    expect(destination.lng).toBeCloseTo(origin.lng, 6);
+  });
+
+  it('should return the origin for zero distance', () => {
+    const destination = calculateDestination(origin, 90, 0);
+    expect(destination.lat).toBeCloseTo(origin.lat, 8);
+    expect(destination.lng).toBeCloseTo(origin.lng, 8);
+  });
+});
+
 describe('calculateElevationGain', () => {
   it('should calculate elevation gain for ascending points', () => {
     const points = [
@@ -263,6 +288,79 @@ describe('calculateElevationGain', () => {
   });
 });
 
+describe('calculateElevationLoss', () => {
+  it('should calculate elevation loss for descending points', () => {
+    const points = [
+      { elevation: 300 },
+      { elevation: 250 },
+      { elevation: 100 }
+    ];
+
+    expect(calculateElevationLoss(points)).toBe(200);
+  });
+
+  it('should ignore elevation gain', () => {
+    const points = [
+      { elevation: 100 },
+      { elevation: 200 }, // +100 (ignored)
+      { elevation: 150 }, // -50
+      { elevation: 250 }  // +100 (ignored)
+    ];
+
+    expect(calculateElevationLoss(points)).toBe(50);
+  });
+
+  it('should return 0 for empty array', () => {
+    expect(calculateElevationLoss([])).toBe(0);
+  });
+});
+
+describe('calculatePathDistance', () => {
+  it('should sum the distance of consecutive segments', () => {
+    const points: Coordinate[] = [
+      { lat: 46.0, lng: 8.0 },
+      { lat: 46.01, lng: 8.0 },
+      { lat: 46.02, lng: 8.0 }
+    ];
+
+    const expected = calculateDistance(points[0], points[1]) + calculateDistance(points[1], points[2]);
+    expect(calculatePathDistance(points)).toBeCloseTo(expected, 6);
+  });
+
+  it('should return 0 for fewer than two points', () => {
+    expect(calculatePathDistance([])).toBe(0);
+    expect(calculatePathDistance([{ lat: 46, lng: 8 }])).toBe(0);
+  });
+});
+
+describe('calculateDistanceToPath', () => {
+  const path: Coordinate[] = [
+    { lat: 46.0, lng: 8.0 },
+    { lat: 46.0, lng: 8.02 }
+  ];
+
+  it('should measure the perpendicular distance to the nearest segment', () => {
+    const point = { lat: 46.001, lng: 8.01 };
+
+    expect(calculateDistanceToPath(point, path)).toBeCloseTo(calculateDistance(point, { lat: 46.0, lng: 8.01 }), 3);
+  });
+
+  it('should measure to the nearest end beyond the path', () => {
+    const point = { lat: 46.0, lng: 8.03 };
+
+    expect(calculateDistanceToPath(point, path)).toBeCloseTo(calculateDistance(point, path[1]), 3);
+  });
+
+  it('should return 0 for a point on the path', () => {
+    expect(calculateDistanceToPath({ lat: 46.0, lng: 8.005 }, path)).toBeCloseTo(0, 6);
+  });
+
+  it('should handle single-point and empty paths', () => {
+    expect(calculateDistanceToPath({ lat: 46.01, lng: 8.0 }, [path[0]])).toBeCloseTo(calculateDistance({ lat: 46.01, lng: 8.0 }, path[0]), 6);
+    expect(calculateDistanceToPath(path[0], [])).toBe(Infinity);
+  });
+});
+
 describe('formatDistance', () => {
   it('should format distances under 1000m as meters', () => {
     expect(formatDistance(0)).toBe('0m');
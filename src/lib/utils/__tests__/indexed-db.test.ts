@@ -0,0 +1,11 @@
+import { isIndexedDbAvailable, readRecord, writeRecord, INDEXED_DB_CONSTANTS } from '../indexed-db';
+
+describe('indexed-db', () => {
+  // jsdom has no IndexedDB, like Node and some private browsing modes
+  it('should find nothing and refuse writes without IndexedDB', async () => {
+    expect(isIndexedDbAvailable()).toBe(false);
+    await expect(readRecord(INDEXED_DB_CONSTANTS.STORES.HGT_TILES, 'N46E008')).resolves.toBeUndefined();
+    await expect(writeRecord(INDEXED_DB_CONSTANTS.STORES.HGT_TILES, 'N46E008', new ArrayBuffer(8)))
+      .rejects.toThrow('IndexedDB is not available');
+  });
+});
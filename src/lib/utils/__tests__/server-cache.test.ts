@@ -0,0 +1,101 @@
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  createFileCacheStore,
+  createMemoryCacheStore,
+  getServerCacheStore,
+  ServerCacheStore,
+  setServerCacheStore
+} from '../server-cache';
+
+describe('server-cache', () => {
+  const network = { trails: [{ id: '1' }], cacheTime: 1000 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setServerCacheStore(null);
+    delete process.env.SERVER_CACHE_DIR;
+  });
+
+  describe('createMemoryCacheStore', () => {
+    it('should keep entries until they expire', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const store = createMemoryCacheStore();
+
+      await store.set('trails:a', network, 1000);
+      await expect(store.get('trails:a')).resolves.toEqual(network);
+      await expect(store.get('trails:b')).resolves.toBeUndefined();
+
+      now.mockReturnValue(1000);
+      await expect(store.get('trails:a')).resolves.toBeUndefined();
+    });
+
+    it('should drop the least recently used entries', async () => {
+      const store = createMemoryCacheStore(2);
+
+      await store.set('a', 1, 1000);
+      await store.set('b', 2, 1000);
+      await store.get('a');
+      await store.set('c', 3, 1000);
+
+      await expect(store.get('a')).resolves.toBe(1);
+      await expect(store.get('b')).resolves.toBeUndefined();
+      await expect(store.get('c')).resolves.toBe(3);
+    });
+  });
+
+  describe('createFileCacheStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'server-cache-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should keep entries as files until they expire', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const cacheDirectory = path.join(directory, 'cache');
+      const store = createFileCacheStore(cacheDirectory);
+
+      await store.set('trails:a', network, 1000);
+      await expect(createFileCacheStore(cacheDirectory).get('trails:a')).resolves.toEqual(network);
+      expect(await readdir(cacheDirectory)).toHaveLength(1);
+
+      now.mockReturnValue(1000);
+      await expect(store.get('trails:a')).resolves.toBeUndefined();
+      expect(await readdir(cacheDirectory)).toHaveLength(0);
+    });
+
+    it('should treat missing and unreadable files as missing entries', async () => {
+      const store = createFileCacheStore(directory);
+      await store.set('a', 1, 1000);
+      const [file] = await readdir(directory);
+      await writeFile(path.join(directory, file), '{"value":');
+
+      await expect(store.get('a')).resolves.toBeUndefined();
+      await expect(store.get('b')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getServerCacheStore', () => {
+    it('should cache in memory unless SERVER_CACHE_DIR is set', async () => {
+      const memory = getServerCacheStore();
+      expect(getServerCacheStore()).toBe(memory);
+
+      setServerCacheStore(null);
+      process.env.SERVER_CACHE_DIR = path.join(tmpdir(), 'unused-server-cache');
+      expect(getServerCacheStore()).not.toBe(memory);
+    });
+
+    it('should use the store that was set', () => {
+      const store: ServerCacheStore = { get: jest.fn(), set: jest.fn() };
+      setServerCacheStore(store);
+
+      expect(getServerCacheStore()).toBe(store);
+    });
+  });
+});
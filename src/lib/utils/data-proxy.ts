@@ -0,0 +1,51 @@
+/**
+ * The app's own routes for trail and elevation lookups, which share a server-side cache
+ */
+import { Coordinate } from '@/types/route';
+
+/**
+ * Paths of the proxy routes
+ */
+export const DATA_PROXY_ROUTES = {
+  /** POST { start, end, paddingKm?, filter? }, answers a TrailNetwork without spatial index */
+  TRAILS: '/api/trails',
+  /** POST { coordinates }, answers { elevations } */
+  ELEVATION: '/api/elevation',
+} as const;
+
+/**
+ * Whether lookups go through the proxy routes: NEXT_PUBLIC_DATA_PROXY is 'true' and
+ * this is a browser or worker. The routes themselves run on the server, where lookups
+ * always go to the data sources.
+ */
+export function isDataProxyEnabled(): boolean {
+  const inBrowser = typeof window !== 'undefined' || 'WorkerGlobalScope' in globalThis;
+  return inBrowser && process.env.NEXT_PUBLIC_DATA_PROXY === 'true';
+}
+
+/**
+ * Post a JSON lookup to a proxy route
+ * @param route Route path from DATA_PROXY_ROUTES
+ * @param body Request body
+ * @param signal Aborts the request
+ * @returns The route's response; errors answer { error } with a 4xx or 5xx status
+ */
+export function postToDataProxy(route: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  return fetch(route, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+/**
+ * Check that a request value is a coordinate on the globe
+ */
+export function isCoordinate(value: unknown): value is Coordinate {
+  const { lat, lng } = (value ?? {}) as Partial<Coordinate>;
+  return typeof lat === 'number' && typeof lng === 'number'
+    && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
@@ -0,0 +1,77 @@
+/**
+ * Retrying fetch for public APIs that rate limit or fail under load
+ */
+
+/**
+ * Constants for retried requests
+ */
+export const RETRY_CONSTANTS = {
+  /** Retries after the first attempt */
+  MAX_RETRIES: 3,
+  /** Delay before the first retry; it doubles with every further retry (ms) */
+  BASE_DELAY_MS: 500,
+  /** Longest delay between attempts, also for a server's Retry-After (ms) */
+  MAX_DELAY_MS: 8000,
+} as const;
+
+/**
+ * Whether a response status is worth retrying: rate limiting or a server error
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before a retry: the server's Retry-After in seconds when given, otherwise
+ * exponential backoff, both capped at MAX_DELAY_MS
+ * @param attempt Retries made so far
+ * @param response Response that failed
+ */
+export function getRetryDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers?.get('Retry-After'));
+  const delay = retryAfter > 0 ? retryAfter * 1000 : RETRY_CONSTANTS.BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(delay, RETRY_CONSTANTS.MAX_DELAY_MS);
+}
+
+/**
+ * Wait for a delay, stopping early with the abort reason
+ */
+function wait(delay: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Fetch, retrying with backoff while the response is rate limited (429) or a server error (5xx).
+ * Network errors and aborts are not retried.
+ * @param input Request URL
+ * @param init Request options; its signal also stops the waits between attempts
+ * @param maxRetries Retries after the first attempt
+ * @returns The first response that is not retryable, or the last response once retries run out
+ */
+export async function fetchWithRetry(
+  input: string,
+  init: RequestInit = {},
+  maxRetries: number = RETRY_CONSTANTS.MAX_RETRIES
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(input, init);
+    if (response.ok || !isRetryableStatus(response.status) || attempt >= maxRetries) {
+      return response;
+    }
+    await wait(getRetryDelay(attempt, response), init.signal);
+  }
+}
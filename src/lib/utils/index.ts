@@ -24,6 +24,25 @@ export function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+export function calculateDestination(origin: Coordinate, bearingDegrees: number, distanceKm: number): Coordinate {
+  const R = 6371; // Earth's radius in kilometers
+  const angularDistance = distanceKm / R;
+  const bearing = toRadians(bearingDegrees);
+  const lat1 = toRadians(origin.lat);
+  const lng1 = toRadians(origin.lng);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angularDistance) +
+    Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+  );
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+    Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return { lat: lat2 * 180 / Math.PI, lng: lng2 * 180 / Math.PI };
+}
+
 export function calculateElevationGain(points: Array<{ elevation: number }>): number {
   let gain = 0;
   for (let i = 1; i < points.length; i++) {
@@ -33,6 +52,45 @@ export function calculateElevationGain(points: Array<{ elevation: number }>): nu
   return gain;
 }
 
+export function calculateElevationLoss(points: Array<{ elevation: number }>): number {
+  let loss = 0;
+  for (let i = 1; i < points.length; i++) {
+    const diff = points[i - 1].elevation - points[i].elevation;
+    if (diff > 0) loss += diff;
+  }
+  return loss;
+}
+
+export function calculatePathDistance(points: Coordinate[]): number {
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += calculateDistance(points[i - 1], points[i]);
+  }
+  return distance;
+}
+
+export function calculateDistanceToPath(point: Coordinate, path: Coordinate[]): number {
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) return calculateDistance(point, path[0]);
+
+  // Project onto a local flat plane around the point (km), accurate at trail scale
+  const kmPerDegree = toRadians(6371);
+  const kmPerDegreeLng = kmPerDegree * Math.cos(toRadians(point.lat));
+  let nearest = Infinity;
+
+  for (let i = 1; i < path.length; i++) {
+    const ax = (path[i - 1].lng - point.lng) * kmPerDegreeLng;
+    const ay = (path[i - 1].lat - point.lat) * kmPerDegree;
+    const dx = (path[i].lng - point.lng) * kmPerDegreeLng - ax;
+    const dy = (path[i].lat - point.lat) * kmPerDegree - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+    nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+
+  return nearest;
+}
+
 export function formatDistance(meters: number): string {
   if (meters < 1000) {
     return `${Math.round(meters)}m`;
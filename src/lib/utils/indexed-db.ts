@@ -0,0 +1,113 @@
+/**
+ * Small promise wrapper around the browser's IndexedDB for persistent caches
+ */
+
+/**
+ * Database and object stores used by the app
+ */
+export const INDEXED_DB_CONSTANTS = {
+  DATABASE_NAME: 'alpine-route-optimizer',
+  /** Raised whenever a store is added */
+  VERSION: 3,
+  STORES: {
+    /** SRTM .hgt elevation tiles by tile name, e.g. N46E008 */
+    HGT_TILES: 'hgt-tiles',
+    /** Elevations in m by provider and rounded coordinate */
+    ELEVATIONS: 'elevations',
+    /** Overpass elements of slippy map tiles by trail query and tile, e.g. walking/13/4277/2904 */
+    TRAIL_TILES: 'trail-tiles',
+  },
+} as const;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB exists here; it does not in Node or some private browsing modes
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Wait for an IndexedDB request
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open the app database once, creating any missing store
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(INDEXED_DB_CONSTANTS.DATABASE_NAME, INDEXED_DB_CONSTANTS.VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of Object.values(INDEXED_DB_CONSTANTS.STORES)) {
+          if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open is retried next time
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Read a record from an object store
+ * @param store Object store name
+ * @param key Record key
+ * @returns The record, or undefined when it is missing or IndexedDB is unavailable
+ */
+export async function readRecord<T>(store: string, key: string): Promise<T | undefined> {
+  if (!isIndexedDbAvailable()) return undefined;
+  const database = await openDatabase();
+  return requestToPromise<T | undefined>(database.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+/**
+ * Read several records from an object store in one transaction
+ * @param store Object store name
+ * @param keys Record keys
+ * @returns The records in key order, undefined where missing; all undefined when IndexedDB is unavailable
+ */
+export async function readRecords<T>(store: string, keys: string[]): Promise<(T | undefined)[]> {
+  if (!isIndexedDbAvailable() || keys.length === 0) return keys.map(() => undefined);
+  const database = await openDatabase();
+  const objectStore = database.transaction(store, 'readonly').objectStore(store);
+  return Promise.all(keys.map(key => requestToPromise<T | undefined>(objectStore.get(key))));
+}
+
+/**
+ * Write a record to an object store, replacing any record with the same key
+ * @param store Object store name
+ * @param key Record key
+ * @param value Record to store
+ * @throws Error when IndexedDB is unavailable
+ */
+export async function writeRecord<T>(store: string, key: string, value: T): Promise<void> {
+  if (!isIndexedDbAvailable()) throw new Error('IndexedDB is not available');
+  const database = await openDatabase();
+  await requestToPromise(database.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+/**
+ * Write several records to an object store in one transaction
+ * @param store Object store name
+ * @param entries Keys and records to store
+ * @throws Error when IndexedDB is unavailable
+ */
+export async function writeRecords<T>(store: string, entries: [string, T][]): Promise<void> {
+  if (!isIndexedDbAvailable()) throw new Error('IndexedDB is not available');
+  const database = await openDatabase();
+  const objectStore = database.transaction(store, 'readwrite').objectStore(store);
+  await Promise.all(entries.map(([key, value]) => requestToPromise(objectStore.put(value, key))));
+}
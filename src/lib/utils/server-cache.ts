@@ -0,0 +1,112 @@
+/**
+ * Caches for the server's proxy routes, shared by all users
+ */
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Constants for server-side caches
+ */
+export const SERVER_CACHE_CONSTANTS = {
+  /** Entries kept by the in-memory store; the least recently used are dropped first */
+  MAX_MEMORY_ENTRIES: 10000,
+} as const;
+
+/**
+ * Key-value store for cached lookups. Implement it to cache in a shared service such
+ * as Redis, and install it with setServerCacheStore.
+ */
+export interface ServerCacheStore {
+  /**
+   * Read an entry
+   * @returns The value, or undefined when missing or expired
+   */
+  get<T>(key: string): Promise<T | undefined>;
+  /**
+   * Write an entry
+   * @param ttl How long the value is kept (ms)
+   */
+  set<T>(key: string, value: T, ttl: number): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expires: number;
+}
+
+let configuredStore: ServerCacheStore | null = null;
+
+/**
+ * Store keeping entries in the server's memory, lost on restart
+ * @param maxEntries Entries kept
+ */
+export function createMemoryCacheStore(maxEntries: number = SERVER_CACHE_CONSTANTS.MAX_MEMORY_ENTRIES): ServerCacheStore {
+  // Least recently used first
+  const entries = new Map<string, CacheEntry<unknown>>();
+
+  return {
+    get: async <T>(key: string) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expires <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+    set: async (key, value, ttl) => {
+      entries.delete(key);
+      entries.set(key, { value, expires: Date.now() + ttl });
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+  };
+}
+
+/**
+ * Store keeping each entry as a JSON file in a directory, for local development
+ * and single-server deployments. Unreadable files count as missing.
+ * @param directory Cache directory, created on first write
+ */
+export function createFileCacheStore(directory: string): ServerCacheStore {
+  const fileOf = (key: string) => path.join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    get: async <T>(key: string) => {
+      let entry: CacheEntry<T>;
+      try {
+        entry = JSON.parse(await fs.readFile(fileOf(key), 'utf8'));
+      } catch {
+        return undefined;
+      }
+      if (entry.expires > Date.now()) return entry.value;
+      await fs.rm(fileOf(key), { force: true });
+      return undefined;
+    },
+    set: async (key, value, ttl) => {
+      await fs.mkdir(directory, { recursive: true });
+      // Write a temporary file first, so readers never see half an entry
+      const file = fileOf(key);
+      const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify({ value, expires: Date.now() + ttl }));
+      await fs.rename(temporary, file);
+    },
+  };
+}
+
+/**
+ * Get the store in use, created on first use: files in SERVER_CACHE_DIR when set, memory otherwise
+ */
+export function getServerCacheStore(): ServerCacheStore {
+  configuredStore ??= process.env.SERVER_CACHE_DIR
+    ? createFileCacheStore(process.env.SERVER_CACHE_DIR)
+    : createMemoryCacheStore();
+  return configuredStore;
+}
+
+/**
+ * Replace the store in use
+ * @param store Store to use, or null to go back to the configured one
+ */
+export function setServerCacheStore(store: ServerCacheStore | null): void {
+  configuredStore = store;
+}
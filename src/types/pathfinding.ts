@@ -1,3 +1,5 @@
+import { Coordinate, RoutePoint } from './route';
+
 export interface PathfindingOptions {
   maxIterations: number;
   offTrailPenalty: number;     // Multiplier for off-trail movement (1.0 = no penalty, 2.0 = double cost)
@@ -6,6 +8,74 @@ export interface PathfindingOptions {
   maxWaypoints: number;        // Maximum waypoints for trail guidance
   waypointDistance: number;    // Distance between waypoints in km
   roadsOnly: boolean;          // If true, only use roads, ignore all trails/paths
+  avoidAreas?: AvoidArea[];    // Areas and lines the route must avoid or should prefer to avoid
+  maxSustainedGrade?: number;  // Steepest grade in percent allowed over GRADE_LIMIT_CONSTANTS.SUSTAINED_LENGTH_KM
+  maxPitchGrade?: number;      // Steepest grade in percent allowed over a short pitch (GRADE_LIMIT_CONSTANTS.PITCH_LENGTH_KM)
+  costModel?: CostModelId;     // What a route optimises for (defaults to 'tobler', travel time)
+  activity?: ActivityId;       // Who travels the route: speeds, usable trails, terrain costs and default grade limits (defaults to 'hiking')
+  winterMode?: AvoidAreaMode;  // Avoid avalanche release-angle slopes and their runout zones as barriers or penalties (off when unset)
+  maxSacScale?: SacScale;      // Hardest SAC hiking grade of the trails the route may follow (no limit when unset)
+  sacScaleMultipliers?: Partial<Record<SacScale, number>>; // Trail cost multiplier per SAC grade, at least 1 (defaults to DEFAULT_SAC_SCALE_MULTIPLIERS)
+  plannedDate?: string;        // Day the route is travelled (YYYY-MM-DD), for seasonal and conditional trail access; such access is uncertain when unset
+  waymarkedRouteBonus?: number; // Cost multiplier for trails on waymarked hiking routes, at most 1 (defaults to WAYMARKED_ROUTE_CONSTANTS.DEFAULT_BONUS)
+  allowGlaciers?: boolean;     // Let routes cross glaciers, on or off trail; glaciers are barriers when unset
+}
+
+/**
+ * Swiss Alpine Club hiking grade (OSM sac_scale), from valley paths to difficult alpine routes
+ */
+export type SacScale =
+  | 'T1'   // hiking
+  | 'T2'   // mountain_hiking
+  | 'T3'   // demanding_mountain_hiking
+  | 'T4'   // alpine_hiking
+  | 'T5'   // demanding_alpine_hiking
+  | 'T6';  // difficult_alpine_hiking
+
+/**
+ * Network level of a waymarked hiking route (OSM network tag)
+ */
+export type HikingNetwork =
+  | 'iwn'   // International
+  | 'nwn'   // National
+  | 'rwn'   // Regional
+  | 'lwn';  // Local
+
+/**
+ * Activities the pathfinder has profiles for
+ */
+export type ActivityId =
+  | 'hiking'
+  | 'trail-running'
+  | 'mountain-biking'
+  | 'ski-touring';
+
+/**
+ * Built-in cost models the pathfinder can optimise for
+ */
+export type CostModelId =
+  | 'tobler'     // Travel time from Tobler's hiking function, or the activity's speed curve
+  | 'minetti'    // Metabolic energy from Minetti's gradient polynomial
+  | 'combined';  // Equal blend of time and energy
+
+/**
+ * How the pathfinder treats an avoid area
+ */
+export type AvoidAreaMode =
+  | 'barrier'   // Never entered or crossed
+  | 'penalty';  // Crossed only when it saves enough, at a multiplied cost
+
+/**
+ * Area or line drawn by the user that routes should steer around,
+ * such as a closed path, private land or a rockfall zone
+ */
+export interface AvoidArea {
+  id: string;
+  shape: 'polygon' | 'line';   // Polygons are closed implicitly; lines are avoided within a buffer
+  coordinates: Coordinate[];
+  mode: AvoidAreaMode;
+  penalty?: number;            // Cost multiplier inside a penalty area (defaults to AVOID_AREA_CONSTANTS.DEFAULT_PENALTY)
+  label?: string;
 }
 
 export const DEFAULT_PATHFINDING_OPTIONS: PathfindingOptions = {
@@ -18,7 +88,165 @@ export const DEFAULT_PATHFINDING_OPTIONS: PathfindingOptions = {
   roadsOnly: false,  // Default to using all available paths
 };
 
-// Preset configurations for common use cases
+/**
+ * Target for round-trip (loop) route generation; provide a distance, a duration or both
+ */
+export interface LoopTarget {
+  distance?: number;           // Target loop length in km
+  duration?: number;           // Target walking time in hours
+}
+
+/**
+ * How a route was produced, from a full optimisation to an emergency fallback
+ */
+export type PathfindingStrategy =
+  | 'short-direct'     // Straight line used for short routes
+  | 'direct-trail'     // Single trail linking start and end
+  | 'trail-graph'      // Search over the trail network graph
+  | 'grid-search'      // A* over the terrain grid
+  | 'trail-snapping'   // Straight-line samples snapped onto nearby trails
+  | 'straight-line';   // Straight line after every other strategy failed
+
+/**
+ * External data source used during pathfinding
+ */
+export type PathfindingDataSource = 'elevation' | 'trails';
+
+/**
+ * What happened while a route was computed
+ */
+export interface PathfindingDiagnostics {
+  strategy: PathfindingStrategy;
+  degraded: boolean;                       // True when the route is a fallback rather than an optimisation
+  fallbackReasons: string[];               // Why earlier strategies were skipped or failed, in order
+  iterations: number;                      // Grid search iterations
+  nodesExpanded: number;                   // Grid and trail graph nodes expanded
+  elapsedMs: number;
+  failedSources: PathfindingDataSource[];
+  warnings: string[];
+  blockedAvoidAreas: string[];             // Barrier avoid areas the route still enters: no route respecting them was found
+  gradeLimits?: GradeLimitReport;          // Steepest grades of the route, when grade limits were set
+  avalanche?: AvalancheReport;             // Avalanche terrain along the route, in winter mode with the elevation grid
+  sacScale?: SacScaleReport;               // Hardest SAC-graded trail along the route, when it follows any
+  waymarkedRoutes?: WaymarkedRouteSection[]; // Waymarked hiking routes the route follows, in order
+  elevationCache?: ElevationCacheReport;   // Elevation lookups made while the route was computed, when there were any
+}
+
+/**
+ * How elevation lookups were answered
+ */
+export interface ElevationCacheReport {
+  lookups: number;                         // Coordinates looked up
+  memoryHits: number;                      // Answered from the in-memory cache
+  persistentHits: number;                  // Answered from the IndexedDB cache
+  fetched: number;                         // Answered by the elevation provider
+  hitRate: number;                         // Share of lookups answered from either cache, 0-1
+}
+
+/**
+ * Stretch of a route along a waymarked hiking route
+ */
+export interface WaymarkedRouteSection {
+  startDistance: number;                   // Distance markers along the route, in km
+  endDistance: number;
+  name: string;                            // Route name, or its ref when unnamed
+  colour?: string;                         // Waymark colour from the osmc:symbol or colour tag
+  network?: HikingNetwork;
+}
+
+/**
+ * Stretch of a route along a trail of one SAC grade
+ */
+export interface SacScaleSection {
+  startDistance: number;                   // Distance markers along the route, in km
+  endDistance: number;
+  grade: SacScale;
+  trailName?: string;
+}
+
+/**
+ * SAC grades of the trails a route follows
+ */
+export interface SacScaleReport {
+  maxSacScale?: SacScale;                  // Limit from the options
+  hardestGrade: SacScale;                  // Hardest grade of any trail the route follows
+  hardestSection: SacScaleSection;         // Longest stretch at the hardest grade
+}
+
+/**
+ * Steepest grades of a route next to the grade limits it was planned with
+ */
+export interface GradeLimitReport {
+  maxSustainedGrade?: number;              // Limits from the options, in percent
+  maxPitchGrade?: number;
+  steepestSustainedGrade: number;          // Steepest grades along the route, in percent
+  steepestPitchGrade: number;
+}
+
+/**
+ * Simplified ATES (Avalanche Terrain Exposure Scale) class of a route or segment
+ */
+export type AvalancheTerrainClass =
+  | 'simple'        // Clear of release-angle slopes and their runout zones
+  | 'challenging'   // Crosses runout zones below release-angle slopes
+  | 'complex';      // Crosses release-angle slopes (30-45°)
+
+/**
+ * Stretch of a route through avalanche terrain
+ */
+export interface AvalancheSection {
+  startDistance: number;                   // Distance markers along the route, in km
+  endDistance: number;
+  terrainClass: AvalancheTerrainClass;     // Worst class along the stretch
+  maxSlopeAngle: number;                   // Steepest slope angle crossed, in degrees
+}
+
+/**
+ * Avalanche terrain along a route
+ */
+export interface AvalancheReport {
+  terrainClass: AvalancheTerrainClass;     // Worst class of any segment
+  segments: AvalancheTerrainClass[];       // Class of each segment between consecutive route points
+  sections: AvalancheSection[];            // Consecutive segments through avalanche terrain, merged
+}
+
+/**
+ * Route points together with how they were computed
+ */
+export interface PathfindingResult {
+  points: RoutePoint[];
+  diagnostics: PathfindingDiagnostics;
+}
+
+/**
+ * Stage of a running route computation
+ */
+export type PathfindingStage =
+  | 'fetching-trails'      // Trail (and route elevation) data is being fetched
+  | 'fetching-elevation'   // Elevation of route points is being fetched
+  | 'searching'            // A route is being searched
+  | 'post-processing';     // The found route is being refined
+
+/**
+ * Progress event emitted while a route is computed
+ */
+export interface PathfindingProgress {
+  stage: PathfindingStage;
+  iterations?: number;     // Grid search iterations so far, while searching
+  maxIterations?: number;  // Grid search iteration limit, while searching
+}
+
+/**
+ * Cancellation and progress reporting for a route computation.
+ * Kept apart from PathfindingOptions, which must stay serialisable.
+ */
+export interface PathfindingControl {
+  signal?: AbortSignal;
+  onProgress?: (progress: PathfindingProgress) => void;
+}
+
+// Preset configurations for common use cases. Presets tune trail preference and search
+// effort for any activity, e.g. { ...PATHFINDING_PRESETS.FAVOR_TRAILS_HEAVILY, activity: 'mountain-biking' }
 export const PATHFINDING_PRESETS = {
   FAVOR_TRAILS_HEAVILY: {
     maxIterations: 1500,
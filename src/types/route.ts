@@ -1,3 +1,5 @@
+import { PathfindingDiagnostics, SacScaleReport, WaymarkedRouteSection } from './pathfinding';
+
 export interface Coordinate {
   lat: number;
   lng: number;
@@ -8,8 +10,17 @@ export interface RoutePoint extends Coordinate {
   elevation: number;
   difficulty?: number;
   weatherRisk?: number;
+  crossing?: WaterCrossingType; // How the route crosses water on its way to this point
 }
 
+/**
+ * Way over a river, stream or water body from OpenStreetMap
+ */
+export type WaterCrossingType =
+  | 'bridge'            // bridge=*
+  | 'ford'              // ford=yes
+  | 'stepping-stones';  // ford=stepping_stones
+
 export interface Route {
   id: string;
   name: string;
@@ -22,6 +33,55 @@ export interface Route {
   estimatedTime: number;
   createdAt: Date;
   weather?: WeatherData;
+  viaPoints?: Coordinate[];
+  legs?: RouteLeg[];
+  sacScale?: SacScaleReport; // Hardest SAC-graded trail along the route, which sets its difficulty
+  waymarkedRoutes?: WaymarkedRouteSection[]; // Waymarked hiking routes the route follows, in order
+}
+
+/**
+ * One leg of a multi-waypoint route, between two consecutive waypoints
+ */
+export interface RouteLeg {
+  start: Coordinate;
+  end: Coordinate;
+  /** Index of the leg's first point in the stitched route points */
+  startIndex: number;
+  /** Index of the leg's last point in the stitched route points */
+  endIndex: number;
+  distance: number;       // km
+  elevationGain: number;  // m
+  elevationLoss: number;  // m
+}
+
+/**
+ * Candidate round-trip route returned by loop generation
+ */
+export interface LoopRoute {
+  points: RoutePoint[];
+  distance: number;           // km
+  estimatedDuration: number;  // hours
+  cost: number;               // Summed movement cost
+  reusedDistance: number;     // km of trail travelled more than once
+  targetDeviation: number;    // Relative deviation from the loop target (0 = exact match)
+  sacScale?: SacScaleReport;  // Hardest SAC-graded trail along the loop, when it follows any
+  waymarkedRoutes?: WaymarkedRouteSection[]; // Waymarked hiking routes the loop follows, in order
+  diagnostics?: PathfindingDiagnostics; // How the loop was planned: fallbacks, warnings and constraint checks
+}
+
+/**
+ * One of several alternative routes between the same start and end
+ */
+export interface RouteAlternative {
+  points: RoutePoint[];
+  distance: number;       // km
+  elevationGain: number;  // m
+  estimatedTime: number;  // hours
+  trailShare: number;     // Share of the distance on trails or roads (0-1)
+  overlap: number;        // Largest share of the distance shared with an earlier alternative (0-1)
+  sacScale?: SacScaleReport; // Hardest SAC-graded trail along the route, when it follows any
+  waymarkedRoutes?: WaymarkedRouteSection[]; // Waymarked hiking routes the route follows, in order
+  diagnostics?: PathfindingDiagnostics; // How this alternative was planned: strategy, fallbacks, warnings and constraint checks
 }
 
 export interface WeatherData {